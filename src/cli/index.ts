@@ -1,14 +1,44 @@
-import { readFileSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve, dirname, join } from 'path';
+import { createInterface, type Interface } from 'readline';
 import { fileURLToPath } from 'url';
 import { simpleGit } from 'simple-git';
 import gitUrlParse from 'git-url-parse';
-import { Command } from 'commander';
-import { runPullRequest, type PullRequestContext } from '../core/orchestrator.js';
+import { Command, type OptionValues } from 'commander';
+import { runPullRequest, type PullRequestContext, type TestGenerationSummary } from '../core/orchestrator.js';
 import { runLocal } from '../core/local-orchestrator.js';
-import { error, info, debug } from '../utils/logger.js';
+import { DEFAULT_BACKFILL_LIMIT } from '../core/backfill.js';
+import { runWatch } from '../core/watch.js';
+import { runFix } from '../core/fix.js';
+import { runReview } from '../core/review.js';
+import { runDoctor, printDoctorReport } from '../core/doctor.js';
+import { writeRunReport, inferReportFormat, REPORT_FORMATS, type ReportFormat } from '../core/report.js';
+import { resolveErrorExit, resolveSummaryExit, classifyError, EXIT_CODES } from '../core/exit-codes.js';
+import { error, info, debug, success, warn, logToStderr } from '../utils/logger.js';
 import { loadConfig } from '../utils/config-loader.js';
+import { DEFAULT_MODELS } from '../llm/models.js';
 import { findProjectRoot } from '../utils/config-loader.js';
+import {
+  detectInitConfig,
+  detectModuleFormat,
+  findExistingConfigFile,
+  renderConfigFile,
+  INIT_CONFIG_FILENAME,
+  type InitConfigValues,
+} from '../utils/config-initializer.js';
+import { KakarotError } from '../types/errors.js';
+import {
+  FAILURE_CLASSES,
+  LLM_PROVIDERS,
+  MAX_CONCURRENCY,
+  TEST_DIRECTORIES,
+  TEST_FILE_PATTERNS,
+  TEST_FRAMEWORKS,
+  TEST_LOCATIONS,
+  TEST_MODES,
+  type FailureClass,
+  type TestMode,
+} from '../types/config.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const pkg = JSON.parse(readFileSync(resolve(__dirname, '../../package.json'), 'utf-8'));
@@ -111,39 +141,184 @@ function extractPRNumber(eventPath?: string): number | null {
 }
 
 /**
- * Main CLI function
+ * Prompt for one of a fixed set of values, re-asking until the answer is valid.
+ * An empty answer keeps the default.
  */
-async function main(): Promise<void> {
-  const program = new Command();
+async function promptChoice<T extends string>(
+  rl: Interface,
+  question: string,
+  choices: readonly T[],
+  defaultValue: T
+): Promise<T> {
+  for (;;) {
+    const answer = (await new Promise<string>(resolve => {
+      rl.question(`${question} (${choices.join(' / ')}) [${defaultValue}]: `, resolve);
+    })).trim();
+    if (!answer) {
+      return defaultValue;
+    }
+    if ((choices as readonly string[]).includes(answer)) {
+      return answer as T;
+    }
+    error(`Invalid choice: ${answer}`);
+  }
+}
 
-  program
-    .name('kakarot-ci')
-    .description('AI-powered unit test generation for pull requests and local development')
-    .version(pkg.version)
-    .option('--mode <mode>', 'Execution mode: pr (default), scaffold, or full', 'pr')
-    .option('--pr <number>', 'Pull request number (required for pr mode)')
-    .option('--owner <string>', 'Repository owner')
-    .option('--repo <string>', 'Repository name')
-    .option('--token <string>', 'GitHub token (or use GITHUB_TOKEN env var)')
-    .option('--api-key <string>', 'LLM API key (or use KAKAROT_API_KEY env var)')
-    .option('--provider <provider>', 'LLM provider: openai, anthropic, or google')
-    .option('--model <model>', 'LLM model name (e.g. gpt-5, claude-opus-4-6, gemini-3.1-pro-preview)')
-    .option('--include <patterns...>', 'File patterns to include (overrides config)')
-    .option('--exclude <patterns...>', 'File patterns to exclude (overrides config)')
-    .parse(process.argv);
+/**
+ * Let the user confirm or override each detected init value
+ */
+async function promptInitValues(values: InitConfigValues): Promise<InitConfigValues> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const provider = await promptChoice(rl, 'LLM provider', ['auto', ...LLM_PROVIDERS], values.provider ?? 'auto');
+    const framework = await promptChoice(rl, 'Test framework', TEST_FRAMEWORKS, values.framework);
+    const testLocation = await promptChoice(rl, 'Test location', TEST_LOCATIONS, values.testLocation);
+    const testDirectory = testLocation === 'separate'
+      ? await promptChoice(rl, 'Test directory', TEST_DIRECTORIES, values.testDirectory)
+      : values.testDirectory;
+    const testFilePattern = await promptChoice(rl, 'Test file pattern', TEST_FILE_PATTERNS, values.testFilePattern);
+
+    const providerChanged = provider !== (values.provider ?? 'auto');
+    return {
+      ...values,
+      provider: provider === 'auto' ? undefined : provider,
+      model: provider === 'auto' ? undefined : providerChanged ? DEFAULT_MODELS[provider] : values.model,
+      framework,
+      testLocation,
+      testDirectory,
+      testFilePattern,
+    };
+  } finally {
+    rl.close();
+  }
+}
 
-  const options = program.opts();
-  const mode = (options.mode || 'pr') as 'pr' | 'scaffold' | 'full';
+/**
+ * `kakarot-ci init` - detect project settings and write kakarot.config.js
+ */
+async function runInit(options: { yes?: boolean; force?: boolean; apiKey?: string }): Promise<void> {
+  const projectRoot = await findProjectRoot();
 
-  // Validate mode
-  if (!['pr', 'scaffold', 'full'].includes(mode)) {
-    error(`Invalid mode: ${mode}. Must be one of: pr, scaffold, full`);
+  const existingConfig = findExistingConfigFile(projectRoot);
+  if (existingConfig && !options.force) {
+    error(`Config already exists: ${existingConfig}`);
+    error('Re-run with --force to overwrite it.');
     process.exit(1);
   }
 
-  // Validate --provider if given
-  if (options.provider && !['openai', 'anthropic', 'google'].includes(options.provider)) {
-    error(`Invalid provider: ${options.provider}. Must be one of: openai, anthropic, google`);
+  const detection = await detectInitConfig(projectRoot, options.apiKey || process.env.KAKAROT_API_KEY);
+
+  info(`Framework:        ${detection.values.framework} (${detection.notes.framework})`);
+  info(`Provider:         ${detection.values.provider ?? 'auto'} (${detection.notes.provider})`);
+  info(`Test layout:      ${detection.values.testLocation}, ${detection.values.testDirectory}, ${detection.values.testFilePattern} (${detection.notes.layout})`);
+  info(`Code style:       ${detection.notes.codeStyle}`);
+  info(`Package manager:  ${detection.packageManager}`);
+
+  let values = detection.values;
+  if (!options.yes) {
+    if (process.stdin.isTTY) {
+      values = await promptInitValues(values);
+    } else {
+      info('Non-interactive terminal detected, using detected values (same as --yes)');
+    }
+  }
+
+  const notes = { ...detection.notes };
+  if (values.provider !== detection.values.provider) {
+    notes.provider = 'selected during init';
+  }
+  if (values.framework !== detection.values.framework) {
+    notes.framework = 'selected during init';
+  }
+  if (
+    values.testLocation !== detection.values.testLocation ||
+    values.testDirectory !== detection.values.testDirectory ||
+    values.testFilePattern !== detection.values.testFilePattern
+  ) {
+    notes.layout = 'selected during init';
+  }
+
+  let content: string;
+  try {
+    content = renderConfigFile({ values, notes }, detectModuleFormat(projectRoot));
+  } catch (err) {
+    error(`Detected configuration is invalid: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(EXIT_CODES.configError);
+  }
+
+  const configPath = join(projectRoot, INIT_CONFIG_FILENAME);
+  writeFileSync(configPath, content, 'utf-8');
+  success(`Wrote ${configPath}`);
+
+  const runner = detection.packageManager === 'npm' ? 'npx' : `${detection.packageManager} exec`;
+  info(`Next: set KAKAROT_API_KEY and run \`${runner} kakarot-ci --mode full\``);
+}
+
+/**
+ * Parse a positive integer CLI option, exiting with an error if invalid
+ */
+function parsePositiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    error(`Invalid ${flag}: ${value}. Must be a positive integer`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Write the --report file for a finished run; a failed write is reported but does not change the exit code
+ */
+function writeReportOption(options: OptionValues, mode: TestMode, summary: TestGenerationSummary): void {
+  if (!options.report) {
+    return;
+  }
+  const format: ReportFormat = options.reportFormat ?? inferReportFormat(options.report);
+  try {
+    writeRunReport(resolve(options.report), format, { summary, mode, version: pkg.version });
+    info(`Wrote ${format} report to ${options.report}`);
+  } catch (err) {
+    error(`Failed to write report: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Report an error that aborted the run and exit with its class's code (see EXIT_CODES)
+ */
+function exitOnError(err: unknown, failOn: readonly FailureClass[] = FAILURE_CLASSES): never {
+  error(`Fatal error: ${err instanceof Error ? err.message : String(err)}`);
+  // KakarotErrors and config validation errors are user-facing (e.g. an unresolved --target); the stack adds nothing
+  const errorClass = classifyError(err);
+  if (err instanceof Error && err.stack && !(err instanceof KakarotError) && errorClass !== 'config-error') {
+    error(err.stack);
+  }
+  const code = resolveErrorExit(err, failOn);
+  if (code === EXIT_CODES.success) {
+    warn(`Not failing the run: ${errorClass} is not in failOn`);
+  }
+  process.exit(code);
+}
+
+/**
+ * Exit with the code for the most severe failure in the run that `failOn` includes
+ */
+function exitForSummary(summary: TestGenerationSummary, failOn: readonly FailureClass[]): never {
+  const { code, ignored } = resolveSummaryExit(summary, failOn);
+  if (ignored.length > 0) {
+    warn(`Not failing the run for: ${ignored.join(', ')} (not in failOn)`);
+  }
+  process.exit(code);
+}
+
+/**
+ * Validate --provider and apply --api-key/--provider/--model/--base-url/--no-stream/--[no-]cache/--record/--replay as env overrides
+ */
+function applyLlmOptions(options: OptionValues): void {
+  if (options.provider && !(LLM_PROVIDERS as readonly string[]).includes(options.provider)) {
+    error(`Invalid provider: ${options.provider}. Must be one of: ${LLM_PROVIDERS.join(', ')}`);
     process.exit(1);
   }
 
@@ -157,6 +332,164 @@ async function main(): Promise<void> {
   if (options.model) {
     process.env.MODEL = options.model;
   }
+  if (options.baseUrl) {
+    process.env.KAKAROT_BASE_URL = options.baseUrl;
+  }
+  if (options.stream === false) {
+    process.env.KAKAROT_STREAM = 'false';
+  }
+  if (options.cache !== undefined) {
+    process.env.KAKAROT_CACHE = String(options.cache);
+  }
+  if (options.record && options.replay) {
+    error('--record and --replay cannot be used together');
+    process.exit(1);
+  }
+  if (options.record) {
+    process.env.KAKAROT_RECORD = options.record;
+  }
+  if (options.replay) {
+    process.env.KAKAROT_REPLAY = options.replay;
+  }
+}
+
+/**
+ * `kakarot-ci fix` - repair failing test files, reporting any that cannot be fixed
+ */
+async function runFixCommand(patterns: string[], options: OptionValues): Promise<void> {
+  applyLlmOptions(options);
+
+  try {
+    const summary = await runFix({ patterns });
+    process.exit(summary.stillFailing.length > 0 ? EXIT_CODES.testsFailing : EXIT_CODES.success);
+  } catch (err) {
+    exitOnError(err);
+  }
+}
+
+/**
+ * `kakarot-ci review` - strict-runtime review of existing test files
+ */
+async function runReviewCommand(patterns: string[], apply: boolean, options: OptionValues): Promise<void> {
+  applyLlmOptions(options);
+
+  try {
+    await runReview({ patterns, apply });
+    process.exit(0);
+  } catch (err) {
+    exitOnError(err);
+  }
+}
+
+/**
+ * `kakarot-ci doctor` - check the environment before a run; exits 1 on blocking issues
+ */
+async function runDoctorCommand(options: OptionValues): Promise<void> {
+  applyLlmOptions(options);
+
+  const mode = options.mode as TestMode | undefined;
+  if (mode && !TEST_MODES.includes(mode)) {
+    error(`Invalid mode: ${mode}. Must be one of: pr, scaffold, full, backfill`);
+    process.exit(1);
+  }
+
+  try {
+    const report = await runDoctor({ mode });
+    printDoctorReport(report);
+    process.exit(report.blocking ? 1 : 0);
+  } catch (err) {
+    error(`Fatal error: ${err instanceof Error ? err.message : String(err)}`);
+    if (err instanceof Error && err.stack) {
+      error(err.stack);
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Generate tests in pr, scaffold, full or backfill mode (default command)
+ */
+async function runGenerate(options: OptionValues): Promise<void> {
+  const mode = (options.mode || 'pr') as TestMode;
+
+  // Validate mode
+  if (!TEST_MODES.includes(mode)) {
+    error(`Invalid mode: ${mode}. Must be one of: pr, scaffold, full, backfill`);
+    process.exit(1);
+  }
+
+  for (const flag of ['target', 'base', 'staged'] as const) {
+    if (options[flag] && mode !== 'scaffold' && mode !== 'full') {
+      error(`--${flag} requires --mode scaffold or --mode full`);
+      process.exit(1);
+    }
+  }
+  if (options.target && (options.base || options.staged)) {
+    error('--target cannot be combined with --base or --staged');
+    process.exit(1);
+  }
+  for (const flag of ['limit', 'tokenBudget'] as const) {
+    if (options[flag] !== undefined && mode !== 'backfill') {
+      error(`--${flag === 'limit' ? 'limit' : 'token-budget'} requires --mode backfill`);
+      process.exit(1);
+    }
+  }
+  if (options.watch) {
+    if (mode !== 'scaffold' && mode !== 'full') {
+      error('--watch requires --mode scaffold or --mode full');
+      process.exit(1);
+    }
+    if (options.dryRun || options.target || options.base || options.staged) {
+      error('--watch cannot be combined with --dry-run, --target, --base or --staged');
+      process.exit(1);
+    }
+  }
+  if (options.interactive) {
+    if (mode !== 'full' && mode !== 'backfill') {
+      error('--interactive requires --mode full or --mode backfill');
+      process.exit(1);
+    }
+    if (options.dryRun || options.watch) {
+      error('--interactive cannot be combined with --dry-run or --watch');
+      process.exit(1);
+    }
+    if (!process.stdin.isTTY) {
+      error('--interactive requires an interactive terminal');
+      process.exit(1);
+    }
+  }
+  if (options.reportFormat && !(REPORT_FORMATS as readonly string[]).includes(options.reportFormat)) {
+    error(`Invalid report format: ${options.reportFormat}. Must be one of: ${REPORT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  if (options.reportFormat && !options.report) {
+    error('--report-format requires --report');
+    process.exit(1);
+  }
+  if (options.report && (options.dryRun || options.watch)) {
+    error('--report cannot be combined with --dry-run or --watch');
+    process.exit(1);
+  }
+  const backfillLimit = parsePositiveInt(options.limit, '--limit');
+  const tokenBudget = parsePositiveInt(options.tokenBudget, '--token-budget');
+  const concurrency = parsePositiveInt(options.concurrency, '--concurrency');
+  if (concurrency !== undefined && concurrency > MAX_CONCURRENCY) {
+    error(`Invalid --concurrency: ${concurrency}. Must be at most ${MAX_CONCURRENCY}`);
+    process.exit(1);
+  }
+
+  if (options.json && !options.dryRun) {
+    error('--json can only be used with --dry-run');
+    process.exit(1);
+  }
+  if (options.json) {
+    logToStderr();
+  }
+
+  applyLlmOptions(options);
+  if (concurrency !== undefined) {
+    process.env.KAKAROT_CONCURRENCY = String(concurrency);
+  }
 
   // Load config first to get defaults
   let config;
@@ -171,30 +504,54 @@ async function main(): Promise<void> {
   if (config && mode !== 'pr') {
     config.mode = mode;
   }
+  const failOn = config?.failOn ?? FAILURE_CLASSES;
 
-  // For local modes (scaffold/full), use runLocal
-  if (mode === 'scaffold' || mode === 'full') {
+  // For local modes (scaffold/full/backfill), use runLocal
+  if (mode !== 'pr') {
     info(`Starting Kakarot CI in ${mode} mode`);
 
+    if (options.watch) {
+      const controller = new AbortController();
+      process.once('SIGINT', () => controller.abort());
+      try {
+        await runWatch({
+          mode: mode as 'scaffold' | 'full',
+          includePatterns: options.include,
+          excludePatterns: options.exclude,
+          signal: controller.signal,
+        });
+        process.exit(0);
+      } catch (err) {
+        exitOnError(err, failOn);
+      }
+    }
+
     try {
       const summary = await runLocal({
         mode,
         includePatterns: options.include,
         excludePatterns: options.exclude,
+        dryRun: options.dryRun,
+        targets: options.target,
+        base: options.base,
+        staged: options.staged,
+        backfill: mode === 'backfill'
+          ? { limit: backfillLimit ?? DEFAULT_BACKFILL_LIMIT, tokenBudget }
+          : undefined,
+        interactive: options.interactive,
       });
 
-      // Exit with error code if there were failures
-      if (summary.errors.length > 0 || summary.testsFailed > 0) {
-        process.exit(1);
+      if (options.dryRun) {
+        if (options.json) {
+          console.log(JSON.stringify(summary.plan, null, 2));
+        }
+        process.exit(0);
       }
 
-      process.exit(0);
+      writeReportOption(options, mode, summary);
+      exitForSummary(summary, failOn);
     } catch (err) {
-      error(`Fatal error: ${err instanceof Error ? err.message : String(err)}`);
-      if (err instanceof Error && err.stack) {
-        error(err.stack);
-      }
-      process.exit(1);
+      exitOnError(err, failOn);
     }
   }
 
@@ -219,7 +576,7 @@ async function main(): Promise<void> {
       } catch (err) {
         if (!owner && !repo) {
           error(err instanceof Error ? err.message : String(err));
-          process.exit(1);
+          process.exit(EXIT_CODES.configError);
         }
       }
     }
@@ -250,7 +607,7 @@ async function main(): Promise<void> {
     error('  - CLI flags: --owner and --repo');
     error('  - Environment: GITHUB_REPOSITORY (format: "owner/repo")');
     error('  - Git remote: auto-detected from current repository');
-    process.exit(1);
+    process.exit(EXIT_CODES.configError);
   }
 
   if (!githubToken) {
@@ -259,7 +616,7 @@ async function main(): Promise<void> {
     error('  - Config file: githubToken');
     error('  - CLI flag: --token');
     error('  - Environment: GITHUB_TOKEN');
-    process.exit(1);
+    process.exit(EXIT_CODES.configError);
   }
 
   // Extract PR number from various sources
@@ -287,7 +644,7 @@ async function main(): Promise<void> {
     error('  - CLI flag: --pr <number>');
     error('  - Environment: PR_NUMBER');
     error('  - GitHub Actions: GITHUB_EVENT_PATH (auto-detected)');
-    process.exit(1);
+    process.exit(EXIT_CODES.configError);
   }
 
   // Build context
@@ -296,6 +653,7 @@ async function main(): Promise<void> {
     owner,
     repo,
     githubToken,
+    dryRun: options.dryRun,
   };
 
   info(`Starting Kakarot CI for PR #${prNumber} in ${owner}/${repo}`);
@@ -303,21 +661,97 @@ async function main(): Promise<void> {
   try {
     const summary = await runPullRequest(context);
 
-    // Exit with error code if there were failures
-    if (summary.errors.length > 0 || summary.testsFailed > 0) {
-      process.exit(1);
+    if (options.dryRun) {
+      if (options.json) {
+        // A closed PR or one without changed files has no plan
+        console.log(JSON.stringify(summary.plan ?? null, null, 2));
+      }
+      process.exit(0);
     }
 
-    process.exit(0);
+    writeReportOption(options, mode, summary);
+    exitForSummary(summary, failOn);
   } catch (err) {
-    error(`Fatal error: ${err instanceof Error ? err.message : String(err)}`);
-    if (err instanceof Error && err.stack) {
-      error(err.stack);
-    }
-    process.exit(1);
+    exitOnError(err, failOn);
   }
 }
 
+/**
+ * Main CLI function
+ */
+async function main(): Promise<void> {
+  const program = new Command();
+
+  program
+    .name('kakarot-ci')
+    .description('AI-powered unit test generation for pull requests and local development')
+    .version(pkg.version)
+    .option('--mode <mode>', 'Execution mode: pr (default), scaffold, full, or backfill')
+    .option('--pr <number>', 'Pull request number (required for pr mode)')
+    .option('--owner <string>', 'Repository owner')
+    .option('--repo <string>', 'Repository name')
+    .option('--token <string>', 'GitHub token (or use GITHUB_TOKEN env var)')
+    .option('--api-key <string>', 'LLM API key (or use KAKAROT_API_KEY env var)')
+    .option('--provider <provider>', 'LLM provider: openai, anthropic, google, openai-compatible, azure-openai, or bedrock')
+    .option('--model <model>', 'LLM model name (e.g. gpt-5, claude-opus-4-6, gemini-3.1-pro-preview)')
+    .option('--base-url <url>', 'OpenAI-compatible API root for self-hosted models (e.g. http://localhost:11434/v1)')
+    .option('--no-stream', 'Wait for complete LLM responses instead of streaming (disables live progress and loop detection)')
+    .option('--cache', 'Reuse responses to identical LLM requests from .kakarot/cache (or set cache: true)')
+    .option('--no-cache', 'Always call the LLM, even when cache is enabled in config')
+    .option('--record <cassette>', 'Save every LLM request and response of this run to a cassette file')
+    .option('--replay <cassette>', 'Answer LLM requests from a recorded cassette instead of calling the LLM (fails on any mismatch)')
+    .option('--include <patterns...>', 'File patterns to include (overrides config)')
+    .option('--exclude <patterns...>', 'File patterns to exclude (overrides config)')
+    .option('--target <specs...>', 'Generate tests for specific files/functions instead of changed code (e.g. src/foo.ts#parseThing,Foo.method)')
+    .option('--base <ref>', 'Diff local changes against a ref (e.g. origin/main) or commit range (e.g. HEAD~3..HEAD) instead of HEAD')
+    .option('--staged', 'Only consider staged changes')
+    .option('--limit <n>', `Backfill: maximum number of functions to generate tests for (default: ${DEFAULT_BACKFILL_LIMIT})`)
+    .option('--token-budget <n>', 'Backfill: maximum estimated tokens to spend on selected functions')
+    .option('--concurrency <n>', `Generate up to n targets in parallel (1-${MAX_CONCURRENCY}, default: 1)`)
+    .option('--watch', 'Watch source files and regenerate tests for changed functions on save (scaffold/full)')
+    .option('--interactive', 'Review each generated test file as a diff with its test results; accept, reject or edit before it is kept (full/backfill)')
+    .option('--dry-run', 'Show targets, test file paths and estimated token cost without calling the LLM or writing files')
+    .option('--json', 'With --dry-run, print the plan as JSON on stdout (logs go to stderr)')
+    .option('--report <path>', 'Write a run report with targets, test results, errors, coverage and LLM usage')
+    .option('--report-format <format>', 'Report format: json, junit, or sarif (default: inferred from the --report extension)')
+    .action(async () => {
+      await runGenerate(program.opts());
+    });
+
+  program
+    .command('init')
+    .description('Detect project settings and write a kakarot.config.js')
+    .option('-y, --yes', 'Accept all detected values without prompting')
+    .option('-f, --force', 'Overwrite an existing config file')
+    .action(async (cmdOptions: { yes?: boolean; force?: boolean }) => {
+      await runInit({ ...cmdOptions, apiKey: program.opts().apiKey });
+    });
+
+  program
+    .command('fix [tests...]')
+    .description('Repair failing test files (all failing tests when none are given); tests that stay failing are reported, not deleted')
+    .action(async (tests: string[]) => {
+      await runFixCommand(tests, program.opts());
+    });
+
+  program
+    .command('review [tests...]')
+    .description('Review test files for strict-runtime issues (unhandled rejections, void-incompatible mocks) and show the proposed diff')
+    .option('--apply', 'Write changes that keep pass/fail counts unchanged')
+    .action(async (tests: string[], cmdOptions: { apply?: boolean }) => {
+      await runReviewCommand(tests, cmdOptions.apply ?? false, program.opts());
+    });
+
+  program
+    .command('doctor')
+    .description('Check config, API key, test framework, coverage, tsconfig, code style tools and GitHub token')
+    .action(async () => {
+      await runDoctorCommand(program.opts());
+    });
+
+  await program.parseAsync(process.argv);
+}
+
 // Run CLI
 main().catch((err) => {
   error(`Unhandled error: ${err instanceof Error ? err.message : String(err)}`);
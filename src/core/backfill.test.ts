@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rankBackfillTargets, selectBackfillTargets, extractBackfillTestTargets, type RankedTarget } from './backfill.js';
+import { readFileSync } from 'fs';
+import { analyzeFile } from '../utils/ast-analyzer.js';
+import { readCoverageReport } from '../utils/coverage-reader.js';
+import { listProjectFiles } from '../utils/project-files.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { buildGenerationRequest } from '../llm/generation-request.js';
+import { warn } from '../utils/logger.js';
+import type { TestTarget } from '../types/diff.js';
+import type { CoverageMetrics } from '../types/coverage.js';
+
+vi.mock('fs');
+vi.mock('../utils/ast-analyzer.js');
+vi.mock('../utils/coverage-reader.js');
+vi.mock('../utils/project-files.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/project-files.js')>()),
+  listProjectFiles: vi.fn(),
+}));
+vi.mock('../utils/config-loader.js');
+vi.mock('../llm/generation-request.js');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn(),
+}));
+vi.mock('minimatch', () => ({
+  minimatch: (path: string, pattern: string) => {
+    if (pattern === '**/*.ts') return path.endsWith('.ts');
+    if (pattern === '**/*.test.ts') return path.includes('.test.ts');
+    return false;
+  },
+}));
+
+function target(filePath: string, functionName: string, startLine: number, endLine: number, code = 'return 1;'): TestTarget {
+  return {
+    filePath,
+    functionName,
+    functionType: 'function',
+    startLine,
+    endLine,
+    code,
+    context: '',
+    changedRanges: [],
+  };
+}
+
+const metrics = (percentage: number): CoverageMetrics => {
+  const m = { total: 10, covered: percentage / 10, percentage };
+  return { lines: m, branches: m, functions: m, statements: m };
+};
+
+function ranked(name: string, gap: number, estimatedTokens: number): RankedTarget {
+  return {
+    target: target('src/a.ts', name, 1, 2),
+    uncoveredStatements: gap,
+    uncoveredBranches: 0,
+    notInReport: false,
+    estimatedTokens,
+  };
+}
+
+describe('backfill', () => {
+  const mockConfig = {
+    apiKey: 'test-key',
+    framework: 'vitest' as const,
+    testDirectory: '__tests__' as const,
+    includePatterns: ['**/*.ts'],
+    excludePatterns: ['**/*.test.ts'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(listProjectFiles).mockReturnValue(['src/a.ts', 'src/b.ts', 'src/a.test.ts', 'README.md']);
+    vi.mocked(readFileSync).mockReturnValue('line\n'.repeat(20));
+    vi.mocked(buildGenerationRequest).mockReturnValue({
+      messages: [{ role: 'user', content: 'x'.repeat(400) }],
+      maxTokens: 4000,
+      estimatedOutputTokens: 4000,
+    });
+    vi.mocked(analyzeFile).mockImplementation(async (filePath: string) => (
+      filePath === 'src/a.ts'
+        ? [target('src/a.ts', 'covered', 1, 3), target('src/a.ts', 'partly', 4, 9)]
+        : [target('src/b.ts', 'untouched', 1, 4, 'export function untouched() {\n  const b = 1;\n  return b;\n}')]
+    ));
+  });
+
+  describe('rankBackfillTargets', () => {
+    it('should rank exports by uncovered statements and branches', async () => {
+      vi.mocked(readCoverageReport).mockReturnValue({
+        total: metrics(50),
+        files: [
+          {
+            path: '/project/src/a.ts',
+            metrics: metrics(50),
+            uncovered: { statements: [5, 6, 8], branches: [5] },
+          },
+          {
+            path: '/project/src/b.ts',
+            metrics: metrics(100),
+            uncovered: { statements: [], branches: [] },
+          },
+        ],
+      });
+
+      const result = await rankBackfillTargets(mockConfig as never);
+
+      // covered has no gap and untouched is fully covered
+      expect(result.map(r => r.target.functionName)).toEqual(['partly']);
+      expect(result[0]).toMatchObject({ uncoveredStatements: 3, uncoveredBranches: 1, notInReport: false, estimatedTokens: 4100 });
+      expect(analyzeFile).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat files missing from the report as uncovered', async () => {
+      vi.mocked(readCoverageReport).mockReturnValue({
+        total: metrics(50),
+        files: [{ path: 'src/a.ts', metrics: metrics(50), uncovered: { statements: [5], branches: [] } }],
+      });
+
+      const result = await rankBackfillTargets(mockConfig as never);
+
+      expect(result.map(r => r.target.functionName)).toEqual(['untouched', 'partly']);
+      expect(result[0]).toMatchObject({ notInReport: true, uncoveredStatements: 3 });
+    });
+
+    it('should fall back to function size without a coverage report', async () => {
+      vi.mocked(readCoverageReport).mockReturnValue(null);
+
+      const result = await rankBackfillTargets(mockConfig as never);
+
+      expect(result).toHaveLength(3);
+      expect(result.every(r => r.notInReport)).toBe(true);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('No coverage report found'));
+    });
+
+    it('should scale by file coverage when the report has no locations', async () => {
+      vi.mocked(readCoverageReport).mockReturnValue({
+        total: metrics(0),
+        files: [
+          { path: 'src/a.ts', metrics: metrics(100) },
+          { path: 'src/b.ts', metrics: metrics(0) },
+        ],
+      });
+
+      const result = await rankBackfillTargets(mockConfig as never);
+
+      expect(result.map(r => r.target.functionName)).toEqual(['untouched']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('no statement/branch locations'));
+    });
+  });
+
+  describe('selectBackfillTargets', () => {
+    const candidates = [ranked('worst', 10, 8000), ranked('middle', 5, 3000), ranked('least', 1, 1000)];
+
+    it('should take the worst N', () => {
+      expect(selectBackfillTargets(candidates, { limit: 2 }).map(r => r.target.functionName)).toEqual(['worst', 'middle']);
+    });
+
+    it('should skip targets that exceed the remaining budget', () => {
+      expect(selectBackfillTargets(candidates, { limit: 10, tokenBudget: 4500 }).map(r => r.target.functionName))
+        .toEqual(['middle', 'least']);
+    });
+  });
+
+  describe('extractBackfillTestTargets', () => {
+    it('should return the selected targets', async () => {
+      vi.mocked(readCoverageReport).mockReturnValue(null);
+
+      const targets = await extractBackfillTestTargets(mockConfig as never, { limit: 1 });
+
+      expect(targets).toHaveLength(1);
+    });
+
+    it('should warn when nothing fits the budget', async () => {
+      vi.mocked(readCoverageReport).mockReturnValue(null);
+
+      const targets = await extractBackfillTestTargets(mockConfig as never, { limit: 5, tokenBudget: 10 });
+
+      expect(targets).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('No target fits within the token budget'));
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Repository-wide backfill: find the exported functions with the largest
+ * coverage gap and pick the worst ones that fit a limit and token budget
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { isAbsolute, relative } from 'path';
+import type { KakarotConfig } from '../types/config.js';
+import type { ChangedRange, TestTarget } from '../types/diff.js';
+import type { CoverageReport, FileCoverage } from '../types/coverage.js';
+import { analyzeFile } from '../utils/ast-analyzer.js';
+import { readCoverageReport } from '../utils/coverage-reader.js';
+import { listProjectFiles, matchesFilePatterns } from '../utils/project-files.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { estimateTokens } from '../utils/context-optimizer.js';
+import { buildGenerationRequest } from '../llm/generation-request.js';
+import { info, warn, debug } from '../utils/logger.js';
+
+/** Targets selected per backfill run when no limit is given */
+export const DEFAULT_BACKFILL_LIMIT = 10;
+
+export interface BackfillOptions {
+  /** Maximum number of targets to select */
+  limit: number;
+  /** Maximum estimated prompt + completion tokens across selected targets */
+  tokenBudget?: number;
+}
+
+export interface RankedTarget {
+  target: TestTarget;
+  uncoveredStatements: number;
+  uncoveredBranches: number;
+  /** True when the file has no entry in the coverage report */
+  notInReport: boolean;
+  estimatedTokens: number;
+}
+
+/**
+ * Index per-file coverage by project-relative path
+ */
+function indexCoverage(report: CoverageReport, projectRoot: string): Map<string, FileCoverage> {
+  const byPath = new Map<string, FileCoverage>();
+  for (const file of report.files) {
+    const relPath = isAbsolute(file.path) ? relative(projectRoot, file.path) : file.path;
+    byPath.set(relPath.split('\\').join('/'), file);
+  }
+  return byPath;
+}
+
+function countInRange(lines: number[], start: number, end: number): number {
+  return lines.filter(line => line >= start && line <= end).length;
+}
+
+/**
+ * Rough statement count for code that coverage never saw (file not loaded by any test)
+ */
+function countCodeLines(code: string): number {
+  return code.split('\n').filter(line => {
+    const trimmed = line.trim();
+    return trimmed && !trimmed.startsWith('//') && !trimmed.startsWith('*') && !trimmed.startsWith('/*') && trimmed !== '}';
+  }).length;
+}
+
+function gap(ranked: RankedTarget): number {
+  return ranked.uncoveredStatements + ranked.uncoveredBranches;
+}
+
+/**
+ * Rank every exported function in the repository by uncovered statements + branches
+ */
+export async function rankBackfillTargets(config: KakarotConfig): Promise<RankedTarget[]> {
+  const projectRoot = await findProjectRoot();
+  const files = listProjectFiles(projectRoot).filter(file => matchesFilePatterns(file, config));
+
+  const report = readCoverageReport(projectRoot, config.framework);
+  if (!report) {
+    warn('No coverage report found at coverage/coverage-final.json - ranking by function size instead.');
+    warn('Run your tests with coverage (json reporter) first for coverage-gap ranking.');
+  } else if (report.files.length > 0 && report.files.every(f => !f.uncovered)) {
+    warn('Coverage report has no statement/branch locations - ranking by function size and file coverage instead.');
+  }
+  const coverageByPath = report ? indexCoverage(report, projectRoot) : new Map<string, FileCoverage>();
+
+  info(`Scanning ${files.length} file(s) for uncovered exports`);
+
+  const localFileChecker = {
+    fileExists: async (_ref: string, path: string): Promise<boolean> => existsSync(`${projectRoot}/${path}`),
+  };
+
+  const ranked: RankedTarget[] = [];
+
+  for (const file of files) {
+    try {
+      const content = readFileSync(`${projectRoot}/${file}`, 'utf-8');
+      const ranges: ChangedRange[] = [{ start: 1, end: content.split('\n').length, type: 'addition' }];
+      const targets = await analyzeFile(file, content, ranges, 'HEAD', localFileChecker, config.testDirectory, true);
+
+      const fileCoverage = coverageByPath.get(file);
+
+      for (const target of targets) {
+        let uncoveredStatements: number;
+        let uncoveredBranches = 0;
+        if (fileCoverage?.uncovered) {
+          uncoveredStatements = countInRange(fileCoverage.uncovered.statements, target.startLine, target.endLine);
+          uncoveredBranches = countInRange(fileCoverage.uncovered.branches, target.startLine, target.endLine);
+        } else if (fileCoverage) {
+          // No locations to attribute per function: scale size by the file's uncovered share
+          const uncoveredShare = 1 - fileCoverage.metrics.statements.percentage / 100;
+          uncoveredStatements = Math.round(countCodeLines(target.code) * uncoveredShare);
+        } else {
+          uncoveredStatements = countCodeLines(target.code);
+        }
+
+        if (uncoveredStatements + uncoveredBranches === 0) {
+          continue;
+        }
+
+        const request = buildGenerationRequest(config, {
+          target,
+          framework: config.framework,
+        });
+        const promptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+        ranked.push({
+          target,
+          uncoveredStatements,
+          uncoveredBranches,
+          notInReport: !fileCoverage,
+          estimatedTokens: promptTokens + request.estimatedOutputTokens,
+        });
+      }
+    } catch (err) {
+      debug(`Failed to analyze ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return ranked.sort((a, b) => gap(b) - gap(a));
+}
+
+/**
+ * Take the worst-covered targets, in rank order, that fit the limit and token budget
+ */
+export function selectBackfillTargets(ranked: RankedTarget[], options: BackfillOptions): RankedTarget[] {
+  const selected: RankedTarget[] = [];
+  let tokens = 0;
+
+  for (const candidate of ranked) {
+    if (selected.length >= options.limit) {
+      break;
+    }
+    if (options.tokenBudget !== undefined && tokens + candidate.estimatedTokens > options.tokenBudget) {
+      // A smaller, lower-ranked target may still fit
+      continue;
+    }
+    selected.push(candidate);
+    tokens += candidate.estimatedTokens;
+  }
+
+  return selected;
+}
+
+/**
+ * Extract test targets for backfill mode
+ */
+export async function extractBackfillTestTargets(config: KakarotConfig, options: BackfillOptions): Promise<TestTarget[]> {
+  const ranked = await rankBackfillTargets(config);
+
+  if (ranked.length === 0) {
+    info('No uncovered exported functions found');
+    return [];
+  }
+
+  const selected = selectBackfillTargets(ranked, options);
+  const totalTokens = selected.reduce((sum, r) => sum + r.estimatedTokens, 0);
+  const budgetNote = options.tokenBudget !== undefined ? ` of ${options.tokenBudget} budget` : '';
+
+  info(`Found ${ranked.length} export(s) with uncovered code; selected ${selected.length} (~${totalTokens} tokens${budgetNote})`);
+  for (const r of selected) {
+    const name = r.target.className ? `${r.target.className}.${r.target.functionName}` : r.target.functionName;
+    const detail = r.notInReport
+      ? `not in coverage report, ~${r.uncoveredStatements} statements`
+      : `${r.uncoveredStatements} uncovered statements, ${r.uncoveredBranches} uncovered branches`;
+    info(`  ${name} (${r.target.filePath}): ${detail}`);
+  }
+
+  if (selected.length === 0) {
+    warn(`No target fits within the token budget (${options.tokenBudget}); smallest needs ~${Math.min(...ranked.map(r => r.estimatedTokens))} tokens`);
+  }
+
+  return selected.map(r => r.target);
+}
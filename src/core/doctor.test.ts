@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runDoctor, type DoctorCheck } from './doctor.js';
+import { execFile } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { ZodError } from 'zod';
+import { GitHubClient } from '../github/client.js';
+import { detectCodeStyle } from '../utils/code-standards.js';
+import { findExistingConfigFile } from '../utils/config-initializer.js';
+import { findProjectRoot, loadConfig, detectTestFramework } from '../utils/config-loader.js';
+import { detectPackageManager } from '../utils/package-manager-detector.js';
+import { listProjectFiles } from '../utils/project-files.js';
+
+vi.mock('child_process', () => ({
+  execFile: vi.fn(),
+}));
+vi.mock('fs');
+vi.mock('module', () => ({
+  createRequire: () => ({
+    resolve: (name: string) => {
+      if (name === 'prettier') throw new Error('Cannot find module');
+      return `/node_modules/${name}`;
+    },
+  }),
+}));
+vi.mock('../github/client.js');
+vi.mock('../utils/code-standards.js');
+vi.mock('../utils/config-initializer.js');
+vi.mock('../utils/config-loader.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/config-loader.js')>()),
+  findProjectRoot: vi.fn(),
+  loadConfig: vi.fn(),
+  detectTestFramework: vi.fn(),
+}));
+vi.mock('../utils/package-manager-detector.js');
+vi.mock('../utils/project-files.js');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  success: vi.fn(),
+}));
+
+function find(checks: DoctorCheck[], name: string): DoctorCheck | undefined {
+  return checks.find(check => check.name === name);
+}
+
+describe('runDoctor', () => {
+  const config = {
+    apiKey: 'sk-ant-123',
+    provider: 'anthropic',
+    model: 'claude-opus-4-6',
+    framework: 'vitest',
+    codeStyle: { formatGeneratedCode: true, lintGeneratedCode: true },
+  };
+  const originalToken = process.env.GITHUB_TOKEN;
+  const originalEvent = process.env.GITHUB_EVENT_NAME;
+  let files: Record<string, string>;
+
+  afterEach(() => {
+    process.env.GITHUB_TOKEN = originalToken;
+    if (originalToken === undefined) delete process.env.GITHUB_TOKEN;
+    process.env.GITHUB_EVENT_NAME = originalEvent;
+    if (originalEvent === undefined) delete process.env.GITHUB_EVENT_NAME;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GITHUB_EVENT_NAME;
+    files = {
+      '/project/package.json': JSON.stringify({
+        scripts: { test: 'vitest run' },
+        devDependencies: { vitest: '^1.6.0', '@vitest/coverage-v8': '^1.6.0' },
+      }),
+      '/project/node_modules/.bin/vitest': '',
+      '/project/tsconfig.json': '{}',
+    };
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(detectPackageManager).mockReturnValue('npm');
+    vi.mocked(findExistingConfigFile).mockReturnValue('/project/kakarot.config.js');
+    vi.mocked(loadConfig).mockResolvedValue(config as never);
+    vi.mocked(detectTestFramework).mockResolvedValue('vitest');
+    vi.mocked(detectCodeStyle).mockResolvedValue({});
+    vi.mocked(listProjectFiles).mockReturnValue(['src/index.ts']);
+    vi.mocked(existsSync).mockImplementation(path => String(path) in files);
+    vi.mocked(readFileSync).mockImplementation(path => {
+      if (!(String(path) in files)) throw new Error('ENOENT');
+      return files[String(path)];
+    });
+    vi.mocked(execFile).mockImplementation(((_file: string, _args: string[], _options: unknown, callback: (err: Error | null, result: { stdout: string; stderr: string }) => void) => {
+      callback(null, { stdout: 'vitest/1.6.1\n', stderr: '' });
+    }) as never);
+  });
+
+  it('should pass a healthy project', async () => {
+    const report = await runDoctor();
+
+    expect(report.blocking).toBe(false);
+    expect(report.checks.every(check => check.status === 'ok')).toBe(true);
+    expect(find(report.checks, 'Config')?.message).toBe('Resolved from kakarot.config.js');
+    expect(find(report.checks, 'Test framework')?.message).toBe('vitest vitest/1.6.1');
+  });
+
+  it('should report a missing API key as blocking, without failing the config check', async () => {
+    vi.mocked(loadConfig).mockRejectedValue(new ZodError([
+      { code: 'invalid_type', expected: 'string', received: 'undefined', path: ['apiKey'], message: 'Required' },
+    ]));
+
+    const report = await runDoctor();
+
+    expect(report.blocking).toBe(true);
+    expect(find(report.checks, 'Config')?.status).toBe('ok');
+    expect(find(report.checks, 'API key')).toMatchObject({ status: 'fail', fix: expect.stringContaining('KAKAROT_API_KEY') });
+    // Falls back to package.json detection for the framework checks
+    expect(find(report.checks, 'Test framework')?.status).toBe('ok');
+  });
+
+  it('should fail on invalid config values', async () => {
+    vi.mocked(loadConfig).mockRejectedValue(new ZodError([
+      { code: 'invalid_enum_value', options: ['jest', 'vitest'], received: 'mocha', path: ['framework'], message: 'Invalid enum value' },
+    ]));
+
+    const report = await runDoctor();
+
+    expect(find(report.checks, 'Config')).toMatchObject({ status: 'fail', message: expect.stringContaining('framework: Invalid enum value') });
+  });
+
+  it('should warn when the provider cannot be detected from the key', async () => {
+    vi.mocked(loadConfig).mockResolvedValue({ ...config, apiKey: 'custom-key', provider: undefined } as never);
+
+    const report = await runDoctor();
+
+    expect(find(report.checks, 'API key')?.status).toBe('warn');
+    expect(report.blocking).toBe(false);
+  });
+
+  it('should accept a missing key for openai-compatible servers but require baseUrl', async () => {
+    const local = { ...config, apiKey: '', provider: 'openai-compatible', model: 'llama3.1' };
+    vi.mocked(loadConfig).mockResolvedValue({ ...local, baseUrl: 'http://localhost:11434/v1' } as never);
+
+    let report = await runDoctor();
+    expect(find(report.checks, 'API key')).toMatchObject({ status: 'ok', message: expect.stringContaining('Not set (optional)') });
+
+    vi.mocked(loadConfig).mockResolvedValue(local as never);
+    report = await runDoctor();
+    expect(find(report.checks, 'API key')).toMatchObject({ status: 'fail', fix: expect.stringContaining('--base-url') });
+  });
+
+  it('should require an endpoint and deployment for azure-openai', async () => {
+    const azure = { ...config, provider: 'azure-openai', azureEndpoint: 'https://contoso.openai.azure.com' };
+    vi.mocked(loadConfig).mockResolvedValue({ ...azure, azureDeployment: 'gpt-4o-prod' } as never);
+
+    let report = await runDoctor();
+    expect(find(report.checks, 'API key')).toMatchObject({ status: 'ok', message: expect.stringContaining('deployment gpt-4o-prod') });
+
+    vi.mocked(loadConfig).mockResolvedValue(azure as never);
+    report = await runDoctor();
+    expect(find(report.checks, 'API key')).toMatchObject({ status: 'fail', fix: expect.stringContaining('AZURE_OPENAI_DEPLOYMENT') });
+  });
+
+  it('should check AWS credentials instead of an API key for bedrock', async () => {
+    const bedrock = { ...config, apiKey: '', provider: 'bedrock', model: 'anthropic.claude-v2', awsRegion: 'us-west-2' };
+    vi.mocked(loadConfig).mockResolvedValue(bedrock as never);
+    vi.stubEnv('AWS_ACCESS_KEY_ID', 'AKIDEXAMPLE');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'secret');
+
+    let report = await runDoctor();
+    expect(find(report.checks, 'AWS credentials')).toMatchObject({ status: 'ok', message: expect.stringContaining('in us-west-2') });
+
+    vi.stubEnv('AWS_ACCESS_KEY_ID', '');
+    report = await runDoctor();
+    expect(find(report.checks, 'AWS credentials')).toMatchObject({ status: 'fail', message: expect.stringContaining('No AWS credentials found') });
+    vi.unstubAllEnvs();
+  });
+
+  it('should fail when the framework is not installed or there is no test script', async () => {
+    files['/project/package.json'] = JSON.stringify({ devDependencies: { vitest: '^1.6.0' } });
+    delete files['/project/node_modules/.bin/vitest'];
+
+    const report = await runDoctor();
+
+    expect(find(report.checks, 'Test script')?.status).toBe('fail');
+    expect(find(report.checks, 'Test framework')).toMatchObject({ status: 'fail', fix: expect.stringContaining('npm install -D vitest') });
+    expect(find(report.checks, 'Coverage package')).toMatchObject({ status: 'warn', fix: 'npm install -D @vitest/coverage-v8' });
+  });
+
+  it('should warn when explicit coverage reporters omit json', async () => {
+    files['/project/vitest.config.ts'] = "export default { test: { coverage: { reporter: ['text', 'json-summary'] } } }";
+
+    const report = await runDoctor();
+
+    expect(find(report.checks, 'Coverage reporter')).toMatchObject({ status: 'warn', message: expect.stringContaining('vitest.config.ts') });
+  });
+
+  it('should warn about configured tools whose package cannot be loaded', async () => {
+    vi.mocked(detectCodeStyle).mockResolvedValue({
+      prettier: { configPath: '/project/.prettierrc', enabled: true },
+      eslint: { configPath: '/project/.eslintrc.json', enabled: true },
+    });
+
+    const report = await runDoctor();
+
+    expect(find(report.checks, 'Prettier')).toMatchObject({ status: 'warn', fix: 'npm install -D prettier' });
+    expect(find(report.checks, 'ESLint')).toMatchObject({ status: 'ok', message: 'configured in .eslintrc.json' });
+  });
+
+  it('should check GitHub token scopes', async () => {
+    process.env.GITHUB_TOKEN = 'ghp_123';
+    const getTokenScopes = vi.fn().mockResolvedValue(['read:org']);
+    vi.mocked(GitHubClient).mockImplementation(() => ({ getTokenScopes }) as never);
+
+    let report = await runDoctor({ mode: 'pr' });
+    expect(find(report.checks, 'GitHub token')).toMatchObject({ status: 'fail', message: expect.stringContaining('Missing repo scope') });
+
+    getTokenScopes.mockResolvedValue(['repo', 'workflow']);
+    report = await runDoctor({ mode: 'pr' });
+    expect(find(report.checks, 'GitHub token')?.status).toBe('ok');
+
+    getTokenScopes.mockRejectedValue(Object.assign(new Error('Bad credentials'), { status: 401 }));
+    report = await runDoctor({ mode: 'pr' });
+    expect(find(report.checks, 'GitHub token')).toMatchObject({ status: 'fail', message: expect.stringContaining('401') });
+  });
+
+  it('should only warn about the GitHub token outside pr mode', async () => {
+    process.env.GITHUB_TOKEN = 'ghp_123';
+    const getTokenScopes = vi.fn().mockResolvedValue(['read:org']);
+    vi.mocked(GitHubClient).mockImplementation(() => ({ getTokenScopes }) as never);
+
+    let report = await runDoctor();
+    expect(find(report.checks, 'GitHub token')).toMatchObject({ status: 'warn', message: expect.stringContaining('Missing repo scope') });
+
+    report = await runDoctor({ mode: 'full' });
+    expect(find(report.checks, 'GitHub token')?.status).toBe('warn');
+
+    process.env.GITHUB_EVENT_NAME = 'pull_request';
+    report = await runDoctor();
+    expect(find(report.checks, 'GitHub token')?.status).toBe('fail');
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * Environment diagnostics (`kakarot-ci doctor`)
+ * Checks everything a run depends on up front, before any LLM spend
+ */
+
+import { execFile } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join, relative } from 'path';
+import { promisify } from 'util';
+import { ZodError } from 'zod';
+import type { KakarotConfig, TestFramework, TestMode } from '../types/config.js';
+import { GitHubClient } from '../github/client.js';
+import { resolveAwsCredentials, resolveAwsRegion } from '../utils/aws-credentials.js';
+import { detectCodeStyle } from '../utils/code-standards.js';
+import { findExistingConfigFile } from '../utils/config-initializer.js';
+import {
+  findProjectRoot,
+  loadConfig,
+  detectProviderFromApiKey,
+  detectTestFramework,
+} from '../utils/config-loader.js';
+import { detectPackageManager, type PackageManager } from '../utils/package-manager-detector.js';
+import { listProjectFiles } from '../utils/project-files.js';
+import { info, warn, error, success } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Time allowed for `<framework> --version` */
+const FRAMEWORK_VERSION_TIMEOUT_MS = 30000;
+
+/** Config files checked for coverage reporter settings, per framework */
+const FRAMEWORK_CONFIG_FILES: Record<TestFramework, string[]> = {
+  vitest: ['vitest.config.ts', 'vitest.config.mts', 'vitest.config.js', 'vitest.config.mjs', 'vite.config.ts', 'vite.config.js', 'vite.config.mjs'],
+  jest: ['jest.config.js', 'jest.config.ts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json'],
+};
+
+const VITEST_COVERAGE_PACKAGES = ['@vitest/coverage-v8', '@vitest/coverage-istanbul'];
+
+export type DoctorStatus = 'ok' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  /** What to do about a warning or failure */
+  fix?: string;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  /** True when any check failed; runs will not work until it is fixed */
+  blocking: boolean;
+}
+
+interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  jest?: { coverageReporters?: unknown };
+}
+
+function readPackageJson(projectRoot: string): PackageJson {
+  try {
+    return JSON.parse(readFileSync(join(projectRoot, 'package.json'), 'utf-8')) as PackageJson;
+  } catch {
+    return {};
+  }
+}
+
+function addDevCommand(packageManager: PackageManager, pkg: string): string {
+  return packageManager === 'npm' ? `npm install -D ${pkg}` : `${packageManager} add -D ${pkg}`;
+}
+
+/**
+ * Whether a package can be loaded the same way the code-standards helpers load it
+ */
+function isPackageAvailable(name: string): boolean {
+  try {
+    createRequire(import.meta.url).resolve(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load config, splitting missing apiKey/framework (reported by their own checks) from other problems
+ */
+async function checkConfig(projectRoot: string): Promise<{
+  check: DoctorCheck;
+  config: KakarotConfig | null;
+  missing: Set<string>;
+}> {
+  const configFile = findExistingConfigFile(projectRoot);
+  const source = configFile ? relative(projectRoot, configFile) : 'defaults and environment variables (no config file)';
+  const missing = new Set<string>();
+
+  try {
+    const config = await loadConfig();
+    return { check: { name: 'Config', status: 'ok', message: `Resolved from ${source}` }, config, missing };
+  } catch (err) {
+    if (!(err instanceof ZodError)) {
+      return {
+        check: {
+          name: 'Config',
+          status: 'fail',
+          message: `Failed to load ${source}: ${err instanceof Error ? err.message : String(err)}`,
+          fix: 'Fix the syntax error in the config file, or run `kakarot-ci init --force` to regenerate it',
+        },
+        config: null,
+        missing,
+      };
+    }
+
+    const invalid = err.issues.filter(issue => {
+      const field = String(issue.path[0]);
+      if ((field === 'apiKey' || field === 'framework') && issue.code === 'invalid_type' && issue.received === 'undefined') {
+        missing.add(field);
+        return false;
+      }
+      return true;
+    });
+
+    if (invalid.length === 0) {
+      return { check: { name: 'Config', status: 'ok', message: `Resolved from ${source}` }, config: null, missing };
+    }
+    return {
+      check: {
+        name: 'Config',
+        status: 'fail',
+        message: `Invalid values in ${source}: ${invalid.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+        fix: 'Correct the listed fields (see the README for allowed values)',
+      },
+      config: null,
+      missing,
+    };
+  }
+}
+
+/**
+ * Bedrock signs requests with AWS credentials, so check those instead of an API key
+ */
+async function checkAwsCredentials(config: KakarotConfig): Promise<DoctorCheck> {
+  const region = resolveAwsRegion(config.awsRegion);
+  if (!region) {
+    return {
+      name: 'AWS credentials',
+      status: 'fail',
+      message: 'provider bedrock has no region',
+      fix: 'Set awsRegion in the config file, or AWS_REGION',
+    };
+  }
+  if (!config.model) {
+    return {
+      name: 'AWS credentials',
+      status: 'fail',
+      message: 'provider bedrock has no model',
+      fix: 'Set model to a Bedrock model ID or inference profile, or pass --model',
+    };
+  }
+  try {
+    const credentials = await resolveAwsCredentials();
+    return {
+      name: 'AWS credentials',
+      status: 'ok',
+      message: `Found (${credentials.accessKeyId.slice(0, 4)}…); bedrock model ${config.model} in ${region}`,
+    };
+  } catch (err) {
+    return {
+      name: 'AWS credentials',
+      status: 'fail',
+      message: err instanceof Error ? err.message : String(err),
+      fix: 'Export AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY (and AWS_SESSION_TOKEN), or set AWS_PROFILE',
+    };
+  }
+}
+
+async function checkApiKey(config: KakarotConfig | null, missing: Set<string>): Promise<DoctorCheck> {
+  if (missing.has('apiKey')) {
+    return {
+      name: 'API key',
+      status: 'fail',
+      message: 'No API key found',
+      fix: 'Set KAKAROT_API_KEY, pass --api-key, or add apiKey to the config file',
+    };
+  }
+  if (!config) {
+    return { name: 'API key', status: 'warn', message: 'Not checked: config could not be loaded' };
+  }
+  if (config.provider === 'openai-compatible') {
+    if (!config.baseUrl) {
+      return {
+        name: 'API key',
+        status: 'fail',
+        message: 'provider openai-compatible has no baseUrl',
+        fix: 'Set baseUrl in the config file, KAKAROT_BASE_URL, or pass --base-url',
+      };
+    }
+    if (!config.model) {
+      return {
+        name: 'API key',
+        status: 'fail',
+        message: 'provider openai-compatible has no model',
+        fix: 'Set model to the name your server serves, or pass --model',
+      };
+    }
+    return {
+      name: 'API key',
+      status: 'ok',
+      message: `${config.apiKey ? 'Present' : 'Not set (optional)'}; openai-compatible at ${config.baseUrl}, model ${config.model}`,
+    };
+  }
+
+  if (config.provider === 'bedrock') {
+    return checkAwsCredentials(config);
+  }
+  if (config.provider === 'azure-openai') {
+    if (!config.azureEndpoint) {
+      return {
+        name: 'API key',
+        status: 'fail',
+        message: 'provider azure-openai has no azureEndpoint',
+        fix: 'Set azureEndpoint in the config file or AZURE_OPENAI_ENDPOINT',
+      };
+    }
+    if (!config.azureDeployment) {
+      return {
+        name: 'API key',
+        status: 'fail',
+        message: 'provider azure-openai has no azureDeployment',
+        fix: 'Set azureDeployment in the config file or AZURE_OPENAI_DEPLOYMENT',
+      };
+    }
+    return {
+      name: 'API key',
+      status: 'ok',
+      message: `Present; azure-openai deployment ${config.azureDeployment} at ${config.azureEndpoint}`,
+    };
+  }
+
+  const detected = detectProviderFromApiKey(config.apiKey);
+  if (!config.provider) {
+    return {
+      name: 'API key',
+      status: 'warn',
+      message: 'Present, but the provider could not be detected from its prefix; falling back to openai',
+      fix: 'Set provider in the config file or pass --provider',
+    };
+  }
+  if (detected && detected.provider !== config.provider) {
+    return {
+      name: 'API key',
+      status: 'warn',
+      message: `Key looks like a ${detected.provider} key but provider is ${config.provider}`,
+      fix: `Check that the key belongs to ${config.provider}, or change provider to ${detected.provider}`,
+    };
+  }
+  return { name: 'API key', status: 'ok', message: `Present; provider ${config.provider}, model ${config.model ?? 'default'}` };
+}
+
+async function checkFramework(
+  framework: TestFramework,
+  projectRoot: string,
+  packageManager: PackageManager,
+  pkg: PackageJson
+): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  // Runners invoke `<packageManager> test -- <files>`
+  if (!pkg.scripts?.test) {
+    checks.push({
+      name: 'Test script',
+      status: 'fail',
+      message: 'package.json has no "test" script',
+      fix: `Add "test": "${framework === 'vitest' ? 'vitest run' : 'jest'}" to package.json scripts`,
+    });
+  } else {
+    checks.push({ name: 'Test script', status: 'ok', message: `"test": "${pkg.scripts.test}"` });
+  }
+
+  const binary = join(projectRoot, 'node_modules', '.bin', framework);
+  if (!existsSync(binary)) {
+    checks.push({
+      name: 'Test framework',
+      status: 'fail',
+      message: `${framework} is not installed in node_modules`,
+      fix: `${addDevCommand(packageManager, framework)} (or run ${packageManager} install)`,
+    });
+    return checks;
+  }
+
+  try {
+    const { stdout } = await execFileAsync(binary, ['--version'], { cwd: projectRoot, timeout: FRAMEWORK_VERSION_TIMEOUT_MS });
+    checks.push({ name: 'Test framework', status: 'ok', message: `${framework} ${stdout.trim()}` });
+  } catch (err) {
+    checks.push({
+      name: 'Test framework',
+      status: 'fail',
+      message: `\`${framework} --version\` failed: ${err instanceof Error ? err.message : String(err)}`,
+      fix: `Reinstall dependencies (${packageManager} install)`,
+    });
+  }
+  return checks;
+}
+
+function checkCoverage(
+  framework: TestFramework,
+  projectRoot: string,
+  packageManager: PackageManager,
+  pkg: PackageJson
+): DoctorCheck[] {
+  const checks: DoctorCheck[] = [];
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+
+  if (framework === 'vitest') {
+    const installed = VITEST_COVERAGE_PACKAGES.find(name => deps[name]);
+    checks.push(installed
+      ? { name: 'Coverage package', status: 'ok', message: installed }
+      : {
+        name: 'Coverage package',
+        status: 'warn',
+        message: 'No Vitest coverage provider installed; coverage deltas and backfill ranking are unavailable',
+        fix: addDevCommand(packageManager, '@vitest/coverage-v8'),
+      });
+  } else {
+    checks.push({ name: 'Coverage package', status: 'ok', message: 'built into Jest' });
+  }
+
+  // Both frameworks include json by default; only an explicit reporter list can drop it
+  const configFile = FRAMEWORK_CONFIG_FILES[framework].find(file => existsSync(join(projectRoot, file)));
+  let reporters: string | null = null;
+  if (configFile) {
+    const content = readFileSync(join(projectRoot, configFile), 'utf-8');
+    const pattern = framework === 'vitest'
+      ? /\breporter\s*:\s*(\[[^\]]*\]|['"][^'"]*['"])/
+      : /["']?coverageReporters["']?\s*:\s*(\[[^\]]*\])/;
+    reporters = pattern.exec(content)?.[1] ?? null;
+  } else if (framework === 'jest' && pkg.jest?.coverageReporters) {
+    reporters = JSON.stringify(pkg.jest.coverageReporters);
+  }
+
+  const where = configFile ?? (framework === 'jest' && pkg.jest ? 'package.json "jest"' : null);
+  if (reporters === null) {
+    checks.push({ name: 'Coverage reporter', status: 'ok', message: 'default reporters (include json)' });
+  } else if (/['"]json['"]/.test(reporters)) {
+    checks.push({ name: 'Coverage reporter', status: 'ok', message: `json reporter configured in ${where}` });
+  } else {
+    checks.push({
+      name: 'Coverage reporter',
+      status: 'warn',
+      message: `Coverage reporters in ${where} do not include json (coverage/coverage-final.json is never written)`,
+      fix: framework === 'vitest'
+        ? `Add 'json' to test.coverage.reporter in ${where}`
+        : `Add "json" to coverageReporters in ${where}`,
+    });
+  }
+
+  return checks;
+}
+
+function checkTsconfig(projectRoot: string): DoctorCheck {
+  if (existsSync(join(projectRoot, 'tsconfig.json'))) {
+    return { name: 'tsconfig.json', status: 'ok', message: 'found' };
+  }
+  const hasTypeScript = listProjectFiles(projectRoot).some(file => /\.tsx?$/.test(file));
+  if (!hasTypeScript) {
+    return { name: 'tsconfig.json', status: 'ok', message: 'not needed (no TypeScript files)' };
+  }
+  return {
+    name: 'tsconfig.json',
+    status: 'warn',
+    message: 'Missing; generated tests cannot be type-checked against your compiler settings',
+    fix: 'Add a tsconfig.json (npx tsc --init)',
+  };
+}
+
+async function checkCodeStyleTools(
+  projectRoot: string,
+  packageManager: PackageManager,
+  config: KakarotConfig | null
+): Promise<DoctorCheck[]> {
+  const style = await detectCodeStyle(projectRoot);
+  const format = config?.codeStyle?.formatGeneratedCode ?? true;
+  const lint = config?.codeStyle?.lintGeneratedCode ?? true;
+
+  const tools = [
+    { name: 'Prettier', pkg: 'prettier', detected: style.prettier, used: format },
+    { name: 'Biome', pkg: '@biomejs/biome', detected: style.biome, used: format || lint },
+    { name: 'ESLint', pkg: 'eslint', detected: style.eslint, used: lint },
+  ];
+
+  return tools.map(({ name, pkg, detected, used }): DoctorCheck => {
+    if (!detected?.enabled) {
+      return { name, status: 'ok', message: 'not configured' };
+    }
+    const location = detected.configPath ? relative(projectRoot, detected.configPath) : 'package.json';
+    if (!used) {
+      return { name, status: 'ok', message: `configured in ${location}; disabled in codeStyle` };
+    }
+    if (!isPackageAvailable(pkg)) {
+      return {
+        name,
+        status: 'warn',
+        message: `Configured in ${location} but ${pkg} cannot be loaded; generated tests will not use it`,
+        fix: addDevCommand(packageManager, pkg),
+      };
+    }
+    return { name, status: 'ok', message: `configured in ${location}` };
+  });
+}
+
+/**
+ * Check the GitHub token pr mode uses. Outside pr mode a token that would not work there is only a warning.
+ */
+async function checkGitHubToken(config: KakarotConfig | null, prMode: boolean): Promise<DoctorCheck> {
+  const token = config?.githubToken ?? process.env.GITHUB_TOKEN;
+  if (!token) {
+    return { name: 'GitHub token', status: 'ok', message: 'not set (only needed for pr mode)' };
+  }
+  const unusable: DoctorStatus = prMode ? 'fail' : 'warn';
+
+  let scopes: string[] | null;
+  try {
+    const client = new GitHubClient({ token, owner: config?.githubOwner ?? '', repo: config?.githubRepo ?? '' });
+    scopes = await client.getTokenScopes();
+  } catch (err) {
+    const status = err && typeof err === 'object' && 'status' in err ? (err as { status: number }).status : undefined;
+    return {
+      name: 'GitHub token',
+      status: unusable,
+      message: status === 401
+        ? 'Token was rejected by GitHub (401 Bad credentials)'
+        : `Could not verify token: ${err instanceof Error ? err.message : String(err)}`,
+      fix: status === 401 ? 'Create a new token and update GITHUB_TOKEN or githubToken' : undefined,
+    };
+  }
+
+  if (scopes === null) {
+    return {
+      name: 'GitHub token',
+      status: 'ok',
+      message: 'fine-grained or app token (scopes not listed); needs Contents and Pull requests write access',
+    };
+  }
+  if (scopes.includes('repo')) {
+    return { name: 'GitHub token', status: 'ok', message: `scopes: ${scopes.join(', ')}` };
+  }
+  if (scopes.includes('public_repo')) {
+    return {
+      name: 'GitHub token',
+      status: 'warn',
+      message: 'public_repo scope only; private repositories will fail',
+      fix: 'Grant the repo scope for private repositories',
+    };
+  }
+  return {
+    name: 'GitHub token',
+    status: unusable,
+    message: `Missing repo scope (has: ${scopes.join(', ') || 'none'}); pr mode cannot read files, commit or comment`,
+    fix: 'Create a token with the repo scope',
+  };
+}
+
+/**
+ * Run every environment check. `mode` is the mode the user asked for, if any; without one, pr mode
+ * is assumed only in a pull request workflow.
+ */
+export async function runDoctor(options: { mode?: TestMode } = {}): Promise<DoctorReport> {
+  const projectRoot = await findProjectRoot();
+  const packageManager = detectPackageManager(projectRoot);
+  const pkg = readPackageJson(projectRoot);
+
+  const { check: configCheck, config, missing } = await checkConfig(projectRoot);
+  const checks: DoctorCheck[] = [configCheck, await checkApiKey(config, missing)];
+
+  const framework = config?.framework ?? await detectTestFramework(projectRoot);
+  if (framework) {
+    checks.push(...await checkFramework(framework, projectRoot, packageManager, pkg));
+    checks.push(...checkCoverage(framework, projectRoot, packageManager, pkg));
+  } else {
+    checks.push({
+      name: 'Test framework',
+      status: 'fail',
+      message: 'No test framework detected (jest or vitest)',
+      fix: `${addDevCommand(packageManager, 'vitest')}, or set framework in the config file`,
+    });
+  }
+
+  checks.push(checkTsconfig(projectRoot));
+  checks.push(...await checkCodeStyleTools(projectRoot, packageManager, config));
+  const prMode = options.mode ? options.mode === 'pr' : Boolean(process.env.GITHUB_EVENT_NAME?.startsWith('pull_request'));
+  checks.push(await checkGitHubToken(config, prMode));
+
+  return { checks, blocking: checks.some(check => check.status === 'fail') };
+}
+
+/**
+ * Print each check with its fix, then the overall verdict
+ */
+export function printDoctorReport(report: DoctorReport): void {
+  info('');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info('  Kakarot CI Doctor');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const check of report.checks) {
+    const line = `${check.name.padEnd(18)} ${check.message}`;
+    if (check.status === 'ok') {
+      success(line);
+    } else if (check.status === 'warn') {
+      warn(line);
+    } else {
+      error(line);
+    }
+    if (check.fix) {
+      info(`  → Fix: ${check.fix}`);
+    }
+  }
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  const warnings = report.checks.filter(check => check.status === 'warn').length;
+  const failures = report.checks.filter(check => check.status === 'fail').length;
+  if (failures > 0) {
+    error(`${failures} blocking issue(s), ${warnings} warning(s)`);
+  } else if (warnings > 0) {
+    warn(`No blocking issues, ${warnings} warning(s)`);
+  } else {
+    success('All checks passed');
+  }
+}
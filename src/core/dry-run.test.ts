@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { planTestGeneration, printTestGenerationPlan } from './dry-run.js';
+import { buildGenerationRequest, buildScaffoldRequest } from '../llm/generation-request.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { existsSync, readFileSync } from 'fs';
+import { info } from '../utils/logger.js';
+
+vi.mock('../llm/generation-request.js');
+vi.mock('../utils/config-loader.js');
+vi.mock('fs');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+}));
+
+describe('dry-run', () => {
+  const addTarget = {
+    filePath: 'src/utils.ts',
+    functionName: 'add',
+    functionType: 'function' as const,
+    code: 'export function add(a: number, b: number) { return a + b; }',
+    context: '',
+    startLine: 1,
+    endLine: 3,
+    changedRanges: [],
+  };
+
+  const mockConfig = {
+    apiKey: 'test-key',
+    provider: 'anthropic' as const,
+    model: 'claude-sonnet-4-20250514',
+    framework: 'vitest' as const,
+    maxTestsPerPR: -1,
+    maxFixAttempts: 3,
+    testLocation: 'separate' as const,
+    testDirectory: '__tests__' as const,
+    testFilePattern: '*.test.ts' as const,
+    includePatterns: ['**/*.ts'],
+    excludePatterns: ['**/*.test.ts'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(existsSync).mockReturnValue(false);
+    vi.mocked(buildGenerationRequest).mockReturnValue({
+      messages: [
+        { role: 'system', content: 'x'.repeat(400) },
+        { role: 'user', content: 'y'.repeat(400) },
+      ],
+      maxTokens: 64000,
+      estimatedOutputTokens: 4000,
+    });
+    vi.mocked(buildScaffoldRequest).mockResolvedValue({
+      messages: [{ role: 'user', content: 'z'.repeat(40) }],
+      maxTokens: 2000,
+      estimatedOutputTokens: 2000,
+    });
+  });
+
+  it('should plan targets with test paths and token estimates', async () => {
+    const plan = await planTestGeneration({ targets: [addTarget], config: mockConfig as never, mode: 'full' });
+
+    expect(plan.targets).toHaveLength(1);
+    expect(plan.targets[0]).toMatchObject({
+      target: 'add',
+      testFilePath: '__tests__/utils.test.ts',
+      testFileExists: false,
+      skip: false,
+      estimatedPromptTokens: 200,
+      estimatedCompletionTokens: 4000,
+    });
+    // 200 * $3/M + 4000 * $15/M
+    expect(plan.targets[0].estimatedCostUSD).toBeCloseTo(0.0606);
+    expect(plan.totals).toMatchObject({ targets: 1, skipped: 0, promptTokens: 200, completionTokens: 4000 });
+  });
+
+  it('should mark targets that already have tests as skipped', async () => {
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(readFileSync).mockReturnValue("describe('add', () => {});");
+
+    const plan = await planTestGeneration({ targets: [addTarget], config: mockConfig as never, mode: 'full' });
+
+    expect(plan.targets[0].skip).toBe(true);
+    expect(plan.targets[0].testFileExists).toBe(true);
+    expect(plan.totals.skipped).toBe(1);
+    expect(buildGenerationRequest).not.toHaveBeenCalled();
+  });
+
+  it('should use getExistingTestFile when provided', async () => {
+    const getExistingTestFile = vi.fn().mockResolvedValue("describe('other', () => {});");
+
+    const plan = await planTestGeneration({
+      targets: [addTarget],
+      config: mockConfig as never,
+      mode: 'pr',
+      getExistingTestFile,
+    });
+
+    expect(getExistingTestFile).toHaveBeenCalledWith('__tests__/utils.test.ts');
+    expect(existsSync).not.toHaveBeenCalled();
+    expect(plan.targets[0].skip).toBe(false);
+    expect(plan.targets[0].testFileExists).toBe(true);
+  });
+
+  it('should consolidate class methods into one target', async () => {
+    const method = (name: string) => ({
+      ...addTarget,
+      functionName: name,
+      functionType: 'class-method' as const,
+      className: 'Calculator',
+    });
+
+    const plan = await planTestGeneration({
+      targets: [method('add'), method('subtract')],
+      config: mockConfig as never,
+      mode: 'full',
+    });
+
+    expect(plan.targetsFound).toBe(2);
+    expect(plan.targets).toHaveLength(1);
+    expect(plan.targets[0].target).toBe('Calculator');
+  });
+
+  it('should respect maxTestsPerPR', async () => {
+    const plan = await planTestGeneration({
+      targets: [addTarget, { ...addTarget, functionName: 'sub' }],
+      config: { ...mockConfig, maxTestsPerPR: 1 } as never,
+      mode: 'full',
+    });
+
+    expect(plan.targets).toHaveLength(1);
+  });
+
+  it('should use scaffold prompts in scaffold mode', async () => {
+    const plan = await planTestGeneration({ targets: [addTarget], config: mockConfig as never, mode: 'scaffold' });
+
+    expect(buildScaffoldRequest).toHaveBeenCalled();
+    expect(plan.targets[0].estimatedCompletionTokens).toBe(2000);
+  });
+
+  it('should report unknown cost for unpriced models', async () => {
+    const plan = await planTestGeneration({
+      targets: [addTarget],
+      config: { ...mockConfig, model: 'my-local-model' } as never,
+      mode: 'full',
+    });
+
+    expect(plan.targets[0].estimatedCostUSD).toBeNull();
+    expect(plan.totals.costUSD).toBeNull();
+  });
+
+  it('should print the plan', async () => {
+    const plan = await planTestGeneration({ targets: [addTarget], config: mockConfig as never, mode: 'full' });
+
+    printTestGenerationPlan(plan, mockConfig);
+
+    expect(vi.mocked(info).mock.calls.some(([msg]) => String(msg).includes('DRY RUN'))).toBe(true);
+    expect(vi.mocked(info).mock.calls.some(([msg]) => String(msg).includes('__tests__/utils.test.ts'))).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Dry-run planning for test generation
+ * Shows which targets would be processed, where their tests would go and
+ * roughly what the run would cost - without calling the LLM or writing anything
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { KakarotConfig } from '../types/config.js';
+import type { TestGenerationOptions } from './test-generation-core.js';
+import { consolidateClassTargets } from './test-generation-core.js';
+import { buildGenerationRequest, buildScaffoldRequest } from '../llm/generation-request.js';
+import { estimateCost } from '../llm/pricing.js';
+import { configuredPrices } from '../llm/models.js';
+import { getTestFilePath } from '../utils/test-file-path.js';
+import { calculateImportPath } from '../utils/import-path-calculator.js';
+import { hasExistingTests } from '../utils/test-file-merger.js';
+import { estimateTokens } from '../utils/context-optimizer.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { info, warn } from '../utils/logger.js';
+
+export interface PlannedTarget {
+  /** Display label (class name for consolidated class targets) */
+  target: string;
+  filePath: string;
+  functionName: string;
+  className?: string;
+  testFilePath: string;
+  testFileExists: boolean;
+  /** True if hasExistingTests() would skip this target */
+  skip: boolean;
+  skipReason?: string;
+  estimatedPromptTokens: number;
+  estimatedCompletionTokens: number;
+  /** null when the model's price is unknown */
+  estimatedCostUSD: number | null;
+}
+
+export interface TestGenerationPlan {
+  mode: 'pr' | 'scaffold' | 'full';
+  provider: string;
+  model: string;
+  /** Targets found before maxTestsPerPR and class consolidation */
+  targetsFound: number;
+  targets: PlannedTarget[];
+  totals: {
+    targets: number;
+    skipped: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUSD: number | null;
+  };
+}
+
+/**
+ * Build a test generation plan for a set of targets.
+ * Mirrors the target selection of generateTestsFromTargets but makes no LLM calls.
+ */
+export async function planTestGeneration(options: TestGenerationOptions): Promise<TestGenerationPlan> {
+  const { targets, config, mode, getExistingTestFile } = options;
+
+  const isUnlimited = config.maxTestsPerPR === -1;
+  const limitedTargets = isUnlimited ? targets : targets.slice(0, config.maxTestsPerPR);
+  if (!isUnlimited && targets.length > limitedTargets.length) {
+    warn(`Limited to ${limitedTargets.length} target(s) (maxTestsPerPR: ${config.maxTestsPerPR})`);
+  }
+
+  const consolidatedTargets = consolidateClassTargets(limitedTargets);
+  const projectRoot = await findProjectRoot();
+  const model = config.model ?? 'unknown';
+
+  // Read each test file once, like the real run does
+  const existingContentCache = new Map<string, string | undefined>();
+  const readExistingContent = async (testFilePath: string): Promise<string | undefined> => {
+    if (existingContentCache.has(testFilePath)) {
+      return existingContentCache.get(testFilePath);
+    }
+    let content: string | undefined;
+    if (getExistingTestFile) {
+      content = await getExistingTestFile(testFilePath);
+    } else {
+      const fullTestPath = join(projectRoot, testFilePath);
+      if (existsSync(fullTestPath)) {
+        content = readFileSync(fullTestPath, 'utf-8');
+      }
+    }
+    existingContentCache.set(testFilePath, content);
+    return content;
+  };
+
+  const planned: PlannedTarget[] = [];
+
+  for (const target of consolidatedTargets) {
+    const targetLabel = target.className || target.functionName;
+    const testFilePath = getTestFilePath(target, config);
+    const existingContent = await readExistingContent(testFilePath);
+    const skip = existingContent ? hasExistingTests(existingContent, target.functionName, target.className) : false;
+
+    let estimatedPromptTokens = 0;
+    let estimatedCompletionTokens = 0;
+    if (!skip) {
+      const importPath = calculateImportPath(testFilePath, target.filePath);
+      const request = mode === 'scaffold'
+        ? await buildScaffoldRequest(config, target, existingContent, config.framework, testFilePath, importPath)
+        : buildGenerationRequest(config, {
+            target,
+            framework: config.framework,
+            existingTestFile: existingContent,
+            testFilePath,
+            importPath,
+          });
+      estimatedPromptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+      estimatedCompletionTokens = request.estimatedOutputTokens;
+    }
+
+    planned.push({
+      target: targetLabel,
+      filePath: target.filePath,
+      functionName: target.functionName,
+      className: target.className,
+      testFilePath,
+      testFileExists: existingContent !== undefined,
+      skip,
+      skipReason: skip ? `tests already exist in ${testFilePath}` : undefined,
+      estimatedPromptTokens,
+      estimatedCompletionTokens,
+      estimatedCostUSD: skip ? 0 : estimateCost(model, estimatedPromptTokens, estimatedCompletionTokens, configuredPrices(config)),
+    });
+  }
+
+  const active = planned.filter(t => !t.skip);
+  const costs = active.map(t => t.estimatedCostUSD);
+
+  return {
+    mode,
+    provider: config.provider ?? 'openai',
+    model,
+    targetsFound: targets.length,
+    targets: planned,
+    totals: {
+      targets: active.length,
+      skipped: planned.length - active.length,
+      promptTokens: active.reduce((sum, t) => sum + t.estimatedPromptTokens, 0),
+      completionTokens: active.reduce((sum, t) => sum + t.estimatedCompletionTokens, 0),
+      costUSD: costs.some(c => c === null) ? null : costs.reduce<number>((sum, c) => sum + (c ?? 0), 0),
+    },
+  };
+}
+
+function formatCost(cost: number | null): string {
+  return cost === null ? 'unknown' : `$${cost.toFixed(4)}`;
+}
+
+/**
+ * Print a human-readable plan
+ */
+export function printTestGenerationPlan(plan: TestGenerationPlan, config: Pick<KakarotConfig, 'maxFixAttempts'>): void {
+  info('');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info('  KAKAROT CI — DRY RUN (no LLM calls, no files written)');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info('');
+  info(`  Mode:          ${plan.mode}`);
+  info(`  Model:         ${plan.provider}/${plan.model}`);
+  info(`  Targets:       ${plan.totals.targets} to generate, ${plan.totals.skipped} skipped (${plan.targetsFound} found)`);
+  info('');
+
+  for (const t of plan.targets) {
+    if (t.skip) {
+      info(`  ○ ${t.target} (${t.filePath}) → ${t.testFilePath} — skip: ${t.skipReason}`);
+    } else {
+      const fileNote = t.testFileExists ? 'merge into existing' : 'new file';
+      info(`  ● ${t.target} (${t.filePath}) → ${t.testFilePath} [${fileNote}]`);
+      info(`      ~${t.estimatedPromptTokens} prompt + ~${t.estimatedCompletionTokens} completion tokens, ${formatCost(t.estimatedCostUSD)}`);
+    }
+  }
+
+  info('');
+  info(`  Estimated:     ~${plan.totals.promptTokens} prompt + ~${plan.totals.completionTokens} completion tokens, ${formatCost(plan.totals.costUSD)}`);
+  if (plan.mode !== 'scaffold') {
+    info(`  Note:          excludes fix attempts (up to ${config.maxFixAttempts === -1 ? 'unlimited' : config.maxFixAttempts} per failing file) and review calls`);
+  }
+  info('');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import { classifyError, detectSummaryFailures, resolveErrorExit, resolveSummaryExit, EXIT_CODES } from './exit-codes.js';
+import { FAILURE_CLASSES } from '../types/config.js';
+import { CommitConflictError, ConfigError, NonRetryableError, QuotaError } from '../types/errors.js';
+import type { TestGenerationSummary } from './orchestrator.js';
+import type { TestResult } from '../types/test-runner.js';
+
+function summary(overrides: Partial<TestGenerationSummary> = {}): TestGenerationSummary {
+  return {
+    targetsProcessed: 3,
+    testsGenerated: 3,
+    testsFailed: 0,
+    testFiles: [{ path: 'src/a.test.ts', targets: ['a'] }],
+    errors: [],
+    ...overrides,
+  };
+}
+
+function failing(failed: number): TestResult[] {
+  return [{ success: failed === 0, testFile: 'src/a.test.ts', passed: 2, failed, total: 2 + failed, duration: 0, failures: [] }];
+}
+
+describe('classifyError', () => {
+  it('should map error types to classes', () => {
+    expect(classifyError(new ZodError([]))).toBe('config-error');
+    expect(classifyError(new ConfigError('bad key'))).toBe('config-error');
+    expect(classifyError(new QuotaError('quota'))).toBe('quota');
+    expect(classifyError(new NonRetryableError('model not found'))).toBe('llm-error');
+    expect(classifyError(new CommitConflictError('moved ahead'))).toBe('commit-conflict');
+    expect(classifyError(new Error('boom'))).toBe('fatal');
+  });
+});
+
+describe('detectSummaryFailures', () => {
+  it('should report nothing for a clean run', () => {
+    expect(detectSummaryFailures(summary({ testResults: failing(0) }))).toEqual([]);
+  });
+
+  it('should treat generation errors as partial success only when some tests were generated', () => {
+    const errors = [{ target: 'src/a.ts:b', error: 'syntax error' }];
+    expect(detectSummaryFailures(summary({ errors }))).toEqual(['partial']);
+    expect(detectSummaryFailures(summary({ errors, testsGenerated: 0 }))).toEqual(['llm-error']);
+  });
+
+  it('should order failures by severity', () => {
+    const failures = detectSummaryFailures(summary({
+      errors: [{ target: 'src/a.ts:b', error: 'syntax error' }],
+      testResults: failing(1),
+      commitConflict: true,
+    }));
+    expect(failures).toEqual(['commit-conflict', 'tests-failing', 'partial']);
+  });
+});
+
+describe('resolveSummaryExit', () => {
+  const run = summary({ errors: [{ target: 'src/a.ts:b', error: 'syntax error' }], testResults: failing(1) });
+
+  it('should exit with the most severe failure by default', () => {
+    expect(resolveSummaryExit(run, FAILURE_CLASSES)).toEqual({
+      code: EXIT_CODES.testsFailing,
+      failures: ['tests-failing', 'partial'],
+      ignored: [],
+    });
+  });
+
+  it('should stay green for failures left out of failOn', () => {
+    expect(resolveSummaryExit(run, ['llm-error', 'commit-conflict'])).toEqual({
+      code: EXIT_CODES.success,
+      failures: ['tests-failing', 'partial'],
+      ignored: ['tests-failing', 'partial'],
+    });
+    expect(resolveSummaryExit(run, ['partial']).code).toBe(EXIT_CODES.partial);
+  });
+});
+
+describe('resolveErrorExit', () => {
+  it('should always fail on config and unexpected errors', () => {
+    expect(resolveErrorExit(new ConfigError('bad'), [])).toBe(EXIT_CODES.configError);
+    expect(resolveErrorExit(new Error('boom'), [])).toBe(EXIT_CODES.fatal);
+  });
+
+  it('should apply failOn to other error classes', () => {
+    expect(resolveErrorExit(new QuotaError('quota'), FAILURE_CLASSES)).toBe(EXIT_CODES.quota);
+    expect(resolveErrorExit(new QuotaError('quota'), ['llm-error'])).toBe(EXIT_CODES.success);
+    expect(resolveErrorExit(new CommitConflictError('moved'), ['commit-conflict'])).toBe(EXIT_CODES.commitConflict);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Process exit codes and the `failOn` policy that decides which run outcomes fail CI
+ */
+
+import { ZodError } from 'zod';
+import { FAILURE_CLASSES, type FailureClass } from '../types/config.js';
+import { CommitConflictError, ConfigError, NonRetryableError, QuotaError } from '../types/errors.js';
+import type { TestGenerationSummary } from './orchestrator.js';
+
+export const EXIT_CODES = {
+  success: 0,
+  /** Unexpected crash or invalid CLI usage */
+  fatal: 1,
+  configError: 2,
+  quota: 3,
+  llmError: 4,
+  commitConflict: 5,
+  testsFailing: 6,
+  partial: 7,
+} as const;
+
+const FAILURE_EXIT_CODES: Record<FailureClass, number> = {
+  'quota': EXIT_CODES.quota,
+  'llm-error': EXIT_CODES.llmError,
+  'commit-conflict': EXIT_CODES.commitConflict,
+  'tests-failing': EXIT_CODES.testsFailing,
+  'partial': EXIT_CODES.partial,
+};
+
+export type ErrorClass = FailureClass | 'config-error' | 'fatal';
+
+export interface ExitDecision {
+  code: number;
+  /** Failure classes that occurred, most severe first */
+  failures: FailureClass[];
+  /** Failures that occurred but are not in `failOn` */
+  ignored: FailureClass[];
+}
+
+/**
+ * Classify an error that aborted the run
+ */
+export function classifyError(err: unknown): ErrorClass {
+  if (err instanceof ZodError || err instanceof ConfigError) {
+    return 'config-error';
+  }
+  if (err instanceof QuotaError) {
+    return 'quota';
+  }
+  if (err instanceof CommitConflictError) {
+    return 'commit-conflict';
+  }
+  if (err instanceof NonRetryableError) {
+    return 'llm-error';
+  }
+  return 'fatal';
+}
+
+/**
+ * Failure classes present in a finished run, most severe first.
+ * Generation errors are a partial success when at least one test was generated.
+ */
+export function detectSummaryFailures(summary: TestGenerationSummary): FailureClass[] {
+  const found = new Set<FailureClass>();
+
+  if (summary.errors.length > 0) {
+    found.add(summary.testsGenerated > 0 ? 'partial' : 'llm-error');
+  }
+  if (summary.commitConflict) {
+    found.add('commit-conflict');
+  }
+  const failingTests = (summary.testResults ?? []).reduce((sum, r) => sum + r.failed, 0);
+  if (failingTests > 0) {
+    found.add('tests-failing');
+  }
+
+  return FAILURE_CLASSES.filter(failure => found.has(failure));
+}
+
+/**
+ * Exit code for a finished run: the most severe failure listed in `failOn`, otherwise success
+ */
+export function resolveSummaryExit(summary: TestGenerationSummary, failOn: readonly FailureClass[]): ExitDecision {
+  const failures = detectSummaryFailures(summary);
+  const failing = failures.filter(failure => failOn.includes(failure));
+  return {
+    code: failing.length > 0 ? FAILURE_EXIT_CODES[failing[0]] : EXIT_CODES.success,
+    failures,
+    ignored: failures.filter(failure => !failOn.includes(failure)),
+  };
+}
+
+/**
+ * Exit code for an error that aborted the run. Config errors and unexpected
+ * errors always fail; other classes fail only when listed in `failOn`.
+ */
+export function resolveErrorExit(err: unknown, failOn: readonly FailureClass[]): number {
+  const errorClass = classifyError(err);
+  switch (errorClass) {
+    case 'config-error':
+      return EXIT_CODES.configError;
+    case 'fatal':
+      return EXIT_CODES.fatal;
+    default:
+      return failOn.includes(errorClass) ? FAILURE_EXIT_CODES[errorClass] : EXIT_CODES.success;
+  }
+}
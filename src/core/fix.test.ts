@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runFix } from './fix.js';
+import { readFileSync, existsSync } from 'fs';
+import { analyzeFile } from '../utils/ast-analyzer.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { detectPackageManager } from '../utils/package-manager-detector.js';
+import { listProjectFiles } from '../utils/project-files.js';
+import { createTestRunner } from '../utils/test-runner/factory.js';
+import { runTestsAndFix } from './test-generation-core.js';
+import { loadLocalConfig } from './local-orchestrator.js';
+import { KakarotError } from '../types/errors.js';
+import type { TestResult } from '../types/test-runner.js';
+
+vi.mock('fs');
+vi.mock('../llm/test-generator.js');
+vi.mock('../utils/ast-analyzer.js');
+vi.mock('../utils/config-loader.js');
+vi.mock('../utils/package-manager-detector.js');
+vi.mock('../utils/project-files.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/project-files.js')>()),
+  listProjectFiles: vi.fn(),
+}));
+vi.mock('../utils/test-runner/factory.js');
+vi.mock('./test-generation-core.js');
+vi.mock('./local-orchestrator.js');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  success: vi.fn(),
+  debug: vi.fn(),
+}));
+
+function result(testFile: string, failing: string[] = []): TestResult {
+  return {
+    success: failing.length === 0,
+    testFile,
+    passed: 2,
+    failed: failing.length,
+    total: 2 + failing.length,
+    duration: 10,
+    failures: failing.map(testName => ({ testName, message: 'expected 1 to be 2' })),
+  };
+}
+
+describe('runFix', () => {
+  const config = { framework: 'vitest', testDirectory: '__tests__', maxFixAttempts: 5 };
+  const runTests = vi.fn();
+  const files: Record<string, string> = {
+    '/project/src/math.test.ts': "import { add } from './math';\nit('adds', () => {});",
+    '/project/src/math.ts': 'export function add(a: number, b: number) {\n  return a + b;\n}',
+    '/project/src/other.test.ts': "it('works', () => {});",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadLocalConfig).mockResolvedValue(config as never);
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(detectPackageManager).mockReturnValue('npm');
+    vi.mocked(createTestRunner).mockReturnValue({ runTests } as never);
+    vi.mocked(listProjectFiles).mockReturnValue(['src/math.test.ts', 'src/math.ts', 'src/other.test.ts', 'README.md']);
+    vi.mocked(readFileSync).mockImplementation(path => files[String(path)] ?? '');
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(analyzeFile).mockResolvedValue([{
+      filePath: 'src/math.ts',
+      functionName: 'add',
+      functionType: 'function',
+      startLine: 1,
+      endLine: 3,
+      code: 'return a + b;',
+      context: '',
+      changedRanges: [],
+    }]);
+    vi.mocked(runTestsAndFix).mockImplementation(async (_runner, testFiles) => testFiles);
+  });
+
+  it('should run the whole suite and report nothing to fix when it passes', async () => {
+    runTests.mockResolvedValue([result('src/math.test.ts'), result('src/other.test.ts')]);
+
+    const summary = await runFix({});
+
+    expect(runTests).toHaveBeenCalledWith(expect.objectContaining({
+      testFiles: ['src/math.test.ts', 'src/other.test.ts'],
+      coverage: false,
+    }));
+    expect(runTestsAndFix).not.toHaveBeenCalled();
+    expect(summary).toEqual({ filesChecked: 2, filesFailing: 0, filesFixed: 0, stillFailing: [] });
+  });
+
+  it('should fix only failing files, with source targets and without removing tests', async () => {
+    runTests
+      .mockResolvedValueOnce([result('src/math.test.ts', ['adds']), result('src/other.test.ts')])
+      .mockResolvedValueOnce([result('src/math.test.ts')]);
+
+    const summary = await runFix({});
+
+    expect(analyzeFile).toHaveBeenCalledWith(
+      'src/math.ts', files['/project/src/math.ts'], [{ start: 1, end: 3, type: 'addition' }], 'HEAD', expect.anything(), '__tests__', true
+    );
+    const [, testFiles, testFilePaths, , , , , maxFixAttempts, , targetsMap, options] = vi.mocked(runTestsAndFix).mock.calls[0];
+    expect(testFilePaths).toEqual(['src/math.test.ts']);
+    expect(testFiles.get('src/math.test.ts')).toEqual({ content: files['/project/src/math.test.ts'], targets: ['add'] });
+    expect(targetsMap['src/math.test.ts'].map(t => t.functionName)).toEqual(['add']);
+    expect(maxFixAttempts).toBe(5);
+    expect(options).toEqual({ removeStubbornTests: false });
+    expect(summary).toEqual({ filesChecked: 2, filesFailing: 1, filesFixed: 1, stillFailing: [] });
+  });
+
+  it('should report tests that are still failing', async () => {
+    runTests
+      .mockResolvedValueOnce([result('src/math.test.ts', ['adds', 'carries'])])
+      .mockResolvedValueOnce([result('src/math.test.ts', ['carries'])]);
+
+    const summary = await runFix({ patterns: ['src/math.test.ts'] });
+
+    expect(summary.filesFixed).toBe(0);
+    expect(summary.stillFailing).toEqual([{ testFile: 'src/math.test.ts', tests: ['carries'] }]);
+  });
+
+  it('should fix from the test code alone when no source file is found', async () => {
+    runTests
+      .mockResolvedValueOnce([result('src/other.test.ts', ['works'])])
+      .mockResolvedValueOnce([result('src/other.test.ts')]);
+
+    await runFix({ patterns: ['./src/other.test.ts'] });
+
+    expect(analyzeFile).not.toHaveBeenCalled();
+    expect(vi.mocked(runTestsAndFix).mock.calls[0][1].get('src/other.test.ts')?.targets).toEqual([]);
+  });
+
+  it('should expand globs to matching test files', async () => {
+    runTests.mockResolvedValue([]);
+
+    await runFix({ patterns: ['src/**/*.test.ts'] });
+
+    expect(runTests).toHaveBeenCalledWith(expect.objectContaining({
+      testFiles: ['src/math.test.ts', 'src/other.test.ts'],
+    }));
+  });
+
+  it('should fail when a pattern matches no test file', async () => {
+    await expect(runFix({ patterns: ['src/missing.test.ts'] })).rejects.toThrow(KakarotError);
+    expect(runTests).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Repair existing failing test files (including human-written ones)
+ * with the same fix loop used for generated tests
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { ChangedRange, TestTarget } from '../types/diff.js';
+import { TestGenerator } from '../llm/test-generator.js';
+import { analyzeFile } from '../utils/ast-analyzer.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { detectPackageManager } from '../utils/package-manager-detector.js';
+import { listProjectFiles, selectTestFiles } from '../utils/project-files.js';
+import { createTestRunner } from '../utils/test-runner/factory.js';
+import { findSourceFileForTest } from '../utils/test-file-path.js';
+import { info, warn, error, success, debug } from '../utils/logger.js';
+import { runTestsAndFix, type TestFileToTargetsMap } from './test-generation-core.js';
+import { loadLocalConfig } from './local-orchestrator.js';
+
+export interface FixContext {
+  /** Test file paths or globs; when omitted the whole suite is run to find failing files */
+  patterns?: string[];
+}
+
+export interface FixSummary {
+  filesChecked: number;
+  filesFailing: number;
+  filesFixed: number;
+  /** Tests still failing after the fix loop; they are left in place, not deleted */
+  stillFailing: Array<{
+    testFile: string;
+    tests: string[];
+  }>;
+}
+
+/**
+ * Analyze the source file a test covers so the fix prompt sees the real implementation
+ */
+async function loadSourceTargets(
+  testFile: string,
+  testContent: string,
+  projectFiles: string[],
+  projectRoot: string,
+  testDirectory: string
+): Promise<TestTarget[]> {
+  const sourceFile = findSourceFileForTest(testFile, testContent, projectFiles);
+  if (!sourceFile) {
+    warn(`${testFile}: could not find the source file it tests; fixing from the test code alone`);
+    return [];
+  }
+
+  debug(`${testFile} tests ${sourceFile}`);
+  const content = readFileSync(join(projectRoot, sourceFile), 'utf-8');
+  const ranges: ChangedRange[] = [{ start: 1, end: content.split('\n').length, type: 'addition' }];
+  const localFileChecker = {
+    fileExists: async (_ref: string, path: string): Promise<boolean> => existsSync(join(projectRoot, path)),
+  };
+  return analyzeFile(sourceFile, content, ranges, 'HEAD', localFileChecker, testDirectory, true);
+}
+
+/**
+ * Run the selected test files and repair the failing ones.
+ * Stubborn tests are simplified but never removed; anything still failing is reported.
+ */
+export async function runFix(context: FixContext): Promise<FixSummary> {
+  const config = await loadLocalConfig({});
+  const projectRoot = await findProjectRoot();
+  const packageManager = detectPackageManager(projectRoot);
+  const testRunner = createTestRunner(config.framework);
+
+  const projectFiles = listProjectFiles(projectRoot);
+  const testFilePaths = selectTestFiles(context.patterns, projectFiles, projectRoot);
+  const summary: FixSummary = { filesChecked: testFilePaths.length, filesFailing: 0, filesFixed: 0, stillFailing: [] };
+
+  if (testFilePaths.length === 0) {
+    info('No test files found');
+    return summary;
+  }
+
+  info(`Running ${testFilePaths.length} test file(s) to find failures`);
+  const initialResults = await testRunner.runTests({
+    testFiles: testFilePaths,
+    framework: config.framework,
+    packageManager,
+    projectRoot,
+    coverage: false,
+  });
+  const failingFiles = initialResults.filter(r => !r.success).map(r => r.testFile);
+  summary.filesFailing = failingFiles.length;
+
+  if (failingFiles.length === 0) {
+    success(`All ${testFilePaths.length} test file(s) pass, nothing to fix`);
+    return summary;
+  }
+
+  info(`${failingFiles.length} failing test file(s): ${failingFiles.join(', ')}`);
+
+  const testFiles = new Map<string, { content: string; targets: string[] }>();
+  const testFileToTargetsMap: TestFileToTargetsMap = {};
+  for (const testFile of failingFiles) {
+    const content = readFileSync(join(projectRoot, testFile), 'utf-8');
+    let targets: TestTarget[] = [];
+    try {
+      targets = await loadSourceTargets(testFile, content, projectFiles, projectRoot, config.testDirectory);
+    } catch (err) {
+      warn(`${testFile}: failed to analyze source file: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    testFiles.set(testFile, { content, targets: targets.map(t => t.functionName) });
+    testFileToTargetsMap[testFile] = targets;
+  }
+
+  await runTestsAndFix(
+    testRunner,
+    testFiles,
+    failingFiles,
+    config.framework,
+    packageManager,
+    projectRoot,
+    new TestGenerator(config),
+    config.maxFixAttempts,
+    config,
+    testFileToTargetsMap,
+    { removeStubbornTests: false }
+  );
+
+  const finalResults = await testRunner.runTests({
+    testFiles: failingFiles,
+    framework: config.framework,
+    packageManager,
+    projectRoot,
+    coverage: false,
+  });
+  summary.stillFailing = finalResults
+    .filter(r => !r.success)
+    .map(r => ({ testFile: r.testFile, tests: r.failures.map(f => f.testName) }));
+  summary.filesFixed = failingFiles.length - summary.stillFailing.length;
+
+  printFixSummary(summary);
+  return summary;
+}
+
+/**
+ * Print the fix summary, listing every test that is still failing
+ */
+function printFixSummary(summary: FixSummary): void {
+  info('');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info('  Fix Summary');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info(`  Files checked: ${summary.filesChecked}`);
+  info(`  Files failing: ${summary.filesFailing}`);
+  info(`  Files fixed:   ${summary.filesFixed}`);
+  if (summary.stillFailing.length > 0) {
+    error(`  Still failing: ${summary.stillFailing.length} file(s)`);
+    for (const { testFile, tests } of summary.stillFailing) {
+      error(`                 → ${testFile}`);
+      for (const test of tests) {
+        error(`                     ✗ ${test}`);
+      }
+    }
+  }
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+}
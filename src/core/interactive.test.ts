@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { approveTestFiles, snapshotTestFiles } from './interactive.js';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { createInterface } from 'readline';
+import { KakarotError } from '../types/errors.js';
+import { info } from '../utils/logger.js';
+
+vi.mock('fs');
+vi.mock('child_process', () => ({
+  spawnSync: vi.fn(),
+}));
+vi.mock('readline');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  success: vi.fn(),
+}));
+
+describe('snapshotTestFiles', () => {
+  it('should record existing content and null for missing files', () => {
+    vi.mocked(existsSync).mockImplementation(path => String(path) === '/project/a.test.ts');
+    vi.mocked(readFileSync).mockReturnValue('existing');
+
+    expect(snapshotTestFiles(['a.test.ts', 'b.test.ts'], '/project')).toEqual(new Map([
+      ['a.test.ts', 'existing'],
+      ['b.test.ts', null],
+    ]));
+  });
+});
+
+describe('approveTestFiles', () => {
+  const isTTY = process.stdin.isTTY;
+  const editor = process.env.EDITOR;
+  let disk: Record<string, string>;
+  let answers: Array<string | null>;
+  let closeListeners: Array<() => void>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.stdin.isTTY = true;
+    process.env.EDITOR = 'code --wait';
+    delete process.env.VISUAL;
+    disk = {
+      '/project/edited.test.ts': "it('old', () => {});\nit('new', () => {});",
+      '/project/new.test.ts': "it('generated', () => {});",
+      '/project/same.test.ts': 'unchanged',
+    };
+    vi.mocked(existsSync).mockImplementation(path => String(path) in disk);
+    vi.mocked(readFileSync).mockImplementation(path => disk[String(path)]);
+    vi.mocked(writeFileSync).mockImplementation((path, content) => {
+      disk[String(path)] = String(content);
+    });
+    vi.mocked(unlinkSync).mockImplementation(path => {
+      delete disk[String(path)];
+    });
+
+    answers = [];
+    closeListeners = [];
+    vi.mocked(createInterface).mockReturnValue({
+      question: (_query: string, callback: (answer: string) => void) => {
+        const answer = answers.shift();
+        if (answer === null || answer === undefined) {
+          closeListeners.forEach(listener => listener());
+        } else {
+          callback(answer);
+        }
+      },
+      once: (_event: string, listener: () => void) => closeListeners.push(listener),
+      off: (_event: string, listener: () => void) => {
+        closeListeners = closeListeners.filter(l => l !== listener);
+      },
+      close: vi.fn(),
+    } as never);
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY;
+    process.env.EDITOR = editor;
+    if (editor === undefined) delete process.env.EDITOR;
+  });
+
+  const snapshot = () => new Map<string, string | null>([
+    ['edited.test.ts', "it('old', () => {});"],
+    ['new.test.ts', null],
+    ['same.test.ts', 'unchanged'],
+  ]);
+
+  it('should keep accepted files and restore or remove rejected ones', async () => {
+    answers = ['r', 'a'];
+
+    const result = await approveTestFiles({ projectRoot: '/project', snapshot: snapshot() });
+
+    expect(result).toEqual({ accepted: ['new.test.ts'], rejected: ['edited.test.ts'] });
+    expect(disk['/project/edited.test.ts']).toBe("it('old', () => {});");
+    expect(disk['/project/new.test.ts']).toBe("it('generated', () => {});");
+  });
+
+  it('should show the diff and test result for each changed file', async () => {
+    answers = ['a', 'a'];
+
+    await approveTestFiles({
+      projectRoot: '/project',
+      snapshot: snapshot(),
+      testResults: [{
+        success: false,
+        testFile: 'edited.test.ts',
+        passed: 1,
+        failed: 1,
+        total: 2,
+        duration: 0,
+        failures: [{ testName: 'new', message: 'boom' }],
+      }],
+    });
+
+    const output = vi.mocked(info).mock.calls.map(([message]) => message).join('\n');
+    expect(output).toContain('[1/2] edited.test.ts');
+    expect(output).toContain('Tests: ✗ 1 failed, 1 passed (new)');
+    expect(output).toContain("\x1b[32m+it('new', () => {});\x1b[0m");
+    expect(output).toContain('[2/2] new.test.ts (new file)');
+    expect(output).toContain('Tests: not run');
+    expect(output).not.toContain('same.test.ts');
+  });
+
+  it('should open the editor and ask again with the edited content', async () => {
+    answers = ['e', 'a', 'a'];
+    vi.mocked(spawnSync).mockImplementation(() => {
+      disk['/project/edited.test.ts'] = "it('edited', () => {});";
+      return { status: 0 } as never;
+    });
+
+    const result = await approveTestFiles({ projectRoot: '/project', snapshot: snapshot() });
+
+    expect(spawnSync).toHaveBeenCalledWith('code', ['--wait', '/project/edited.test.ts'], { stdio: 'inherit' });
+    expect(result.accepted).toEqual(['edited.test.ts', 'new.test.ts']);
+    expect(disk['/project/edited.test.ts']).toBe("it('edited', () => {});");
+  });
+
+  it('should reject every undecided file when input ends', async () => {
+    answers = [null];
+
+    const result = await approveTestFiles({ projectRoot: '/project', snapshot: snapshot() });
+
+    expect(result).toEqual({ accepted: [], rejected: ['edited.test.ts', 'new.test.ts'] });
+    expect(disk['/project/new.test.ts']).toBeUndefined();
+  });
+
+  it('should require an interactive terminal', async () => {
+    process.stdin.isTTY = false;
+
+    await expect(approveTestFiles({ projectRoot: '/project', snapshot: snapshot() })).rejects.toThrow(KakarotError);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Interactive per-file approval of generated tests (`--interactive`).
+ * Generation still writes files so they can be run and fixed; afterwards each changed
+ * test file is shown as a diff against its pre-run content and kept only if accepted.
+ */
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { spawnSync } from 'child_process';
+import { createInterface, type Interface } from 'readline';
+import type { TestResult } from '../types/test-runner.js';
+import { KakarotError } from '../types/errors.js';
+import { createUnifiedDiff, colorizeUnifiedDiff } from '../utils/text-diff.js';
+import { info, warn, success } from '../utils/logger.js';
+
+/** Pre-run content of each test file a run may touch; null when the file did not exist */
+export type TestFileSnapshot = Map<string, string | null>;
+
+export interface ApprovalResult {
+  accepted: string[];
+  rejected: string[];
+}
+
+export interface ApprovalOptions {
+  projectRoot: string;
+  snapshot: TestFileSnapshot;
+  testResults?: TestResult[];
+}
+
+/**
+ * Record the current content of the given test files before generation writes them
+ */
+export function snapshotTestFiles(testFilePaths: Iterable<string>, projectRoot: string): TestFileSnapshot {
+  const snapshot: TestFileSnapshot = new Map();
+  for (const testFile of testFilePaths) {
+    const fullPath = join(projectRoot, testFile);
+    snapshot.set(testFile, existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null);
+  }
+  return snapshot;
+}
+
+function formatResult(result: TestResult | undefined): string {
+  if (!result) {
+    return 'not run';
+  }
+  if (result.failed > 0) {
+    const names = result.failures.map(f => f.testName).join(', ');
+    return `✗ ${result.failed} failed, ${result.passed} passed${names ? ` (${names})` : ''}`;
+  }
+  return `✓ ${result.passed} passed`;
+}
+
+/**
+ * Ask a question, resolving null if input ends (Ctrl-D) before an answer
+ */
+function ask(rl: Interface, question: string): Promise<string | null> {
+  return new Promise(resolve => {
+    const onClose = () => resolve(null);
+    rl.once('close', onClose);
+    rl.question(question, answer => {
+      rl.off('close', onClose);
+      resolve(answer.trim().toLowerCase());
+    });
+  });
+}
+
+/**
+ * Open a file in $VISUAL/$EDITOR (default: vi) and wait for the editor to exit
+ */
+function openInEditor(fullPath: string): void {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const [command, ...args] = editor.split(/\s+/).filter(Boolean);
+  const result = spawnSync(command, [...args, fullPath], { stdio: 'inherit' });
+  if (result.error || result.status !== 0) {
+    warn(`Editor "${editor}" did not exit cleanly${result.error ? `: ${result.error.message}` : ''}`);
+  }
+}
+
+function restore(fullPath: string, original: string | null): void {
+  if (original === null) {
+    if (existsSync(fullPath)) {
+      unlinkSync(fullPath);
+    }
+  } else {
+    writeFileSync(fullPath, original, 'utf-8');
+  }
+}
+
+/**
+ * Show each changed test file as a colored diff with its pass/fail result and let the user
+ * accept, reject or edit it. Rejected files are restored to their pre-run content.
+ */
+export async function approveTestFiles({ projectRoot, snapshot, testResults }: ApprovalOptions): Promise<ApprovalResult> {
+  if (!process.stdin.isTTY) {
+    throw new KakarotError('--interactive requires an interactive terminal');
+  }
+
+  const approval: ApprovalResult = { accepted: [], rejected: [] };
+  const changed = [...snapshot.entries()].filter(([testFile, original]) => {
+    const fullPath = join(projectRoot, testFile);
+    const current = existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null;
+    return current !== original;
+  });
+
+  if (changed.length === 0) {
+    return approval;
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  // Once input ends, every undecided file is rejected so nothing unapproved stays on disk
+  let inputClosed = false;
+  try {
+    for (const [index, [testFile, original]] of changed.entries()) {
+      const fullPath = join(projectRoot, testFile);
+      const result = testResults?.find(r => r.testFile === testFile);
+      let edited = false;
+
+      let decision: 'accept' | 'reject' | undefined;
+      while (!decision && !inputClosed) {
+        const current = existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : '';
+        info('');
+        info(`[${index + 1}/${changed.length}] ${testFile}${original === null ? ' (new file)' : ''}`);
+        info(`Tests: ${formatResult(result)}${edited ? ' (before your edits)' : ''}`);
+        info(`\n${colorizeUnifiedDiff(createUnifiedDiff(original, current, testFile))}`);
+
+        const answer = await ask(rl, 'Write this file? [a]ccept, [r]eject, [e]dit: ');
+        if (answer === null) {
+          inputClosed = true;
+        } else if (answer === 'a' || answer === 'accept') {
+          decision = 'accept';
+        } else if (answer === 'r' || answer === 'reject') {
+          decision = 'reject';
+        } else if (answer === 'e' || answer === 'edit') {
+          openInEditor(fullPath);
+          edited = true;
+        } else {
+          warn(`Unknown choice: ${answer}`);
+        }
+      }
+
+      if (decision === 'accept') {
+        success(`Accepted ${testFile}`);
+        approval.accepted.push(testFile);
+      } else {
+        restore(fullPath, original);
+        info(`Rejected ${testFile}${original === null ? ' (removed)' : ' (restored)'}`);
+        approval.rejected.push(testFile);
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return approval;
+}
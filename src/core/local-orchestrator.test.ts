@@ -1,12 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { runLocal } from './local-orchestrator.js';
-import { loadConfig } from '../utils/config-loader.js';
+import { loadConfig, findProjectRoot } from '../utils/config-loader.js';
+import { getTestFilePath } from '../utils/test-file-path.js';
 import { extractLocalTestTargets } from '../utils/local-file-analyzer.js';
+import { extractExplicitTestTargets } from '../utils/explicit-targets.js';
 import { generateTestsFromTargets } from './test-generation-core.js';
+import { planTestGeneration, printTestGenerationPlan } from './dry-run.js';
+import { extractBackfillTestTargets } from './backfill.js';
+import { snapshotTestFiles, approveTestFiles } from './interactive.js';
 
 vi.mock('../utils/config-loader.js');
 vi.mock('../utils/local-file-analyzer.js');
+vi.mock('../utils/explicit-targets.js');
 vi.mock('./test-generation-core.js');
+vi.mock('./dry-run.js');
+vi.mock('./backfill.js');
+vi.mock('./interactive.js');
+vi.mock('../utils/test-file-path.js');
 vi.mock('../utils/logger.js', () => ({
   initLogger: vi.fn(),
   info: vi.fn(),
@@ -98,5 +108,121 @@ describe('local-orchestrator', () => {
       expect.objectContaining({ mode: 'full' })
     );
   });
-});
 
+  it('should return a plan without generating in dry-run mode', async () => {
+    vi.mocked(extractLocalTestTargets).mockResolvedValue([{
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function',
+      code: 'export function add() {}',
+      context: '',
+      startLine: 1,
+      endLine: 1,
+      changedRanges: [],
+    }]);
+    const plan = {
+      mode: 'full' as const,
+      provider: 'openai',
+      model: 'gpt-5',
+      targetsFound: 1,
+      targets: [],
+      totals: { targets: 1, skipped: 0, promptTokens: 100, completionTokens: 4000, costUSD: 0.04 },
+    };
+    vi.mocked(planTestGeneration).mockResolvedValue(plan);
+
+    const result = await runLocal({ mode: 'full', dryRun: true });
+
+    expect(result.plan).toBe(plan);
+    expect(result.testsGenerated).toBe(0);
+    expect(printTestGenerationPlan).toHaveBeenCalled();
+    expect(generateTestsFromTargets).not.toHaveBeenCalled();
+  });
+
+  it('should use explicit targets instead of git changes', async () => {
+    const explicitTarget = {
+      filePath: 'src/old.ts',
+      functionName: 'parseThing',
+      functionType: 'function' as const,
+      code: 'export function parseThing() {}',
+      context: '',
+      startLine: 1,
+      endLine: 1,
+      changedRanges: [],
+    };
+    vi.mocked(extractExplicitTestTargets).mockResolvedValue([explicitTarget]);
+    vi.mocked(generateTestsFromTargets).mockResolvedValue({
+      targetsProcessed: 1,
+      testsGenerated: 1,
+      testsFailed: 0,
+      testFiles: [],
+      errors: [],
+      finalTestFiles: new Map(),
+    });
+
+    await runLocal({ mode: 'full', targets: ['src/old.ts#parseThing'] });
+
+    expect(extractExplicitTestTargets).toHaveBeenCalledWith(['src/old.ts#parseThing'], expect.anything());
+    expect(extractLocalTestTargets).not.toHaveBeenCalled();
+    expect(generateTestsFromTargets).toHaveBeenCalledWith(
+      expect.objectContaining({ targets: [explicitTarget] })
+    );
+  });
+
+  it('should select backfill targets and generate in full mode', async () => {
+    vi.mocked(extractBackfillTestTargets).mockResolvedValue([]);
+    vi.mocked(generateTestsFromTargets).mockResolvedValue({
+      targetsProcessed: 0,
+      testsGenerated: 0,
+      testsFailed: 0,
+      testFiles: [],
+      errors: [],
+      finalTestFiles: new Map(),
+    });
+
+    await runLocal({ mode: 'backfill', backfill: { limit: 5, tokenBudget: 50000 } });
+
+    expect(extractBackfillTestTargets).toHaveBeenCalledWith(expect.anything(), { limit: 5, tokenBudget: 50000 });
+    expect(extractLocalTestTargets).not.toHaveBeenCalled();
+    expect(generateTestsFromTargets).toHaveBeenCalledWith(expect.objectContaining({ mode: 'full' }));
+  });
+
+  it('should keep only approved test files in interactive mode', async () => {
+    const target = {
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function' as const,
+      code: 'export function add() {}',
+      context: '',
+      startLine: 1,
+      endLine: 1,
+      changedRanges: [],
+    };
+    const snapshot = new Map([['__tests__/utils.test.ts', null]]);
+    vi.mocked(extractLocalTestTargets).mockResolvedValue([target, { ...target, filePath: 'src/math.ts' }]);
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(getTestFilePath).mockImplementation(t => t.filePath.replace('src/', '__tests__/').replace('.ts', '.test.ts'));
+    vi.mocked(snapshotTestFiles).mockReturnValue(snapshot);
+    vi.mocked(approveTestFiles).mockResolvedValue({ accepted: ['__tests__/math.test.ts'], rejected: ['__tests__/utils.test.ts'] });
+    const passing = (testFile: string) => ({ success: true, testFile, passed: 1, failed: 0, total: 1, duration: 0, failures: [] });
+    vi.mocked(generateTestsFromTargets).mockResolvedValue({
+      targetsProcessed: 2,
+      testsGenerated: 2,
+      testsFailed: 0,
+      testFiles: [
+        { path: '__tests__/utils.test.ts', targets: ['add'] },
+        { path: '__tests__/math.test.ts', targets: ['add'] },
+      ],
+      errors: [],
+      testResults: [passing('__tests__/utils.test.ts'), passing('__tests__/math.test.ts')],
+      finalTestFiles: new Map(),
+    });
+
+    const result = await runLocal({ mode: 'full', interactive: true });
+
+    expect(snapshotTestFiles).toHaveBeenCalledWith(new Set(['__tests__/utils.test.ts', '__tests__/math.test.ts']), '/project');
+    expect(approveTestFiles).toHaveBeenCalledWith(expect.objectContaining({ projectRoot: '/project', snapshot }));
+    expect(result.rejectedTestFiles).toEqual(['__tests__/utils.test.ts']);
+    expect(result.testFiles.map(f => f.path)).toEqual(['__tests__/math.test.ts']);
+    expect(result.testResults?.map(r => r.testFile)).toEqual(['__tests__/math.test.ts']);
+  });
+});
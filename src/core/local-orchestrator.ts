@@ -3,17 +3,37 @@
  * Processes local git changes and generates tests (scaffold/full modes)
  */
 
-import { loadConfig } from '../utils/config-loader.js';
+import type { KakarotConfig } from '../types/config.js';
+import type { TestTarget } from '../types/diff.js';
+import { loadConfig, findProjectRoot } from '../utils/config-loader.js';
+import { getTestFilePath } from '../utils/test-file-path.js';
 import { initLogger, info } from '../utils/logger.js';
 import { extractLocalTestTargets } from '../utils/local-file-analyzer.js';
+import { extractExplicitTestTargets } from '../utils/explicit-targets.js';
+import { extractBackfillTestTargets, DEFAULT_BACKFILL_LIMIT, type BackfillOptions } from './backfill.js';
 import { generateTestsFromTargets } from './test-generation-core.js';
+import { planTestGeneration, printTestGenerationPlan, type TestGenerationPlan } from './dry-run.js';
+import { snapshotTestFiles, approveTestFiles } from './interactive.js';
 
 export interface LocalContext {
-  mode: 'scaffold' | 'full';
+  /** backfill runs like full, on the worst-covered exports across the repo */
+  mode: 'scaffold' | 'full' | 'backfill';
   /** CLI override for includePatterns */
   includePatterns?: string[];
   /** CLI override for excludePatterns */
   excludePatterns?: string[];
+  /** Plan only: no LLM calls, no files written */
+  dryRun?: boolean;
+  /** Explicit `file[#name,Class.method]` specs; bypasses git diff when set */
+  targets?: string[];
+  /** Ref or commit range to diff against instead of HEAD */
+  base?: string;
+  /** Only consider staged changes */
+  staged?: boolean;
+  /** Limit and token budget for backfill mode */
+  backfill?: BackfillOptions;
+  /** Review each changed test file after the run; only accepted files are kept */
+  interactive?: boolean;
 }
 
 export interface TestGenerationSummary {
@@ -29,13 +49,24 @@ export interface TestGenerationSummary {
     error: string;
   }>;
   coverageReport?: import('../types/coverage.js').CoverageReport;
+  coverageDelta?: import('../types/coverage.js').CoverageDelta;
   testResults?: import('../types/test-runner.js').TestResult[];
+  /** Functions tests were generated for */
+  targets?: TestTarget[];
+  /** Test files restored to their pre-run content in interactive mode */
+  rejectedTestFiles?: string[];
+  /** Present for dry runs */
+  plan?: TestGenerationPlan;
+  /** LLM tokens and cost for the run */
+  usage?: import('../llm/usage-ledger.js').UsageSummary;
 }
 
 /**
- * Main orchestration function to process local changes and generate tests
+ * Load config with CLI include/exclude overrides applied and initialize the logger
  */
-export async function runLocal(context: LocalContext): Promise<TestGenerationSummary> {
+export async function loadLocalConfig(
+  context: Pick<LocalContext, 'includePatterns' | 'excludePatterns'>
+): Promise<KakarotConfig> {
   const config = await loadConfig();
   
   // Apply CLI overrides for include/exclude patterns
@@ -48,27 +79,81 @@ export async function runLocal(context: LocalContext): Promise<TestGenerationSum
   
   // Initialize logger
   initLogger(config);
+
+  return config;
+}
+
+/**
+ * Main orchestration function to process local changes and generate tests
+ */
+export async function runLocal(context: LocalContext): Promise<TestGenerationSummary> {
+  const config = await loadLocalConfig(context);
   
-  info(`Processing local changes in ${context.mode} mode`);
+  const targetSpecs = context.targets ?? [];
+  const source = context.mode === 'backfill' ? 'repository' : targetSpecs.length > 0 ? 'explicit targets' : 'local changes';
+  info(`Processing ${source} in ${context.mode} mode`);
 
-  // Extract test targets from local git changes
-  const targets = await extractLocalTestTargets(config);
+  // Extract test targets from coverage gaps, explicit specs, or local git changes
+  let targets: TestTarget[];
+  if (context.mode === 'backfill') {
+    targets = await extractBackfillTestTargets(config, context.backfill ?? { limit: DEFAULT_BACKFILL_LIMIT });
+  } else if (targetSpecs.length > 0) {
+    targets = await extractExplicitTestTargets(targetSpecs, config);
+  } else {
+    targets = await extractLocalTestTargets(config, { base: context.base, staged: context.staged });
+  }
+
+  // Backfill generates, runs and fixes tests exactly like full mode
+  const generationMode = context.mode === 'backfill' ? 'full' : context.mode;
+
+  if (context.dryRun) {
+    const plan = await planTestGeneration({ targets, config, mode: generationMode });
+    printTestGenerationPlan(plan, config);
+    return {
+      targetsProcessed: 0,
+      testsGenerated: 0,
+      testsFailed: 0,
+      testFiles: [],
+      errors: [],
+      plan,
+    };
+  }
+
+  // Generation writes every test file it touches, so record their content for rejected files
+  const projectRoot = context.interactive ? await findProjectRoot() : '';
+  const snapshot = context.interactive
+    ? snapshotTestFiles(new Set(targets.map(target => getTestFilePath(target, config))), projectRoot)
+    : undefined;
 
   // Use shared test generation logic
   const result = await generateTestsFromTargets({
     targets,
     config,
-    mode: context.mode,
+    mode: generationMode,
   });
 
   // Convert to summary format
-  return {
+  const summary: TestGenerationSummary = {
     targetsProcessed: result.targetsProcessed,
     testsGenerated: result.testsGenerated,
     testsFailed: result.testsFailed,
     testFiles: result.testFiles,
     errors: result.errors,
     coverageReport: result.coverageReport,
+    coverageDelta: result.coverageDelta,
     testResults: result.testResults,
+    targets,
+    usage: result.usage,
   };
+
+  if (snapshot) {
+    const { rejected } = await approveTestFiles({ projectRoot, snapshot, testResults: result.testResults });
+    if (rejected.length > 0) {
+      summary.rejectedTestFiles = rejected;
+      summary.testFiles = summary.testFiles.filter(file => !rejected.includes(file.path));
+      summary.testResults = summary.testResults?.filter(r => !rejected.includes(r.testFile));
+    }
+  }
+
+  return summary;
 }
@@ -10,6 +10,8 @@ import { createTestRunner } from '../utils/test-runner/factory.js';
 import { writeTestFiles } from '../utils/test-file-writer.js';
 import { findProjectRoot } from '../utils/config-loader.js';
 import { readCoverageReport } from '../utils/coverage-reader.js';
+import { ConfigError } from '../types/errors.js';
+import { UsageLedger } from '../llm/usage-ledger.js';
 
 vi.mock('../utils/config-loader.js');
 vi.mock('../github/client.js');
@@ -53,6 +55,9 @@ describe('orchestrator', () => {
       generateTest: vi.fn(),
       fixTest: vi.fn(),
       generateCoverageSummary: vi.fn(),
+      getCacheStats: vi.fn().mockReturnValue(null),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn().mockReturnValue(new UsageLedger().getSummary()),
     } as unknown as TestGenerator;
 
     mockTestRunner = {
@@ -142,6 +147,43 @@ describe('orchestrator', () => {
     expect(mockTestGenerator.generateTest).toHaveBeenCalled();
   });
 
+  it('should add LLM usage to the PR comment', async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      apiKey: 'test-key',
+      framework: 'jest',
+      maxTestsPerPR: 50,
+      enableAutoCommit: false,
+      enablePRComments: true,
+      testDirectory: '__tests__',
+      testFilePattern: '*.test.ts',
+      includePatterns: ['**/*.ts'],
+      excludePatterns: ['**/*.test.ts'],
+      maxFixAttempts: 3,
+    } as never);
+    mockGithubClient.getPullRequest = vi.fn().mockResolvedValue({
+      number: 1,
+      title: 'Test PR',
+      state: 'open',
+      head: { ref: 'feature', sha: 'head-sha' },
+      base: { ref: 'main' },
+    });
+    mockGithubClient.listPullRequestFiles = vi.fn().mockResolvedValue([
+      { filename: 'src/utils.ts', status: 'added', additions: 10, deletions: 0, changes: 10 },
+    ]);
+    vi.mocked(extractTestTargets).mockResolvedValue([]);
+    const ledger = new UsageLedger({ maxCostUSD: 0.01 });
+    ledger.record({ phase: 'generate', model: 'gpt-5', response: { usage: { promptTokens: 2000, completionTokens: 1000 } } });
+    mockTestGenerator.getUsage = vi.fn().mockReturnValue(ledger.getSummary());
+
+    await runPullRequest({ prNumber: 1, owner: 'owner', repo: 'repo', githubToken: 'token' });
+
+    const comment = vi.mocked(mockGithubClient.commentPR).mock.calls[0][1];
+    expect(comment).toContain('### LLM Usage');
+    expect(comment).toContain('| generate | 1 | 2,000 | 1,000 | $0.0125 |');
+    expect(comment).toContain('**Total:** 3,000 tokens (2,000 in / 1,000 out), $0.0125');
+    expect(comment).toContain('Stopped early: maxCostUSD reached ($0.0125 of $0.01)');
+  });
+
   it('should skip closed PRs', async () => {
     const context: PullRequestContext = {
       prNumber: 1,
@@ -409,6 +451,73 @@ describe('orchestrator', () => {
     expect(mockGithubClient.commitFiles).toHaveBeenCalled();
   });
 
+  it('should record a commit conflict and still post the PR comment', async () => {
+    const context: PullRequestContext = {
+      prNumber: 1,
+      owner: 'owner',
+      repo: 'repo',
+      githubToken: 'token',
+    };
+
+    vi.mocked(loadConfig).mockResolvedValue({
+      apiKey: 'test-key',
+      framework: 'jest',
+      maxTestsPerPR: 50,
+      enableAutoCommit: true,
+      commitStrategy: 'direct',
+      enablePRComments: true,
+      testDirectory: '__tests__',
+      testFilePattern: '*.test.ts',
+      includePatterns: ['**/*.ts'],
+      excludePatterns: ['**/*.test.ts'],
+      maxFixAttempts: 3,
+    } as never);
+
+    mockGithubClient.getPullRequest = vi.fn().mockResolvedValue({
+      number: 1,
+      title: 'Test PR',
+      state: 'open',
+      head: { ref: 'feature', sha: 'head-sha' },
+      base: { ref: 'main' },
+    });
+
+    mockGithubClient.listPullRequestFiles = vi.fn().mockResolvedValue([
+      { filename: 'src/utils.ts', status: 'added', additions: 10, deletions: 0, changes: 10 },
+    ]);
+
+    vi.mocked(extractTestTargets).mockResolvedValue([
+      {
+        filePath: 'src/utils.ts',
+        functionName: 'add',
+        functionType: 'function',
+        startLine: 1,
+        endLine: 3,
+        code: 'export function add() {}',
+        context: '',
+        changedRanges: [],
+      },
+    ]);
+
+    vi.mocked(getTestFilePath).mockReturnValue('__tests__/utils.test.ts');
+    mockGithubClient.fileExists = vi.fn().mockResolvedValue(false);
+    mockTestGenerator.generateTest = vi.fn().mockResolvedValue({
+      testCode: "describe('add', () => { it('works', () => {}); });",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    });
+
+    mockTestRunner.runTests = vi.fn().mockResolvedValue([
+      { success: true, testFile: '__tests__/utils.test.ts', passed: 1, failed: 0, total: 1, duration: 100, failures: [] },
+    ]);
+
+    mockGithubClient.commitFiles = vi.fn().mockRejectedValue(Object.assign(new Error('Update is not a fast forward'), { status: 409 }));
+    mockGithubClient.commentPR = vi.fn().mockResolvedValue(undefined);
+
+    const summary = await runPullRequest(context);
+
+    expect(summary.commitConflict).toBe(true);
+    expect(mockGithubClient.commentPR).toHaveBeenCalledWith(1, expect.stringContaining('were not committed'));
+  });
+
   it('should post PR comment when enablePRComments is true', async () => {
     const context: PullRequestContext = {
       prNumber: 1,
@@ -494,7 +603,7 @@ describe('orchestrator', () => {
       maxFixAttempts: 3,
     } as never);
 
-    await expect(runPullRequest(context)).rejects.toThrow('GitHub token is required');
+    await expect(runPullRequest(context)).rejects.toThrow(ConfigError);
   });
 });
 
@@ -7,6 +7,8 @@ import type { PullRequest } from '../types/github.js';
 import type { KakarotConfig } from '../types/config.js';
 import type { CoverageReport } from '../types/coverage.js';
 import type { TestResult } from '../types/test-runner.js';
+import type { TestTarget } from '../types/diff.js';
+import { CommitConflictError, ConfigError } from '../types/errors.js';
 import { GitHubClient } from '../github/client.js';
 import { loadConfig } from '../utils/config-loader.js';
 import { initLogger, info, error, warn, success } from '../utils/logger.js';
@@ -14,12 +16,16 @@ import { extractTestTargets } from '../utils/test-target-extractor.js';
 import { generateTestsFromTargets } from './test-generation-core.js';
 import { buildCoverageSummaryPrompt } from '../llm/prompts/coverage-summary.js';
 import { TestGenerator } from '../llm/test-generator.js';
+import { createUsageLedger, formatUsageTotals, type UsageSummary } from '../llm/usage-ledger.js';
+import { planTestGeneration, printTestGenerationPlan, type TestGenerationPlan } from './dry-run.js';
 
 export interface PullRequestContext {
   prNumber: number;
   owner: string;
   repo: string;
   githubToken: string;
+  /** Plan only: no LLM calls, no commits, no PR comment */
+  dryRun?: boolean;
 }
 
 export interface TestGenerationSummary {
@@ -37,6 +43,14 @@ export interface TestGenerationSummary {
   coverageReport?: CoverageReport;
   coverageDelta?: import('../types/coverage.js').CoverageDelta;
   testResults?: TestResult[];
+  /** Functions tests were generated for */
+  targets?: TestTarget[];
+  /** Set when the auto-commit was rejected because the PR branch moved ahead */
+  commitConflict?: boolean;
+  /** Present for dry runs */
+  plan?: TestGenerationPlan;
+  /** LLM tokens and cost for the whole run, including the PR comment's coverage summary */
+  usage?: UsageSummary;
 }
 
 /**
@@ -54,7 +68,7 @@ export async function runPullRequest(context: PullRequestContext): Promise<TestG
   // Initialize GitHub client
   const githubToken = context.githubToken || config.githubToken;
   if (!githubToken) {
-    throw new Error('GitHub token is required. Provide it via config.githubToken or context.githubToken');
+    throw new ConfigError('GitHub token is required. Provide it via config.githubToken or context.githubToken');
   }
 
   const githubClient = new GitHubClient({
@@ -104,23 +118,42 @@ export async function runPullRequest(context: PullRequestContext): Promise<TestG
     config
   );
 
+  const getExistingTestFile = async (testFilePath: string) => {
+    const testFileExists = await githubClient.fileExists(prHeadRef, testFilePath);
+    if (testFileExists) {
+      try {
+        const fileContents = await githubClient.getFileContents(prHeadRef, testFilePath);
+        return fileContents.content;
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  };
+
+  if (context.dryRun) {
+    const plan = await planTestGeneration({ targets, config, mode: 'pr', getExistingTestFile });
+    printTestGenerationPlan(plan, config);
+    return {
+      targetsProcessed: 0,
+      testsGenerated: 0,
+      testsFailed: 0,
+      testFiles: [],
+      errors: [],
+      plan,
+    };
+  }
+
+  // One ledger for the run, so the coverage summary counts toward the same budget
+  const ledger = createUsageLedger(config);
+
   // Use shared test generation logic
   const result = await generateTestsFromTargets({
     targets,
     config,
     mode: 'pr',
-    getExistingTestFile: async (testFilePath: string) => {
-      const testFileExists = await githubClient.fileExists(prHeadRef, testFilePath);
-      if (testFileExists) {
-        try {
-          const fileContents = await githubClient.getFileContents(prHeadRef, testFilePath);
-          return fileContents.content;
-        } catch {
-          return undefined;
-        }
-      }
-      return undefined;
-    },
+    getExistingTestFile,
+    ledger,
   });
 
   // Convert to summary format
@@ -133,6 +166,7 @@ export async function runPullRequest(context: PullRequestContext): Promise<TestG
     coverageReport: result.coverageReport,
     coverageDelta: result.coverageDelta,
     testResults: result.testResults,
+    targets,
   };
 
   const testFiles = result.finalTestFiles;
@@ -145,26 +179,35 @@ export async function runPullRequest(context: PullRequestContext): Promise<TestG
     if (shouldSkipCommit) {
       warn(`Skipping commit due to ${summary.testsFailed} failing test(s). Set skipCommitOnFailure: false to commit anyway.`);
     } else {
-      await commitTests(
-        githubClient,
-        pr,
-        Array.from(testFiles.entries()).map(([path, data]) => ({
-          path,
-          content: data.content,
-        })),
-        config,
-        summary
-      );
+      try {
+        await commitTests(
+          githubClient,
+          pr,
+          Array.from(testFiles.entries()).map(([path, data]) => ({
+            path,
+            content: data.content,
+          })),
+          config,
+          summary
+        );
+      } catch (err) {
+        // Still post the PR comment; the CLI decides from failOn whether the conflict fails the run
+        if (!(err instanceof CommitConflictError)) {
+          throw err;
+        }
+        summary.commitConflict = true;
+      }
     }
   }
 
   // Post PR comment if enabled
   if (config.enablePRComments) {
     const framework = config.framework;
-    const testGenerator = new TestGenerator(config);
+    const testGenerator = new TestGenerator(config, ledger);
     await postPRComment(githubClient, context.prNumber, summary, framework, testGenerator);
   }
 
+  summary.usage = ledger.getSummary();
   return summary;
 }
 
@@ -266,7 +309,7 @@ async function commitTests(
           warn('Commit failed due to branch conflict. The PR branch has moved ahead.');
           warn('This usually means the PR was updated while tests were being generated.');
           warn('You may need to run Kakarot CI again, or manually merge the latest changes.');
-          throw new Error('Commit conflict: PR branch has moved ahead. Please retry after syncing with the base branch.');
+          throw new CommitConflictError('Commit conflict: PR branch has moved ahead. Please retry after syncing with the base branch.');
         }
         throw commitErr;
       }
@@ -305,6 +348,10 @@ ${summary.errors.length > 0
   : ''
 }`;
 
+  if (summary.commitConflict) {
+    comment += `\n\n> ⚠️ Generated tests were not committed: the PR branch moved ahead during generation. Re-run Kakarot CI to commit them.`;
+  }
+
   // Add coverage summary if available
   if (summary.coverageReport && summary.testResults) {
     try {
@@ -389,6 +436,11 @@ ${summary.errors.length > 0
     }
   }
 
+  const usage = testGenerator.getUsage();
+  if (usage.total.calls > 0) {
+    comment += `\n\n${formatUsageSection(usage)}`;
+  }
+
   comment += `\n\n---\n*Generated by [Kakarot CI](https://github.com/kakarot-ci)*`;
 
   try {
@@ -399,3 +451,25 @@ ${summary.errors.length > 0
   }
 }
 
+
+/**
+ * Markdown table of LLM tokens and cost per phase for the PR comment
+ */
+function formatUsageSection(usage: UsageSummary): string {
+  const rows = Object.entries(usage.byPhase).map(([phase, totals]) =>
+    `| ${phase} | ${totals.calls} | ${totals.promptTokens.toLocaleString('en-US')} | ${totals.completionTokens.toLocaleString('en-US')} | $${totals.costUSD.toFixed(4)} |`
+  );
+  let section = `### LLM Usage\n\n` +
+    `| Phase | Calls | Input tokens | Output tokens | Cost |\n` +
+    `| --- | ---: | ---: | ---: | ---: |\n` +
+    `${rows.join('\n')}\n\n` +
+    `**Total:** ${formatUsageTotals(usage.total, usage.unpricedModels)}`;
+  if (Object.keys(usage.byModel).length > 1) {
+    const targets = Object.entries(usage.modelsByTarget).map(([target, models]) => `- \`${target}\`: ${models.join(', ')}`);
+    section += `\n\n**Models by target:**\n${targets.join('\n')}`;
+  }
+  if (usage.budgetExceeded) {
+    section += `\n\n> ⚠️ Stopped early: ${usage.budgetExceeded}. Only tests that passed are included.`;
+  }
+  return section;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildRunReport,
+  inferReportFormat,
+  renderJUnitReport,
+  renderSarifReport,
+  writeRunReport,
+  type RunReportInput,
+} from './report.js';
+import { mkdirSync, writeFileSync } from 'fs';
+import type { TestTarget } from '../types/diff.js';
+
+vi.mock('fs');
+
+const target: TestTarget = {
+  filePath: 'src/parse.ts',
+  functionName: 'parse',
+  functionType: 'function',
+  startLine: 3,
+  endLine: 9,
+  code: 'export function parse() {}',
+  context: '',
+  changedRanges: [],
+};
+
+function input(): RunReportInput {
+  return {
+    mode: 'full',
+    version: '1.2.3',
+    summary: {
+      targetsProcessed: 2,
+      testsGenerated: 3,
+      testsFailed: 1,
+      testFiles: [
+        { path: 'src/parse.test.ts', targets: ['parse'] },
+        { path: 'src/format.test.ts', targets: ['format'] },
+      ],
+      errors: [{ target: 'src/parse.ts:parse', error: 'Rate limited <429>' }],
+      testResults: [{
+        success: false,
+        testFile: 'src/parse.test.ts',
+        passed: 2,
+        failed: 1,
+        total: 3,
+        duration: 0,
+        failures: [{ testName: 'parse > handles "quotes" & <tags>', message: 'expected 1\nto be 2', line: 14, column: 5 }],
+      }],
+      coverageDelta: { lines: 4.5, branches: 0, functions: 10, statements: 4 },
+      targets: [target],
+    },
+  };
+}
+
+describe('inferReportFormat', () => {
+  it('should infer the format from the extension', () => {
+    expect(inferReportFormat('reports/kakarot.xml')).toBe('junit');
+    expect(inferReportFormat('kakarot.sarif')).toBe('sarif');
+    expect(inferReportFormat('kakarot.SARIF.json')).toBe('sarif');
+    expect(inferReportFormat('kakarot.json')).toBe('json');
+    expect(inferReportFormat('report')).toBe('json');
+  });
+});
+
+describe('buildRunReport', () => {
+  it('should attach per-file test results and compact targets', () => {
+    const report = buildRunReport(input(), new Date('2026-01-02T03:04:05Z'));
+
+    expect(report.tool).toEqual({ name: 'kakarot-ci', version: '1.2.3' });
+    expect(report.generatedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(report.summary).toEqual({ targetsProcessed: 2, testsGenerated: 3, testsFailed: 1, testFiles: 2, errors: 1 });
+    expect(report.targets).toEqual([{
+      filePath: 'src/parse.ts',
+      functionName: 'parse',
+      className: undefined,
+      functionType: 'function',
+      startLine: 3,
+      endLine: 9,
+    }]);
+    expect(report.testFiles[0].result).toMatchObject({ passed: 2, failed: 1, total: 3 });
+    expect(report.testFiles[0].result).not.toHaveProperty('testFile');
+    // Not run (e.g. the final run crashed)
+    expect(report.testFiles[1]).toEqual({ path: 'src/format.test.ts', targets: ['format'] });
+    expect(report.coverageDelta).toEqual({ lines: 4.5, branches: 0, functions: 10, statements: 4 });
+  });
+
+  it('should include LLM usage totals', () => {
+    const totals = {
+      calls: 1, cachedCalls: 0, promptTokens: 2000, completionTokens: 1000, totalTokens: 3000, cacheReadTokens: 0, cacheWriteTokens: 0, costUSD: 0.0125,
+    };
+    const usage = {
+      total: totals,
+      byPhase: { generate: totals },
+      byTarget: { 'src/parse.ts:parse': totals },
+      byModel: { 'gpt-5': totals },
+      modelsByTarget: { 'src/parse.ts:parse': ['gpt-5'] },
+      unpricedModels: [],
+    };
+
+    const report = buildRunReport({ ...input(), summary: { ...input().summary, usage } });
+
+    expect(report.usage).toEqual(usage);
+  });
+});
+
+describe('renderJUnitReport', () => {
+  it('should render escaped failures and a generation errors suite', () => {
+    const xml = renderJUnitReport(buildRunReport(input()));
+
+    expect(xml).toContain('<testsuites name="kakarot-ci" tests="4" failures="1" errors="1"');
+    expect(xml).toContain('<testsuite name="src/parse.test.ts" tests="3" failures="1"');
+    expect(xml).toContain('<testcase name="parse &gt; handles &quot;quotes&quot; &amp; &lt;tags&gt;" classname="src/parse.test.ts" file="src/parse.test.ts" line="14">');
+    expect(xml).toContain('<failure message="expected 1">expected 1\nto be 2</failure>');
+    expect(xml).toContain('<testsuite name="src/format.test.ts" tests="0" failures="0"');
+    expect(xml).toContain('<error message="Rate limited &lt;429&gt;">');
+  });
+});
+
+describe('renderSarifReport', () => {
+  it('should locate test failures and generation errors', () => {
+    const sarif = JSON.parse(renderSarifReport(buildRunReport(input())));
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver).toMatchObject({ name: 'kakarot-ci', version: '1.2.3' });
+    expect(run.invocations[0].executionSuccessful).toBe(false);
+    expect(run.results).toEqual([
+      {
+        ruleId: 'kakarot/test-failure',
+        level: 'error',
+        message: { text: 'parse > handles "quotes" & <tags>: expected 1\nto be 2' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/parse.test.ts' }, region: { startLine: 14, startColumn: 5 } } }],
+      },
+      {
+        ruleId: 'kakarot/generation-error',
+        level: 'warning',
+        message: { text: 'Test generation failed for src/parse.ts:parse: Rate limited <429>' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/parse.ts' }, region: { startLine: 3, endLine: 9 } } }],
+      },
+    ]);
+  });
+});
+
+describe('writeRunReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create the report directory and write the rendered report', () => {
+    writeRunReport('/project/reports/kakarot.json', 'json', input());
+
+    expect(mkdirSync).toHaveBeenCalledWith('/project/reports', { recursive: true });
+    const [path, content] = vi.mocked(writeFileSync).mock.calls[0];
+    expect(path).toBe('/project/reports/kakarot.json');
+    expect(JSON.parse(String(content)).errors).toEqual([{ target: 'src/parse.ts:parse', error: 'Rate limited <429>' }]);
+  });
+});
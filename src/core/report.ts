@@ -0,0 +1,288 @@
+/**
+ * Machine-readable run reports (`--report`) in JSON, JUnit XML or SARIF 2.1.0
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, extname } from 'path';
+import type { TestMode } from '../types/config.js';
+import type { CoverageDelta, CoverageReport } from '../types/coverage.js';
+import type { TestTarget } from '../types/diff.js';
+import type { TestFailure, TestResult } from '../types/test-runner.js';
+import type { UsageSummary } from '../llm/usage-ledger.js';
+import type { TestGenerationSummary } from './orchestrator.js';
+
+export const REPORT_FORMATS = ['json', 'junit', 'sarif'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface RunReportInput {
+  summary: TestGenerationSummary;
+  mode: TestMode;
+  /** kakarot-ci version recorded as the producing tool */
+  version: string;
+}
+
+export interface RunReport {
+  tool: { name: 'kakarot-ci'; version: string };
+  mode: TestMode;
+  generatedAt: string;
+  summary: {
+    targetsProcessed: number;
+    testsGenerated: number;
+    testsFailed: number;
+    testFiles: number;
+    errors: number;
+  };
+  targets: Array<Pick<TestTarget, 'filePath' | 'functionName' | 'className' | 'functionType' | 'startLine' | 'endLine'>>;
+  testFiles: Array<{
+    path: string;
+    targets: string[];
+    /** Absent when tests were not run (scaffold mode or a failed run) */
+    result?: Omit<TestResult, 'testFile'>;
+  }>;
+  errors: Array<{ target: string; error: string }>;
+  coverage?: CoverageReport;
+  coverageDelta?: CoverageDelta;
+  /** LLM tokens and estimated cost per phase, target and model */
+  usage?: UsageSummary;
+}
+
+const TOOL_NAME = 'kakarot-ci';
+const JUNIT_ERRORS_SUITE = 'kakarot-ci generation errors';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TEST_FAILURE_RULE = 'kakarot/test-failure';
+const GENERATION_ERROR_RULE = 'kakarot/generation-error';
+
+/**
+ * Pick a format from the report path: `.xml` → junit, `.sarif`/`.sarif.json` → sarif, otherwise json
+ */
+export function inferReportFormat(path: string): ReportFormat {
+  const lower = path.toLowerCase();
+  if (extname(lower) === '.xml') {
+    return 'junit';
+  }
+  if (lower.endsWith('.sarif') || lower.endsWith('.sarif.json')) {
+    return 'sarif';
+  }
+  return 'json';
+}
+
+/**
+ * Build the JSON report from a run summary, attaching each test file's results
+ */
+export function buildRunReport({ summary, mode, version }: RunReportInput, now = new Date()): RunReport {
+  const results = summary.testResults ?? [];
+
+  return {
+    tool: { name: TOOL_NAME, version },
+    mode,
+    generatedAt: now.toISOString(),
+    summary: {
+      targetsProcessed: summary.targetsProcessed,
+      testsGenerated: summary.testsGenerated,
+      testsFailed: summary.testsFailed,
+      testFiles: summary.testFiles.length,
+      errors: summary.errors.length,
+    },
+    targets: (summary.targets ?? []).map(target => ({
+      filePath: target.filePath,
+      functionName: target.functionName,
+      className: target.className,
+      functionType: target.functionType,
+      startLine: target.startLine,
+      endLine: target.endLine,
+    })),
+    testFiles: summary.testFiles.map(file => {
+      const testResult = results.find(r => r.testFile === file.path);
+      if (!testResult) {
+        return { path: file.path, targets: file.targets };
+      }
+      const { testFile: _testFile, ...result } = testResult;
+      return { path: file.path, targets: file.targets, result };
+    }),
+    errors: summary.errors,
+    coverage: summary.coverageReport,
+    coverageDelta: summary.coverageDelta,
+    usage: summary.usage,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters other than tab/newline/CR are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render the report as JUnit XML: one testsuite per test file, plus one for generation errors.
+ * The test runner only reports names of failing tests, so passing tests are counted but not listed.
+ */
+export function renderJUnitReport(report: RunReport): string {
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const file of report.testFiles) {
+    const result = file.result;
+    const tests = result?.total ?? 0;
+    const failures = result?.failed ?? 0;
+    totalTests += tests;
+    totalFailures += failures;
+
+    const cases = (result?.failures ?? []).map(failure => {
+      const message = escapeXml(failure.message.split('\n')[0]);
+      const body = escapeXml(failure.stack ?? failure.message);
+      return [
+        `    <testcase name="${escapeXml(failure.testName)}" classname="${escapeXml(file.path)}" file="${escapeXml(file.path)}"${failure.line ? ` line="${failure.line}"` : ''}>`,
+        `      <failure message="${message}">${body}</failure>`,
+        '    </testcase>',
+      ].join('\n');
+    });
+    suites.push([
+      `  <testsuite name="${escapeXml(file.path)}" tests="${tests}" failures="${failures}" errors="0" skipped="0" time="${((result?.duration ?? 0) / 1000).toFixed(3)}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n'));
+  }
+
+  if (report.errors.length > 0) {
+    totalTests += report.errors.length;
+    const cases = report.errors.map(({ target, error }) => [
+      `    <testcase name="${escapeXml(target)}" classname="${escapeXml(JUNIT_ERRORS_SUITE)}">`,
+      `      <error message="${escapeXml(error.split('\n')[0])}">${escapeXml(error)}</error>`,
+      '    </testcase>',
+    ].join('\n'));
+    suites.push([
+      `  <testsuite name="${escapeXml(JUNIT_ERRORS_SUITE)}" tests="${report.errors.length}" failures="0" errors="${report.errors.length}" skipped="0" time="0.000">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n'));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${totalTests}" failures="${totalFailures}" errors="${report.errors.length}" timestamp="${report.generatedAt}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Split a generation error target (`path:functionName`) into its parts
+ */
+function parseErrorTarget(target: string): { filePath: string; functionName?: string } {
+  const separator = target.lastIndexOf(':');
+  if (separator <= 0) {
+    return { filePath: target };
+  }
+  return { filePath: target.slice(0, separator), functionName: target.slice(separator + 1) };
+}
+
+function sarifFailureResult(testFile: string, failure: TestFailure) {
+  return {
+    ruleId: TEST_FAILURE_RULE,
+    level: 'error',
+    message: { text: `${failure.testName}: ${failure.message}` },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: testFile },
+        ...(failure.line
+          ? { region: { startLine: failure.line, ...(failure.column ? { startColumn: failure.column } : {}) } }
+          : {}),
+      },
+    }],
+  };
+}
+
+/**
+ * Render the report as SARIF 2.1.0: failing generated tests are located in their test file,
+ * generation errors at the source function when its target is known
+ */
+export function renderSarifReport(report: RunReport): string {
+  const results: object[] = [];
+
+  for (const file of report.testFiles) {
+    for (const failure of file.result?.failures ?? []) {
+      results.push(sarifFailureResult(file.path, failure));
+    }
+  }
+
+  for (const { target, error } of report.errors) {
+    const { filePath, functionName } = parseErrorTarget(target);
+    const sourceTarget = report.targets.find(t => t.filePath === filePath && t.functionName === functionName);
+    results.push({
+      ruleId: GENERATION_ERROR_RULE,
+      level: 'warning',
+      message: { text: `Test generation failed for ${target}: ${error}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: filePath },
+          ...(sourceTarget ? { region: { startLine: sourceTarget.startLine, endLine: sourceTarget.endLine } } : {}),
+        },
+      }],
+    });
+  }
+
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          version: report.tool.version,
+          rules: [
+            {
+              id: TEST_FAILURE_RULE,
+              name: 'GeneratedTestFailure',
+              shortDescription: { text: 'A generated test still fails after fix attempts' },
+              defaultConfiguration: { level: 'error' },
+            },
+            {
+              id: GENERATION_ERROR_RULE,
+              name: 'TestGenerationError',
+              shortDescription: { text: 'Tests could not be generated for a function' },
+              defaultConfiguration: { level: 'warning' },
+            },
+          ],
+        },
+      },
+      invocations: [{
+        executionSuccessful: report.summary.errors === 0 && report.summary.testsFailed === 0,
+        endTimeUtc: report.generatedAt,
+      }],
+      results,
+    }],
+  };
+
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+/**
+ * Render the report in the requested format
+ */
+export function renderRunReport(report: RunReport, format: ReportFormat): string {
+  switch (format) {
+    case 'junit':
+      return renderJUnitReport(report);
+    case 'sarif':
+      return renderSarifReport(report);
+    case 'json':
+      return `${JSON.stringify(report, null, 2)}\n`;
+  }
+}
+
+/**
+ * Write a run report to disk, creating the parent directory if needed
+ */
+export function writeRunReport(path: string, format: ReportFormat, input: RunReportInput): void {
+  const content = renderRunReport(buildRunReport(input), format);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content, 'utf-8');
+}
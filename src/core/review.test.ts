@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runReview } from './review.js';
+import { readFileSync, writeFileSync } from 'fs';
+import { TestGenerator } from '../llm/test-generator.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { detectPackageManager } from '../utils/package-manager-detector.js';
+import { listProjectFiles } from '../utils/project-files.js';
+import { createTestRunner } from '../utils/test-runner/factory.js';
+import { loadLocalConfig } from './local-orchestrator.js';
+import type { TestResult } from '../types/test-runner.js';
+
+vi.mock('fs');
+vi.mock('../llm/test-generator.js');
+vi.mock('../utils/config-loader.js');
+vi.mock('../utils/package-manager-detector.js');
+vi.mock('../utils/project-files.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/project-files.js')>()),
+  listProjectFiles: vi.fn(),
+}));
+vi.mock('../utils/test-runner/factory.js');
+vi.mock('./local-orchestrator.js');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  success: vi.fn(),
+}));
+
+function result(testFile: string, passed: number, failed = 0): TestResult {
+  return { success: failed === 0, testFile, passed, failed, total: passed + failed, duration: 5, failures: [] };
+}
+
+describe('runReview', () => {
+  const original = "import { load } from './loader';\nit('loads', () => {\n  load();\n});";
+  const reviewed = "import { load } from './loader';\nit('loads', async () => {\n  await load();\n});";
+  const runTests = vi.fn();
+  const reviewTestCode = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadLocalConfig).mockResolvedValue({ framework: 'vitest' } as never);
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(detectPackageManager).mockReturnValue('npm');
+    vi.mocked(createTestRunner).mockReturnValue({ runTests } as never);
+    vi.mocked(TestGenerator).mockImplementation(() => ({ reviewTestCode }) as never);
+    vi.mocked(listProjectFiles).mockReturnValue(['src/loader.ts', 'src/loader.test.ts', 'src/clean.test.ts']);
+    vi.mocked(readFileSync).mockImplementation(path => {
+      if (String(path) === '/project/src/loader.ts') return 'export function load() {}';
+      if (String(path) === '/project/src/loader.test.ts') return original;
+      return "it('is clean', () => {});";
+    });
+    reviewTestCode.mockImplementation(async ({ testCode }: { testCode: string }) =>
+      testCode === original ? reviewed : testCode
+    );
+    runTests.mockImplementation(async ({ testFiles }: { testFiles: string[] }) => testFiles.map(f => result(f, 1)));
+  });
+
+  it('should pass the source file to the reviewer', async () => {
+    await runReview({ patterns: ['src/loader.test.ts'] });
+
+    expect(reviewTestCode).toHaveBeenCalledWith({
+      testCode: original,
+      sourceCode: 'export function load() {}',
+      sourceFilePath: 'src/loader.ts',
+      framework: 'vitest',
+    });
+  });
+
+  it('should propose a diff and restore the file without --apply', async () => {
+    const summary = await runReview({});
+
+    const [clean, loader] = [...summary.files].sort((a, b) => a.testFile.localeCompare(b.testFile));
+    expect(clean).toEqual({ testFile: 'src/clean.test.ts', status: 'clean' });
+    expect(loader.status).toBe('proposed');
+    expect(loader.diff).toContain("+it('loads', async () => {");
+    // Re-runs the reviewed file against the rewrite, then restores the original
+    expect(runTests).toHaveBeenLastCalledWith(expect.objectContaining({ testFiles: ['src/loader.test.ts'] }));
+    expect(vi.mocked(writeFileSync).mock.calls).toEqual([
+      ['/project/src/loader.test.ts', reviewed, 'utf-8'],
+      ['/project/src/loader.test.ts', original, 'utf-8'],
+    ]);
+  });
+
+  it('should keep accepted changes with --apply', async () => {
+    const summary = await runReview({ patterns: ['src/loader.test.ts'], apply: true });
+
+    expect(summary.files[0].status).toBe('applied');
+    expect(vi.mocked(writeFileSync).mock.calls).toEqual([['/project/src/loader.test.ts', reviewed, 'utf-8']]);
+  });
+
+  it('should reject rewrites that change pass/fail counts', async () => {
+    runTests
+      .mockResolvedValueOnce([result('src/loader.test.ts', 1)])
+      .mockResolvedValueOnce([result('src/loader.test.ts', 0, 1)]);
+
+    const summary = await runReview({ patterns: ['src/loader.test.ts'], apply: true });
+
+    expect(summary.files[0]).toMatchObject({
+      status: 'rejected',
+      reason: 'pass/fail counts changed (1 passed, 0 failed → 0 passed, 1 failed)',
+    });
+    expect(writeFileSync).toHaveBeenLastCalledWith('/project/src/loader.test.ts', original, 'utf-8');
+  });
+
+  it('should restore the original when the test run throws', async () => {
+    runTests
+      .mockResolvedValueOnce([result('src/loader.test.ts', 1)])
+      .mockRejectedValueOnce(new Error('runner crashed'));
+
+    await expect(runReview({ patterns: ['src/loader.test.ts'], apply: true })).rejects.toThrow('runner crashed');
+    expect(writeFileSync).toHaveBeenLastCalledWith('/project/src/loader.test.ts', original, 'utf-8');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Standalone strict-runtime review of existing test files.
+ * Shows the reviewer's proposed changes as a diff and only keeps rewrites
+ * that leave the pass/fail counts unchanged.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { TestResult } from '../types/test-runner.js';
+import { TestGenerator } from '../llm/test-generator.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { detectPackageManager } from '../utils/package-manager-detector.js';
+import { listProjectFiles, selectTestFiles } from '../utils/project-files.js';
+import { createTestRunner } from '../utils/test-runner/factory.js';
+import { findSourceFileForTest } from '../utils/test-file-path.js';
+import { createUnifiedDiff } from '../utils/text-diff.js';
+import { info, warn, success } from '../utils/logger.js';
+import { loadLocalConfig } from './local-orchestrator.js';
+
+export interface ReviewContext {
+  /** Test file paths or globs; when omitted every test file is reviewed */
+  patterns?: string[];
+  /** Write accepted changes to disk (default: only show the diff) */
+  apply?: boolean;
+}
+
+export type ReviewStatus = 'clean' | 'proposed' | 'applied' | 'rejected';
+
+export interface ReviewFileResult {
+  testFile: string;
+  status: ReviewStatus;
+  /** Unified diff of the reviewer's changes (absent when clean) */
+  diff?: string;
+  /** Why a change was rejected */
+  reason?: string;
+}
+
+export interface ReviewSummary {
+  files: ReviewFileResult[];
+}
+
+type TestCounts = Pick<TestResult, 'passed' | 'failed' | 'total'>;
+
+function formatCounts(counts: TestCounts): string {
+  return `${counts.passed} passed, ${counts.failed} failed`;
+}
+
+/**
+ * Review each test file, verifying every proposed rewrite by re-running that file.
+ * Files are restored unless the rewrite is accepted and `apply` is set.
+ */
+export async function runReview(context: ReviewContext): Promise<ReviewSummary> {
+  const config = await loadLocalConfig({});
+  const projectRoot = await findProjectRoot();
+  const packageManager = detectPackageManager(projectRoot);
+  const testRunner = createTestRunner(config.framework);
+  const testGenerator = new TestGenerator(config);
+
+  const projectFiles = listProjectFiles(projectRoot);
+  const testFilePaths = selectTestFiles(context.patterns, projectFiles, projectRoot);
+  const summary: ReviewSummary = { files: [] };
+
+  if (testFilePaths.length === 0) {
+    info('No test files found');
+    return summary;
+  }
+
+  const runTests = (testFiles: string[]) => testRunner.runTests({
+    testFiles,
+    framework: config.framework,
+    packageManager,
+    projectRoot,
+    coverage: false,
+  });
+  const countsFor = (results: TestResult[], testFile: string): TestCounts =>
+    results.find(r => r.testFile === testFile) ?? { passed: 0, failed: 0, total: 0 };
+
+  info(`Running ${testFilePaths.length} test file(s) for baseline pass/fail counts`);
+  const baselineResults = await runTests(testFilePaths);
+
+  for (const testFile of testFilePaths) {
+    const fullPath = join(projectRoot, testFile);
+    const original = readFileSync(fullPath, 'utf-8');
+
+    const sourceFile = findSourceFileForTest(testFile, original, projectFiles);
+    const sourceCode = sourceFile ? readFileSync(join(projectRoot, sourceFile), 'utf-8') : '';
+
+    info(`Reviewing ${testFile}`);
+    const reviewed = await testGenerator.reviewTestCode({
+      testCode: original,
+      sourceCode,
+      sourceFilePath: sourceFile ?? testFile,
+      framework: config.framework,
+    });
+
+    if (reviewed === original) {
+      success(`Review clean: ${testFile} (no changes needed)`);
+      summary.files.push({ testFile, status: 'clean' });
+      continue;
+    }
+
+    const diff = createUnifiedDiff(original, reviewed, testFile);
+    info(`Proposed changes to ${testFile}:\n${diff}`);
+
+    const before = countsFor(baselineResults, testFile);
+    let keep = false;
+    writeFileSync(fullPath, reviewed, 'utf-8');
+    try {
+      const after = countsFor(await runTests([testFile]), testFile);
+      if (after.passed !== before.passed || after.failed !== before.failed || after.total !== before.total) {
+        const reason = `pass/fail counts changed (${formatCounts(before)} → ${formatCounts(after)})`;
+        warn(`Rejected review of ${testFile}: ${reason}`);
+        summary.files.push({ testFile, status: 'rejected', diff, reason });
+      } else if (context.apply) {
+        keep = true;
+        success(`Review applied to ${testFile}`);
+        summary.files.push({ testFile, status: 'applied', diff });
+      } else {
+        summary.files.push({ testFile, status: 'proposed', diff });
+      }
+    } finally {
+      if (!keep) {
+        writeFileSync(fullPath, original, 'utf-8');
+      }
+    }
+  }
+
+  printReviewSummary(summary, context.apply ?? false);
+  return summary;
+}
+
+/**
+ * Print counts per review outcome
+ */
+function printReviewSummary(summary: ReviewSummary, apply: boolean): void {
+  const count = (status: ReviewStatus) => summary.files.filter(f => f.status === status).length;
+
+  info('');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info('  Review Summary');
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  info(`  Files reviewed: ${summary.files.length}`);
+  info(`  Clean:          ${count('clean')}`);
+  if (apply) {
+    info(`  Applied:        ${count('applied')}`);
+  } else {
+    info(`  Proposed:       ${count('proposed')}`);
+  }
+  info(`  Rejected:       ${count('rejected')}`);
+  for (const { testFile, reason } of summary.files.filter(f => f.status === 'rejected')) {
+    info(`                  → ${testFile}: ${reason}`);
+  }
+  if (!apply && count('proposed') > 0) {
+    info('  Re-run with --apply to write the proposed changes');
+  }
+  info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+}
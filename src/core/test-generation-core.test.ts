@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { generateTestsFromTargets } from './test-generation-core.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateTestsFromTargets, runTestsAndFix } from './test-generation-core.js';
 import { TestGenerator } from '../llm/test-generator.js';
 import { getTestFilePath } from '../utils/test-file-path.js';
 import { calculateImportPath } from '../utils/import-path-calculator.js';
@@ -9,8 +9,10 @@ import { writeTestFiles } from '../utils/test-file-writer.js';
 import { readCoverageReport } from '../utils/coverage-reader.js';
 import { formatGeneratedCode } from '../utils/code-standards.js';
 import { findProjectRoot } from '../utils/config-loader.js';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
 import { join } from 'path';
+import { info, warn } from '../utils/logger.js';
+import { CassetteMismatchError } from '../types/errors.js';
 
 vi.mock('../llm/test-generator.js');
 vi.mock('../utils/test-file-path.js');
@@ -77,6 +79,9 @@ describe('test-generation-core', () => {
         testCode: "describe('add', () => { it('works', () => { // TODO }); });",
         usage: {},
       }),
+      getCacheStats: vi.fn().mockReturnValue(null),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn(),
     }) as never);
     vi.mocked(writeTestFiles).mockResolvedValue({ writtenPaths: ['__tests__/utils.test.ts'], failedPaths: [] });
     vi.mocked(createTestRunner).mockReturnValue({
@@ -115,6 +120,85 @@ describe('test-generation-core', () => {
     expect(result.testFiles).toHaveLength(1);
   });
 
+  it('should print cache stats in the summary when caching is on', async () => {
+    vi.mocked(TestGenerator).mockImplementation(() => ({
+      generateTest: vi.fn().mockResolvedValue({
+        testCode: "describe('add', () => { it('works', () => {}); });",
+        usage: {},
+      }),
+      getCacheStats: vi.fn().mockReturnValue({ hits: 2, misses: 1, stored: 1, skipped: 0 }),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn(),
+    }) as never);
+
+    await generateTestsFromTargets({
+      targets: [mockTarget],
+      config: mockConfig as never,
+      mode: 'pr',
+    });
+
+    expect(info).toHaveBeenCalledWith('  Cache:         2 hit(s), 1 miss(es), 1 stored');
+  });
+
+  it('should abort the run when a replayed request does not match the cassette', async () => {
+    const generateTest = vi.fn().mockRejectedValue(new CassetteMismatchError('Request 1 does not match run.json'));
+    vi.mocked(TestGenerator).mockImplementation(() => ({ generateTest, getCacheStats: vi.fn(), budgetExceeded: vi.fn().mockReturnValue(null), getUsage: vi.fn() }) as never);
+
+    await expect(generateTestsFromTargets({
+      targets: [mockTarget, { ...mockTarget, functionName: 'sub' }],
+      config: mockConfig as never,
+      mode: 'pr',
+    })).rejects.toThrow(CassetteMismatchError);
+    expect(generateTest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop generating and drop failing files once the budget is reached', async () => {
+    const generateTest = vi.fn().mockResolvedValue({
+      testCode: "describe('add', () => { it('works', () => {}); });",
+      usage: {},
+    });
+    const reviewTestCode = vi.fn();
+    const budgetExceeded = vi.fn().mockReturnValueOnce(null).mockReturnValue('maxCostUSD reached ($1.0200 of $1)');
+    vi.mocked(TestGenerator).mockImplementation(() => ({
+      generateTest,
+      reviewTestCode,
+      budgetExceeded,
+      getCacheStats: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn(),
+    }) as never);
+    vi.mocked(createTestRunner).mockReturnValue({
+      runTests: vi.fn().mockResolvedValue([{
+        testFile: '__tests__/utils.test.ts',
+        success: false,
+        total: 2,
+        passed: 1,
+        failed: 1,
+        failures: [{ testName: 'works', message: 'expected 1 to be 2' }],
+      }]),
+    } as never);
+
+    // The test file is new: it only exists once written
+    vi.mocked(existsSync).mockImplementation(() => vi.mocked(writeTestFiles).mock.calls.length > 0);
+
+    const result = await generateTestsFromTargets({
+      targets: [mockTarget, { ...mockTarget, functionName: 'sub' }],
+      config: mockConfig as never,
+      mode: 'pr',
+    });
+
+    expect(generateTest).toHaveBeenCalledTimes(1);
+    expect(unlinkSync).toHaveBeenCalledWith('/project/__tests__/utils.test.ts');
+    expect(result.testResults).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('LLM budget reached: maxCostUSD reached ($1.0200 of $1). Skipping 1 remaining target(s).');
+    expect(reviewTestCode).not.toHaveBeenCalled();
+    expect(result.finalTestFiles.size).toBe(0);
+    expect(result.testsFailed).toBe(0);
+    expect(result.errors).toEqual([{
+      target: '__tests__/utils.test.ts:add',
+      error: 'Dropped with 1 failing test(s): maxCostUSD reached ($1.0200 of $1)',
+    }]);
+  });
+
   it('should limit targets based on maxTestsPerPR', async () => {
     const targets = Array.from({ length: 100 }, () => mockTarget);
 
@@ -127,12 +211,94 @@ describe('test-generation-core', () => {
     expect(result.targetsProcessed).toBe(50);
   });
 
+  it('should generate targets sharing a test file concurrently and merge them one at a time', async () => {
+    let releaseAll!: () => void;
+    const allStarted = new Promise<void>(resolve => {
+      releaseAll = resolve;
+    });
+    const generateTest = vi.fn().mockImplementation(async ({ target }: { target: { functionName: string } }) => {
+      await allStarted;
+      return { testCode: `describe('${target.functionName}', () => { it('works', () => {}); });`, usage: {} };
+    });
+    vi.mocked(TestGenerator).mockImplementation(() => ({
+      generateTest,
+      getCacheStats: vi.fn().mockReturnValue(null),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn(),
+    }) as never);
+    // Both targets start from the file on disk, so each merge awaits before storing its result
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(readFileSync).mockReturnValue("describe('mul', () => { it('works', () => {}); });");
+
+    const run = generateTestsFromTargets({
+      targets: [mockTarget, { ...mockTarget, functionName: 'sub' }],
+      config: { ...mockConfig, concurrency: 2 } as never,
+      mode: 'pr',
+    });
+    await vi.waitFor(() => expect(generateTest).toHaveBeenCalledTimes(2));
+    releaseAll();
+    const result = await run;
+
+    expect(result.testsGenerated).toBe(2);
+    expect(result.testFiles).toEqual([{ path: '__tests__/utils.test.ts', targets: ['add', 'sub'] }]);
+    const content = result.finalTestFiles.get('__tests__/utils.test.ts')?.content;
+    expect(content).toContain("describe('mul'");
+    expect(content).toContain("describe('add'");
+    expect(content).toContain("describe('sub'");
+  });
+
+  it('should count consecutive truncations per worker', async () => {
+    let subStarted!: () => void;
+    const subStart = new Promise<void>(resolve => {
+      subStarted = resolve;
+    });
+    let divStored!: () => void;
+    const divStore = new Promise<void>(resolve => {
+      divStored = resolve;
+    });
+    vi.mocked(info).mockImplementation(message => {
+      if (message === '✓ Generated test for div') {
+        divStored();
+      }
+    });
+    // div holds worker 2 until sub starts in worker 1, and sub only fails once div has succeeded
+    const generateTest = vi.fn().mockImplementation(async ({ target }: { target: { functionName: string } }) => {
+      if (target.functionName === 'div') {
+        await subStart;
+        return { testCode: "describe('div', () => { it('works', () => {}); });", usage: {} };
+      }
+      if (target.functionName === 'sub') {
+        subStarted();
+        await divStore;
+      }
+      throw new Error('Response truncated at the token limit');
+    });
+    vi.mocked(TestGenerator).mockImplementation(() => ({
+      generateTest,
+      getCacheStats: vi.fn().mockReturnValue(null),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn(),
+    }) as never);
+    vi.mocked(getTestFilePath).mockImplementation(target => target.functionName === 'div' ? '__tests__/div.test.ts' : '__tests__/utils.test.ts');
+
+    // div succeeds between add and sub, but in the other worker
+    await expect(generateTestsFromTargets({
+      targets: [mockTarget, { ...mockTarget, functionName: 'div' }, { ...mockTarget, functionName: 'sub' }],
+      config: { ...mockConfig, concurrency: 2 } as never,
+      mode: 'pr',
+    })).rejects.toThrow('2 consecutive truncations in worker 1');
+    vi.mocked(info).mockReset();
+  });
+
   it('should generate scaffold in scaffold mode', async () => {
     const mockGenerator = {
       generateTestScaffold: vi.fn().mockResolvedValue({
         testCode: 'scaffold code',
         usage: {},
       }),
+      getCacheStats: vi.fn().mockReturnValue(null),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+      getUsage: vi.fn(),
     };
     vi.mocked(TestGenerator).mockImplementation(() => mockGenerator as never);
 
@@ -242,3 +408,68 @@ describe('test-generation-core', () => {
   });
 });
 
+
+describe('runTestsAndFix', () => {
+  const testFile = '__tests__/utils.test.ts';
+  const content = "describe('add', () => {\n  it('adds', () => {\n    expect(add(1, 1)).toBe(3);\n  });\n});\n";
+  const config = { maxFixAttempts: 4, codeStyle: {} };
+  const failing = [{
+    testFile,
+    success: false,
+    total: 1,
+    passed: 0,
+    failed: 1,
+    duration: 5,
+    failures: [{ testName: 'adds', message: 'expected 2 to be 3' }],
+  }];
+  let runner: { runTests: ReturnType<typeof vi.fn> };
+  let generator: { fixTest: ReturnType<typeof vi.fn>; budgetExceeded: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    runner = { runTests: vi.fn().mockResolvedValue(failing) };
+    // A rejected fix keeps the loop going without touching the file
+    generator = {
+      fixTest: vi.fn().mockRejectedValue(new Error('Fix rejected: Too many tests removed')),
+      budgetExceeded: vi.fn().mockReturnValue(null),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function run(options?: { removeStubbornTests?: boolean }) {
+    const done = runTestsAndFix(
+      runner as never,
+      new Map([[testFile, { content, targets: ['add'] }]]),
+      [testFile],
+      'vitest',
+      'npm',
+      '/project',
+      generator as never,
+      4,
+      config as never,
+      {},
+      options
+    );
+    await vi.runAllTimersAsync();
+    return done;
+  }
+
+  it('should remove stubborn tests by default', async () => {
+    await run();
+
+    expect(writeFileSync).toHaveBeenCalledWith(testFile, expect.not.stringContaining("it('adds'"), 'utf-8');
+  });
+
+  it('should keep stubborn tests when removal is disabled', async () => {
+    const result = await run({ removeStubbornTests: false });
+
+    expect(writeFileSync).not.toHaveBeenCalled();
+    expect(generator.fixTest).toHaveBeenCalledTimes(4);
+    expect(generator.fixTest).toHaveBeenLastCalledWith(expect.objectContaining({ stubbornTests: ['adds'] }));
+    expect(result.get(testFile)?.content).toBe(content);
+  });
+});
@@ -4,9 +4,12 @@
 
 import type { KakarotConfig } from '../types/config.js';
 import type { TestTarget } from '../types/diff.js';
-import { RateLimitError } from '../types/errors.js';
+import { QuotaError, NonRetryableError, ConfigError, CassetteMismatchError } from '../types/errors.js';
 import { TestGenerator } from '../llm/test-generator.js';
+import { formatUsageTotals, type UsageLedger, type UsageSummary } from '../llm/usage-ledger.js';
+import { countReportedTests, countTestCalls } from '../llm/structured-output.js';
 import { getTestFilePath } from '../utils/test-file-path.js';
+import { runPool, createKeyedQueue } from '../utils/worker-pool.js';
 import { calculateImportPath } from '../utils/import-path-calculator.js';
 import { detectPackageManager } from '../utils/package-manager-detector.js';
 import { createTestRunner } from '../utils/test-runner/factory.js';
@@ -16,7 +19,7 @@ import type { CoverageDelta } from '../types/coverage.js';
 import { formatGeneratedCode, lintGeneratedCode } from '../utils/code-standards.js';
 import { findProjectRoot } from '../utils/config-loader.js';
 import { checkSyntaxCompleteness, validateTestFile, validateTypeScript } from '../utils/file-validator.js';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
 import * as fs from 'fs/promises';
 import { join } from 'path';
 import { info, error, warn, success, progress, debug } from '../utils/logger.js';
@@ -31,15 +34,6 @@ import { fixTypeErrors } from '../utils/type-error-fixer.js';
 // Constants
 // ============================================================================
 
-/** Estimated tokens needed per test generation request */
-const ESTIMATED_TOKENS_PER_REQUEST = 3000;
-
-/** Maximum tokens per minute (OpenAI default, adjust per provider if needed) */
-const MAX_TOKENS_PER_MINUTE = 30000;
-
-/** Maximum wait time for token refill before proceeding (1 minute) */
-const MAX_TOKEN_WAIT_MS = 60000;
-
 /** Minimum test retention percentage - reject fixes that remove more than this */
 const MIN_TEST_RETENTION_PERCENT = 0.95;
 
@@ -75,12 +69,14 @@ export interface TestGenerationOptions {
   config: KakarotConfig;
   mode: 'pr' | 'scaffold' | 'full';
   getExistingTestFile?: (testFilePath: string) => Promise<string | undefined>;
+  /** Share token and cost totals (and the budget) with other LLM calls in the run */
+  ledger?: UsageLedger;
 }
 
 /**
  * Map test file paths to their original function targets
  */
-interface TestFileToTargetsMap {
+export interface TestFileToTargetsMap {
   [testFilePath: string]: TestTarget[];
 }
 
@@ -100,6 +96,7 @@ export interface TestGenerationResult {
   coverageDelta?: CoverageDelta;
   testResults?: TestResult[];
   finalTestFiles: Map<string, { content: string; targets: string[] }>;
+  usage?: UsageSummary;
 }
 
 /**
@@ -107,7 +104,7 @@ export interface TestGenerationResult {
  * Standalone functions pass through unchanged. This avoids N API calls for N methods
  * of the same class - instead one call gets the full class context and generates all tests.
  */
-function consolidateClassTargets(targets: TestTarget[]): TestTarget[] {
+export function consolidateClassTargets(targets: TestTarget[]): TestTarget[] {
   const classGroups = new Map<string, TestTarget[]>();
   const standalone: TestTarget[] = [];
 
@@ -165,7 +162,7 @@ function consolidateClassTargets(targets: TestTarget[]): TestTarget[] {
 export async function generateTestsFromTargets(
   options: TestGenerationOptions
 ): Promise<TestGenerationResult> {
-  const { targets, config, mode, getExistingTestFile } = options;
+  const { targets, config, mode, getExistingTestFile, ledger } = options;
 
   if (targets.length === 0) {
     return {
@@ -198,8 +195,9 @@ export async function generateTestsFromTargets(
     info(`Test targets: ${targetNames}`);
   }
 
-  // Initialize test generator
-  const testGenerator = new TestGenerator(config);
+  // Initialize test generator with the concurrency actually used, so it knows whether targets overlap
+  const concurrency = resolveConcurrency(config);
+  const testGenerator = new TestGenerator({ ...config, concurrency }, ledger);
   const framework = config.framework;
   const projectRoot = await findProjectRoot();
 
@@ -211,53 +209,30 @@ export async function generateTestsFromTargets(
   let testsFailed = 0;
   const errors: Array<{ target: string; error: string }> = [];
   
-  // Track token capacity to avoid starting work without sufficient tokens
-  let lastRateLimitInfo: {
-    availableTokens: number;
-    requestTokens: number;
-    refillRate: number; // tokens per minute
-    timestamp: number; // when this info was recorded
-  } | null = null;
-
-  // Track consecutive truncation errors to abort early and save API costs
-  let consecutiveTruncations = 0;
-
-  for (let i = 0; i < consolidatedTargets.length; i++) {
-    const target = consolidatedTargets[i];
+  // Track consecutive truncation errors to abort early and save API costs. Counted per worker:
+  // each worker runs its targets in order, while completions across workers interleave arbitrarily.
+  const truncationsByWorker: number[] = [];
+
+  // Targets run in parallel workers; merges into one test file still happen one target at a time
+  const withTestFile = createKeyedQueue();
+  if (concurrency > 1) {
+    info(`Generating up to ${concurrency} targets at a time`);
+  }
+
+  // Quota, configuration, truncation and cassette errors thrown below stop the pool from starting
+  // further targets; the first one is rethrown once the targets already in flight have finished
+  await runPool(consolidatedTargets, concurrency, async (target, i, worker): Promise<void | 'stop'> => {
     const targetLabel = target.className || target.functionName;
-    progress(i + 1, consolidatedTargets.length, `Generating test for ${targetLabel}`);
 
-    // Check token capacity before starting new function generation
-    // Estimate tokens needed for this request (~2000-4000 tokens for test generation)
-    const estimatedTokensNeeded = ESTIMATED_TOKENS_PER_REQUEST;
-    if (lastRateLimitInfo) {
-      const timeSinceLastCheck = (Date.now() - lastRateLimitInfo.timestamp) / 1000 / 60; // minutes
-      const tokensRefilled = timeSinceLastCheck * lastRateLimitInfo.refillRate;
-      const currentAvailableTokens = Math.min(
-        lastRateLimitInfo.availableTokens + tokensRefilled,
-        MAX_TOKENS_PER_MINUTE
-      );
-      
-      if (currentAvailableTokens < estimatedTokensNeeded) {
-        // Not enough tokens available - wait for refill
-        const tokensNeeded = estimatedTokensNeeded - currentAvailableTokens;
-        const waitMinutes = tokensNeeded / lastRateLimitInfo.refillRate;
-        const waitMs = Math.ceil(waitMinutes * 60 * 1000);
-        
-        if (waitMs > 0 && waitMs < MAX_TOKEN_WAIT_MS) {
-          warn(`Insufficient token capacity (${Math.floor(currentAvailableTokens)} available, ${estimatedTokensNeeded} needed). Waiting ${Math.ceil(waitMs / 1000)}s for token refill...`);
-          await new Promise(resolve => setTimeout(resolve, waitMs));
-          // Update available tokens after waiting
-          const newTimeSinceCheck = (Date.now() - lastRateLimitInfo.timestamp) / 1000 / 60;
-          lastRateLimitInfo.availableTokens = Math.min(
-            lastRateLimitInfo.availableTokens + (newTimeSinceCheck * lastRateLimitInfo.refillRate),
-            MAX_TOKENS_PER_MINUTE
-          );
-          lastRateLimitInfo.timestamp = Date.now();
-        }
-      }
+    // Stop starting new targets once the budget is spent; what was generated so far is still tested
+    const budgetReason = testGenerator.budgetExceeded();
+    if (budgetReason) {
+      warn(`LLM budget reached: ${budgetReason}. Skipping ${consolidatedTargets.length - i} remaining target(s).`);
+      return 'stop';
     }
 
+    progress(i + 1, consolidatedTargets.length, `Generating test for ${targetLabel}`);
+
     // Add delay between requests to avoid rate limits (if configured)
     if (i > 0 && config.requestDelay && config.requestDelay > 0) {
       await new Promise(resolve => setTimeout(resolve, config.requestDelay));
@@ -289,7 +264,7 @@ export async function generateTestsFromTargets(
       if (existingContent) {
         if (hasExistingTests(existingContent, target.functionName, target.className)) {
           info(`Skipping ${targetLabel} - tests already exist in ${testFilePath}`);
-          continue; // Skip this target
+          return; // Skip this target
         }
       }
 
@@ -338,59 +313,48 @@ export async function generateTestsFromTargets(
       }
       
       // Store test file - merge intelligently with existing content
-      let fileData = testFiles.get(testFilePath);
-      if (!fileData) {
-        // First target for this file - use existing content as base if it exists
-        const baseContent = existingContent || '';
-        if (baseContent) {
-          // Merge with existing file
-          fileData = { content: await mergeTestFiles(baseContent, formattedCode), targets: [] };
+      // Other workers may have merged into this file while this target was generating
+      await withTestFile(testFilePath, async () => {
+        let fileData = testFiles.get(testFilePath);
+        if (!fileData) {
+          // First target for this file - use existing content as base if it exists
+          const baseContent = existingContent || '';
+          if (baseContent) {
+            // Merge with existing file
+            fileData = { content: await mergeTestFiles(baseContent, formattedCode), targets: [] };
+          } else {
+            fileData = { content: formattedCode, targets: [] };
+          }
+          testFiles.set(testFilePath, fileData);
+          testFileToTargetsMap[testFilePath] = [];
         } else {
-        fileData = { content: formattedCode, targets: [] };
-        }
-        testFiles.set(testFilePath, fileData);
-        testFileToTargetsMap[testFilePath] = [];
-      } else {
-        // Merge new code with accumulated content
-        const mergedContent = await mergeTestFiles(fileData.content, formattedCode);
-        
-        // Validate merged content before storing (basic syntax check)
-        const syntaxCheck = checkSyntaxCompleteness(mergedContent);
-        if (!syntaxCheck.valid) {
-          throw new Error(`Merged test code has syntax errors: ${syntaxCheck.errors.join('; ')}`);
+          // Merge new code with accumulated content
+          const mergedContent = await mergeTestFiles(fileData.content, formattedCode);
+
+          // Validate merged content before storing (basic syntax check)
+          const syntaxCheck = checkSyntaxCompleteness(mergedContent);
+          if (!syntaxCheck.valid) {
+            throw new Error(`Merged test code has syntax errors: ${syntaxCheck.errors.join('; ')}`);
+          }
+
+          fileData.content = mergedContent;
         }
-        
-        fileData.content = mergedContent;
-      }
-      
-      fileData.targets.push(target.functionName);
-      testFileToTargetsMap[testFilePath].push(target); // Store full target for fix loop
-      testsGenerated++;
+
+        fileData.targets.push(target.functionName);
+        testFileToTargetsMap[testFilePath].push(target); // Store full target for fix loop
+        testsGenerated++;
+      });
 
       info(`✓ Generated test for ${targetLabel}`);
       
-      // Clear rate limit info on successful generation (tokens were used successfully)
-      lastRateLimitInfo = null;
       // Reset truncation counter - a successful generation means not all targets are too large
-      consecutiveTruncations = 0;
+      truncationsByWorker[worker] = 0;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      
-      // Check if this is a rate limit error with token information
-      if (
-        err instanceof RateLimitError &&
-        err.availableTokens !== null &&
-        err.requestTokens !== null &&
-        err.refillRate !== null
-      ) {
-        lastRateLimitInfo = {
-          availableTokens: err.availableTokens,
-          requestTokens: err.requestTokens,
-          refillRate: err.refillRate,
-          timestamp: Date.now(),
-        };
-        warn(`Rate limit hit: ${lastRateLimitInfo.availableTokens} tokens available, ${lastRateLimitInfo.requestTokens} requested. Refill rate: ${lastRateLimitInfo.refillRate} tokens/min.`);
+      // A replayed run that diverges from its cassette cannot be trusted past this point
+      if (err instanceof CassetteMismatchError) {
+        throw err;
       }
+      const errorMessage = err instanceof Error ? err.message : String(err);
       
       // Classify errors: quota errors and configuration errors should fail fast
       const isQuotaError = errorMessage.toLowerCase().includes('exceeded your current quota') ||
@@ -421,7 +385,7 @@ export async function generateTestsFromTargets(
         error(`Quota exceeded. Please check your billing and plan. This error won't resolve by retrying.`);
         error(`Stopping all test generation attempts.`);
         // Stop generation immediately for quota errors
-        throw new Error(`Quota exceeded: ${errorMessage}. Please check your billing and plan.`);
+        throw new QuotaError(`Quota exceeded: ${errorMessage}. Please check your billing and plan.`);
       }
       
       if (isConfigurationError) {
@@ -429,32 +393,33 @@ export async function generateTestsFromTargets(
         error(`✗ Configuration error detected: ${errorMessage}`);
         error(`This error will occur for all test generations. Please check your configuration.`);
         if (errorMessage.includes('max_tokens') || errorMessage.includes('max_completion_tokens')) {
-          error(`Hint: GPT-5 and newer models require 'max_completion_tokens' instead of 'max_tokens'.`);
-          error(`Please use gpt-4o, gpt-4-turbo, or gpt-4, or wait for GPT-5 support.`);
+          error(`Hint: the model registry may not know ${config.model || 'this model'}. Set its tokenParam, maxOutputTokens or supportsTemperature under \`models\` in your config.`);
         }
         // Stop generation immediately for configuration errors
-        throw new Error(`Configuration error: ${errorMessage}. Please fix your configuration and try again.`);
+        throw new ConfigError(`Configuration error: ${errorMessage}. Please fix your configuration and try again.`);
       }
       
       // Track consecutive truncation errors - abort after 2 to save API costs
       if (isTruncationError) {
-        consecutiveTruncations++;
+        const consecutiveTruncations = (truncationsByWorker[worker] ?? 0) + 1;
+        truncationsByWorker[worker] = consecutiveTruncations;
         if (consecutiveTruncations === 1) {
           warn(`Response truncated for ${targetLabel}. If this continues, generation will abort to save costs.`);
           warn(`Hint: Increase maxTokens in kakarot.config.js (current limit may be too low for complex targets).`);
         }
         if (consecutiveTruncations >= 2) {
-          error(`✗ Token limit too low — ${consecutiveTruncations} consecutive targets truncated.`);
+          const inWorker = concurrency > 1 ? ` in worker ${worker + 1}` : '';
+          error(`✗ Token limit too low — ${consecutiveTruncations} consecutive targets truncated${inWorker}.`);
           error(`Remaining targets will likely fail the same way. Aborting to save API costs.`);
           error(`Fix: Add maxTokens: 16000 (or higher) to your kakarot.config.js`);
-          throw new Error(
-            `Token limit too low for remaining targets (${consecutiveTruncations} consecutive truncations). ` +
+          throw new NonRetryableError(
+            `Token limit too low for remaining targets (${consecutiveTruncations} consecutive truncations${inWorker}). ` +
             `Increase maxTokens in kakarot.config.js and try again.`
           );
         }
       } else {
-        // Reset counter on non-truncation errors (a successful generation also resets below)
-        consecutiveTruncations = 0;
+        // Reset counter on non-truncation errors (a successful generation also resets above)
+        truncationsByWorker[worker] = 0;
       }
       
       error(`✗ Failed to generate test for ${targetLabel}: ${errorMessage}`);
@@ -474,11 +439,11 @@ export async function generateTestsFromTargets(
         );
         if (allSameConfigError) {
           error(`Multiple configuration errors detected. Stopping generation to avoid wasting API calls.`);
-          throw new Error(`Configuration error detected: ${recentErrors[0]}. Please fix your configuration and try again.`);
+          throw new ConfigError(`Configuration error detected: ${recentErrors[0]}. Please fix your configuration and try again.`);
         }
       }
     }
-  }
+  });
 
   // Write tests to disk and run them (only in full/pr mode, not scaffold)
   const packageManager = detectPackageManager(projectRoot);
@@ -514,6 +479,15 @@ export async function generateTestsFromTargets(
     debug(`Including ${existingTestFiles.size} existing test file(s) in fix loop: ${Array.from(existingTestFiles).join(', ')}`);
   }
 
+  // What each generated file held before this run, so a file dropped when the budget runs out can be put back
+  const previousContents = new Map<string, string | null>();
+  for (const [testFilePath, fileData] of testFiles) {
+    if (fileData.targets.length > 0) {
+      const fullTestPath = join(projectRoot, testFilePath);
+      previousContents.set(testFilePath, existsSync(fullTestPath) ? readFileSync(fullTestPath, 'utf-8') : null);
+    }
+  }
+
   if (testFiles.size > 0) {
     // Write test files to disk with validation
     const { writtenPaths, failedPaths } = await writeTestFiles(testFiles, projectRoot, privatePropertiesMap);
@@ -688,10 +662,34 @@ export async function generateTestsFromTargets(
       }
     }
 
+    // Once the budget is spent, keep only generated files whose tests passed in the final run
+    const budgetReason = testGenerator.budgetExceeded();
+    if (budgetReason && testResults) {
+      const dropped = new Set<string>();
+      for (const testResult of testResults) {
+        const fileData = finalTestFiles.get(testResult.testFile);
+        if (testResult.success || !fileData || fileData.targets.length === 0) {
+          continue;
+        }
+        finalTestFiles.delete(testResult.testFile);
+        dropped.add(testResult.testFile);
+        finalTestsFailed -= testResult.failed;
+        restorePreviousContent(join(projectRoot, testResult.testFile), previousContents.get(testResult.testFile));
+        for (const target of fileData.targets) {
+          errors.push({
+            target: `${testResult.testFile}:${target}`,
+            error: `Dropped with ${testResult.failed} failing test(s): ${budgetReason}`,
+          });
+        }
+        warn(`Not keeping ${testResult.testFile}: ${testResult.failed} test(s) still failing when the LLM budget ran out`);
+      }
+      testResults = testResults.filter(r => !dropped.has(r.testFile));
+    }
+
     // LLM review pass — run once per file on confirmed-working tests
     // Catches strict-runtime issues (unhandled rejections, void-incompatible mocks, etc.)
     // that pass Jest but crash Stryker or strict Node.js
-    if (finalTestFiles.size > 0 && mode !== 'scaffold') {
+    if (finalTestFiles.size > 0 && mode !== 'scaffold' && !testGenerator.budgetExceeded()) {
       info('Running strict-runtime review on generated test files...');
       for (const [testFile, fileData] of finalTestFiles.entries()) {
         const targets = testFileToTargetsMap[testFile] || [];
@@ -716,6 +714,9 @@ export async function generateTestsFromTargets(
             info(`✓ Review clean: ${testFile} (no changes needed)`);
           }
         } catch (err) {
+          if (err instanceof CassetteMismatchError) {
+            throw err;
+          }
           warn(`Review failed for ${testFile}: ${err instanceof Error ? err.message : String(err)} — keeping original`);
         }
       }
@@ -810,6 +811,7 @@ export async function generateTestsFromTargets(
     coverageReport: coverageReport || undefined,
     coverageDelta: coverageDelta || undefined,
     testResults: testResults,
+    usage: testGenerator.getUsage(),
   };
 
   // Print styled summary block
@@ -856,6 +858,32 @@ export async function generateTestsFromTargets(
     }
   }
 
+  // LLM response cache
+  const cacheStats = testGenerator.getCacheStats();
+  if (cacheStats) {
+    const skipped = cacheStats.skipped > 0 ? `, ${cacheStats.skipped} truncated not stored` : '';
+    info(`  Cache:         ${cacheStats.hits} hit(s), ${cacheStats.misses} miss(es), ${cacheStats.stored} stored${skipped}`);
+  }
+
+  // LLM usage
+  const usage = result.usage;
+  if (usage && usage.total.calls > 0) {
+    info(`  LLM Usage:     ${formatUsageTotals(usage.total, usage.unpricedModels)}`);
+    for (const [phase, totals] of Object.entries(usage.byPhase)) {
+      info(`                 → ${phase}: ${totals.calls} call(s), ${formatUsageTotals(totals)}`);
+    }
+    // Several models means a fix model or a fallback served some targets
+    if (Object.keys(usage.byModel).length > 1) {
+      info(`  Models:        ${Object.keys(usage.byModel).join(', ')}`);
+      for (const [target, models] of Object.entries(usage.modelsByTarget)) {
+        info(`                 → ${target}: ${models.join(', ')}`);
+      }
+    }
+    if (usage.budgetExceeded) {
+      warn(`  Budget:        ${usage.budgetExceeded}, run stopped early`);
+    }
+  }
+
   // Errors
   if (errors.length > 0) {
     error(`  Errors:        ${errors.length}`);
@@ -901,10 +929,18 @@ function removeTestByName(code: string, testName: string): string {
   return code.slice(0, startIdx) + code.slice(endIdx);
 }
 
+export interface RunTestsAndFixOptions {
+  /**
+   * Delete tests that keep failing past the removal threshold (default true).
+   * Disabled when repairing human-written tests, which are reported instead.
+   */
+  removeStubbornTests?: boolean;
+}
+
 /**
  * Run tests and fix failures in a loop
  */
-async function runTestsAndFix(
+export async function runTestsAndFix(
   testRunner: ReturnType<typeof createTestRunner>,
   testFiles: Map<string, { content: string; targets: string[] }>,
   testFilePaths: string[],
@@ -914,12 +950,16 @@ async function runTestsAndFix(
   testGenerator: TestGenerator,
   maxFixAttempts: number,
   config: KakarotConfig,
-  testFileToTargetsMap: TestFileToTargetsMap
+  testFileToTargetsMap: TestFileToTargetsMap,
+  options: RunTestsAndFixOptions = {}
 ): Promise<Map<string, { content: string; targets: string[] }>> {
-  
+  const removeStubbornTests = options.removeStubbornTests ?? true;
+
   let attempt = 0;
   const currentTestFiles = new Map(testFiles);
   const stubbornTestCounts = new Map<string, number>();
+  // Test cases the model reported for each file's current content, from its last structured fix response
+  const reportedTestCases = new Map<string, Array<{ name: string; intent: string }>>();
 
   const isInfinite = maxFixAttempts === -1;
   while (isInfinite || attempt < maxFixAttempts) {
@@ -942,6 +982,12 @@ async function runTestsAndFix(
       return currentTestFiles;
     }
 
+    const budgetReason = testGenerator.budgetExceeded();
+    if (budgetReason) {
+      warn(`LLM budget reached: ${budgetReason}. Stopping fix attempts.`);
+      return currentTestFiles;
+    }
+
     // Find failing tests
     const failures: Array<{ testFile: string; result: TestResult }> = [];
     let totalFailingTests = 0;
@@ -1003,6 +1049,9 @@ async function runTestsAndFix(
     }
     
     for (const { testFile, result } of failures) {
+      if (testGenerator.budgetExceeded()) {
+        break;
+      }
       try {
         const currentFileData = currentTestFiles.get(testFile);
         const currentContent = currentFileData?.content;
@@ -1078,8 +1127,9 @@ async function runTestsAndFix(
           : false;
         
         // --- Stubborn test escalation: removal at 6+ failures ---
+        // Skipped when removal is disabled; those tests stay at the simplification stage
         const testsToRemove = result.failures
-          .filter(f => (stubbornTestCounts.get(`${testFile}::${f.testName}`) ?? 0) >= removeThreshold)
+          .filter(f => removeStubbornTests && (stubbornTestCounts.get(`${testFile}::${f.testName}`) ?? 0) >= removeThreshold)
           .map(f => f.testName);
 
         if (testsToRemove.length > 0) {
@@ -1162,8 +1212,13 @@ async function runTestsAndFix(
         // Apply code standards to fixed code
         let formattedCode = fixedResult.testCode;
         
-        // Validate test count before processing - ensure we're not losing tests
-        const originalTestCount = (currentContent.match(/it\(/g) || []).length;
+        // Validate test count before processing - ensure we're not losing tests. Both versions are counted
+        // the same way: by the test cases the model reported for each when it reported both, else by test calls
+        const previousTestCases = reportedTestCases.get(testFile);
+        const fixedTestCases = fixedResult.testCases;
+        const originalTestCount = previousTestCases && fixedTestCases
+          ? countReportedTests({ testCode: currentContent, testCases: previousTestCases })
+          : countTestCalls(currentContent);
         const originalDescribeCount = (currentContent.match(/describe\(/g) || []).length;
         
         // ALWAYS format to fix syntax errors before validation
@@ -1176,7 +1231,9 @@ async function runTestsAndFix(
         }
         
         // Check test count after formatting
-        const fixedTestCount = (formattedCode.match(/it\(/g) || []).length;
+        const fixedTestCount = previousTestCases && fixedTestCases
+          ? countReportedTests({ testCode: formattedCode, testCases: fixedTestCases })
+          : countTestCalls(formattedCode);
         const fixedDescribeCount = (formattedCode.match(/describe\(/g) || []).length;
         
         // Reject fixes that remove too many tests (more than 5% loss is suspicious)
@@ -1360,9 +1417,17 @@ async function runTestsAndFix(
           });
         }
 
+        if (fixedTestCases) {
+          reportedTestCases.set(testFile, fixedTestCases);
+        } else {
+          reportedTestCases.delete(testFile);
+        }
         fixedAny = true;
         info(`✓ Fixed test file: ${testFile} (validated, will write with other fixes)`);
       } catch (err) {
+        if (err instanceof CassetteMismatchError) {
+          throw err;
+        }
         const errorMessage = err instanceof Error ? err.message : String(err);
         warn(`Failed to fix test file ${testFile}: ${errorMessage}`);
         
@@ -1535,6 +1600,30 @@ async function runTestsAndFix(
   return currentTestFiles;
 }
 
+/**
+ * Put a test file back the way it was before this run: rewrite its old content, or delete it if it was new
+ */
+function restorePreviousContent(fullPath: string, previous: string | null | undefined): void {
+  if (typeof previous === 'string') {
+    writeFileSync(fullPath, previous, 'utf-8');
+  } else if (existsSync(fullPath)) {
+    unlinkSync(fullPath);
+  }
+}
+
+/**
+ * Number of targets to generate at once. Cassettes matched by order need the calls
+ * in a deterministic sequence, so recording or replaying one that way runs serially.
+ */
+function resolveConcurrency(config: KakarotConfig): number {
+  const concurrency = config.concurrency ?? 1;
+  if (concurrency > 1 && config.cassette?.match === 'order') {
+    warn(`Ignoring concurrency ${concurrency}: cassettes matched by order need targets generated one at a time (use match: 'hash' to run in parallel)`);
+    return 1;
+  }
+  return concurrency;
+}
+
 /**
  * Calculate coverage delta between baseline and current coverage
  */
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { computeChangedRanges, runWatch } from './watch.js';
+import { watch, readFileSync, existsSync } from 'fs';
+import { analyzeFile } from '../utils/ast-analyzer.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { listProjectFiles } from '../utils/project-files.js';
+import { generateTestsFromTargets } from './test-generation-core.js';
+import { loadLocalConfig } from './local-orchestrator.js';
+
+vi.mock('fs');
+vi.mock('../utils/ast-analyzer.js');
+vi.mock('../utils/config-loader.js');
+vi.mock('../utils/project-files.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/project-files.js')>()),
+  listProjectFiles: vi.fn(),
+}));
+vi.mock('./test-generation-core.js');
+vi.mock('./local-orchestrator.js');
+vi.mock('../utils/logger.js', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+}));
+
+describe('computeChangedRanges', () => {
+  it('should return no ranges for identical content', () => {
+    expect(computeChangedRanges('a\nb', 'a\nb')).toEqual([]);
+  });
+
+  it('should cover the lines between the common prefix and suffix', () => {
+    expect(computeChangedRanges('a\nb\nc\nd', 'a\nB\nC\nd')).toEqual([{ start: 2, end: 3, type: 'addition' }]);
+  });
+
+  it('should treat a new file as entirely added', () => {
+    expect(computeChangedRanges('', 'a\nb\nc')).toEqual([{ start: 1, end: 3, type: 'addition' }]);
+  });
+
+  it('should mark pure deletions', () => {
+    expect(computeChangedRanges('a\nb\nc', 'a\nc')).toEqual([{ start: 2, end: 2, type: 'deletion' }]);
+  });
+});
+
+describe('runWatch', () => {
+  const config = {
+    testDirectory: '__tests__',
+    includePatterns: ['src/**/*.ts'],
+    excludePatterns: ['**/*.test.ts'],
+  };
+  const contents = new Map<string, string>();
+  let listeners: Map<string, (event: string, filename: string) => void>;
+
+  const save = (dir: string, filename: string, content: string) => {
+    contents.set(`/project/${dir ? `${dir}/` : ''}${filename}`, content);
+    listeners.get(dir ? `/project/${dir}` : '/project')?.('change', filename);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    contents.clear();
+    contents.set('/project/src/a.ts', 'export function a() {\n  return 1;\n}');
+    listeners = new Map();
+
+    vi.mocked(loadLocalConfig).mockResolvedValue(config as never);
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(listProjectFiles).mockReturnValue(['src/a.ts', 'README.md']);
+    vi.mocked(existsSync).mockImplementation(path => contents.has(String(path)));
+    vi.mocked(readFileSync).mockImplementation(path => contents.get(String(path)) ?? '');
+    vi.mocked(watch).mockImplementation(((dir: string, listener: (event: string, filename: string) => void) => {
+      listeners.set(dir, listener);
+      return { on: vi.fn(), close: vi.fn() };
+    }) as never);
+    vi.mocked(analyzeFile).mockResolvedValue([{
+      filePath: 'src/a.ts',
+      functionName: 'a',
+      functionType: 'function',
+      startLine: 1,
+      endLine: 3,
+      code: '',
+      context: '',
+      changedRanges: [],
+    }]);
+    vi.mocked(generateTestsFromTargets).mockResolvedValue({
+      targetsProcessed: 1,
+      testsGenerated: 1,
+      testsFailed: 0,
+      testFiles: [],
+      errors: [],
+      finalTestFiles: new Map(),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function startWatch() {
+    const controller = new AbortController();
+    const done = runWatch({ mode: 'full', signal: controller.signal, debounceMs: 100 });
+    await vi.advanceTimersByTimeAsync(0);
+    return { controller, done };
+  }
+
+  it('should watch directories containing matching files', async () => {
+    const { controller, done } = await startWatch();
+
+    expect([...listeners.keys()].sort()).toEqual(['/project', '/project/src']);
+
+    controller.abort();
+    await done;
+  });
+
+  it('should debounce saves and analyze only the changed lines', async () => {
+    const { controller, done } = await startWatch();
+
+    save('src', 'a.ts', 'export function a() {\n  return 2;\n}');
+    await vi.advanceTimersByTimeAsync(50);
+    save('src', 'a.ts', 'export function a() {\n  return 3;\n}');
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(analyzeFile).toHaveBeenCalledTimes(1);
+    expect(analyzeFile).toHaveBeenCalledWith(
+      'src/a.ts',
+      'export function a() {\n  return 3;\n}',
+      [{ start: 2, end: 2, type: 'addition' }],
+      'HEAD',
+      expect.anything(),
+      '__tests__',
+      false
+    );
+    expect(generateTestsFromTargets).toHaveBeenCalledWith(expect.objectContaining({ mode: 'full' }));
+
+    controller.abort();
+    await done;
+  });
+
+  it('should ignore files outside includePatterns', async () => {
+    const { controller, done } = await startWatch();
+
+    save('src', 'a.test.ts', 'test');
+    save('', 'README.md', 'docs');
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(analyzeFile).not.toHaveBeenCalled();
+
+    controller.abort();
+    await done;
+  });
+
+  it('should serialize runs so generation never overlaps', async () => {
+    let release: () => void = () => {};
+    vi.mocked(generateTestsFromTargets).mockImplementationOnce(() => new Promise(resolve => {
+      release = () => resolve({
+        targetsProcessed: 1,
+        testsGenerated: 1,
+        testsFailed: 0,
+        testFiles: [],
+        errors: [],
+        finalTestFiles: new Map(),
+      });
+    }));
+    const { controller, done } = await startWatch();
+
+    save('src', 'a.ts', 'export function a() {\n  return 2;\n}');
+    await vi.advanceTimersByTimeAsync(150);
+    save('src', 'b.ts', 'export function b() {}');
+    await vi.advanceTimersByTimeAsync(150);
+
+    // b.ts waits for a.ts to finish
+    expect(generateTestsFromTargets).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(generateTestsFromTargets).toHaveBeenCalledTimes(2);
+    expect(analyzeFile).toHaveBeenLastCalledWith(
+      'src/b.ts', 'export function b() {}', [{ start: 1, end: 1, type: 'addition' }], 'HEAD', expect.anything(), '__tests__', false
+    );
+
+    controller.abort();
+    await done;
+  });
+
+  it('should wait for the in-flight run before resolving', async () => {
+    let release: () => void = () => {};
+    vi.mocked(generateTestsFromTargets).mockImplementationOnce(() => new Promise(resolve => {
+      release = () => resolve({
+        targetsProcessed: 1,
+        testsGenerated: 1,
+        testsFailed: 0,
+        testFiles: [],
+        errors: [],
+        finalTestFiles: new Map(),
+      });
+    }));
+    const { controller, done } = await startWatch();
+
+    save('src', 'a.ts', 'export function a() {\n  return 2;\n}');
+    await vi.advanceTimersByTimeAsync(150);
+
+    let finished = false;
+    controller.abort();
+    void done.then(() => { finished = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(finished).toBe(false);
+
+    release();
+    await done;
+    expect(finished).toBe(true);
+  });
+});
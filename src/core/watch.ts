@@ -0,0 +1,199 @@
+/**
+ * Watch mode for local development
+ * Regenerates tests for the functions touched by each save, one run at a time
+ */
+
+import { watch, readFileSync, existsSync, type FSWatcher } from 'fs';
+import { dirname, join } from 'path';
+import type { KakarotConfig } from '../types/config.js';
+import type { ChangedRange } from '../types/diff.js';
+import { analyzeFile } from '../utils/ast-analyzer.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { listProjectFiles, matchesFilePatterns } from '../utils/project-files.js';
+import { info, warn, error, debug } from '../utils/logger.js';
+import { generateTestsFromTargets } from './test-generation-core.js';
+import { loadLocalConfig, type LocalContext } from './local-orchestrator.js';
+
+/** Quiet period after the last save before a file is processed */
+export const WATCH_DEBOUNCE_MS = 500;
+
+export interface WatchContext extends Pick<LocalContext, 'includePatterns' | 'excludePatterns'> {
+  mode: 'scaffold' | 'full';
+  /** Override the debounce window (ms) */
+  debounceMs?: number;
+  /** Stops watching when aborted */
+  signal: AbortSignal;
+}
+
+/**
+ * Compute the changed line range between two versions of a file.
+ * Uses the common prefix and suffix, so separate edits in one save become one range.
+ */
+export function computeChangedRanges(before: string, after: string): ChangedRange[] {
+  if (before === after) {
+    return [];
+  }
+
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const end = newLines.length - suffix;
+  if (end > prefix) {
+    return [{ start: prefix + 1, end, type: 'addition' }];
+  }
+
+  // Pure deletion: mark the line where content was removed
+  const line = Math.min(prefix + 1, newLines.length);
+  return [{ start: line, end: line, type: 'deletion' }];
+}
+
+/**
+ * Regenerate tests for the functions a single save touched
+ */
+async function processSave(
+  file: string,
+  projectRoot: string,
+  snapshots: Map<string, string>,
+  config: KakarotConfig,
+  mode: 'scaffold' | 'full'
+): Promise<void> {
+  const fullPath = join(projectRoot, file);
+  if (!existsSync(fullPath)) {
+    snapshots.delete(file);
+    debug(`${file} was removed`);
+    return;
+  }
+
+  const content = readFileSync(fullPath, 'utf-8');
+  const previous = snapshots.get(file) ?? '';
+  const ranges = computeChangedRanges(previous, content);
+  snapshots.set(file, content);
+
+  if (ranges.length === 0) {
+    debug(`${file} saved without changes`);
+    return;
+  }
+
+  const localFileChecker = {
+    fileExists: async (_ref: string, path: string): Promise<boolean> => existsSync(join(projectRoot, path)),
+  };
+  const targets = await analyzeFile(file, content, ranges, 'HEAD', localFileChecker, config.testDirectory, false);
+
+  if (targets.length === 0) {
+    info(`${file}: no exported functions changed`);
+    return;
+  }
+
+  info(`${file}: regenerating tests for ${targets.map(t => t.className ? `${t.className}.${t.functionName}` : t.functionName).join(', ')}`);
+  const result = await generateTestsFromTargets({ targets, config, mode });
+  info(`${file}: ${result.testsGenerated} generated, ${result.testsFailed} failed`);
+}
+
+/**
+ * Watch source files and regenerate tests as they are saved.
+ * Resolves once the signal is aborted and any in-flight run has finished.
+ */
+export async function runWatch(context: WatchContext): Promise<void> {
+  const config = await loadLocalConfig(context);
+  const projectRoot = await findProjectRoot();
+  const debounceMs = context.debounceMs ?? WATCH_DEBOUNCE_MS;
+
+  const files = listProjectFiles(projectRoot).filter(file => matchesFilePatterns(file, config));
+  const snapshots = new Map<string, string>();
+  for (const file of files) {
+    try {
+      snapshots.set(file, readFileSync(join(projectRoot, file), 'utf-8'));
+    } catch (err) {
+      debug(`Failed to read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const timers = new Map<string, NodeJS.Timeout>();
+  const pending = new Set<string>();
+  let running: Promise<void> | null = null;
+
+  // Runs are serialized so two fix loops never write the same test file at once
+  const drain = async (): Promise<void> => {
+    while (pending.size > 0 && !context.signal.aborted) {
+      const [file] = pending;
+      pending.delete(file);
+      try {
+        await processSave(file, projectRoot, snapshots, config, context.mode);
+      } catch (err) {
+        error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    running = null;
+    if (!context.signal.aborted) {
+      info('Waiting for changes...');
+    }
+  };
+
+  const onSave = (file: string) => {
+    if (!matchesFilePatterns(file, config)) {
+      return;
+    }
+    clearTimeout(timers.get(file));
+    timers.set(file, setTimeout(() => {
+      timers.delete(file);
+      pending.add(file);
+      if (!running) {
+        running = drain();
+      }
+    }, debounceMs));
+  };
+
+  // Watch each directory that holds a matching file (recursive fs.watch is not available on Linux before Node 20)
+  const directories = new Set(['', ...files.map(file => dirname(file)).filter(dir => dir !== '.')]);
+  const watchers: FSWatcher[] = [];
+  for (const dir of directories) {
+    try {
+      const watcher = watch(join(projectRoot, dir), (_event, filename) => {
+        if (filename) {
+          const name = filename.toString();
+          onSave(dir ? `${dir}/${name}` : name);
+        }
+      });
+      watcher.on('error', err => debug(`Watcher error in ${dir || '.'}: ${err.message}`));
+      watchers.push(watcher);
+    } catch (err) {
+      warn(`Cannot watch ${dir || '.'}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  info(`Watching ${files.length} file(s) in ${context.mode} mode (Ctrl+C to stop)`);
+
+  await new Promise<void>(resolve => {
+    if (context.signal.aborted) {
+      resolve();
+      return;
+    }
+    context.signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+
+  for (const watcher of watchers) {
+    watcher.close();
+  }
+  for (const timer of timers.values()) {
+    clearTimeout(timer);
+  }
+  if (running) {
+    info('Waiting for the current run to finish...');
+    await running;
+  }
+  info('Stopped watching');
+}
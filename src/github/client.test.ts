@@ -211,5 +211,22 @@ describe('GitHubClient', () => {
     expect(limit.remaining).toBe(100);
     expect(limit.reset).toBe(1234567890);
   });
-});
 
+  it('should list token scopes from the response header', async () => {
+    mockOctokit.rest.rateLimit.get.mockResolvedValue({
+      headers: { 'x-oauth-scopes': 'repo, workflow' },
+      data: { rate: { remaining: 100, reset: 1234567890 } },
+    } as never);
+
+    expect(await client.getTokenScopes()).toEqual(['repo', 'workflow']);
+  });
+
+  it('should return null scopes for fine-grained tokens', async () => {
+    mockOctokit.rest.rateLimit.get.mockResolvedValue({
+      headers: {},
+      data: { rate: { remaining: 100, reset: 1234567890 } },
+    } as never);
+
+    expect(await client.getTokenScopes()).toBeNull();
+  });
+});
@@ -361,5 +361,17 @@ export class GitHubClient {
       reset: response.data.rate.reset,
     };
   }
-}
 
+  /**
+   * List the OAuth scopes granted to the token.
+   * Returns null for fine-grained and GitHub App tokens, which do not report scopes.
+   */
+  async getTokenScopes(): Promise<string[] | null> {
+    const response = await this.octokit.rest.rateLimit.get();
+    const header = response.headers['x-oauth-scopes'];
+    if (header === undefined) {
+      return null;
+    }
+    return String(header).split(',').map(scope => scope.trim()).filter(Boolean);
+  }
+}
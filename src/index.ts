@@ -1,9 +1,9 @@
 // Configuration types and schema
-export type { KakarotConfig, PartialKakarotConfig } from './types/config.js';
+export type { KakarotConfig, PartialKakarotConfig, FallbackProviderConfig } from './types/config.js';
 export { KakarotConfigSchema } from './types/config.js';
 
 // Error types
-export { KakarotError, RateLimitError, QuotaError, NonRetryableError } from './types/errors.js';
+export { KakarotError, RateLimitError, QuotaError, NonRetryableError, ConfigError, CommitConflictError, BudgetExceededError } from './types/errors.js';
 
 // Config loader
 export { loadConfig } from './utils/config-loader.js';
@@ -46,7 +46,17 @@ export type {
 // LLM integration
 export { TestGenerator } from './llm/test-generator.js';
 export { createLLMProvider } from './llm/factory.js';
+export { ResponseCache, CachingProvider } from './llm/cache.js';
+export type { CacheStats, CacheScope, ResponseCacheOptions } from './llm/cache.js';
+export { CassetteRecorder, RecordingProvider, ReplayProvider, readCassette } from './llm/cassette.js';
+export type { Cassette, CassetteInteraction } from './llm/cassette.js';
+export { UsageLedger, createUsageLedger, formatUsageTotals, USAGE_PHASES } from './llm/usage-ledger.js';
+export type { UsagePhase, UsageTotals, UsageSummary, UsageEntry, UsageLedgerOptions } from './llm/usage-ledger.js';
+export { MODEL_REGISTRY, DEFAULT_MODELS, getModelInfo } from './llm/models.js';
+export type { ModelInfo, ModelOverrides } from './llm/models.js';
 export { parseTestCode, validateTestCodeStructure } from './llm/parser.js';
+export { TEST_OUTPUT_SCHEMA, parseStructuredTestOutput, supportsStructuredOutput } from './llm/structured-output.js';
+export type { StructuredTestOutput } from './llm/structured-output.js';
 export { buildTestGenerationPrompt } from './llm/prompts/test-generation.js';
 export { buildTestFixPrompt } from './llm/prompts/test-fix.js';
 export type {
@@ -54,6 +64,7 @@ export type {
   LLMResponse,
   LLMProvider,
   LLMGenerateOptions,
+  ResponseSchema,
   TestGenerationContext,
   TestGenerationResult,
   TestFixContext,
@@ -87,3 +98,13 @@ export type {
 export { runPullRequest } from './core/orchestrator.js';
 export type { PullRequestContext, TestGenerationSummary } from './core/orchestrator.js';
 
+// Exit codes and failure policy
+export { EXIT_CODES, classifyError, detectSummaryFailures, resolveSummaryExit, resolveErrorExit } from './core/exit-codes.js';
+export type { ErrorClass, ExitDecision } from './core/exit-codes.js';
+export { FAILURE_CLASSES } from './types/config.js';
+export type { FailureClass } from './types/config.js';
+
+// Run reports
+export { buildRunReport, renderRunReport, writeRunReport, inferReportFormat, REPORT_FORMATS } from './core/report.js';
+export type { RunReport, RunReportInput, ReportFormat } from './core/report.js';
+
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachingProvider, ResponseCache, cacheKey, type CacheScope } from './cache.js';
+import type { LLMMessage, LLMProvider, LLMResponse } from '../types/llm.js';
+
+vi.mock('../utils/logger.js', () => ({
+  debug: vi.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+const scope: CacheScope = { provider: 'anthropic', model: 'claude-sonnet-4-20250514', settings: { maxTokens: 4000 } };
+const messages: LLMMessage[] = [
+  { role: 'system', content: 'You write tests.' },
+  { role: 'user', content: 'Test add(a, b).' },
+];
+
+function providerReturning(response: LLMResponse) {
+  return { generate: vi.fn().mockResolvedValue(response) } satisfies LLMProvider;
+}
+
+describe('cache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kakarot-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('cacheKey', () => {
+    it('should change with the model, options and messages but not with callbacks', () => {
+      const key = cacheKey(scope, messages, { temperature: 0.2 });
+
+      expect(cacheKey(scope, messages, { temperature: 0.2, onToken: () => undefined })).toBe(key);
+      expect(cacheKey({ ...scope, model: 'claude-opus-4-6' }, messages, { temperature: 0.2 })).not.toBe(key);
+      expect(cacheKey(scope, messages, { temperature: 0.3 })).not.toBe(key);
+      expect(cacheKey(scope, [...messages, { role: 'user', content: 'More.' }], { temperature: 0.2 })).not.toBe(key);
+    });
+  });
+
+  describe('CachingProvider', () => {
+    it('should answer an identical request from disk', async () => {
+      const cache = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: 1024 * 1024 });
+      const inner = providerReturning({ content: 'it works', finishReason: 'stop', usage: { totalTokens: 10 } });
+      const provider = new CachingProvider(inner, cache, scope);
+      const onToken = vi.fn();
+
+      const first = await provider.generate(messages, { temperature: 0.2 });
+      const second = await provider.generate(messages, { temperature: 0.2, onToken });
+
+      expect(inner.generate).toHaveBeenCalledTimes(1);
+      expect(first.cached).toBeUndefined();
+      expect(second).toEqual({ content: 'it works', finishReason: 'stop', usage: { totalTokens: 10 }, cached: true });
+      expect(onToken).toHaveBeenCalledWith('it works');
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, stored: 1, skipped: 0 });
+    });
+
+    it('should not store truncated responses', async () => {
+      const cache = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: 1024 * 1024 });
+      const inner = providerReturning({ content: 'it(', finishReason: 'length', truncated: true });
+      const provider = new CachingProvider(inner, cache, scope);
+
+      await provider.generate(messages);
+      await provider.generate(messages);
+
+      expect(inner.generate).toHaveBeenCalledTimes(2);
+      expect(readdirSync(dir)).toEqual([]);
+      expect(cache.getStats()).toMatchObject({ stored: 0, skipped: 2 });
+    });
+
+    it('should never write credentials or prompts to disk', async () => {
+      const cache = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: 1024 * 1024 });
+      const provider = new CachingProvider(providerReturning({ content: 'ok' }), cache, scope);
+
+      await provider.generate([{ role: 'user', content: 'api key sk-ant-secret' }]);
+
+      const [file] = readdirSync(dir);
+      const written = readFileSync(join(dir, file), 'utf-8');
+      expect(file).toMatch(/^[0-9a-f]{64}\.json$/);
+      expect(written).not.toContain('sk-ant-secret');
+      expect(JSON.parse(written)).toMatchObject({ provider: 'anthropic', model: 'claude-sonnet-4-20250514' });
+    });
+  });
+
+  describe('ResponseCache', () => {
+    it('should treat entries older than the TTL as misses', async () => {
+      let now = Date.now();
+      const cache = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: 1024 * 1024, now: () => now });
+
+      await cache.set('abc', scope, { content: 'old' });
+      expect(await cache.get('abc')).toEqual({ content: 'old' });
+
+      now += 2 * HOUR;
+      expect(await cache.get('abc')).toBeNull();
+      expect(readdirSync(dir)).toEqual([]);
+    });
+
+    it('should evict the oldest entries beyond the size limit', async () => {
+      const entrySize = () => statSync(join(dir, 'a.json')).size;
+      const cache = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: 1024 * 1024 });
+      await cache.set('a', scope, { content: 'x'.repeat(100) });
+
+      const small = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: entrySize() * 2 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await small.set('b', scope, { content: 'x'.repeat(100) });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await small.set('c', scope, { content: 'x'.repeat(100) });
+
+      expect(readdirSync(dir).sort()).toEqual(['b.json', 'c.json']);
+    });
+
+    it('should count a corrupt entry as a miss', async () => {
+      const cache = new ResponseCache({ dir, ttlMs: HOUR, maxSizeBytes: 1024 * 1024 });
+      await cache.set('abc', scope, { content: 'ok' });
+      writeFileSync(join(dir, 'abc.json'), '{"version":1,"crea');
+
+      expect(await cache.get('abc')).toBeNull();
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1 });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Content-addressed cache of LLM responses under `.kakarot/cache`, so re-running on the
+ * same code does not pay again for identical requests
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { LLMGenerateOptions, LLMMessage, LLMProvider, LLMResponse } from '../types/llm.js';
+import { findProjectRoot } from '../utils/config-loader.js';
+import { debug } from '../utils/logger.js';
+
+/** Bump when the entry format or key derivation changes, so old entries are ignored */
+const CACHE_FORMAT_VERSION = 1;
+
+export const CACHE_DIRECTORY = join('.kakarot', 'cache');
+
+export interface ResponseCacheOptions {
+  /** Entries older than this are treated as misses and deleted */
+  ttlMs: number;
+  /** Oldest entries are evicted once the cache grows past this */
+  maxSizeBytes: number;
+  /** Defaults to `.kakarot/cache` in the project root */
+  dir?: string;
+  now?: () => number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Responses written to the cache */
+  stored: number;
+  /** Responses not cached because they were truncated */
+  skipped: number;
+}
+
+/**
+ * What a cached response was generated by. Everything here is hashed into the key;
+ * credentials (API keys, auth headers) must never be part of it.
+ */
+export interface CacheScope {
+  provider: string;
+  model: string;
+  /** Other settings that change responses, e.g. endpoint, deployment or default max tokens */
+  settings?: Record<string, string | number | undefined>;
+}
+
+interface CacheEntry {
+  version: number;
+  createdAt: number;
+  provider: string;
+  model: string;
+  response: LLMResponse;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * The options that change a response; callbacks and abort signals are left out
+ */
+export function responseOptions(
+  options?: LLMGenerateOptions
+): Pick<LLMGenerateOptions, 'temperature' | 'maxTokens' | 'stopSequences' | 'responseSchema'> {
+  return {
+    temperature: options?.temperature,
+    maxTokens: options?.maxTokens,
+    stopSequences: options?.stopSequences,
+    responseSchema: options?.responseSchema,
+  };
+}
+
+/**
+ * Hash of a request's messages and response-changing options, independent of provider and model
+ */
+export function requestHash(messages: LLMMessage[], options?: LLMGenerateOptions): string {
+  return sha256(JSON.stringify({
+    options: responseOptions(options),
+    messages: sha256(JSON.stringify(messages)),
+  }));
+}
+
+/**
+ * Derive the cache key for a request: the request hash scoped to the provider, model and settings
+ */
+export function cacheKey(scope: CacheScope, messages: LLMMessage[], options?: LLMGenerateOptions): string {
+  return sha256(JSON.stringify({
+    version: CACHE_FORMAT_VERSION,
+    provider: scope.provider,
+    model: scope.model,
+    settings: scope.settings ?? {},
+    request: requestHash(messages, options),
+  }));
+}
+
+export class ResponseCache {
+  private options: ResponseCacheOptions;
+  private dir: Promise<string> | null = null;
+  private stats: CacheStats = { hits: 0, misses: 0, stored: 0, skipped: 0 };
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Look up a response; a missing, unreadable or expired entry is a miss
+   */
+  async get(key: string): Promise<LLMResponse | null> {
+    const path = join(await this.getDir(), `${key}.json`);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(path, 'utf-8')) as CacheEntry;
+    } catch {
+      this.stats.misses++;
+      return null;
+    }
+
+    if (entry.version !== CACHE_FORMAT_VERSION || this.isExpired(entry.createdAt)) {
+      await unlink(path).catch(() => undefined);
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.hits++;
+    return entry.response;
+  }
+
+  /**
+   * Store a response, then evict expired and oldest entries past the size limit.
+   * Truncated responses are never stored. Write failures are logged, not thrown.
+   */
+  async set(key: string, scope: CacheScope, response: LLMResponse): Promise<void> {
+    if (response.truncated) {
+      this.stats.skipped++;
+      return;
+    }
+
+    const entry: CacheEntry = {
+      version: CACHE_FORMAT_VERSION,
+      createdAt: this.now(),
+      provider: scope.provider,
+      model: scope.model,
+      response: { ...response, cached: undefined },
+    };
+
+    try {
+      const dir = await this.getDir();
+      await mkdir(dir, { recursive: true });
+      // Write then rename, so a concurrent reader never sees a partial entry
+      const tempPath = join(dir, `${key}.${process.pid}.tmp`);
+      await writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+      await rename(tempPath, join(dir, `${key}.json`));
+      this.stats.stored++;
+      await this.prune(dir);
+    } catch (err) {
+      debug(`Failed to write LLM cache entry: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private async prune(dir: string): Promise<void> {
+    const entries: Array<{ path: string; size: number; mtimeMs: number }> = [];
+    for (const name of await readdir(dir)) {
+      if (!name.endsWith('.json')) {
+        continue;
+      }
+      const path = join(dir, name);
+      const info = await stat(path).catch(() => null);
+      if (!info) {
+        continue;
+      }
+      if (this.isExpired(info.mtimeMs)) {
+        await unlink(path).catch(() => undefined);
+        continue;
+      }
+      entries.push({ path, size: info.size, mtimeMs: info.mtimeMs });
+    }
+
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of entries) {
+      if (totalSize <= this.options.maxSizeBytes) {
+        break;
+      }
+      await unlink(entry.path).catch(() => undefined);
+      totalSize -= entry.size;
+    }
+  }
+
+  private isExpired(createdAt: number): boolean {
+    return this.now() - createdAt > this.options.ttlMs;
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+
+  private getDir(): Promise<string> {
+    if (!this.dir) {
+      this.dir = this.options.dir
+        ? Promise.resolve(this.options.dir)
+        : findProjectRoot().then(root => join(root, CACHE_DIRECTORY));
+    }
+    return this.dir;
+  }
+}
+
+/**
+ * Wraps a provider so identical requests are answered from the cache
+ */
+export class CachingProvider implements LLMProvider {
+  constructor(
+    private provider: LLMProvider,
+    private cache: ResponseCache,
+    private scope: CacheScope
+  ) {}
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const key = cacheKey(this.scope, messages, options);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      debug(`LLM cache hit (${key.slice(0, 12)})`);
+      options?.onToken?.(cached.content);
+      return { ...cached, cached: true };
+    }
+
+    const response = await this.provider.generate(messages, options);
+    await this.cache.set(key, this.scope, response);
+    return response;
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CassetteRecorder, RecordingProvider, ReplayProvider, readCassette } from './cassette.js';
+import { CassetteMismatchError, ConfigError, QuotaError, RateLimitError } from '../types/errors.js';
+import type { LLMMessage, LLMProvider } from '../types/llm.js';
+
+vi.mock('../utils/logger.js', () => ({
+  debug: vi.fn(),
+}));
+
+const ask = (content: string): LLMMessage[] => [
+  { role: 'system', content: 'You write tests.' },
+  { role: 'user', content },
+];
+
+describe('cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kakarot-cassette-'));
+    path = join(dir, 'runs', 'pr-42.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Record two calls and a failure to `path` */
+  async function recordRun(): Promise<void> {
+    const inner = {
+      generate: vi.fn()
+        .mockResolvedValueOnce({ content: 'test for add', finishReason: 'stop' })
+        .mockResolvedValueOnce({ content: 'test for sub', finishReason: 'stop' })
+        .mockRejectedValueOnce(new Error('Anthropic API error: 529 Overloaded')),
+    } satisfies LLMProvider;
+    const provider = new RecordingProvider(inner, new CassetteRecorder(path, new Date('2025-01-01T00:00:00Z')), 'claude-sonnet-4-20250514');
+
+    await provider.generate(ask('Test add.'), { temperature: 0.2, maxTokens: 4000, onToken: vi.fn() });
+    await provider.generate(ask('Test sub.'), { temperature: 0.2, maxTokens: 4000 });
+    await expect(provider.generate(ask('Fix sub.'))).rejects.toThrow('529 Overloaded');
+  }
+
+  it('should record requests, responses and errors to the cassette file', async () => {
+    await recordRun();
+
+    const cassette = readCassette(path);
+    expect(cassette.recordedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(cassette.interactions).toHaveLength(3);
+    expect(cassette.interactions[0]).toMatchObject({
+      model: 'claude-sonnet-4-20250514',
+      request: { messages: ask('Test add.'), options: { temperature: 0.2, maxTokens: 4000 } },
+      response: { content: 'test for add' },
+    });
+    expect(cassette.interactions[2].error).toEqual({ name: 'Error', message: 'Anthropic API error: 529 Overloaded' });
+  });
+
+  it('should replay responses and errors in recorded order', async () => {
+    await recordRun();
+    const replay = ReplayProvider.fromFile(path);
+    const onToken = vi.fn();
+
+    await expect(replay.generate(ask('Test add.'), { temperature: 0.2, maxTokens: 4000, onToken }))
+      .resolves.toMatchObject({ content: 'test for add' });
+    await expect(replay.generate(ask('Test sub.'), { temperature: 0.2, maxTokens: 4000 }))
+      .resolves.toMatchObject({ content: 'test for sub' });
+    await expect(replay.generate(ask('Fix sub.'))).rejects.toThrow('529 Overloaded');
+    expect(onToken).toHaveBeenCalledWith('test for add');
+  });
+
+  it('should replay recorded errors as the class they were recorded from', async () => {
+    const inner = {
+      generate: vi.fn()
+        .mockRejectedValueOnce(new QuotaError('OpenAI API error: 429 - quota exceeded'))
+        .mockRejectedValueOnce(new RateLimitError('OpenAI API error: 429 - rate limited', { retryAfter: 20, refillRate: 500 })),
+    } satisfies LLMProvider;
+    const recording = new RecordingProvider(inner, new CassetteRecorder(path), 'gpt-5');
+    await expect(recording.generate(ask('Test add.'))).rejects.toThrow(QuotaError);
+    await expect(recording.generate(ask('Test sub.'))).rejects.toThrow(RateLimitError);
+
+    const replay = ReplayProvider.fromFile(path);
+
+    await expect(replay.generate(ask('Test add.'))).rejects.toBeInstanceOf(QuotaError);
+    const err = await replay.generate(ask('Test sub.')).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err).toMatchObject({ message: 'OpenAI API error: 429 - rate limited', retryAfter: 20, availableTokens: null, refillRate: 500 });
+  });
+
+  it('should fail loudly when a request differs from the recording', async () => {
+    await recordRun();
+    const replay = ReplayProvider.fromFile(path);
+
+    const err = await replay.generate(ask('Test add!'), { temperature: 0.2, maxTokens: 4000 }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(CassetteMismatchError);
+    expect((err as Error).message).toContain(`Request 1 does not match ${path}: user message 2 differs at character 9`);
+    expect((err as Error).message).toContain('recorded "Test add."');
+  });
+
+  it('should match by hash in any order, failing once no unused interaction matches', async () => {
+    await recordRun();
+    const replay = ReplayProvider.fromFile(path, 'hash');
+
+    await replay.generate(ask('Test sub.'), { temperature: 0.2, maxTokens: 4000 });
+    await replay.generate(ask('Test add.'), { temperature: 0.2, maxTokens: 4000 });
+
+    await expect(replay.generate(ask('Test add.'), { temperature: 0.2, maxTokens: 4000 }))
+      .rejects.toThrow(/No recorded response .* matches this request \(1 unused interaction\(s\) left\)/);
+  });
+
+  it('should reject a file that is not a cassette', () => {
+    writeFileSync(join(dir, 'other.json'), JSON.stringify({ name: 'package' }));
+
+    expect(() => readCassette(join(dir, 'other.json'))).toThrow(ConfigError);
+    expect(() => readCassette(join(dir, 'missing.json'))).toThrow('Cannot read cassette');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Record/replay of LLM calls: a recorded run's requests and responses are saved to a cassette
+ * file, and replaying it answers the same requests offline and deterministically
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { CassetteMatching } from '../types/config.js';
+import type { LLMGenerateOptions, LLMMessage, LLMProvider, LLMResponse } from '../types/llm.js';
+import { CassetteMismatchError, ConfigError, KakarotError, NonRetryableError, QuotaError, RateLimitError } from '../types/errors.js';
+import { requestHash, responseOptions } from './cache.js';
+import { debug } from '../utils/logger.js';
+
+const CASSETTE_FORMAT_VERSION = 1;
+
+export interface CassetteInteraction {
+  /** Hash of the messages and options, used to match requests on replay */
+  hash: string;
+  model: string;
+  request: {
+    messages: LLMMessage[];
+    options: ReturnType<typeof responseOptions>;
+  };
+  /** Exactly one of response and error is set */
+  response?: LLMResponse;
+  error?: RecordedError;
+}
+
+/** A provider error as recorded; rate limit details are kept so replay throws the same RateLimitError */
+export interface RecordedError {
+  name: string;
+  message: string;
+  retryAfter?: number | null;
+  availableTokens?: number | null;
+  requestTokens?: number | null;
+  refillRate?: number | null;
+}
+
+/** Error classes a replayed error is rebuilt as, by recorded name, so instanceof checks behave as in the recorded run */
+const REPLAYED_ERRORS: Record<string, new (message: string) => Error> = {
+  QuotaError,
+  NonRetryableError,
+  ConfigError,
+  KakarotError,
+};
+
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Read and validate a cassette file
+ */
+export function readCassette(path: string): Cassette {
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(readFileSync(path, 'utf-8')) as Cassette;
+  } catch (err) {
+    throw new ConfigError(`Cannot read cassette ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (cassette.version !== CASSETTE_FORMAT_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new ConfigError(`Cassette ${path} is not a version ${CASSETTE_FORMAT_VERSION} cassette`);
+  }
+  return cassette;
+}
+
+/**
+ * Collects every interaction of a run into one cassette file, rewritten after each call so a
+ * run that crashes still leaves a cassette of everything up to the crash
+ */
+export class CassetteRecorder {
+  private cassette: Cassette;
+
+  constructor(private path: string, now = new Date()) {
+    this.cassette = { version: CASSETTE_FORMAT_VERSION, recordedAt: now.toISOString(), interactions: [] };
+  }
+
+  record(interaction: CassetteInteraction): void {
+    this.cassette.interactions.push(interaction);
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.cassette, null, 2) + '\n', 'utf-8');
+  }
+}
+
+/**
+ * Wraps a provider, recording each request with its response or error
+ */
+export class RecordingProvider implements LLMProvider {
+  constructor(
+    private provider: LLMProvider,
+    private recorder: CassetteRecorder,
+    private model: string
+  ) {}
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const interaction = {
+      hash: requestHash(messages, options),
+      model: this.model,
+      request: { messages, options: responseOptions(options) },
+    };
+
+    try {
+      const response = await this.provider.generate(messages, options);
+      this.recorder.record({ ...interaction, response });
+      return response;
+    } catch (err) {
+      this.recorder.record({ ...interaction, error: recordError(err) });
+      throw err;
+    }
+  }
+}
+
+/**
+ * Serves recorded responses without calling any LLM. Requests are matched to interactions in
+ * recorded order or by request hash; any request the cassette cannot answer throws CassetteMismatchError.
+ */
+export class ReplayProvider implements LLMProvider {
+  private used: boolean[];
+  private next = 0;
+
+  constructor(
+    private cassette: Cassette,
+    private matching: CassetteMatching = 'order',
+    private source = 'cassette'
+  ) {
+    this.used = cassette.interactions.map(() => false);
+  }
+
+  static fromFile(path: string, matching?: CassetteMatching): ReplayProvider {
+    return new ReplayProvider(readCassette(path), matching, path);
+  }
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const hash = requestHash(messages, options);
+    const index = this.matching === 'order' ? this.matchInOrder(hash, messages) : this.matchByHash(hash);
+    this.used[index] = true;
+
+    const interaction = this.cassette.interactions[index];
+    debug(`Replaying interaction ${index + 1} of ${this.cassette.interactions.length} from ${this.source}`);
+    if (interaction.error) {
+      throw replayError(interaction.error);
+    }
+    const response = interaction.response as LLMResponse;
+    options?.onToken?.(response.content);
+    return response;
+  }
+
+  private matchInOrder(hash: string, messages: LLMMessage[]): number {
+    const index = this.next;
+    const interaction = this.cassette.interactions[index];
+    if (!interaction) {
+      throw new CassetteMismatchError(
+        `Request ${index + 1} has no recorded response: ${this.source} holds only ${this.cassette.interactions.length}`
+      );
+    }
+    if (interaction.hash !== hash) {
+      throw new CassetteMismatchError(
+        `Request ${index + 1} does not match ${this.source}: ${describeDifference(interaction.request.messages, messages)}`
+      );
+    }
+    this.next++;
+    return index;
+  }
+
+  private matchByHash(hash: string): number {
+    const index = this.cassette.interactions.findIndex((interaction, i) => !this.used[i] && interaction.hash === hash);
+    if (index === -1) {
+      const unused = this.used.filter(used => !used).length;
+      throw new CassetteMismatchError(
+        `No recorded response in ${this.source} matches this request (${unused} unused interaction(s) left)`
+      );
+    }
+    return index;
+  }
+}
+
+function recordError(err: unknown): RecordedError {
+  const error = err instanceof Error ? err : new Error(String(err));
+  if (error instanceof RateLimitError) {
+    const { retryAfter, availableTokens, requestTokens, refillRate } = error;
+    return { name: error.name, message: error.message, retryAfter, availableTokens, requestTokens, refillRate };
+  }
+  return { name: error.name, message: error.message };
+}
+
+function replayError(recorded: RecordedError): Error {
+  if (recorded.name === 'RateLimitError') {
+    return new RateLimitError(recorded.message, recorded);
+  }
+  const ErrorClass = REPLAYED_ERRORS[recorded.name];
+  if (ErrorClass) {
+    return new ErrorClass(recorded.message);
+  }
+  const err = new Error(recorded.message);
+  err.name = recorded.name;
+  return err;
+}
+
+/**
+ * Point at the first message that differs, so a mismatch says which prompt changed
+ */
+function describeDifference(recorded: LLMMessage[], actual: LLMMessage[]): string {
+  const count = Math.max(recorded.length, actual.length);
+  for (let i = 0; i < count; i++) {
+    const expected = recorded[i];
+    const got = actual[i];
+    if (!expected || !got) {
+      return `recorded ${recorded.length} message(s), got ${actual.length}`;
+    }
+    if (expected.role !== got.role || expected.content !== got.content) {
+      let at = 0;
+      while (at < expected.content.length && expected.content[at] === got.content[at]) {
+        at++;
+      }
+      return `${got.role} message ${i + 1} differs at character ${at + 1}: ` +
+        `recorded ${JSON.stringify(excerpt(expected.content, at))}, got ${JSON.stringify(excerpt(got.content, at))}`;
+    }
+  }
+  return 'the request options differ';
+}
+
+function excerpt(text: string, at: number): string {
+  return text.slice(Math.max(0, at - 20), at + 40);
+}
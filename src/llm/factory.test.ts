@@ -1,12 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createLLMProvider } from './factory.js';
 import { OpenAIProvider } from './providers/openai.js';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.js';
+import { AzureOpenAIProvider } from './providers/azure-openai.js';
+import { BedrockProvider } from './providers/bedrock.js';
 import { AnthropicProvider } from './providers/anthropic.js';
 import { GoogleProvider } from './providers/google.js';
+import { CachingProvider, type ResponseCache } from './cache.js';
 
 vi.mock('./providers/openai.js');
+vi.mock('./providers/openai-compatible.js');
+vi.mock('./providers/azure-openai.js');
+vi.mock('./providers/bedrock.js');
+vi.mock('../utils/aws-credentials.js', () => ({
+  resolveAwsRegion: (explicit?: string) => explicit,
+}));
 vi.mock('./providers/anthropic.js');
 vi.mock('./providers/google.js');
+vi.mock('./cache.js');
 vi.mock('../utils/logger.js', () => ({
   error: vi.fn(),
 }));
@@ -24,7 +35,7 @@ describe('LLM factory', () => {
       apiKey: 'test-key',
     });
 
-    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-4o', undefined);
+    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-5', undefined, { baseUrl: undefined, headers: undefined });
     expect(provider).toBe(mockProvider);
   });
 
@@ -37,7 +48,7 @@ describe('LLM factory', () => {
       provider: 'openai',
     });
 
-    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-4o', undefined);
+    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-5', undefined, { baseUrl: undefined, headers: undefined });
     expect(provider).toBe(mockProvider);
   });
 
@@ -50,7 +61,7 @@ describe('LLM factory', () => {
       provider: 'anthropic',
     });
 
-    expect(AnthropicProvider).toHaveBeenCalledWith('test-key', 'claude-sonnet-4-20250514', undefined);
+    expect(AnthropicProvider).toHaveBeenCalledWith('test-key', 'claude-opus-4-6', undefined);
     expect(provider).toBe(mockProvider);
   });
 
@@ -63,7 +74,7 @@ describe('LLM factory', () => {
       provider: 'google',
     });
 
-    expect(GoogleProvider).toHaveBeenCalledWith('test-key', 'gemini-2.5-pro', undefined);
+    expect(GoogleProvider).toHaveBeenCalledWith('test-key', 'gemini-3.1-pro-preview', undefined);
     expect(provider).toBe(mockProvider);
   });
 
@@ -77,7 +88,7 @@ describe('LLM factory', () => {
       model: 'gpt-4',
     });
 
-    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-4', undefined);
+    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-4', undefined, { baseUrl: undefined, headers: undefined });
   });
 
   it('should pass maxTokens when provided', () => {
@@ -90,7 +101,123 @@ describe('LLM factory', () => {
       maxTokens: 2000,
     });
 
-    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-4o', { maxTokens: 2000 });
+    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'gpt-5', { maxTokens: 2000 }, { baseUrl: undefined, headers: undefined });
+  });
+
+  it('should pass the models config to the provider for its registry lookup', () => {
+    const models = { 'my-finetune': { contextWindow: 32000, maxOutputTokens: 4096 } };
+
+    createLLMProvider({ apiKey: 'test-key', provider: 'openai', model: 'my-finetune', models });
+
+    expect(OpenAIProvider).toHaveBeenCalledWith('test-key', 'my-finetune', { models }, { baseUrl: undefined, headers: undefined });
+  });
+
+  it('should pass baseUrl and headers to an openai-compatible provider', () => {
+    createLLMProvider({
+      apiKey: '',
+      provider: 'openai-compatible',
+      model: 'qwen2.5-coder:32b',
+      baseUrl: 'http://localhost:11434/v1',
+      headers: { 'X-Team': 'security' },
+    });
+
+    expect(OpenAICompatibleProvider).toHaveBeenCalledWith('', 'qwen2.5-coder:32b', undefined, {
+      baseUrl: 'http://localhost:11434/v1',
+      headers: { 'X-Team': 'security' },
+    });
+  });
+
+  it('should require baseUrl and model for openai-compatible', () => {
+    expect(() => createLLMProvider({ apiKey: '', provider: 'openai-compatible', model: 'llama3' }))
+      .toThrow('requires baseUrl');
+    expect(() => createLLMProvider({ apiKey: '', provider: 'openai-compatible', baseUrl: 'http://localhost:8000/v1' }))
+      .toThrow('requires model');
+  });
+
+  it('should create an Azure OpenAI provider for the configured deployment', () => {
+    createLLMProvider({
+      apiKey: 'azure-key',
+      provider: 'azure-openai',
+      azureEndpoint: 'https://contoso.openai.azure.com',
+      azureDeployment: 'gpt-4o-prod',
+      azureApiVersion: '2025-01-01-preview',
+      headers: { 'X-Team': 'security' },
+    });
+
+    // No model configured: the deployment name stands in for it
+    expect(AzureOpenAIProvider).toHaveBeenCalledWith('azure-key', 'gpt-4o-prod', undefined, {
+      endpoint: 'https://contoso.openai.azure.com',
+      deployment: 'gpt-4o-prod',
+      apiVersion: '2025-01-01-preview',
+      headers: { 'X-Team': 'security' },
+    });
+  });
+
+  it('should require azureEndpoint and azureDeployment for azure-openai', () => {
+    expect(() => createLLMProvider({ apiKey: 'k', provider: 'azure-openai', azureDeployment: 'gpt-4o' }))
+      .toThrow('requires azureEndpoint');
+    expect(() => createLLMProvider({ apiKey: 'k', provider: 'azure-openai', azureEndpoint: 'https://contoso.openai.azure.com' }))
+      .toThrow('requires azureDeployment');
+  });
+
+  it('should create a Bedrock provider for the configured region', () => {
+    createLLMProvider({
+      apiKey: '',
+      provider: 'bedrock',
+      model: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+      awsRegion: 'us-west-2',
+      maxTokens: 4096,
+    });
+
+    expect(BedrockProvider).toHaveBeenCalledWith('us.anthropic.claude-sonnet-4-20250514-v1:0', { maxTokens: 4096 }, {
+      region: 'us-west-2',
+      endpoint: undefined,
+      headers: undefined,
+    });
+  });
+
+  it('should require a model and region for bedrock', () => {
+    expect(() => createLLMProvider({ apiKey: '', provider: 'bedrock', awsRegion: 'us-west-2' }))
+      .toThrow('requires model');
+    expect(() => createLLMProvider({ apiKey: '', provider: 'bedrock', model: 'anthropic.claude-v2' }))
+      .toThrow('requires a region');
+  });
+
+  it('should wrap the provider in the cache, scoped without credentials', () => {
+    const mockProvider = {} as never;
+    const cache = {} as ResponseCache;
+    vi.mocked(AnthropicProvider).mockImplementation(() => mockProvider);
+
+    const provider = createLLMProvider(
+      { apiKey: 'sk-ant-secret', provider: 'anthropic', maxTokens: 4000, headers: { Authorization: 'Bearer secret' } },
+      cache
+    );
+
+    expect(provider).toBeInstanceOf(CachingProvider);
+    expect(CachingProvider).toHaveBeenCalledWith(mockProvider, cache, {
+      provider: 'anthropic',
+      model: 'claude-opus-4-6',
+      settings: {
+        baseUrl: undefined,
+        azureEndpoint: undefined,
+        azureDeployment: undefined,
+        azureApiVersion: undefined,
+        awsRegion: undefined,
+        maxTokens: 4000,
+      },
+    });
+    expect(JSON.stringify(vi.mocked(CachingProvider).mock.calls[0][2])).not.toContain('secret');
+  });
+
+  it('should scope Azure OpenAI cache entries by API version', () => {
+    const cache = {} as ResponseCache;
+    const azure = { apiKey: 'azure-key', provider: 'azure-openai' as const, azureEndpoint: 'https://contoso.openai.azure.com', azureDeployment: 'gpt-4o-prod' };
+
+    createLLMProvider(azure, cache);
+    createLLMProvider({ ...azure, azureApiVersion: '2025-01-01-preview' }, cache);
+
+    const versions = vi.mocked(CachingProvider).mock.calls.map(([, , scope]) => scope.settings?.azureApiVersion);
+    expect(versions).toEqual(['2024-10-21', '2025-01-01-preview']);
   });
 
   it('should throw error for unknown provider', () => {
@@ -2,26 +2,93 @@
  * LLM provider factory
  */
 
-import type { KakarotConfig } from '../types/config.js';
+import type { KakarotConfig, LLMProvider as LLMProviderId } from '../types/config.js';
 import type { LLMProvider } from '../types/llm.js';
+import { ConfigError } from '../types/errors.js';
 import { OpenAIProvider } from './providers/openai.js';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.js';
+import { AzureOpenAIProvider, AZURE_OPENAI_API_VERSION } from './providers/azure-openai.js';
+import { BedrockProvider } from './providers/bedrock.js';
 import { AnthropicProvider } from './providers/anthropic.js';
 import { GoogleProvider } from './providers/google.js';
+import { CachingProvider, type ResponseCache } from './cache.js';
+import { DEFAULT_MODELS } from './models.js';
+import { resolveAwsRegion } from '../utils/aws-credentials.js';
 import { error } from '../utils/logger.js';
 
+type ProviderConfig = Pick<
+  KakarotConfig,
+  | 'apiKey' | 'provider' | 'model' | 'maxTokens' | 'baseUrl' | 'headers'
+  | 'azureEndpoint' | 'azureDeployment' | 'azureApiVersion' | 'awsRegion'
+> & Partial<Pick<KakarotConfig, 'models'>>;
+
 /**
- * Create an LLM provider based on configuration
+ * Create an LLM provider based on configuration, answering repeated requests from `cache` when given
  */
-export function createLLMProvider(
-  config: Pick<KakarotConfig, 'apiKey' | 'provider' | 'model' | 'maxTokens'>
-): LLMProvider {
+export function createLLMProvider(config: ProviderConfig, cache?: ResponseCache): LLMProvider {
+  const llm = createProvider(config);
+  if (!cache) {
+    return llm;
+  }
+
+  const provider = config.provider ?? 'openai';
+  // Credentials (apiKey, headers) are deliberately left out of the cache scope
+  return new CachingProvider(llm, cache, {
+    provider,
+    model: config.model ?? getDefaultModel(provider),
+    settings: {
+      baseUrl: config.baseUrl,
+      azureEndpoint: config.azureEndpoint,
+      azureDeployment: config.azureDeployment,
+      // The API version can change response formats; the default is pinned so a new default misses too
+      azureApiVersion: provider === 'azure-openai' ? config.azureApiVersion ?? AZURE_OPENAI_API_VERSION : undefined,
+      awsRegion: config.awsRegion,
+      maxTokens: config.maxTokens,
+    },
+  });
+}
+
+function createProvider(config: ProviderConfig): LLMProvider {
   const provider = config.provider ?? 'openai';
   const model = config.model ?? getDefaultModel(provider);
-  const defaultOptions = config.maxTokens ? { maxTokens: config.maxTokens } : undefined;
+  const defaultOptions = config.maxTokens || config.models ? { maxTokens: config.maxTokens, models: config.models } : undefined;
+  const connection = { baseUrl: config.baseUrl, headers: config.headers };
 
   switch (provider) {
     case 'openai':
-      return new OpenAIProvider(config.apiKey, model, defaultOptions);
+      return new OpenAIProvider(config.apiKey, model, defaultOptions, connection);
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new ConfigError('provider "openai-compatible" requires baseUrl (e.g. http://localhost:11434/v1)');
+      }
+      if (!config.model) {
+        throw new ConfigError('provider "openai-compatible" requires model (the name your server serves)');
+      }
+      return new OpenAICompatibleProvider(config.apiKey, model, defaultOptions, connection);
+    case 'azure-openai':
+      if (!config.azureEndpoint) {
+        throw new ConfigError('provider "azure-openai" requires azureEndpoint (e.g. https://my-resource.openai.azure.com)');
+      }
+      if (!config.azureDeployment) {
+        throw new ConfigError('provider "azure-openai" requires azureDeployment (the deployment name in your Azure resource)');
+      }
+      // Without a model, assume the deployment is named after the model it serves
+      return new AzureOpenAIProvider(config.apiKey, config.model ?? config.azureDeployment, defaultOptions, {
+        endpoint: config.azureEndpoint,
+        deployment: config.azureDeployment,
+        apiVersion: config.azureApiVersion,
+        headers: config.headers,
+      });
+    case 'bedrock': {
+      if (!config.model) {
+        throw new ConfigError('provider "bedrock" requires model (a Bedrock model ID, e.g. us.anthropic.claude-sonnet-4-20250514-v1:0)');
+      }
+      const region = resolveAwsRegion(config.awsRegion);
+      if (!region) {
+        throw new ConfigError('provider "bedrock" requires a region: set awsRegion, AWS_REGION or AWS_DEFAULT_REGION');
+      }
+      return new BedrockProvider(model, defaultOptions, { region, endpoint: config.baseUrl, headers: config.headers });
+    }
     case 'anthropic':
       return new AnthropicProvider(config.apiKey, model, defaultOptions);
     case 'google':
@@ -33,18 +100,8 @@ export function createLLMProvider(
 }
 
 /**
- * Get default model for a provider
+ * Default model for a provider; the others have no default and require model to be set
  */
-function getDefaultModel(provider: 'openai' | 'anthropic' | 'google'): string {
-  switch (provider) {
-    case 'openai':
-      return 'gpt-4o';
-    case 'anthropic':
-      return 'claude-sonnet-4-20250514';
-    case 'google':
-      return 'gemini-2.5-pro';
-    default:
-      return 'gpt-4o';
-  }
+function getDefaultModel(provider: LLMProviderId): string {
+  return DEFAULT_MODELS[provider] ?? DEFAULT_MODELS.openai;
 }
-
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildGenerationRequest, buildScaffoldRequest } from './generation-request.js';
+import { buildTestScaffoldPrompt } from './prompts/test-scaffold.js';
+
+vi.mock('./prompts/test-generation.js', () => ({
+  buildTestGenerationPrompt: vi.fn(() => [
+    { role: 'system', content: 'system' },
+    { role: 'user', content: 'user' },
+  ]),
+}));
+vi.mock('./prompts/test-scaffold.js', () => ({
+  buildTestScaffoldPrompt: vi.fn().mockResolvedValue([
+    { role: 'system', content: 'system' },
+    { role: 'user', content: 'user' },
+  ]),
+}));
+
+describe('generation-request', () => {
+  const target = {
+    filePath: 'src/utils.ts',
+    functionName: 'add',
+    functionType: 'function' as const,
+    code: 'export function add() {}',
+    context: '',
+  };
+
+  it('should estimate output tokens from the size of the target', () => {
+    const request = buildGenerationRequest({}, { target, framework: 'jest' });
+
+    expect(request.messages).toHaveLength(2);
+    expect(request.estimatedOutputTokens).toBe(4000);
+    expect(request.maxTokens).toBe(4000);
+  });
+
+  it('should cap estimated output tokens at configured maxTokens', () => {
+    const request = buildGenerationRequest({ maxTokens: 1000 }, { target, framework: 'jest' });
+
+    expect(request.maxTokens).toBe(1000);
+    expect(request.estimatedOutputTokens).toBe(1000);
+  });
+
+  it('should build scaffold requests with the custom scaffold prompts', async () => {
+    const request = await buildScaffoldRequest(
+      { customPrompts: { testScaffold: 'Use the AAA layout' } },
+      target,
+      undefined,
+      'vitest',
+      'src/utils.test.ts',
+      './utils'
+    );
+
+    expect(request).toMatchObject({ maxTokens: 2000, estimatedOutputTokens: 2000 });
+    expect(buildTestScaffoldPrompt).toHaveBeenCalledWith(
+      target,
+      'vitest',
+      undefined,
+      { customSystemPrompt: 'Use the AAA layout', customUserPrompt: 'Use the AAA layout' },
+      'src/utils.test.ts',
+      './utils'
+    );
+  });
+});
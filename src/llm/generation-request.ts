@@ -0,0 +1,62 @@
+/**
+ * The requests TestGenerator sends for generation and scaffolding, built without any provider
+ * so dry runs and backfill ranking can size them offline
+ */
+
+import type { KakarotConfig } from '../types/config.js';
+import type { LLMMessage, TestGenerationContext } from '../types/llm.js';
+import { buildTestGenerationPrompt } from './prompts/test-generation.js';
+import { buildTestScaffoldPrompt } from './prompts/test-scaffold.js';
+
+/** Output token cap for scaffold generation (scaffolds are small by design) */
+export const SCAFFOLD_MAX_TOKENS = 2000;
+
+export interface GenerationRequest {
+  messages: LLMMessage[];
+  maxTokens: number;
+  estimatedOutputTokens: number;
+}
+
+/**
+ * Build the request generateTest() sends.
+ * estimatedOutputTokens is the expected completion size; maxTokens is the cap sent to the provider.
+ */
+export function buildGenerationRequest(
+  config: Pick<KakarotConfig, 'maxTokens'>,
+  context: TestGenerationContext
+): GenerationRequest {
+  const messages = buildTestGenerationPrompt(context);
+
+  // Use config maxTokens if set, otherwise estimate based on function complexity
+  const codeLength = context.target.code?.length ?? 0;
+  const estimatedOutputTokens = Math.floor(Math.max(4000, Math.min(16000, codeLength / 2)));
+  const maxTokens = config.maxTokens ?? estimatedOutputTokens;
+
+  return { messages, maxTokens, estimatedOutputTokens: Math.min(estimatedOutputTokens, maxTokens) };
+}
+
+/**
+ * Build the request generateTestScaffold() sends
+ */
+export async function buildScaffoldRequest(
+  config: Pick<KakarotConfig, 'customPrompts'>,
+  target: TestGenerationContext['target'],
+  existingTestFile?: string,
+  framework: 'jest' | 'vitest' = 'jest',
+  testFilePath?: string,
+  importPath?: string
+): Promise<GenerationRequest> {
+  const messages = await buildTestScaffoldPrompt(
+    target,
+    framework,
+    existingTestFile,
+    {
+      customSystemPrompt: config.customPrompts?.testScaffoldSystem || config.customPrompts?.testScaffold,
+      customUserPrompt: config.customPrompts?.testScaffoldUser || config.customPrompts?.testScaffold,
+    },
+    testFilePath,
+    importPath
+  );
+
+  return { messages, maxTokens: SCAFFOLD_MAX_TOKENS, estimatedOutputTokens: SCAFFOLD_MAX_TOKENS };
+}
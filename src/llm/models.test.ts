@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getModelInfo, configuredPrices, UNKNOWN_MODEL, DEFAULT_MODELS } from './models.js';
+
+describe('models', () => {
+  it('should resolve dated and Bedrock model IDs to their family entry', () => {
+    expect(getModelInfo('gpt-4o-mini-2024-07-18')).toMatchObject({ contextWindow: 128000, maxOutputTokens: 16384, tokenParam: 'max_tokens' });
+    expect(getModelInfo('claude-sonnet-4-20250514')).toMatchObject({ contextWindow: 200000, maxOutputTokens: 64000 });
+    expect(getModelInfo('us.anthropic.claude-sonnet-4-20250514-v1:0')).toEqual(getModelInfo('claude-sonnet-4'));
+  });
+
+  it('should know which models take max_completion_tokens and no temperature', () => {
+    expect(getModelInfo('gpt-5-mini')).toMatchObject({ supportsTemperature: false, tokenParam: 'max_completion_tokens' });
+    expect(getModelInfo('o4-mini')).toMatchObject({ supportsTemperature: false, tokenParam: 'max_completion_tokens' });
+    expect(getModelInfo('gpt-4.1')).toMatchObject({ supportsTemperature: true, tokenParam: 'max_tokens' });
+  });
+
+  it('should fall back to conservative defaults for unknown models', () => {
+    expect(getModelInfo('llama-3-70b')).toEqual(UNKNOWN_MODEL);
+  });
+
+  it('should have an entry for every default model', () => {
+    for (const model of Object.values(DEFAULT_MODELS)) {
+      expect(getModelInfo(model)).not.toBe(UNKNOWN_MODEL);
+    }
+  });
+
+  it('should let the models config add models and correct known ones', () => {
+    const models = {
+      'llama-3': { contextWindow: 8192, maxOutputTokens: 2048 },
+      'gpt-5-mini': { maxOutputTokens: 32000 },
+    };
+
+    expect(getModelInfo('llama-3-70b', models)).toEqual({ ...UNKNOWN_MODEL, contextWindow: 8192, maxOutputTokens: 2048 });
+    expect(getModelInfo('gpt-5-mini-2025-08-07', models)).toMatchObject({
+      contextWindow: 400000,
+      maxOutputTokens: 32000,
+      tokenParam: 'max_completion_tokens',
+    });
+    expect(getModelInfo('gpt-5', models).maxOutputTokens).toBe(128000);
+  });
+
+  it('should combine prices from models entries and the prices config', () => {
+    expect(configuredPrices({})).toBeUndefined();
+    expect(configuredPrices({
+      models: { 'llama-3': { price: { input: 0.5, output: 1 } }, 'qwen': { contextWindow: 32000 } },
+      prices: { 'gpt-4o': { input: 2, output: 8 } },
+    })).toEqual({ 'llama-3': { input: 0.5, output: 1 }, 'gpt-4o': { input: 2, output: 8 } });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * What kakarot knows about each model: context window, output cap, price and API parameter quirks
+ */
+
+import type { KakarotConfig, LLMProvider } from '../types/config.js';
+import type { ModelPrice } from './pricing.js';
+
+export interface ModelInfo {
+  /** Prompt plus completion tokens the model accepts */
+  contextWindow: number;
+  /** Most tokens one response may contain; unknown caps are learned from the first rejection */
+  maxOutputTokens?: number;
+  /** List price, used for cost estimates and the budget */
+  price?: ModelPrice;
+  /** Reasoning models reject any temperature but the default */
+  supportsTemperature: boolean;
+  /** How the OpenAI chat completions API names the output token limit for this model */
+  tokenParam: 'max_tokens' | 'max_completion_tokens';
+}
+
+/** Registry entries from the `models` config, keyed by model name prefix like the built-in ones */
+export type ModelOverrides = Record<string, Partial<ModelInfo>>;
+
+/** What is assumed about a model the registry does not know */
+export const UNKNOWN_MODEL: ModelInfo = {
+  contextWindow: 128000,
+  supportsTemperature: true,
+  tokenParam: 'max_tokens',
+};
+
+const reasoning = { supportsTemperature: false, tokenParam: 'max_completion_tokens' } as const;
+const chat = { supportsTemperature: true, tokenParam: 'max_tokens' } as const;
+
+/**
+ * Known models keyed by name prefix. The longest matching prefix wins, so dated model IDs
+ * (e.g. claude-sonnet-4-20250514) resolve to their family entry.
+ */
+export const MODEL_REGISTRY: Record<string, ModelInfo> = {
+  // OpenAI
+  'gpt-5': { ...reasoning, contextWindow: 400000, maxOutputTokens: 128000, price: { input: 1.25, output: 10 } },
+  'gpt-5-mini': { ...reasoning, contextWindow: 400000, maxOutputTokens: 128000, price: { input: 0.25, output: 2 } },
+  'gpt-5-nano': { ...reasoning, contextWindow: 400000, maxOutputTokens: 128000, price: { input: 0.05, output: 0.4 } },
+  'gpt-4.1': { ...chat, contextWindow: 1047576, maxOutputTokens: 32768, price: { input: 2, output: 8 } },
+  'gpt-4.1-mini': { ...chat, contextWindow: 1047576, maxOutputTokens: 32768, price: { input: 0.4, output: 1.6 } },
+  'gpt-4o': { ...chat, contextWindow: 128000, maxOutputTokens: 16384, price: { input: 2.5, output: 10 } },
+  'gpt-4o-mini': { ...chat, contextWindow: 128000, maxOutputTokens: 16384, price: { input: 0.15, output: 0.6 } },
+  'gpt-4-turbo': { ...chat, contextWindow: 128000, maxOutputTokens: 4096, price: { input: 10, output: 30 } },
+  'gpt-4': { ...chat, contextWindow: 8192, maxOutputTokens: 8192 },
+  'o1': { ...reasoning, contextWindow: 200000, maxOutputTokens: 100000 },
+  'o3': { ...reasoning, contextWindow: 200000, maxOutputTokens: 100000, price: { input: 2, output: 8 } },
+  'o4-mini': { ...reasoning, contextWindow: 200000, maxOutputTokens: 100000, price: { input: 1.1, output: 4.4 } },
+  // Anthropic
+  'claude-opus-4-6': { ...chat, contextWindow: 200000, maxOutputTokens: 128000, price: { input: 5, output: 25 } },
+  'claude-opus-4-5': { ...chat, contextWindow: 200000, maxOutputTokens: 64000, price: { input: 5, output: 25 } },
+  'claude-opus-4': { ...chat, contextWindow: 200000, maxOutputTokens: 32000, price: { input: 15, output: 75 } },
+  'claude-sonnet-4': { ...chat, contextWindow: 200000, maxOutputTokens: 64000, price: { input: 3, output: 15 } },
+  'claude-haiku-4': { ...chat, contextWindow: 200000, maxOutputTokens: 64000, price: { input: 1, output: 5 } },
+  'claude-3-5-haiku': { ...chat, contextWindow: 200000, maxOutputTokens: 8192, price: { input: 0.8, output: 4 } },
+  'claude-3-5-sonnet': { ...chat, contextWindow: 200000, maxOutputTokens: 8192 },
+  // Google
+  'gemini-3.1-pro': { ...chat, contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 2, output: 12 } },
+  'gemini-3-pro': { ...chat, contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 2, output: 12 } },
+  'gemini-2.5-pro': { ...chat, contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 1.25, output: 10 } },
+  'gemini-2.5-flash': { ...chat, contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 0.3, output: 2.5 } },
+};
+
+/**
+ * Default model per provider — used when the user doesn't specify one.
+ * Self-hosted providers (openai-compatible) and Bedrock have no default; the model must be configured.
+ * Azure OpenAI routes by deployment, so its model defaults to the deployment name instead.
+ */
+export const DEFAULT_MODELS: Partial<Record<LLMProvider, string>> & Record<'openai' | 'anthropic' | 'google', string> = {
+  openai: 'gpt-5',
+  anthropic: 'claude-opus-4-6',
+  google: 'gemini-3.1-pro-preview',
+};
+
+/**
+ * The longest key of `table` that `model` starts with. Bedrock IDs
+ * (e.g. us.anthropic.claude-sonnet-4-20250514-v1:0) match as the underlying model.
+ */
+export function matchModelPrefix(model: string, table: Record<string, unknown>): string | null {
+  const name = model.replace(/^(?:[a-z]{2,4}\.)?anthropic\./, '');
+  let best: string | null = null;
+  for (const prefix of Object.keys(table)) {
+    if ((name.startsWith(prefix) || model.startsWith(prefix)) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best;
+}
+
+/**
+ * Look up a model in the registry. A matching `overrides` entry (the `models` config) replaces
+ * the fields it sets, and entries for models the registry lacks add them.
+ */
+export function getModelInfo(model: string, overrides?: ModelOverrides): ModelInfo {
+  const known = matchModelPrefix(model, MODEL_REGISTRY);
+  const info = known ? MODEL_REGISTRY[known] : UNKNOWN_MODEL;
+  const configured = overrides ? matchModelPrefix(model, overrides) : null;
+  return configured && overrides ? { ...info, ...overrides[configured] } : info;
+}
+
+/**
+ * Prices configured for cost estimates: those of `models` entries, overridden by `prices`
+ */
+export function configuredPrices(config: Partial<Pick<KakarotConfig, 'prices' | 'models'>>): Record<string, ModelPrice> | undefined {
+  const prices: Record<string, ModelPrice> = {};
+  for (const [prefix, info] of Object.entries(config.models ?? {})) {
+    if (info.price) {
+      prices[prefix] = info.price;
+    }
+  }
+  Object.assign(prices, config.prices);
+  return Object.keys(prices).length > 0 ? prices : undefined;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getModelPrice, estimateCost } from './pricing.js';
+
+describe('pricing', () => {
+  it('should match models by longest prefix', () => {
+    expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice('gpt-4o')).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPrice('claude-opus-4-6')).toEqual({ input: 5, output: 25 });
+    expect(getModelPrice('claude-opus-4-20250514')).toEqual({ input: 15, output: 75 });
+  });
+
+  it('should price Bedrock model IDs as the underlying model', () => {
+    expect(getModelPrice('us.anthropic.claude-sonnet-4-20250514-v1:0')).toEqual({ input: 3, output: 15 });
+    expect(getModelPrice('anthropic.claude-opus-4-6-v1')).toEqual({ input: 5, output: 25 });
+  });
+
+  it('should return null for unknown models', () => {
+    expect(getModelPrice('llama-3-70b')).toBeNull();
+    expect(estimateCost('llama-3-70b', 1000, 1000)).toBeNull();
+  });
+
+  it('should estimate cost from per-million prices', () => {
+    // 1M prompt tokens at $3 + 1M completion tokens at $15
+    expect(estimateCost('claude-sonnet-4-20250514', 1_000_000, 1_000_000)).toBeCloseTo(18);
+    expect(estimateCost('gpt-5', 2000, 1000)).toBeCloseTo(0.0125);
+  });
+
+  it('should price cached prompt tokens at the cache rates', () => {
+    // 200k uncached at $3, 600k read at $0.30, 200k written at $3.75
+    expect(estimateCost('claude-sonnet-4', 1_000_000, 0, undefined, { readTokens: 600_000, writeTokens: 200_000 }))
+      .toBeCloseTo(0.6 + 0.18 + 0.75);
+    expect(estimateCost('my-model', 1_000_000, 0, { 'my-model': { input: 1, output: 2, cacheRead: 0.5 } }, { readTokens: 1_000_000 }))
+      .toBeCloseTo(0.5);
+  });
+
+  it('should let configured prices add models and override list prices', () => {
+    const prices = { 'llama-3': { input: 0.5, output: 1 }, 'gpt-4o': { input: 2, output: 8 } };
+
+    expect(getModelPrice('llama-3-70b', prices)).toEqual({ input: 0.5, output: 1 });
+    expect(getModelPrice('gpt-4o-2024-08-06', prices)).toEqual({ input: 2, output: 8 });
+    expect(getModelPrice('gpt-4o-mini', prices)).toEqual({ input: 0.15, output: 0.6 });
+  });
+});
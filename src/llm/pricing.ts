@@ -0,0 +1,65 @@
+/**
+ * Approximate LLM pricing used for cost estimates
+ */
+
+import { MODEL_REGISTRY, matchModelPrefix } from './models.js';
+
+/** Price in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Input tokens read from the prompt cache; defaults to a tenth of the input price */
+  cacheRead?: number;
+  /** Input tokens written to the prompt cache; defaults to 1.25x the input price */
+  cacheWrite?: number;
+}
+
+/** Prompt cache token counts, a subset of the prompt tokens */
+export interface CacheTokens {
+  readTokens?: number;
+  writeTokens?: number;
+}
+
+/** Default cache prices relative to the input price (Anthropic's published rates; OpenAI has no write charge) */
+const CACHE_READ_MULTIPLIER = 0.1;
+const CACHE_WRITE_MULTIPLIER = 1.25;
+
+/** List prices of the registry's models, keyed by model name prefix */
+const LIST_PRICES: Record<string, ModelPrice> = Object.fromEntries(
+  Object.entries(MODEL_REGISTRY).flatMap(([prefix, info]) => (info.price ? [[prefix, info.price]] : []))
+);
+
+/**
+ * Look up the price for a model by longest matching prefix.
+ * `prices` (the `prices` config) adds entries or overrides list prices for the same prefix.
+ * Bedrock IDs (e.g. us.anthropic.claude-sonnet-4-20250514-v1:0) are priced as the underlying model.
+ */
+export function getModelPrice(model: string, prices?: Record<string, ModelPrice>): ModelPrice | null {
+  const table = prices ? { ...LIST_PRICES, ...prices } : LIST_PRICES;
+  const best = matchModelPrefix(model, table);
+  return best ? table[best] : null;
+}
+
+/**
+ * Estimate the USD cost of a request. Returns null when the model's price is unknown.
+ * Cached prompt tokens are priced at the cache read/write rates instead of the input price.
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices?: Record<string, ModelPrice>,
+  cache: CacheTokens = {}
+): number | null {
+  const price = getModelPrice(model, prices);
+  if (!price) {
+    return null;
+  }
+  const readTokens = cache.readTokens ?? 0;
+  const writeTokens = cache.writeTokens ?? 0;
+  const uncachedTokens = Math.max(0, promptTokens - readTokens - writeTokens);
+  const input = uncachedTokens * price.input +
+    readTokens * (price.cacheRead ?? price.input * CACHE_READ_MULTIPLIER) +
+    writeTokens * (price.cacheWrite ?? price.input * CACHE_WRITE_MULTIPLIER);
+  return (input + completionTokens * price.output) / 1_000_000;
+}
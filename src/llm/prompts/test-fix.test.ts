@@ -13,11 +13,12 @@ describe('test-fix prompt', () => {
       maxAttempts: 3,
     });
 
-    expect(messages).toHaveLength(2);
+    expect(messages).toHaveLength(3);
     expect(messages[0].role).toBe('system');
     expect(messages[1].role).toBe('user');
+    expect(messages[2].role).toBe('user');
     expect(messages[0].content).toContain('Jest');
-    expect(messages[0].content).toContain('fix attempt 1 of 3');
+    expect(messages[2].content).toContain('fix attempt 1 of 3');
   });
 
   it('should build prompt for Vitest', () => {
@@ -62,8 +63,8 @@ describe('test-fix prompt', () => {
       maxAttempts: 3,
     });
 
-    expect(messages[1].content).toMatch(/Complete test file|Failing test code/);
-    expect(messages[1].content).toContain(testCode);
+    expect(messages[2].content).toMatch(/Complete test file|Failing test code/);
+    expect(messages[2].content).toContain(testCode);
   });
 
   it('should include error message', () => {
@@ -78,8 +79,8 @@ describe('test-fix prompt', () => {
       maxAttempts: 3,
     });
 
-    expect(messages[1].content).toContain('Error message');
-    expect(messages[1].content).toContain(errorMessage);
+    expect(messages[2].content).toContain('Error message');
+    expect(messages[2].content).toContain(errorMessage);
   });
 
   it('should include test output when provided', () => {
@@ -94,8 +95,8 @@ describe('test-fix prompt', () => {
       maxAttempts: 3,
     });
 
-    expect(messages[1].content).toContain('Test output');
-    expect(messages[1].content).toContain(testOutput);
+    expect(messages[2].content).toContain('Test output');
+    expect(messages[2].content).toContain(testOutput);
   });
 
   it('should note previous attempts when attempt > 1', () => {
@@ -110,8 +111,8 @@ describe('test-fix prompt', () => {
     });
 
     // Attempt 2 of 3 is halfway, so it should show the halfway message
-    expect(messages[1].content).toMatch(/attempt 2|multiple attempts|start simplifying/i);
-    expect(messages[1].content).toMatch(/previous attempts|multiple attempts|attempts failed|start simplifying/i);
+    expect(messages[2].content).toMatch(/attempt 2|multiple attempts|start simplifying/i);
+    expect(messages[2].content).toMatch(/previous attempts|multiple attempts|attempts failed|start simplifying/i);
   });
 });
 
@@ -23,18 +23,16 @@ export function buildTestFixPrompt(context: TestFixContext): LLMMessage[] {
     stubbornTests
   } = context;
 
-  const systemPrompt = buildSystemPrompt(framework, attempt, maxAttempts, _testRemovalRejected, stubbornTests);
-  const userPrompt = buildUserPrompt(
+  // The system prompt and source context stay the same across fix attempts, so they form the cached prefix
+  const systemPrompt = buildSystemPrompt(framework);
+  const sourcePrompt = buildSourcePrompt(originalCode, testFilePath, functionNames, sourceFilePath);
+  const userPrompt = buildAttemptPrompt(framework, attempt, maxAttempts, _testRemovalRejected, stubbornTests) + buildUserPrompt(
     testCode, 
     errorMessage, 
     testOutput, 
-    originalCode, 
     framework, 
     attempt,
-    testFilePath,
-    functionNames,
     failingTests,
-    sourceFilePath,
     _validationErrors,
     maxAttempts,
     _testRemovalRejected,
@@ -42,39 +40,43 @@ export function buildTestFixPrompt(context: TestFixContext): LLMMessage[] {
   );
 
   return [
-    { role: 'system', content: systemPrompt },
+    { role: 'system', content: systemPrompt, cache: true },
+    { role: 'user', content: sourcePrompt, cache: true },
     { role: 'user', content: userPrompt },
   ];
 }
 
-function buildSystemPrompt(framework: 'jest' | 'vitest', attempt: number, maxAttempts: number, testRemovalRejected?: boolean, stubbornTests?: string[]): string {
-  const frameworkName = framework === 'jest' ? 'Jest' : 'Vitest';
-  const importStatement = framework === 'jest' 
-    ? "import { describe, it, expect } from 'jest';" 
-    : "import { describe, it, expect } from 'vitest';";
-
+/**
+ * Attempt-specific guidance: how many attempts are left, and what went wrong in earlier ones
+ */
+function buildAttemptPrompt(framework: 'jest' | 'vitest', attempt: number, maxAttempts: number, testRemovalRejected?: boolean, stubbornTests?: string[]): string {
   const isHalfway = attempt >= Math.ceil(maxAttempts / 2);
   const isFinalAttempt = attempt >= maxAttempts;
   const attemptsRemaining = maxAttempts - attempt + 1;
 
-  let systemPrompt = `You are an expert ${frameworkName} test fixer. Your job is to fix failing tests by correcting the test code, not the implementation.\n\n`;
-  
+  let prompt = `Context:
+- This is fix attempt ${attempt} of ${maxAttempts}${attemptsRemaining > 1 ? ` (${attemptsRemaining} attempts remaining)` : ' (FINAL ATTEMPT)'}
+- The ${framework} test code failed to run or produced incorrect results
+- You need to analyze the error and fix the test code
+
+`;
+
   // Add critical warning if previous fix was rejected for removing tests
   if (testRemovalRejected) {
-    systemPrompt += `🚨🚨🚨 CRITICAL: Your previous fix attempt was REJECTED because it removed too many tests.\n`;
-    systemPrompt += `🚨🚨🚨 YOU MUST NOT DELETE TESTS. If a test cannot be fixed, REPLACE IT WITH A MINIMAL PASSING TEST.\n`;
-    systemPrompt += `🚨🚨🚨 Example minimal test: it('test name', () => { expect(functionName()).toBeDefined(); });\n`;
-    systemPrompt += `🚨🚨🚨 You MUST preserve ALL tests - deleting tests will cause your fix to be REJECTED again.\n\n`;
+    prompt += `🚨🚨🚨 CRITICAL: Your previous fix attempt was REJECTED because it removed too many tests.\n`;
+    prompt += `🚨🚨🚨 YOU MUST NOT DELETE TESTS. If a test cannot be fixed, REPLACE IT WITH A MINIMAL PASSING TEST.\n`;
+    prompt += `🚨🚨🚨 Example minimal test: it('test name', () => { expect(functionName()).toBeDefined(); });\n`;
+    prompt += `🚨🚨🚨 You MUST preserve ALL tests - deleting tests will cause your fix to be REJECTED again.\n\n`;
   }
 
   if (stubbornTests && stubbornTests.length > 0) {
-    systemPrompt += `\nSIMPLIFY THESE TESTS - they have failed 4+ consecutive fix attempts:\n`;
+    prompt += `\nSIMPLIFY THESE TESTS - they have failed 4+ consecutive fix attempts:\n`;
     for (const name of stubbornTests) {
-      systemPrompt += `- "${name}"\n`;
+      prompt += `- "${name}"\n`;
     }
-    systemPrompt += `\nReplace each with the SIMPLEST possible passing test. Example:\n`;
-    systemPrompt += `it('test name', () => {\n  const instance = new ClassName();\n  expect(instance).toBeInstanceOf(ClassName);\n});\n\n`;
-    systemPrompt += `Do NOT try to fix the complex logic. Replace the ENTIRE test body with a trivial assertion.\n\n`;
+    prompt += `\nReplace each with the SIMPLEST possible passing test. Example:\n`;
+    prompt += `it('test name', () => {\n  const instance = new ClassName();\n  expect(instance).toBeInstanceOf(ClassName);\n});\n\n`;
+    prompt += `Do NOT try to fix the complex logic. Replace the ENTIRE test body with a trivial assertion.\n\n`;
   }
 
   let priorityMessage = '';
@@ -102,6 +104,17 @@ function buildSystemPrompt(framework: 'jest' | 'vitest', attempt: number, maxAtt
       `- Even a minimal test is better than no test - preserve coverage\n`;
   }
 
+  return `${prompt}${priorityMessage}\n\n`;
+}
+
+function buildSystemPrompt(framework: 'jest' | 'vitest'): string {
+  const frameworkName = framework === 'jest' ? 'Jest' : 'Vitest';
+  const importStatement = framework === 'jest' 
+    ? "import { describe, it, expect } from 'jest';" 
+    : "import { describe, it, expect } from 'vitest';";
+
+  let systemPrompt = `You are an expert ${frameworkName} test fixer. Your job is to fix failing tests by correcting the test code, not the implementation.\n\n`;
+
   systemPrompt += `You are an expert ${frameworkName} test debugger. Your task is to fix failing unit tests.
 
 🚨🚨🚨 CRITICAL SYNTAX REQUIREMENT - READ THIS FIRST 🚨🚨🚨
@@ -129,12 +142,6 @@ RETURN ONLY COMPLETE, SYNTAX-VALID CODE. INCOMPLETE CODE IS WORSE THAN NO CODE.
 
 FRAMEWORK RESTRICTION: You MUST use ${frameworkName} ONLY. This tool ONLY supports Jest and Vitest. Do NOT use any other test framework syntax.
 
-Context:
-- This is fix attempt ${attempt} of ${maxAttempts}${attemptsRemaining > 1 ? ` (${attemptsRemaining} attempts remaining)` : ' (FINAL ATTEMPT)'}
-- The test code failed to run or produced incorrect results
-- You need to analyze the error and fix the test code
-${priorityMessage}
-
 CRITICAL: Tests must match the ACTUAL behavior of the code being tested, not assumed behavior.
 
 CRITICAL SYNTAX: Use ONLY ${frameworkName} syntax:
@@ -198,17 +205,40 @@ INCOMPLETE CODE WILL BE REJECTED. ONLY RETURN SYNTAX-COMPLETE CODE.`;
   return systemPrompt;
 }
 
+/**
+ * The code under test, shared by every fix attempt for the same test file
+ */
+function buildSourcePrompt(
+  originalCode: string,
+  testFilePath?: string,
+  functionNames?: string[],
+  sourceFilePath?: string
+): string {
+  let prompt = '';
+  if (sourceFilePath) {
+    prompt += `Source file: ${sourceFilePath}\n`;
+  }
+  if (testFilePath) {
+    prompt += `Test file: ${testFilePath}\n`;
+  }
+  if (functionNames && functionNames.length > 0) {
+    prompt += `Functions being tested: ${functionNames.join(', ')}\n`;
+  }
+  prompt += '\n';
+
+  // Add original function code with better formatting
+  prompt += `Original function code:\n\`\`\`typescript\n${originalCode}\n\`\`\`\n`;
+
+  return prompt;
+}
+
 function buildUserPrompt(
   testCode: string,
   errorMessage: string,
   testOutput: string | undefined,
-  originalCode: string,
   framework: 'jest' | 'vitest',
   attempt: number,
-  testFilePath?: string,
-  functionNames?: string[],
   failingTests?: Array<{ testName: string; message: string; stack?: string }>,
-  sourceFilePath?: string,
   validationErrors?: string[],
   maxAttempts?: number,
   testRemovalRejected?: boolean,
@@ -236,21 +266,6 @@ function buildUserPrompt(
     }
   }
 
-  // Add file context
-  if (sourceFilePath) {
-    prompt += `Source file: ${sourceFilePath}\n`;
-  }
-  if (testFilePath) {
-    prompt += `Test file: ${testFilePath}\n`;
-  }
-  if (functionNames && functionNames.length > 0) {
-    prompt += `Functions being tested: ${functionNames.join(', ')}\n`;
-  }
-  prompt += '\n';
-
-  // Add original function code with better formatting
-  prompt += `Original function code:\n\`\`\`typescript\n${originalCode}\n\`\`\`\n\n`;
-
   // CRITICAL: List failing tests FIRST and prominently
   if (failingTests && failingTests.length > 0) {
     prompt += `\n🚨🚨🚨 ONLY THESE ${failingTests.length} TEST(S) ARE FAILING - FIX ONLY THESE 🚨🚨🚨\n\n`;
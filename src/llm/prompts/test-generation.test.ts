@@ -24,6 +24,7 @@ describe('test-generation prompt', () => {
     expect(messages[1].role).toBe('user');
     expect(messages[0].content).toContain('Jest');
     expect(messages[0].content).toContain("import { describe, it, expect } from 'jest';");
+    expect(messages[0].cache).toBe(true);
   });
 
   it('should build prompt for Vitest', () => {
@@ -11,8 +11,9 @@ export function buildTestGenerationPrompt(context: TestGenerationContext): LLMMe
   const systemPrompt = buildSystemPrompt(framework);
   const userPrompt = buildUserPrompt(target, framework, existingTestFile, relatedFunctions, testFilePath, importPath);
 
+  // The system prompt is the same for every target, so it is cached across the run
   return [
-    { role: 'system', content: systemPrompt },
+    { role: 'system', content: systemPrompt, cache: true },
     { role: 'user', content: userPrompt },
   ];
 }
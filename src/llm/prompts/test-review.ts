@@ -110,7 +110,7 @@ ${testCode}
 Return the corrected test file. If no strict-runtime issues are found, return the test code exactly as-is.`;
 
   return [
-    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'system', content: SYSTEM_PROMPT, cache: true },
     { role: 'user', content: userPrompt },
   ];
 }
@@ -31,7 +31,7 @@ export async function buildTestScaffoldPrompt(
     : baseUserPrompt;
 
   return [
-    { role: 'system', content: systemPrompt },
+    { role: 'system', content: systemPrompt, cache: true },
     { role: 'user', content: userPrompt },
   ];
 }
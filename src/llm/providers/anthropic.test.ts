@@ -5,6 +5,7 @@ import type { LLMMessage } from '../../types/llm.js';
 vi.mock('./base.js', () => ({
   BaseLLMProvider: class {
     protected validateApiKey = vi.fn();
+    protected modelInfo = { contextWindow: 128000, supportsTemperature: true, tokenParam: 'max_tokens' };
     protected mergeOptions = vi.fn().mockReturnValue({
       temperature: 0.2,
       maxTokens: 4000,
@@ -13,6 +14,7 @@ vi.mock('./base.js', () => ({
     protected logUsage = vi.fn();
     protected parse429Error = vi.fn();
     protected async withRetry<T>(fn: () => Promise<T>): Promise<T> { return fn(); }
+    protected async paced(_messages: unknown, _maxTokens: number, send: () => Promise<Response>): Promise<Response> { return send(); }
   },
 }));
 
@@ -80,6 +82,78 @@ describe('AnthropicProvider', () => {
     expect(body.messages[0].role).toBe('user');
   });
 
+  it('should mark cached prefix messages with cache_control and report cache tokens', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'text', text: 'fixed' }],
+        usage: { input_tokens: 300, output_tokens: 50, cache_read_input_tokens: 4000, cache_creation_input_tokens: 1200 },
+      }),
+    } as Response);
+
+    const result = await provider.generate([
+      { role: 'system', content: 'system prompt', cache: true },
+      { role: 'user', content: 'source code', cache: true },
+      { role: 'user', content: 'failing test' },
+    ]);
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.system).toEqual([{ type: 'text', text: 'system prompt', cache_control: { type: 'ephemeral' } }]);
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'source code', cache_control: { type: 'ephemeral' } }] },
+      { role: 'user', content: 'failing test' },
+    ]);
+    expect(result.usage).toEqual({
+      promptTokens: 5500,
+      completionTokens: 50,
+      totalTokens: 5550,
+      cacheReadTokens: 4000,
+      cacheWriteTokens: 1200,
+    });
+  });
+
+  it('should force a tool call for structured output and return its input as JSON', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'submit_tests', input: { testCode: "it('x')", testCases: [] } }],
+        stop_reason: 'tool_use',
+      }),
+    } as Response);
+    const schema = { type: 'object', properties: { testCode: { type: 'string' } }, required: ['testCode'] };
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], {
+      responseSchema: { name: 'submit_tests', description: 'Submit tests', schema },
+    });
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.tools).toEqual([{ name: 'submit_tests', description: 'Submit tests', input_schema: schema }]);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'submit_tests' });
+    expect(JSON.parse(result.content)).toEqual({ testCode: "it('x')", testCases: [] });
+    expect(result.finishReason).toBe('stop');
+  });
+
+  it('should stream tool input JSON as text', async () => {
+    const events = [
+      ['message_start', { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } }],
+      ['content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', name: 'submit_tests', input: {} } }],
+      ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"testCode": ' } }],
+      ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"it()"}' } }],
+      ['message_delta', { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 12 } }],
+    ];
+    vi.mocked(fetch).mockResolvedValue(new Response(events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join('')));
+    const onToken = vi.fn();
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], {
+      onToken,
+      responseSchema: { name: 'submit_tests', description: 'Submit tests', schema: { type: 'object' } },
+    });
+
+    expect(result.content).toBe('{"testCode": "it()"}');
+    expect(result.finishReason).toBe('stop');
+    expect(onToken).toHaveBeenCalledTimes(2);
+  });
+
   it('should handle API errors', async () => {
     vi.mocked(fetch).mockResolvedValue({
       ok: false,
@@ -101,5 +175,39 @@ describe('AnthropicProvider', () => {
     const messages: LLMMessage[] = [{ role: 'user', content: 'test' }];
     await expect(provider.generate(messages)).rejects.toThrow('no content');
   });
-});
 
+  it('should stream text deltas to onToken and rebuild stop reason and usage', async () => {
+    const events = [
+      ['message_start', { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1, cache_read_input_tokens: 100 } } }],
+      ['content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }],
+      ['ping', { type: 'ping' }],
+      ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'describe(' } }],
+      ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: "'x')" } }],
+      ['content_block_stop', { type: 'content_block_stop', index: 0 }],
+      ['message_delta', { type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 4000 } }],
+      ['message_stop', { type: 'message_stop' }],
+    ];
+    const sse = events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join('');
+    vi.mocked(fetch).mockResolvedValue(new Response(sse));
+    const onToken = vi.fn();
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], { onToken });
+
+    expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(['describe(', "'x')"]);
+    expect(result).toEqual({
+      content: "describe('x')",
+      finishReason: 'max_tokens',
+      truncated: true,
+      usage: { promptTokens: 125, completionTokens: 4000, totalTokens: 4125, cacheReadTokens: 100 },
+    });
+    expect(JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string).stream).toBe(true);
+  });
+
+  it('should surface error events in a stream', async () => {
+    const sse = 'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n';
+    vi.mocked(fetch).mockResolvedValue(new Response(sse));
+
+    await expect(provider.generate([{ role: 'user', content: 'test' }], { onToken: vi.fn() }))
+      .rejects.toThrow('Anthropic API stream error: overloaded_error - Overloaded');
+  });
+});
@@ -1,35 +1,77 @@
 import { BaseLLMProvider } from './base.js';
+import { readServerSentEvents } from './sse.js';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../types/llm.js';
 import { error, debug, warn } from '../../utils/logger.js';
 
+/** A text block; cache_control caches the prompt up to and including it */
+interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+  cache_control?: { type: 'ephemeral' };
+}
+
 interface AnthropicMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | AnthropicTextBlock[];
+}
+
+interface AnthropicUsage {
+  /** Input tokens after the last cache breakpoint; cached tokens are counted separately */
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
 }
 
 interface AnthropicRequest {
   model: string;
   max_tokens: number;
-  temperature: number;
+  temperature?: number;
   messages: AnthropicMessage[];
-  system?: string;
+  system?: string | AnthropicTextBlock[];
   stop_sequences?: string[];
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'tool'; name: string };
 }
 
 interface AnthropicResponse {
   content: Array<{
     type: string;
-    text: string;
+    text?: string;
+    /** Arguments of a tool_use block */
+    input?: unknown;
   }>;
   stop_reason?: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | string;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+  usage?: AnthropicUsage;
+}
+
+/** Events of a `stream: true` response that carry content, usage or errors */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { usage?: Partial<AnthropicUsage> } }
+  | { type: 'content_block_delta'; delta: { type: string; text?: string; partial_json?: string } }
+  | { type: 'message_delta'; delta: { stop_reason?: string | null }; usage?: { output_tokens?: number } }
+  | { type: 'error'; error: { type: string; message: string } }
+  | { type: 'content_block_start' | 'content_block_stop' | 'message_stop' | 'ping' };
+
+/**
+ * Message content as plain text, or as a text block marked with cache_control when it ends a stable prefix
+ */
+function toContent(message: LLMMessage): string | AnthropicTextBlock[] {
+  return message.cache
+    ? [{ type: 'text', text: message.content, cache_control: { type: 'ephemeral' } }]
+    : message.content;
 }
 
 export class AnthropicProvider extends BaseLLMProvider {
   private baseUrl = 'https://api.anthropic.com/v1';
+  protected providerName = 'Anthropic';
 
   async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
     return this.withRetry(() => this._generate(messages, options), 'Anthropic API request');
@@ -40,24 +82,34 @@ export class AnthropicProvider extends BaseLLMProvider {
     const mergedOptions = this.mergeOptions(options);
 
     // Anthropic requires system message to be separate
-    const systemMessage = messages.find((m) => m.role === 'system')?.content ?? '';
+    const systemMessage = messages.find((m) => m.role === 'system');
     const conversationMessages = messages.filter((m) => m.role !== 'system');
 
     const requestBody: AnthropicRequest = {
       model: this.model,
       max_tokens: mergedOptions.maxTokens,
-      temperature: mergedOptions.temperature,
+      ...(this.modelInfo.supportsTemperature && { temperature: mergedOptions.temperature }),
       messages: conversationMessages.map((msg) => ({
         role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content,
+        content: toContent(msg),
       })),
-      ...(systemMessage && { system: systemMessage }),
+      ...(systemMessage?.content && { system: toContent(systemMessage) }),
       ...(mergedOptions.stopSequences.length > 0 && { stop_sequences: mergedOptions.stopSequences }),
+      ...(options?.onToken && { stream: true }),
+      // Structured output is a tool the model must call; its input is the response object
+      ...(options?.responseSchema && {
+        tools: [{
+          name: options.responseSchema.name,
+          description: options.responseSchema.description,
+          input_schema: options.responseSchema.schema,
+        }],
+        tool_choice: { type: 'tool', name: options.responseSchema.name },
+      }),
     };
 
     debug(`Calling Anthropic API with model: ${this.model}`);
 
-    const response = await fetch(`${this.baseUrl}/messages`, {
+    const response = await this.paced(messages, mergedOptions.maxTokens, () => fetch(`${this.baseUrl}/messages`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -65,7 +117,8 @@ export class AnthropicProvider extends BaseLLMProvider {
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify(requestBody),
-    });
+      signal: options?.signal,
+    }));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -94,27 +147,23 @@ export class AnthropicProvider extends BaseLLMProvider {
       throw new Error(errorMessage);
     }
 
-    const data = (await response.json()) as AnthropicResponse;
+    const data = options?.onToken && response.body
+      ? await this.readStream(response.body, options.onToken)
+      : (await response.json()) as AnthropicResponse;
 
     if (!data.content || data.content.length === 0) {
       error('Anthropic API returned no content');
       throw new Error('Anthropic API returned no content');
     }
 
-    const content = data.content.map((c) => c.text).join('\n');
+    const content = data.content.map((c) => c.type === 'tool_use' ? JSON.stringify(c.input) : c.text ?? '').join('\n');
     const stopReason = data.stop_reason;
     
-    // Normalize: Anthropic uses 'end_turn', 'max_tokens', etc.
-    const finishReason = stopReason === 'end_turn' ? 'stop' : stopReason;
+    // Normalize: Anthropic uses 'end_turn', 'max_tokens', etc.; a forced tool call ends with 'tool_use'
+    const finishReason = stopReason === 'end_turn' || (stopReason === 'tool_use' && options?.responseSchema) ? 'stop' : stopReason;
     const truncated = stopReason === 'max_tokens';
     
-    const usage = data.usage
-      ? {
-          promptTokens: data.usage.input_tokens,
-          completionTokens: data.usage.output_tokens,
-          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-        }
-      : undefined;
+    const usage = data.usage ? this.toUsage(data.usage) : undefined;
 
     this.logUsage(usage, 'Anthropic');
     
@@ -129,4 +178,65 @@ export class AnthropicProvider extends BaseLLMProvider {
       usage,
     };
   }
+
+  /**
+   * Normalize usage so promptTokens counts every input token, cached or not
+   */
+  private toUsage(raw: AnthropicUsage): NonNullable<LLMResponse['usage']> {
+    const cacheReadTokens = raw.cache_read_input_tokens ?? 0;
+    const cacheWriteTokens = raw.cache_creation_input_tokens ?? 0;
+    const promptTokens = raw.input_tokens + cacheReadTokens + cacheWriteTokens;
+    return {
+      promptTokens,
+      completionTokens: raw.output_tokens,
+      totalTokens: promptTokens + raw.output_tokens,
+      ...(cacheReadTokens > 0 && { cacheReadTokens }),
+      ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+    };
+  }
+
+  /**
+   * Rebuild a complete message from a `stream: true` response, passing each text delta to onToken.
+   * Tool input arrives as JSON fragments, which are treated as text.
+   */
+  private async readStream(body: ReadableStream<Uint8Array>, onToken: (delta: string) => void): Promise<AnthropicResponse> {
+    let text = '';
+    let stopReason: string | undefined;
+    let startUsage: Partial<AnthropicUsage> | undefined;
+    let outputTokens: number | undefined;
+
+    for await (const { data } of readServerSentEvents(body)) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+      switch (event.type) {
+        case 'message_start':
+          startUsage = event.message.usage;
+          outputTokens = event.message.usage?.output_tokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta' && event.delta.text) {
+            text += event.delta.text;
+            onToken(event.delta.text);
+          } else if (event.delta.type === 'input_json_delta' && event.delta.partial_json) {
+            text += event.delta.partial_json;
+            onToken(event.delta.partial_json);
+          }
+          break;
+        case 'message_delta':
+          stopReason = event.delta.stop_reason ?? stopReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'error':
+          error(`Anthropic API stream error: ${event.error.type} - ${event.error.message}`);
+          throw new Error(`Anthropic API stream error: ${event.error.type} - ${event.error.message}`);
+      }
+    }
+
+    return {
+      content: text ? [{ type: 'text', text }] : [],
+      stop_reason: stopReason,
+      usage: startUsage?.input_tokens !== undefined && outputTokens !== undefined
+        ? { ...startUsage, input_tokens: startUsage.input_tokens, output_tokens: outputTokens }
+        : undefined,
+    };
+  }
 }
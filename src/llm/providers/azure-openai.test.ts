@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type OutgoingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { AzureOpenAIProvider, AZURE_OPENAI_API_VERSION } from './azure-openai.js';
+import { RateLimitError } from '../../types/errors.js';
+
+vi.mock('../../utils/logger.js', () => ({
+  debug: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+}));
+
+interface ReceivedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+describe('AzureOpenAIProvider', () => {
+  let server: Server;
+  let endpoint: string;
+  let received: ReceivedRequest[];
+  let reply: { status: number; body: unknown; headers?: OutgoingHttpHeaders };
+
+  beforeAll(async () => {
+    // Stands in for an Azure OpenAI resource endpoint
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    reply = {
+      status: 200,
+      body: {
+        choices: [{ message: { role: 'assistant', content: 'generated' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+      },
+    };
+  });
+
+  it('should post to the deployment URL with the api-version and api-key header', async () => {
+    const provider = new AzureOpenAIProvider('azure-key', 'gpt-4o', { maxTokens: 1000 }, {
+      endpoint: `${endpoint}/`,
+      deployment: 'gpt-4o prod',
+      headers: { 'X-Team': 'security' },
+    });
+
+    const result = await provider.generate([{ role: 'user', content: 'write a test' }]);
+
+    expect(result).toMatchObject({ content: 'generated', finishReason: 'stop', truncated: false });
+    expect(received[0].url).toBe(`/openai/deployments/gpt-4o%20prod/chat/completions?api-version=${AZURE_OPENAI_API_VERSION}`);
+    expect(received[0].headers['api-key']).toBe('azure-key');
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(received[0].headers['x-team']).toBe('security');
+    expect(received[0].body).toMatchObject({ max_tokens: 1000, messages: [{ role: 'user', content: 'write a test' }] });
+  });
+
+  it('should honour a configured api-version and the model for request parameters', async () => {
+    const provider = new AzureOpenAIProvider('azure-key', 'gpt-5', undefined, {
+      endpoint,
+      deployment: 'reasoning',
+      apiVersion: '2025-01-01-preview',
+    });
+
+    await provider.generate([{ role: 'user', content: 'hi' }]);
+
+    expect(received[0].url).toBe('/openai/deployments/reasoning/chat/completions?api-version=2025-01-01-preview');
+    expect(received[0].body).toHaveProperty('max_completion_tokens');
+    expect(received[0].body).not.toHaveProperty('temperature');
+  });
+
+  it('should map a 429 with retry-after-ms into a RateLimitError', async () => {
+    reply = {
+      status: 429,
+      headers: { 'retry-after': '2', 'retry-after-ms': '1500' },
+      body: {
+        error: {
+          code: '429',
+          message: 'Requests to the ChatCompletions_Create Operation have exceeded token rate limit of your current OpenAI S0 pricing tier.',
+        },
+      },
+    };
+    const provider = new AzureOpenAIProvider('azure-key', 'gpt-4o', undefined, { endpoint, deployment: 'gpt-4o' });
+    // Bypass withRetry so the first 429 surfaces directly
+    const generate = (provider as unknown as { _generate: AzureOpenAIProvider['generate'] })._generate.bind(provider);
+
+    const err = await generate([{ role: 'user', content: 'hi' }]).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect((err as RateLimitError).retryAfter).toBe(1.5);
+    expect((err as RateLimitError).message).toContain('Azure OpenAI API error: 429');
+  });
+
+  it('should fall back to retry-after when retry-after-ms is absent', async () => {
+    reply = { status: 429, headers: { 'retry-after': '7' }, body: { error: { message: 'Rate limit reached' } } };
+    const provider = new AzureOpenAIProvider('azure-key', 'gpt-4o', undefined, { endpoint, deployment: 'gpt-4o' });
+    const generate = (provider as unknown as { _generate: AzureOpenAIProvider['generate'] })._generate.bind(provider);
+
+    const err = await generate([{ role: 'user', content: 'hi' }]).catch((e: unknown) => e);
+
+    expect((err as RateLimitError).retryAfter).toBe(7);
+  });
+});
@@ -0,0 +1,64 @@
+import { OpenAIProvider } from './openai.js';
+import type { ProviderDefaults } from './base.js';
+
+/** Data-plane API version used when `azureApiVersion` is not configured */
+export const AZURE_OPENAI_API_VERSION = '2024-10-21';
+
+/** Endpoint settings for an Azure OpenAI deployment */
+export interface AzureOpenAIConnectionOptions {
+  /** Resource endpoint, e.g. https://my-resource.openai.azure.com */
+  endpoint: string;
+  /** Deployment name; Azure routes by deployment rather than by model */
+  deployment: string;
+  apiVersion?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Azure OpenAI deployments. Requests go to `/openai/deployments/{deployment}/chat/completions`
+ * with an `api-version` query parameter and `api-key` header auth.
+ * The model name only selects request parameters (e.g. max_completion_tokens) and pricing.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  protected providerName = 'Azure OpenAI';
+  private apiVersion: string;
+
+  constructor(
+    apiKey: string,
+    model: string,
+    defaultOptions: ProviderDefaults | undefined,
+    connection: AzureOpenAIConnectionOptions
+  ) {
+    const endpoint = connection.endpoint.replace(/\/+$/, '');
+    super(apiKey, model, defaultOptions, {
+      baseUrl: `${endpoint}/openai/deployments/${encodeURIComponent(connection.deployment)}`,
+      headers: connection.headers,
+    });
+    this.apiVersion = connection.apiVersion ?? AZURE_OPENAI_API_VERSION;
+  }
+
+  protected sendsPromptCacheKey(): boolean {
+    return false;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    this.validateApiKey();
+    return { 'api-key': this.apiKey };
+  }
+
+  protected chatCompletionsUrl(): string {
+    return `${super.chatCompletionsUrl()}?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+
+  /**
+   * Azure sends `retry-after-ms` alongside the whole-second `retry-after`; prefer the precise one
+   */
+  protected retryAfter(headers: Headers): string | null {
+    const retryAfterMs = parseFloat(headers.get('retry-after-ms') ?? '');
+    if (Number.isFinite(retryAfterMs)) {
+      return String(retryAfterMs / 1000);
+    }
+    return super.retryAfter(headers);
+  }
+}
@@ -1,9 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
 import { BaseLLMProvider } from './base.js';
+import { getRateLimiter } from '../rate-limiter.js';
 import type { LLMMessage, LLMResponse } from '../../types/llm.js';
 import { RateLimitError, QuotaError, NonRetryableError } from '../../types/errors.js';
 
 class TestProvider extends BaseLLMProvider {
+  protected providerName = 'Test';
+
   async generate(_messages: LLMMessage[]): Promise<LLMResponse> {
     return {
       content: 'test response',
@@ -18,12 +22,21 @@ class TestProvider extends BaseLLMProvider {
   exposeWithRetry<T>(fn: () => Promise<T>, operation: string, retries?: number): Promise<T> {
     return this.withRetry(fn, operation, retries);
   }
+
+  exposeRateLimiter() {
+    return this.rateLimiter();
+  }
+
+  exposePaced(messages: LLMMessage[], maxTokens: number, send: () => Promise<Response>): Promise<Response> {
+    return this.paced(messages, maxTokens, send);
+  }
 }
 
 vi.mock('../../utils/logger.js', () => ({
   error: vi.fn(),
   debug: vi.fn(),
   warn: vi.fn(),
+  info: vi.fn(),
 }));
 
 describe('BaseLLMProvider', () => {
@@ -74,6 +87,24 @@ describe('BaseLLMProvider', () => {
     }).toThrow('LLM API key is required');
   });
 
+  it('should cap maxTokens at the registry output limit and learn lower caps from errors', () => {
+    provider = new TestProvider('test-key', 'gpt-4o', { maxTokens: 50000 });
+    expect(provider['mergeOptions']().maxTokens).toBe(16384);
+
+    expect(provider['learnMaxTokensCap']('max_tokens is too large: 50000. This model supports at most 16384 completion tokens')).toBe(false);
+    expect(provider['learnMaxTokensCap']('This model supports at most 4096 completion tokens')).toBe(true);
+    expect(provider['mergeOptions']().maxTokens).toBe(4096);
+  });
+
+  it('should apply the models config to the registry lookup', () => {
+    provider = new TestProvider('test-key', 'my-finetune', {
+      maxTokens: 50000,
+      models: { 'my-finetune': { maxOutputTokens: 8000, supportsTemperature: false } },
+    });
+    expect(provider['mergeOptions']().maxTokens).toBe(8000);
+    expect(provider['modelInfo'].supportsTemperature).toBe(false);
+  });
+
   it('should throw error if apiKey is whitespace only', () => {
     expect(() => {
       provider = new TestProvider('   ', 'test-model');
@@ -211,5 +242,36 @@ describe('BaseLLMProvider', () => {
       expect(result).toBe('ok');
     });
   });
+
+  describe('paced', () => {
+    it('paces every instance of the model by the limits its responses report', async () => {
+      vi.useFakeTimers();
+      try {
+        const messages: LLMMessage[] = [{ role: 'user', content: 'x'.repeat(4000) }];
+        // 1000 prompt tokens + 1000 max tokens needed; 500 left, refilling 1000 per second
+        await provider.exposePaced(messages, 1000, async () => new Response('', {
+          headers: { 'x-ratelimit-limit-tokens': '60000', 'x-ratelimit-remaining-tokens': '500', 'x-ratelimit-reset-tokens': '59.5s' },
+        }));
+
+        const send = vi.fn().mockResolvedValue(new Response(''));
+        const next = new TestProvider('other-key', 'paced-model').exposePaced(messages, 1000, send);
+        const otherAccount = new TestProvider('other-key', 'test-model').exposePaced(messages, 1000, send);
+        const sibling = new TestProvider('test-key', 'test-model').exposePaced(messages, 1000, send);
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(send).toHaveBeenCalledTimes(2); // neither the other model nor another key's calls are limited
+        await vi.advanceTimersByTimeAsync(1500);
+        await Promise.all([next, otherAccount, sibling]);
+        expect(send).toHaveBeenCalledTimes(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('keys the limiter by provider name, endpoint, model and a hash of the key', () => {
+      const account = createHash('sha256').update('test-key').digest('hex').slice(0, 16);
+      expect(provider.exposeRateLimiter()).toBe(getRateLimiter(`Test::test-model:${account}`));
+    });
+  });
 });
 
@@ -1,18 +1,35 @@
+import { createHash } from 'crypto';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions, LLMProvider } from '../../types/llm.js';
 import { RateLimitError, QuotaError, NonRetryableError } from '../../types/errors.js';
 import { error, debug, warn } from '../../utils/logger.js';
+import { estimateTokens } from '../../utils/context-optimizer.js';
+import { getRateLimiter, type RateLimiter } from '../rate-limiter.js';
+import { getModelInfo, type ModelInfo, type ModelOverrides } from '../models.js';
+
+/** Defaults for every request, and the `models` config to look the model up with */
+export interface ProviderDefaults extends Partial<LLMGenerateOptions> {
+  models?: ModelOverrides;
+}
+
+/** Sampling options with defaults applied */
+export type ResolvedGenerateOptions = Required<Pick<LLMGenerateOptions, 'temperature' | 'maxTokens' | 'stopSequences'>>;
 
 export abstract class BaseLLMProvider implements LLMProvider {
   protected apiKey: string;
   protected model: string;
-  protected defaultOptions: Required<LLMGenerateOptions>;
+  protected defaultOptions: ResolvedGenerateOptions;
   protected maxRetries = 3;
   protected baseRetryDelay = 1000;
   protected maxTokensCap: number | null = null;
+  protected modelInfo: ModelInfo;
+  /** Name used in messages and rate limiter keys; stable where class names are minified */
+  protected abstract providerName: string;
 
-  constructor(apiKey: string, model: string, defaultOptions?: Partial<LLMGenerateOptions>) {
+  constructor(apiKey: string, model: string, defaultOptions?: ProviderDefaults) {
     this.apiKey = apiKey;
     this.model = model;
+    this.modelInfo = getModelInfo(model, defaultOptions?.models);
+    this.maxTokensCap = this.modelInfo.maxOutputTokens ?? null;
     this.defaultOptions = {
       temperature: defaultOptions?.temperature ?? 0.2,
       maxTokens: defaultOptions?.maxTokens ?? 4000,
@@ -22,7 +39,7 @@ export abstract class BaseLLMProvider implements LLMProvider {
 
   abstract generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse>;
 
-  protected mergeOptions(options?: LLMGenerateOptions): Required<LLMGenerateOptions> {
+  protected mergeOptions(options?: LLMGenerateOptions): ResolvedGenerateOptions {
     let maxTokens = options?.maxTokens ?? this.defaultOptions.maxTokens;
     if (this.maxTokensCap) {
       maxTokens = Math.min(maxTokens, this.maxTokensCap);
@@ -35,22 +52,49 @@ export abstract class BaseLLMProvider implements LLMProvider {
   }
 
   /**
-   * Parse a "max tokens too large" error and learn the model's cap.
-   * Returns true if a cap was learned (caller should retry), false otherwise.
+   * Parse a "max tokens too large" error and learn the model's cap, for models the registry
+   * does not know or overstates. Returns true if a lower cap was learned (caller should retry).
    */
   protected learnMaxTokensCap(errorMessage: string): boolean {
-    if (this.maxTokensCap) return false;
     const match = errorMessage.match(/supports at most (\d+)/i)
       ?? errorMessage.match(/maximum (?:of |is )?(\d+)/i)
       ?? errorMessage.match(/at most (\d+) (?:completion )?tokens/i);
-    if (match) {
-      this.maxTokensCap = parseInt(match[1], 10);
+    const cap = match ? parseInt(match[1], 10) : null;
+    if (cap && (!this.maxTokensCap || cap < this.maxTokensCap)) {
+      this.maxTokensCap = cap;
       warn(`Model ${this.model} max output tokens: ${this.maxTokensCap}. Retrying with capped value.`);
       return true;
     }
     return false;
   }
 
+  /**
+   * Where requests go, for providers with a configurable endpoint: servers and deployments have their own limits
+   */
+  protected rateLimitScope(): string {
+    return '';
+  }
+
+  /**
+   * The rate limiter shared by every provider instance calling this model on the same endpoint with the same key
+   */
+  protected rateLimiter(): RateLimiter {
+    const account = this.apiKey ? createHash('sha256').update(this.apiKey).digest('hex').slice(0, 16) : '';
+    return getRateLimiter([this.providerName, this.rateLimitScope(), this.model, account].join(':'));
+  }
+
+  /**
+   * Send a request once the rate limits allow it, and learn the limits from the response headers.
+   * The reservation counts the prompt, plus the full `maxTokens` where the token limit covers output.
+   */
+  protected async paced(messages: LLMMessage[], maxTokens: number, send: () => Promise<Response>): Promise<Response> {
+    const limiter = this.rateLimiter();
+    await limiter.acquire(messages.reduce((sum, msg) => sum + estimateTokens(msg.content), 0), maxTokens);
+    const response = await send();
+    limiter.update(response.headers);
+    return response;
+  }
+
   protected validateApiKey(): void {
     if (!this.apiKey || this.apiKey.trim().length === 0) {
       error('LLM API key is required but not provided');
@@ -62,7 +106,9 @@ export abstract class BaseLLMProvider implements LLMProvider {
     if (usage) {
       debug(
         `${operation} usage: ${usage.totalTokens ?? 'unknown'} tokens ` +
-          `(prompt: ${usage.promptTokens ?? 'unknown'}, completion: ${usage.completionTokens ?? 'unknown'})`
+          `(prompt: ${usage.promptTokens ?? 'unknown'}, completion: ${usage.completionTokens ?? 'unknown'}` +
+          `${usage.cacheReadTokens ? `, cache read: ${usage.cacheReadTokens}` : ''}` +
+          `${usage.cacheWriteTokens ? `, cache write: ${usage.cacheWriteTokens}` : ''})`
       );
     }
   }
@@ -187,6 +233,8 @@ export abstract class BaseLLMProvider implements LLMProvider {
 
         if (isRateLimit) {
           const rlErr = err as RateLimitError;
+          // Hold the other calls to this model too, instead of letting them walk into the same 429
+          this.rateLimiter().recordRateLimit(rlErr);
           if (rlErr.retryAfter && rlErr.retryAfter > 0) {
             delay = rlErr.retryAfter * 1000;
 
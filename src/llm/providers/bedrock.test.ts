@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type OutgoingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { BedrockProvider } from './bedrock.js';
+import { NonRetryableError, RateLimitError } from '../../types/errors.js';
+import { signRequest } from '../../utils/aws-sigv4.js';
+
+vi.mock('../../utils/logger.js', () => ({
+  debug: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+}));
+
+const MODEL = 'us.anthropic.claude-sonnet-4-20250514-v1:0';
+const credentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY', sessionToken: 'session' };
+
+// Responses recorded from Bedrock Runtime InvokeModel
+const RECORDED = {
+  success: {
+    status: 200,
+    body: {
+      id: 'msg_bdrk_01',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-20250514',
+      content: [{ type: 'text', text: 'generated' }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 30, output_tokens: 4 },
+    },
+  },
+  throttling: {
+    status: 429,
+    headers: { 'x-amzn-ErrorType': 'ThrottlingException:http://internal.amazon.com/coral/com.amazon.bedrock/' },
+    body: { message: 'Too many requests, please wait before trying again.' },
+  },
+  accessDenied: {
+    status: 403,
+    headers: { 'x-amzn-ErrorType': 'AccessDeniedException:http://internal.amazon.com/coral/com.amazon.coral.service/' },
+    body: { message: "You don't have access to the model with the specified model ID." },
+  },
+  expiredToken: {
+    status: 403,
+    headers: { 'x-amzn-ErrorType': 'ExpiredTokenException:http://internal.amazon.com/coral/com.amazon.coral.service/' },
+    body: { message: 'The security token included in the request is expired' },
+  },
+};
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('BedrockProvider', () => {
+  let server: Server;
+  let endpoint: string;
+  let received: ReceivedRequest[];
+  let reply: { status: number; body: unknown; headers?: OutgoingHttpHeaders };
+
+  beforeAll(async () => {
+    // Local stand-in for bedrock-runtime.<region>.amazonaws.com
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        received.push({ url: req.url ?? '', headers: req.headers, body: raw });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    reply = RECORDED.success;
+  });
+
+  function createProvider(): BedrockProvider {
+    return new BedrockProvider(MODEL, { maxTokens: 1024 }, {
+      region: 'us-west-2',
+      endpoint,
+      credentials: async () => credentials,
+    });
+  }
+
+  function invoke(provider: BedrockProvider) {
+    // Bypass withRetry so the first error surfaces directly
+    const generate = (provider as unknown as { _generate: BedrockProvider['generate'] })._generate.bind(provider);
+    return generate([
+      { role: 'system', content: 'You write tests.' },
+      { role: 'user', content: 'write a test' },
+    ]).catch((e: unknown) => e);
+  }
+
+  it('should send a SigV4-signed Anthropic messages request to the model invoke URL', async () => {
+    const result = await createProvider().generate([
+      { role: 'system', content: 'You write tests.' },
+      { role: 'user', content: 'write a test' },
+    ]);
+
+    expect(result).toEqual({
+      content: 'generated',
+      finishReason: 'stop',
+      truncated: false,
+      usage: { promptTokens: 30, completionTokens: 4, totalTokens: 34 },
+    });
+
+    const request = received[0];
+    expect(request.url).toBe('/model/us.anthropic.claude-sonnet-4-20250514-v1%3A0/invoke');
+    expect(JSON.parse(request.body)).toEqual({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: 1024,
+      temperature: 0.2,
+      system: 'You write tests.',
+      messages: [{ role: 'user', content: 'write a test' }],
+    });
+    expect(request.headers['x-amz-security-token']).toBe('session');
+
+    // Recompute the signature from what arrived on the wire
+    const amzDate = String(request.headers['x-amz-date']);
+    const signedAt = new Date(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+    const expected = signRequest(
+      {
+        method: 'POST',
+        url: `${endpoint}${request.url}`,
+        headers: { 'content-type': 'application/json', accept: 'application/json' },
+        body: request.body,
+      },
+      { credentials, region: 'us-west-2', service: 'bedrock' },
+      signedAt
+    );
+    expect(request.headers.authorization).toBe(expected.authorization);
+    expect(request.headers.authorization).toContain('/us-west-2/bedrock/aws4_request');
+  });
+
+  it('should map throttling exceptions to RateLimitError', async () => {
+    reply = RECORDED.throttling;
+
+    const err = await invoke(createProvider());
+
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect((err as Error).message).toBe(
+      'Bedrock API error: 429 Too Many Requests - Too many requests, please wait before trying again. (ThrottlingException)'
+    );
+  });
+
+  it('should map access errors to NonRetryableError', async () => {
+    reply = RECORDED.accessDenied;
+
+    const err = await invoke(createProvider());
+
+    expect(err).toBeInstanceOf(NonRetryableError);
+    expect((err as Error).message).toContain('(AccessDeniedException)');
+    expect((err as Error).message).toContain(`bedrock:InvokeModel on ${MODEL} in us-west-2`);
+  });
+
+  it('should resolve credentials again and retry once when the token has expired', async () => {
+    reply = RECORDED.expiredToken;
+    const loadCredentials = vi.fn(async () => {
+      if (loadCredentials.mock.calls.length > 1) {
+        reply = RECORDED.success;
+      }
+      return credentials;
+    });
+    const provider = new BedrockProvider(MODEL, { maxTokens: 1024 }, { region: 'us-west-2', endpoint, credentials: loadCredentials });
+
+    const result = await invoke(provider);
+
+    expect(result).toMatchObject({ content: 'generated' });
+    expect(loadCredentials).toHaveBeenCalledTimes(2);
+    expect(received).toHaveLength(2);
+
+    // A token that is still expired after the refresh is an access error
+    reply = RECORDED.expiredToken;
+    loadCredentials.mockResolvedValue(credentials);
+    const err = await invoke(provider);
+
+    expect(err).toBeInstanceOf(NonRetryableError);
+    expect((err as Error).message).toContain('(ExpiredTokenException)');
+    expect(received).toHaveLength(4);
+  });
+
+  it('should resolve temporary credentials again shortly before they expire', async () => {
+    const loadCredentials = vi.fn()
+      .mockResolvedValueOnce({ ...credentials, expiration: new Date(Date.now() + 60 * 60 * 1000) })
+      .mockResolvedValueOnce({ ...credentials, expiration: new Date(Date.now() + 60 * 1000) })
+      .mockResolvedValue(credentials);
+    const provider = new BedrockProvider(MODEL, { maxTokens: 1024 }, { region: 'us-west-2', endpoint, credentials: loadCredentials });
+
+    await invoke(provider);
+    await invoke(provider);
+    expect(loadCredentials).toHaveBeenCalledTimes(1);
+
+    // Within the refresh margin of the expiry: look them up again
+    loadCredentials.mockClear();
+    const expiring = new BedrockProvider(MODEL, { maxTokens: 1024 }, { region: 'us-west-2', endpoint, credentials: loadCredentials });
+    await invoke(expiring);
+    await invoke(expiring);
+    expect(loadCredentials).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report truncation when the model hits max_tokens', async () => {
+    reply = { status: 200, body: { ...RECORDED.success.body, stop_reason: 'max_tokens' } };
+
+    const result = await createProvider().generate([{ role: 'user', content: 'hi' }]);
+
+    expect(result).toMatchObject({ finishReason: 'max_tokens', truncated: true });
+  });
+});
@@ -0,0 +1,238 @@
+import { BaseLLMProvider, type ProviderDefaults } from './base.js';
+import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../types/llm.js';
+import { NonRetryableError, RateLimitError } from '../../types/errors.js';
+import { resolveAwsCredentials } from '../../utils/aws-credentials.js';
+import { signRequest, type AwsCredentials } from '../../utils/aws-sigv4.js';
+import { error, debug, warn } from '../../utils/logger.js';
+
+/** Anthropic messages API version Bedrock expects in the request body */
+const BEDROCK_ANTHROPIC_VERSION = 'bedrock-2023-05-31';
+
+/** Temporary credentials are fetched again this long before they expire */
+const CREDENTIALS_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const THROTTLING_ERRORS = new Set(['ThrottlingException', 'TooManyRequestsException', 'ModelNotReadyException']);
+
+const ACCESS_ERRORS = new Set([
+  'AccessDeniedException',
+  'UnrecognizedClientException',
+  'ExpiredTokenException',
+  'InvalidSignatureException',
+  'IncompleteSignatureException',
+  'MissingAuthenticationTokenException',
+]);
+
+interface BedrockAnthropicRequest {
+  anthropic_version: string;
+  max_tokens: number;
+  temperature?: number;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  system?: string;
+  stop_sequences?: string[];
+}
+
+interface BedrockAnthropicResponse {
+  content?: Array<{
+    type: string;
+    text?: string;
+  }>;
+  stop_reason?: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/** Endpoint settings for Bedrock Runtime */
+export interface BedrockConnectionOptions {
+  region: string;
+  /** Overrides the regional endpoint, e.g. a VPC interface endpoint */
+  endpoint?: string;
+  /** Extra headers sent (and signed) with every request */
+  headers?: Record<string, string>;
+  /** Credential source; defaults to the standard AWS environment/shared-file chain */
+  credentials?: () => Promise<AwsCredentials>;
+}
+
+/**
+ * Anthropic models on AWS Bedrock. Requests are signed with SigV4; the model is a Bedrock
+ * model ID or inference profile (e.g. us.anthropic.claude-sonnet-4-20250514-v1:0).
+ */
+export class BedrockProvider extends BaseLLMProvider {
+  private region: string;
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private loadCredentials: () => Promise<AwsCredentials>;
+  private credentials: Promise<AwsCredentials> | null = null;
+  private credentialsRefreshAt = Infinity;
+  protected providerName = 'Bedrock';
+
+  constructor(model: string, defaultOptions: ProviderDefaults | undefined, connection: BedrockConnectionOptions) {
+    // Bedrock authenticates with AWS credentials, not an API key
+    super('', model, defaultOptions);
+    this.region = connection.region;
+    this.endpoint = (connection.endpoint ?? `https://bedrock-runtime.${connection.region}.amazonaws.com`).replace(/\/+$/, '');
+    this.headers = connection.headers ?? {};
+    this.loadCredentials = connection.credentials ?? resolveAwsCredentials;
+  }
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.withRetry(() => this._generate(messages, options), 'Bedrock API request');
+  }
+
+  protected rateLimitScope(): string {
+    return this.endpoint;
+  }
+
+  private getCredentials(): Promise<AwsCredentials> {
+    if (this.credentials && Date.now() < this.credentialsRefreshAt) {
+      return this.credentials;
+    }
+    const credentials = this.loadCredentials();
+    this.credentials = credentials;
+    this.credentialsRefreshAt = Infinity;
+    credentials.then(
+      ({ expiration }) => {
+        if (expiration && this.credentials === credentials) {
+          this.credentialsRefreshAt = expiration.getTime() - CREDENTIALS_REFRESH_MARGIN_MS;
+        }
+      },
+      // Let a later call retry a failed lookup
+      () => {
+        if (this.credentials === credentials) {
+          this.credentials = null;
+        }
+      }
+    );
+    return credentials;
+  }
+
+  /**
+   * @param credentialsRefreshed Set on the retry after an expired token, so it is only retried once
+   */
+  private async _generate(messages: LLMMessage[], options?: LLMGenerateOptions, credentialsRefreshed = false): Promise<LLMResponse> {
+    const credentials = await this.getCredentials();
+    const mergedOptions = this.mergeOptions(options);
+
+    // Like the Anthropic API, the system message is separate
+    const systemMessage = messages.find((m) => m.role === 'system')?.content ?? '';
+    const conversationMessages = messages.filter((m) => m.role !== 'system');
+
+    const requestBody: BedrockAnthropicRequest = {
+      anthropic_version: BEDROCK_ANTHROPIC_VERSION,
+      max_tokens: mergedOptions.maxTokens,
+      ...(this.modelInfo.supportsTemperature && { temperature: mergedOptions.temperature }),
+      messages: conversationMessages.map((msg) => ({
+        role: msg.role === 'assistant' ? 'assistant' : 'user',
+        content: msg.content,
+      })),
+      ...(systemMessage && { system: systemMessage }),
+      ...(mergedOptions.stopSequences.length > 0 && { stop_sequences: mergedOptions.stopSequences }),
+    };
+
+    debug(`Calling Bedrock API with model: ${this.model} (${this.region})`);
+
+    const url = `${this.endpoint}/model/${encodeURIComponent(this.model)}/invoke`;
+    const body = JSON.stringify(requestBody);
+    const headers = signRequest(
+      {
+        method: 'POST',
+        url,
+        headers: { 'content-type': 'application/json', accept: 'application/json', ...this.headers },
+        body,
+      },
+      { credentials, region: this.region, service: 'bedrock' }
+    );
+    // fetch sets Host itself
+    const { host: _host, ...fetchHeaders } = headers;
+
+    const response = await this.paced(messages, mergedOptions.maxTokens, () => fetch(url, { method: 'POST', headers: fetchHeaders, body, signal: options?.signal }));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorMessage = `Bedrock API error: ${response.status} ${response.statusText}`;
+      let errorType = response.headers.get('x-amzn-errortype')?.split(':')[0] ?? '';
+
+      try {
+        const errorData = JSON.parse(errorText) as { message?: string; Message?: string; __type?: string };
+        const message = errorData.message ?? errorData.Message;
+        if (message) {
+          errorMessage += ` - ${message}`;
+        }
+        if (!errorType && errorData.__type) {
+          errorType = errorData.__type.split('#').pop() ?? '';
+        }
+      } catch {
+        if (errorText) {
+          errorMessage += ` - ${errorText.substring(0, 200)}`;
+        }
+      }
+      if (errorType) {
+        errorMessage += ` (${errorType})`;
+      }
+
+      if (THROTTLING_ERRORS.has(errorType) || response.status === 429) {
+        const retryAfter = parseFloat(response.headers.get('retry-after') ?? '');
+        throw new RateLimitError(errorMessage, { retryAfter: Number.isFinite(retryAfter) ? retryAfter : null });
+      }
+
+      // Credentials can expire mid-run (or be rotated on disk); look them up again once
+      if (errorType === 'ExpiredTokenException' && !credentialsRefreshed) {
+        debug('Bedrock credentials expired; resolving them again');
+        this.credentials = null;
+        return this._generate(messages, options, true);
+      }
+
+      if (ACCESS_ERRORS.has(errorType) || response.status === 403) {
+        error(errorMessage);
+        throw new NonRetryableError(
+          `${errorMessage}\n\nCheck that the AWS credentials are valid and allowed to call bedrock:InvokeModel on ${this.model} in ${this.region}.`
+        );
+      }
+
+      if (response.status === 400 && this.learnMaxTokensCap(errorMessage)) {
+        return this._generate(messages, options, credentialsRefreshed);
+      }
+
+      error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    const data = (await response.json()) as BedrockAnthropicResponse;
+
+    if (!data.content || data.content.length === 0) {
+      error('Bedrock API returned no content');
+      throw new Error('Bedrock API returned no content');
+    }
+
+    const content = data.content.filter((c) => c.type === 'text').map((c) => c.text ?? '').join('\n');
+    // InvokeModel does not stream; deliver the whole text at once
+    options?.onToken?.(content);
+    const stopReason = data.stop_reason;
+
+    // Normalize to the OpenAI-style finish reasons used elsewhere
+    const finishReason = stopReason === 'end_turn' ? 'stop' : stopReason;
+    const truncated = stopReason === 'max_tokens';
+
+    const usage = data.usage
+      ? {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        }
+      : undefined;
+
+    this.logUsage(usage, 'Bedrock');
+
+    if (truncated) {
+      warn(`Response truncated (stop_reason: ${stopReason}). Output may be incomplete.`);
+    }
+
+    return {
+      content,
+      finishReason,
+      truncated,
+      usage,
+    };
+  }
+}
@@ -7,6 +7,7 @@ vi.mock('./base.js', () => ({
     protected apiKey: string;
     protected model: string;
     protected validateApiKey = vi.fn();
+    protected modelInfo = { contextWindow: 128000, supportsTemperature: true, tokenParam: 'max_tokens' };
     protected mergeOptions = vi.fn().mockReturnValue({
       temperature: 0.2,
       maxTokens: 4000,
@@ -15,6 +16,7 @@ vi.mock('./base.js', () => ({
     protected logUsage = vi.fn();
     protected parse429Error = vi.fn();
     protected async withRetry<T>(fn: () => Promise<T>): Promise<T> { return fn(); }
+    protected async paced(_messages: unknown, _maxTokens: number, send: () => Promise<Response>): Promise<Response> { return send(); }
     constructor(apiKey: string, model: string) {
       this.apiKey = apiKey;
       this.model = model;
@@ -98,6 +100,38 @@ describe('GoogleProvider', () => {
     expect(body.contents[0].role).toBe('user');
   });
 
+  it('should send a structured output schema in Gemini form', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ candidates: [{ content: { parts: [{ text: '{"testCode":"x"}' }] }, finishReason: 'STOP' }] }),
+    } as Response);
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], {
+      responseSchema: {
+        name: 'submit_tests',
+        description: 'Submit tests',
+        schema: {
+          type: 'object',
+          properties: { testCode: { type: 'string' }, testCases: { type: 'array', items: { type: 'string' } } },
+          required: ['testCode'],
+          additionalProperties: false,
+        },
+      },
+    });
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: 'OBJECT',
+        properties: { testCode: { type: 'STRING' }, testCases: { type: 'ARRAY', items: { type: 'STRING' } } },
+        required: ['testCode'],
+      },
+    });
+    expect(body.generationConfig.responseSchema).not.toHaveProperty('additionalProperties');
+    expect(result.content).toBe('{"testCode":"x"}');
+  });
+
   it('should handle API errors', async () => {
     vi.mocked(fetch).mockResolvedValue({
       ok: false,
@@ -131,5 +165,28 @@ describe('GoogleProvider', () => {
     const messages: LLMMessage[] = [{ role: 'user', content: 'test' }];
     await expect(provider.generate(messages)).rejects.toThrow('no candidates');
   });
-});
 
+  it('should stream from streamGenerateContent and merge the chunks', async () => {
+    const chunks = [
+      { candidates: [{ content: { parts: [{ text: 'import' }], role: 'model' } }] },
+      { candidates: [{ content: { parts: [{ text: " { x } from './x';" }], role: 'model' }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 6, totalTokenCount: 14 } },
+    ];
+    const sse = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\r\n\r\n`).join('');
+    vi.mocked(fetch).mockResolvedValue(new Response(sse));
+    const onToken = vi.fn();
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], { onToken });
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:streamGenerateContent?alt=sse'
+    );
+    expect(onToken).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      content: "import { x } from './x';",
+      finishReason: 'stop',
+      truncated: false,
+      usage: { promptTokens: 8, completionTokens: 6, totalTokens: 14 },
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { BaseLLMProvider } from './base.js';
+import { readServerSentEvents } from './sse.js';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../types/llm.js';
 import { NonRetryableError } from '../../types/errors.js';
 import { error, debug, warn } from '../../utils/logger.js';
@@ -13,9 +14,11 @@ interface GoogleContent {
 }
 
 interface GoogleGenerationConfig {
-  temperature: number;
+  temperature?: number;
   maxOutputTokens: number;
   stopSequences?: string[];
+  responseMimeType?: 'application/json';
+  responseSchema?: Record<string, unknown>;
 }
 
 interface GoogleSystemInstruction {
@@ -44,8 +47,33 @@ interface GoogleResponse {
   };
 }
 
+/**
+ * Convert a JSON Schema to Gemini's OpenAPI-style schema: upper-case type names and no additionalProperties
+ */
+function toGoogleSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties') {
+      continue;
+    }
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toUpperCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, property]) => [name, toGoogleSchema(property)])
+      );
+    } else if (key === 'items' && value && typeof value === 'object') {
+      converted.items = toGoogleSchema(value as Record<string, unknown>);
+    } else {
+      converted[key] = value;
+    }
+  }
+  return converted;
+}
+
 export class GoogleProvider extends BaseLLMProvider {
   private baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  protected providerName = 'Google';
 
   async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
     return this.withRetry(() => this._generate(messages, options), 'Google API request');
@@ -64,9 +92,13 @@ export class GoogleProvider extends BaseLLMProvider {
     }));
 
     const generationConfig: GoogleGenerationConfig = {
-      temperature: mergedOptions.temperature,
+      ...(this.modelInfo.supportsTemperature && { temperature: mergedOptions.temperature }),
       maxOutputTokens: mergedOptions.maxTokens,
       ...(mergedOptions.stopSequences.length > 0 && { stopSequences: mergedOptions.stopSequences }),
+      ...(options?.responseSchema && {
+        responseMimeType: 'application/json',
+        responseSchema: toGoogleSchema(options.responseSchema.schema),
+      }),
     };
 
     const requestBody: GoogleRequest = {
@@ -77,14 +109,17 @@ export class GoogleProvider extends BaseLLMProvider {
 
     debug(`Calling Google API with model: ${this.model}`);
 
-    const response = await fetch(`${this.baseUrl}/models/${this.model}:generateContent`, {
+    // The streaming endpoint sends one GenerateContentResponse chunk per SSE event
+    const endpoint = options?.onToken ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    const response = await this.paced(messages, mergedOptions.maxTokens, () => fetch(`${this.baseUrl}/models/${this.model}:${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'x-goog-api-key': this.apiKey,
       },
       body: JSON.stringify(requestBody),
-    });
+      signal: options?.signal,
+    }));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -123,7 +158,9 @@ export class GoogleProvider extends BaseLLMProvider {
       throw new Error(errorMessage);
     }
 
-    const data = (await response.json()) as GoogleResponse;
+    const data = options?.onToken && response.body
+      ? await this.readStream(response.body, options.onToken)
+      : (await response.json()) as GoogleResponse;
 
     if (!data.candidates || data.candidates.length === 0) {
       error('Google API returned no candidates');
@@ -160,4 +197,32 @@ export class GoogleProvider extends BaseLLMProvider {
       usage,
     };
   }
+
+  /**
+   * Merge streamed chunks into one response, passing each text part to onToken.
+   * Each chunk carries new text; finishReason and cumulative usage arrive on the last one.
+   */
+  private async readStream(body: ReadableStream<Uint8Array>, onToken: (delta: string) => void): Promise<GoogleResponse> {
+    let text = '';
+    let finishReason = '';
+    let usageMetadata: GoogleResponse['usageMetadata'];
+
+    for await (const { data } of readServerSentEvents(body)) {
+      const chunk = JSON.parse(data) as Partial<GoogleResponse>;
+      const candidate = chunk.candidates?.[0];
+      for (const part of candidate?.content?.parts ?? []) {
+        if (part.text) {
+          text += part.text;
+          onToken(part.text);
+        }
+      }
+      finishReason = candidate?.finishReason ?? finishReason;
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+    }
+
+    return {
+      candidates: text || finishReason ? [{ content: { parts: [{ text }] }, finishReason }] : [],
+      usageMetadata,
+    };
+  }
 }
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+
+vi.mock('../../utils/logger.js', () => ({
+  debug: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+}));
+
+interface ReceivedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let reply: { status: number; body: unknown; stream?: unknown[] };
+
+  beforeAll(async () => {
+    // Stands in for a local vLLM/Ollama/LM Studio server
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        if (reply.stream) {
+          // Send the events and keep the connection open, like a model that never stops
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write(reply.stream.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join(''));
+          return;
+        }
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    reply = {
+      status: 200,
+      body: {
+        choices: [{ message: { role: 'assistant', content: 'generated' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      },
+    };
+  });
+
+  it('should post chat completions to the configured base URL with custom headers', async () => {
+    const provider = new OpenAICompatibleProvider('', 'qwen2.5-coder:32b', { maxTokens: 2000 }, {
+      baseUrl: `${baseUrl}/`,
+      headers: { 'X-Team': 'security' },
+    });
+
+    const result = await provider.generate([{ role: 'user', content: 'write a test' }]);
+
+    expect(result).toEqual({
+      content: 'generated',
+      finishReason: 'stop',
+      truncated: false,
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+    });
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/v1/chat/completions');
+    expect(received[0].headers['x-team']).toBe('security');
+    // No key configured: no Authorization header
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(received[0].body).toMatchObject({
+      model: 'qwen2.5-coder:32b',
+      max_tokens: 2000,
+      messages: [{ role: 'user', content: 'write a test' }],
+    });
+  });
+
+  it('should send the key as a bearer token when one is set', async () => {
+    const provider = new OpenAICompatibleProvider('local-secret', 'gpt-5-local', undefined, { baseUrl });
+
+    await provider.generate([{ role: 'system', content: 'be brief', cache: true }, { role: 'user', content: 'hi' }]);
+
+    expect(received[0].headers.authorization).toBe('Bearer local-secret');
+    // Model names are the server's; never switch to max_completion_tokens
+    expect(received[0].body).toHaveProperty('max_tokens');
+    expect(received[0].body).not.toHaveProperty('max_completion_tokens');
+    expect(received[0].body).toHaveProperty('temperature');
+    // OpenAI-only parameter that strict servers reject
+    expect(received[0].body).not.toHaveProperty('prompt_cache_key');
+  });
+
+  it('should degrade gracefully without usage or finish_reason', async () => {
+    reply.body = { choices: [{ message: { role: 'assistant', content: null } }] };
+    const provider = new OpenAICompatibleProvider('', 'llama3.1', undefined, { baseUrl });
+
+    const result = await provider.generate([{ role: 'user', content: 'hi' }]);
+
+    expect(result).toEqual({ content: '', finishReason: undefined, truncated: false, usage: undefined });
+  });
+
+  it('should label server errors with the provider name', async () => {
+    reply = { status: 404, body: { error: { message: 'model "llama9" not found' } } };
+    const provider = new OpenAICompatibleProvider('', 'llama9', undefined, { baseUrl });
+
+    await expect(provider.generate([{ role: 'user', content: 'hi' }]))
+      .rejects.toThrow('OpenAI-compatible API error: 404 Not Found - model "llama9" not found');
+  });
+
+  it('should name the endpoint when the server is unreachable', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+    const provider = new OpenAICompatibleProvider('', 'llama3.1', undefined, { baseUrl: `http://127.0.0.1:${port}/v1` });
+
+    await expect(provider.generate([{ role: 'user', content: 'hi' }]))
+      .rejects.toThrow(`Could not reach OpenAI-compatible API at http://127.0.0.1:${port}/v1/chat/completions`);
+  });
+
+  it('should stop reading a stream as soon as the caller aborts', async () => {
+    reply.stream = [
+      { choices: [{ delta: { content: 'it(' } }] },
+      { choices: [{ delta: { content: "'loops'" } }] },
+    ];
+    const provider = new OpenAICompatibleProvider('', 'llama3.1', undefined, { baseUrl });
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const result = provider.generate([{ role: 'user', content: 'hi' }], {
+      signal: controller.signal,
+      onToken: delta => {
+        tokens.push(delta);
+        if (tokens.length === 2) {
+          controller.abort();
+        }
+      },
+    });
+
+    await expect(result).rejects.toThrow(/aborted/i);
+    expect(tokens).toEqual(['it(', "'loops'"]);
+    expect(received[0].body).toMatchObject({ stream: true });
+  });
+});
@@ -0,0 +1,26 @@
+import { OpenAIProvider } from './openai.js';
+
+/**
+ * Self-hosted servers that speak the OpenAI chat completions API (vLLM, Ollama, LM Studio).
+ * The API key is optional, and the token limit and temperature are always sent the classic way:
+ * model names are the server's, so the registry's OpenAI quirks do not apply.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  protected providerName = 'OpenAI-compatible';
+
+  protected usesMaxCompletionTokens(): boolean {
+    return false;
+  }
+
+  protected sendsTemperature(): boolean {
+    return true;
+  }
+
+  protected sendsPromptCacheKey(): boolean {
+    return false;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+}
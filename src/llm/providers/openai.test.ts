@@ -5,6 +5,7 @@ import type { LLMMessage } from '../../types/llm.js';
 vi.mock('./base.js', () => ({
   BaseLLMProvider: class {
     protected validateApiKey = vi.fn();
+    protected modelInfo = { contextWindow: 128000, supportsTemperature: true, tokenParam: 'max_tokens' };
     protected mergeOptions = vi.fn().mockReturnValue({
       temperature: 0.2,
       maxTokens: 4000,
@@ -13,6 +14,7 @@ vi.mock('./base.js', () => ({
     protected logUsage = vi.fn();
     protected parse429Error = vi.fn();
     protected async withRetry<T>(fn: () => Promise<T>): Promise<T> { return fn(); }
+    protected async paced(_messages: unknown, _maxTokens: number, send: () => Promise<Response>): Promise<Response> { return send(); }
   },
 }));
 
@@ -108,5 +110,78 @@ describe('OpenAIProvider', () => {
     const body = JSON.parse(call?.body as string);
     expect(body.stop).toEqual(['stop']);
   });
-});
 
+  it('should key the cached prefix and report cached prompt tokens', async () => {
+    vi.mocked(fetch).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { role: 'assistant', content: 'fixed' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5000, completion_tokens: 40, total_tokens: 5040, prompt_tokens_details: { cached_tokens: 4608 } },
+      }),
+    } as Response));
+    const prefix: LLMMessage[] = [
+      { role: 'system', content: 'system prompt', cache: true },
+      { role: 'user', content: 'source code', cache: true },
+    ];
+
+    const result = await provider.generate([...prefix, { role: 'user', content: 'attempt 1' }]);
+    await provider.generate([...prefix, { role: 'user', content: 'attempt 2' }]);
+    await provider.generate([{ role: 'user', content: 'uncached' }]);
+
+    const bodies = vi.mocked(fetch).mock.calls.map(([, init]) => JSON.parse(init?.body as string));
+    expect(bodies[0].messages).toEqual([
+      { role: 'system', content: 'system prompt' },
+      { role: 'user', content: 'source code' },
+      { role: 'user', content: 'attempt 1' },
+    ]);
+    expect(bodies[0].prompt_cache_key).toMatch(/^kakarot-[0-9a-f]{32}$/);
+    expect(bodies[1].prompt_cache_key).toBe(bodies[0].prompt_cache_key);
+    expect(bodies[2]).not.toHaveProperty('prompt_cache_key');
+    expect(result.usage).toEqual({ promptTokens: 5000, completionTokens: 40, totalTokens: 5040, cacheReadTokens: 4608 });
+  });
+
+  it('should request a strict json_schema response format', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { role: 'assistant', content: '{"testCode":"x"}' }, finish_reason: 'stop' }] }),
+    } as Response);
+    const schema = { type: 'object', properties: { testCode: { type: 'string' } }, required: ['testCode'], additionalProperties: false };
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], {
+      responseSchema: { name: 'submit_tests', description: 'Submit tests', schema },
+    });
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'submit_tests', description: 'Submit tests', schema, strict: true },
+    });
+    expect(result.content).toBe('{"testCode":"x"}');
+  });
+
+  it('should stream content deltas to onToken and read usage from the final chunk', async () => {
+    const sse = [
+      'data: {"choices":[{"delta":{"role":"assistant","content":""},"finish_reason":null}]}',
+      'data: {"choices":[{"delta":{"content":"it(\'adds\'"},"finish_reason":null}]}',
+      'data: {"choices":[{"delta":{"content":", () => {});"},"finish_reason":null}]}',
+      'data: {"choices":[{"delta":{},"finish_reason":"stop"}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":6,"total_tokens":18}}',
+      'data: [DONE]',
+      '',
+    ].join('\n\n');
+    vi.mocked(fetch).mockResolvedValue(new Response(sse));
+    const onToken = vi.fn();
+
+    const result = await provider.generate([{ role: 'user', content: 'test' }], { onToken });
+
+    expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(["it('adds'", ', () => {});']);
+    expect(result).toEqual({
+      content: "it('adds', () => {});",
+      finishReason: 'stop',
+      truncated: false,
+      usage: { promptTokens: 12, completionTokens: 6, totalTokens: 18 },
+    });
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+});
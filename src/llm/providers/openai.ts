@@ -1,4 +1,6 @@
-import { BaseLLMProvider } from './base.js';
+import { createHash } from 'crypto';
+import { BaseLLMProvider, type ProviderDefaults } from './base.js';
+import { readServerSentEvents } from './sse.js';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../types/llm.js';
 import { error, debug, warn } from '../../utils/logger.js';
 
@@ -6,35 +8,119 @@ interface OpenAIResponse {
   choices: Array<{
     message: {
       role: string;
-      content: string;
+      content: string | null;
     };
-    finish_reason: string;
+    // Some OpenAI-compatible servers omit finish_reason and usage
+    finish_reason?: string | null;
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  /** Prompt tokens served from the automatic prefix cache */
+  prompt_tokens_details?: { cached_tokens?: number } | null;
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+/** Endpoint settings for OpenAI and OpenAI-compatible servers */
+export interface OpenAIConnectionOptions {
+  /** API root the `/chat/completions` path is appended to */
+  baseUrl?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Key that routes requests sharing the same cached prefix to the same cache, or undefined without one.
+ * OpenAI caches prefixes automatically; prompt builders keep the stable messages first so they match.
+ */
+function promptCacheKey(messages: LLMMessage[]): string | undefined {
+  const prefixEnd = messages.map((msg) => msg.cache === true).lastIndexOf(true);
+  if (prefixEnd < 0) {
+    return undefined;
+  }
+  const prefix = messages.slice(0, prefixEnd + 1).map(({ role, content }) => ({ role, content }));
+  return `kakarot-${createHash('sha256').update(JSON.stringify(prefix)).digest('hex').slice(0, 32)}`;
 }
 
 export class OpenAIProvider extends BaseLLMProvider {
-  private baseUrl = 'https://api.openai.com/v1';
+  protected baseUrl: string;
+  protected headers: Record<string, string>;
+  protected providerName = 'OpenAI';
+
+  constructor(
+    apiKey: string,
+    model: string,
+    defaultOptions?: ProviderDefaults,
+    connection: OpenAIConnectionOptions = {}
+  ) {
+    super(apiKey, model, defaultOptions);
+    this.baseUrl = (connection.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.headers = connection.headers ?? {};
+  }
 
   async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
-    return this.withRetry(() => this._generate(messages, options), 'OpenAI API request');
+    return this.withRetry(() => this._generate(messages, options), `${this.providerName} API request`);
   }
 
-  private async _generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+  /**
+   * Whether the model takes max_completion_tokens instead of max_tokens (GPT-5 and the o-series)
+   */
+  protected usesMaxCompletionTokens(): boolean {
+    return this.modelInfo.tokenParam === 'max_completion_tokens';
+  }
+
+  /**
+   * Whether to send temperature; reasoning models reject anything but the default
+   */
+  protected sendsTemperature(): boolean {
+    return this.modelInfo.supportsTemperature;
+  }
+
+  /**
+   * Whether the endpoint accepts prompt_cache_key; servers that don't may reject unknown parameters
+   */
+  protected sendsPromptCacheKey(): boolean {
+    return true;
+  }
+
+  protected rateLimitScope(): string {
+    return this.baseUrl;
+  }
+
+  protected authHeaders(): Record<string, string> {
     this.validateApiKey();
+    return { Authorization: `Bearer ${this.apiKey}` };
+  }
+
+  protected chatCompletionsUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  /**
+   * Seconds to wait before retrying a 429, as sent by the server
+   */
+  protected retryAfter(headers: Headers): string | null {
+    return headers.get('retry-after');
+  }
+
+  private async _generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const authHeaders = this.authHeaders();
     const mergedOptions = this.mergeOptions(options);
 
-    // GPT-5 and newer models use max_completion_tokens instead of max_tokens
-    const isGPT5OrNewer = this.model && (
-      this.model.startsWith('gpt-5') || 
-      this.model.startsWith('o1') || 
-      this.model.startsWith('o3')
-    );
-    const tokenParam = isGPT5OrNewer ? 'max_completion_tokens' : 'max_tokens';
+    const tokenParam = this.usesMaxCompletionTokens() ? 'max_completion_tokens' : 'max_tokens';
     
     const requestBody: Record<string, unknown> = {
       model: this.model,
@@ -42,26 +128,66 @@ export class OpenAIProvider extends BaseLLMProvider {
         role: msg.role,
         content: msg.content,
       })),
-      ...(!isGPT5OrNewer && { temperature: mergedOptions.temperature }),
+      ...(this.sendsTemperature() && { temperature: mergedOptions.temperature }),
       ...(mergedOptions.stopSequences.length > 0 && { stop: mergedOptions.stopSequences }),
     };
     
     requestBody[tokenParam] = mergedOptions.maxTokens;
 
-    debug(`Calling OpenAI API with model: ${this.model}`);
+    if (options?.responseSchema) {
+      // Strict mode guarantees the content parses and matches the schema
+      requestBody.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: options.responseSchema.name,
+          description: options.responseSchema.description,
+          schema: options.responseSchema.schema,
+          strict: true,
+        },
+      };
+    }
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
+    const cacheKey = this.sendsPromptCacheKey() ? promptCacheKey(messages) : undefined;
+    if (cacheKey) {
+      requestBody.prompt_cache_key = cacheKey;
+    }
+
+    if (options?.onToken) {
+      requestBody.stream = true;
+      // Usage arrives in a final chunk only when requested
+      requestBody.stream_options = { include_usage: true };
+    }
+
+    debug(`Calling ${this.providerName} API with model: ${this.model}`);
+
+    const url = this.chatCompletionsUrl();
+    let response: Response;
+    try {
+      response = await this.paced(messages, mergedOptions.maxTokens, () => fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders,
+          ...this.headers,
+        },
+        body: JSON.stringify(requestBody),
+        signal: options?.signal,
+      }));
+    } catch (err) {
+      if (options?.signal?.aborted) {
+        throw err;
+      }
+      // Name the endpoint: with a custom baseUrl, "fetch failed" alone rarely says what is wrong
+      const cause = (err as { cause?: unknown } | null)?.cause;
+      const causeMessage = cause instanceof Error ? cause.message : undefined;
+      throw new Error(
+        `Could not reach ${this.providerName} API at ${url}: ${err instanceof Error ? err.message : String(err)}${causeMessage ? ` (${causeMessage})` : ''}`
+      );
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      let errorMessage = `OpenAI API error: ${response.status} ${response.statusText}`;
+      let errorMessage = `${this.providerName} API error: ${response.status} ${response.statusText}`;
       
       try {
         const errorData = JSON.parse(errorText);
@@ -75,7 +201,7 @@ export class OpenAIProvider extends BaseLLMProvider {
       }
 
       if (response.status === 429) {
-        this.parse429Error(errorText, errorMessage, response.headers.get('retry-after'), 'OpenAI');
+        this.parse429Error(errorText, errorMessage, this.retryAfter(response.headers), this.providerName);
       }
 
       if (response.status === 400 && this.learnMaxTokensCap(errorMessage)) {
@@ -86,26 +212,24 @@ export class OpenAIProvider extends BaseLLMProvider {
       throw new Error(errorMessage);
     }
 
-    const data = (await response.json()) as OpenAIResponse;
-
-    if (!data.choices || data.choices.length === 0) {
-      error('OpenAI API returned no choices');
-      throw new Error('OpenAI API returned no choices');
-    }
-
-    const content = data.choices[0]?.message?.content ?? '';
-    const finishReason = data.choices[0]?.finish_reason;
+    const { content, finishReason, usage: rawUsage } = options?.onToken && response.body
+      ? await this.readStream(response.body, options.onToken)
+      : await this.readJson(response);
     const truncated = finishReason === 'length';
-    
-    const usage = data.usage
+
+    const usage = rawUsage
       ? {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens,
+          promptTokens: rawUsage.prompt_tokens,
+          completionTokens: rawUsage.completion_tokens,
+          totalTokens: rawUsage.total_tokens
+            ?? (rawUsage.prompt_tokens !== undefined && rawUsage.completion_tokens !== undefined
+              ? rawUsage.prompt_tokens + rawUsage.completion_tokens
+              : undefined),
+          ...(rawUsage.prompt_tokens_details?.cached_tokens && { cacheReadTokens: rawUsage.prompt_tokens_details.cached_tokens }),
         }
       : undefined;
 
-    this.logUsage(usage, 'OpenAI');
+    this.logUsage(usage, this.providerName);
     
     if (truncated) {
       warn(`Response truncated (finish_reason: ${finishReason}). Output may be incomplete.`);
@@ -118,4 +242,51 @@ export class OpenAIProvider extends BaseLLMProvider {
       usage,
     };
   }
+
+  private async readJson(response: Response): Promise<{ content: string; finishReason?: string; usage?: OpenAIUsage }> {
+    const data = (await response.json()) as OpenAIResponse;
+
+    if (!data.choices || data.choices.length === 0) {
+      error(`${this.providerName} API returned no choices`);
+      throw new Error(`${this.providerName} API returned no choices`);
+    }
+
+    return {
+      content: data.choices[0]?.message?.content ?? '',
+      finishReason: data.choices[0]?.finish_reason ?? undefined,
+      usage: data.usage,
+    };
+  }
+
+  /**
+   * Accumulate a `stream: true` response, passing each content delta to onToken
+   */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onToken: (delta: string) => void
+  ): Promise<{ content: string; finishReason?: string; usage?: OpenAIUsage }> {
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: OpenAIUsage | undefined;
+
+    for await (const { data } of readServerSentEvents(body)) {
+      if (data === '[DONE]') {
+        break;
+      }
+      const chunk = JSON.parse(data) as OpenAIStreamChunk & { error?: { message?: string } };
+      if (chunk.error) {
+        throw new Error(`${this.providerName} API stream error: ${chunk.error.message ?? data}`);
+      }
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      finishReason = choice?.finish_reason ?? finishReason;
+      usage = chunk.usage ?? usage;
+    }
+
+    return { content, finishReason, usage };
+  }
 }
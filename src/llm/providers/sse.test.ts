@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { readServerSentEvents, type ServerSentEvent } from './sse.js';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: string[]): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('should reassemble events split across chunks', async () => {
+    const events = await collect(['data: {"a":', '1}\n', '\ndata: [DONE]\n\n']);
+
+    expect(events).toEqual([{ event: undefined, data: '{"a":1}' }, { event: undefined, data: '[DONE]' }]);
+  });
+
+  it('should read event types, CRLF line endings, comments and multi-line data', async () => {
+    const events = await collect([
+      ': keep-alive\r\n\r\n',
+      'event: content_block_delta\r\ndata: line one\r\ndata: line two\r\n\r\n',
+    ]);
+
+    expect(events).toEqual([{ event: 'content_block_delta', data: 'line one\nline two' }]);
+  });
+
+  it('should dispatch a final event that is not followed by a blank line', async () => {
+    const events = await collect(['data: first\n\n', 'data: last']);
+
+    expect(events.map(e => e.data)).toEqual(['first', 'last']);
+  });
+});
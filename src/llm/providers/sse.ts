@@ -0,0 +1,71 @@
+/**
+ * Server-sent events parsing for streamed LLM responses
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+export interface ServerSentEvent {
+  /** Event type from an `event:` line, if any */
+  event?: string;
+  data: string;
+}
+
+/**
+ * Yield each event from an SSE response body as it arrives
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  function* processLine(line: string): Generator<ServerSentEvent> {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      // The last element is an incomplete line (or '' after a trailing newline)
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        yield* processLine(line);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) {
+      yield* processLine(buffer);
+    }
+    // A stream may end without the blank line that dispatches the final event
+    yield* processLine('');
+  } finally {
+    // Frees the connection when the caller stops reading early (e.g. after [DONE])
+    await reader.cancel().catch(() => undefined);
+  }
+}
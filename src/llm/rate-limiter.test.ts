@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter, getRateLimiter, parseResetMs, readRateLimitHeaders } from './rate-limiter.js';
+import { RateLimitError } from '../types/errors.js';
+
+vi.mock('../utils/logger.js', () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+}));
+
+describe('rate-limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should parse durations, seconds and timestamps as reset times', () => {
+    expect(parseResetMs('6m0s')).toBe(360000);
+    expect(parseResetMs('2m59.5s')).toBe(179500);
+    expect(parseResetMs('20ms')).toBe(20);
+    expect(parseResetMs('1h')).toBe(3600000);
+    expect(parseResetMs('12')).toBe(12000);
+    expect(parseResetMs('2026-01-01T00:00:30Z')).toBe(30000);
+    expect(parseResetMs('soon')).toBeNull();
+    expect(parseResetMs(null)).toBeNull();
+  });
+
+  it('should read OpenAI and Anthropic rate limit headers', () => {
+    expect(readRateLimitHeaders(new Headers({
+      'x-ratelimit-limit-tokens': '30000',
+      'x-ratelimit-remaining-tokens': '12000',
+      'x-ratelimit-reset-tokens': '36s',
+      'x-ratelimit-remaining-requests': '499',
+    }))).toEqual({
+      requests: { limit: null, remaining: 499, resetMs: null },
+      tokens: { limit: 30000, remaining: 12000, resetMs: 36000, countsOutput: true },
+    });
+    expect(readRateLimitHeaders(new Headers({
+      'anthropic-ratelimit-input-tokens-limit': '40000',
+      'anthropic-ratelimit-input-tokens-remaining': '39000',
+      'anthropic-ratelimit-input-tokens-reset': '2026-01-01T00:00:01Z',
+    })).tokens).toEqual({ limit: 40000, remaining: 39000, resetMs: 1000, countsOutput: false });
+    expect(readRateLimitHeaders(new Headers())).toEqual({ requests: null, tokens: null });
+  });
+
+  it('should not wait before any limits are known', async () => {
+    const limiter = new RateLimiter('test');
+    await limiter.acquire(1_000_000);
+    await limiter.acquire(1_000_000);
+  });
+
+  it('should wait for the token bucket to refill before a request it cannot cover', async () => {
+    const limiter = new RateLimiter('test');
+    // 6000 of 30000 left, refilling the 24000 used over 24s: 1000 tokens per second
+    limiter.update(new Headers({
+      'x-ratelimit-limit-tokens': '30000',
+      'x-ratelimit-remaining-tokens': '6000',
+      'x-ratelimit-reset-tokens': '24s',
+    }));
+
+    await limiter.acquire(5000);
+    let acquired = false;
+    const next = limiter.acquire(5000).then(() => { acquired = true; });
+
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(acquired).toBe(true);
+  });
+
+  it('should only reserve output tokens when the token limit counts them', async () => {
+    const limiter = new RateLimiter('test');
+    // Input tokens only: 6000 of 30000 left, refilling 1000 per second
+    limiter.update(new Headers({
+      'anthropic-ratelimit-input-tokens-limit': '30000',
+      'anthropic-ratelimit-input-tokens-remaining': '6000',
+      'anthropic-ratelimit-input-tokens-reset': '2026-01-01T00:00:24Z',
+    }));
+
+    await limiter.acquire(2000, 8000);
+    await limiter.acquire(2000, 8000);
+    let acquired = false;
+    const next = limiter.acquire(3000, 8000).then(() => { acquired = true; });
+
+    // 2000 left; the prompt needs 1000 more
+    await vi.advanceTimersByTimeAsync(999);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(acquired).toBe(true);
+  });
+
+  it('should hold requests until a 429 retry-after passes and learn tokens from the error', async () => {
+    const limiter = new RateLimiter('test');
+    limiter.recordRateLimit(new RateLimitError('429', { retryAfter: 2, availableTokens: 0, refillRate: 60000 }));
+
+    let acquired = false;
+    const next = limiter.acquire(1000).then(() => { acquired = true; });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(acquired).toBe(true);
+  });
+
+  it('should share one limiter per key', () => {
+    expect(getRateLimiter('OpenAIProvider:gpt-4o')).toBe(getRateLimiter('OpenAIProvider:gpt-4o'));
+    expect(getRateLimiter('OpenAIProvider:gpt-4o')).not.toBe(getRateLimiter('OpenAIProvider:gpt-4o-mini'));
+  });
+});
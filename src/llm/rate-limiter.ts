@@ -0,0 +1,210 @@
+/**
+ * Token-bucket rate limiter fed by the rate limit headers providers send with every response
+ */
+
+import type { RateLimitError } from '../types/errors.js';
+import { debug, info } from '../utils/logger.js';
+
+/** Window assumed when a provider reports what is left but not when it refills */
+const DEFAULT_WINDOW_MS = 60000;
+
+/** Longest single sleep, so a bucket refreshed by another call is re-checked */
+const MAX_SLEEP_MS = 60000;
+
+interface Bucket {
+  limit: number;
+  remaining: number;
+  /** Units regained per millisecond */
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+interface HeaderLimit {
+  limit: number | null;
+  remaining: number;
+  resetMs: number | null;
+}
+
+type TokenLimit = HeaderLimit & { countsOutput: boolean };
+
+/**
+ * Parse a reset header: a duration ("1s", "6m0s", "20ms", "2m59.56s"), a number of seconds,
+ * or an RFC 3339 timestamp (Anthropic). Returns milliseconds from `now`, or null.
+ */
+export function parseResetMs(value: string | null, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000;
+  }
+  const duration = trimmed.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+  if (duration && duration.slice(1).some(Boolean)) {
+    const [hours, minutes, seconds, millis] = duration.slice(1).map(part => parseFloat(part ?? '0'));
+    return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+  }
+  const timestamp = Date.parse(trimmed);
+  return Number.isNaN(timestamp) ? null : Math.max(0, timestamp - now);
+}
+
+function readLimit(headers: Headers, names: { limit: string; remaining: string; reset: string }): HeaderLimit | null {
+  const remaining = parseFloat(headers.get(names.remaining) ?? '');
+  if (!Number.isFinite(remaining)) {
+    return null;
+  }
+  const limit = parseFloat(headers.get(names.limit) ?? '');
+  return {
+    limit: Number.isFinite(limit) ? limit : null,
+    remaining,
+    resetMs: parseResetMs(headers.get(names.reset)),
+  };
+}
+
+/**
+ * Read the request and token limits from response headers: OpenAI, Azure OpenAI and most
+ * OpenAI-compatible servers send `x-ratelimit-*`, Anthropic `anthropic-ratelimit-*`
+ */
+export function readRateLimitHeaders(headers: Headers): { requests: HeaderLimit | null; tokens: TokenLimit | null } {
+  const openai = (kind: string) => ({
+    limit: `x-ratelimit-limit-${kind}`,
+    remaining: `x-ratelimit-remaining-${kind}`,
+    reset: `x-ratelimit-reset-${kind}`,
+  });
+  const anthropic = (kind: string) => ({
+    limit: `anthropic-ratelimit-${kind}-limit`,
+    remaining: `anthropic-ratelimit-${kind}-remaining`,
+    reset: `anthropic-ratelimit-${kind}-reset`,
+  });
+  // Anthropic's combined tokens limit is the most restrictive one; older accounts only report input tokens
+  const tokens = readLimit(headers, openai('tokens')) ?? readLimit(headers, anthropic('tokens'));
+  const inputTokens = tokens ? null : readLimit(headers, anthropic('input-tokens'));
+  return {
+    requests: readLimit(headers, openai('requests')) ?? readLimit(headers, anthropic('requests')),
+    tokens: tokens ? { ...tokens, countsOutput: true } : inputTokens && { ...inputTokens, countsOutput: false },
+  };
+}
+
+/**
+ * Paces requests to one provider endpoint. Nothing is known until the first response, after which
+ * each request waits until both the request and token buckets can cover it.
+ */
+export class RateLimiter {
+  private requests: Bucket | null = null;
+  private tokens: Bucket | null = null;
+  /** Whether the token bucket is charged for output, not only the prompt */
+  private tokensCountOutput = true;
+  private pausedUntil = 0;
+
+  constructor(private readonly label: string) {}
+
+  /**
+   * Wait until the limits allow a request of about `promptTokens` that may produce up to
+   * `outputTokens`, then reserve them. Output is only reserved when the token bucket counts it.
+   */
+  async acquire(promptTokens: number, outputTokens = 0): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const estimatedTokens = promptTokens + (this.tokensCountOutput ? outputTokens : 0);
+      const waitMs = Math.max(
+        this.pausedUntil - now,
+        this.waitFor(this.requests, 1, now),
+        this.waitFor(this.tokens, estimatedTokens, now)
+      );
+      if (waitMs <= 0) {
+        this.take(this.requests, 1, now);
+        this.take(this.tokens, estimatedTokens, now);
+        return;
+      }
+      const sleepMs = Math.min(Math.ceil(waitMs), MAX_SLEEP_MS);
+      const message = `Pacing ${this.label} requests: waiting ${(sleepMs / 1000).toFixed(1)}s for rate limit capacity ` +
+        `(${this.tokens ? Math.floor(this.level(this.tokens, now)) : 'unknown'} tokens available, ~${estimatedTokens} needed)`;
+      if (sleepMs >= 1000) {
+        info(message);
+      } else {
+        debug(message);
+      }
+      await new Promise(resolve => setTimeout(resolve, sleepMs));
+    }
+  }
+
+  /**
+   * Take the provider's own account of what is left from a response's headers
+   */
+  update(headers: Headers): void {
+    const now = Date.now();
+    const limits = readRateLimitHeaders(headers);
+    if (limits.requests) {
+      this.requests = this.toBucket(limits.requests, this.requests, now);
+    }
+    if (limits.tokens) {
+      this.tokens = this.toBucket(limits.tokens, this.tokens, now);
+      this.tokensCountOutput = limits.tokens.countsOutput;
+    }
+  }
+
+  /**
+   * Hold every request until a 429's retry-after has passed, and learn the token bucket from
+   * the error when the provider had not sent headers
+   */
+  recordRateLimit(err: RateLimitError): void {
+    const now = Date.now();
+    if (err.retryAfter && err.retryAfter > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + err.retryAfter * 1000);
+    }
+    if (!this.tokens && err.availableTokens !== null && err.refillRate !== null) {
+      this.tokens = {
+        limit: err.refillRate,
+        remaining: err.availableTokens,
+        refillPerMs: err.refillRate / DEFAULT_WINDOW_MS,
+        updatedAt: now,
+      };
+    }
+  }
+
+  private toBucket(header: HeaderLimit, previous: Bucket | null, now: number): Bucket {
+    // Azure reports only what remains, so the largest remaining value seen stands in for the limit
+    const limit = header.limit ?? Math.max(header.remaining, previous?.limit ?? 0);
+    const used = limit - header.remaining;
+    const refillPerMs = header.resetMs && header.resetMs > 0 && used > 0
+      ? used / header.resetMs
+      : limit / DEFAULT_WINDOW_MS;
+    return { limit, remaining: header.remaining, refillPerMs, updatedAt: now };
+  }
+
+  private level(bucket: Bucket, now: number): number {
+    return Math.min(bucket.limit, bucket.remaining + (now - bucket.updatedAt) * bucket.refillPerMs);
+  }
+
+  private waitFor(bucket: Bucket | null, amount: number, now: number): number {
+    if (!bucket || bucket.refillPerMs <= 0) {
+      return 0;
+    }
+    // A request larger than the whole bucket can only wait for a full one
+    const needed = Math.min(amount, bucket.limit);
+    const deficit = needed - this.level(bucket, now);
+    return deficit > 0 ? deficit / bucket.refillPerMs : 0;
+  }
+
+  private take(bucket: Bucket | null, amount: number, now: number): void {
+    if (bucket) {
+      bucket.remaining = this.level(bucket, now) - amount;
+      bucket.updatedAt = now;
+    }
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * The limiter for an endpoint, shared by every provider instance that calls it, so generation,
+ * fixes, review and the coverage summary draw from the same buckets
+ */
+export function getRateLimiter(key: string): RateLimiter {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(key);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
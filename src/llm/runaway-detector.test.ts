@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { RunawayDetector } from './runaway-detector.js';
+
+/** Feed text in small deltas, as a stream would, returning the first detection */
+function feed(detector: RunawayDetector, text: string, chunkSize = 7): string | null {
+  for (let i = 0; i < text.length; i += chunkSize) {
+    const result = detector.push(text.slice(i, i + chunkSize));
+    if (result) {
+      return result;
+    }
+  }
+  return null;
+}
+
+const NORMAL_TEST_FILE = `import { describe, it, expect } from 'vitest';
+import { add } from '../src/math';
+
+describe('add', () => {
+  it('should add positive numbers', () => {
+    expect(add(1, 2)).toBe(3);
+  });
+
+  it('should add negative numbers', () => {
+    expect(add(-1, -2)).toBe(-3);
+  });
+
+  it('should handle zero', () => {
+    expect(add(0, 0)).toBe(0);
+    expect(add(0, 5)).toBe(5);
+  });
+
+  describe('edge cases', () => {
+    it('should handle large numbers', () => {
+      expect(add(Number.MAX_SAFE_INTEGER, 0)).toBe(Number.MAX_SAFE_INTEGER);
+    });
+  });
+});
+`;
+
+describe('RunawayDetector', () => {
+  it('should not flag ordinary test code', () => {
+    expect(feed(new RunawayDetector(), NORMAL_TEST_FILE.repeat(3))).toBeNull();
+  });
+
+  it('should flag a line repeated over and over', () => {
+    const looping = NORMAL_TEST_FILE + '    expect(parseConfig(input)).toEqual(expected);\n'.repeat(20);
+
+    expect(feed(new RunawayDetector(), looping)).toContain('repeated 12 times');
+  });
+
+  it('should flag a repeated multi-line block', () => {
+    const block = [
+      "  it('should handle the same case', () => {",
+      '    const result = normalize({ value: 1 });',
+      '    expect(result).toEqual({ value: 1 });',
+      '  });',
+      '',
+    ].join('\n');
+
+    expect(feed(new RunawayDetector(), NORMAL_TEST_FILE + block.repeat(6))).toMatch(/^a 4-line block repeated 4 times/);
+  });
+
+  it('should not flag a short block until it repeats twice as often', () => {
+    const detector = new RunawayDetector();
+
+    expect(feed(detector, '});\n'.repeat(20))).toBeNull();
+    expect(feed(detector, '});\n'.repeat(10))).toContain('repeated 24 times');
+  });
+
+  it('should flag a unit repeated within one unbroken line', () => {
+    expect(feed(new RunawayDetector(), `const data = [${'0, '.repeat(200)}`)).toContain('within one line');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Detects a streamed LLM response that is stuck repeating itself, so generation
+ * can be aborted instead of running on until it hits the token limit
+ */
+
+/** Longest block of lines checked for repetition */
+const MAX_PERIOD_LINES = 30;
+/** Consecutive copies of a block that count as a loop, by block size in lines */
+const REPEATS_FOR_SINGLE_LINE = 12;
+const REPEATS_FOR_SHORT_BLOCK = 6;
+const REPEATS_FOR_LONG_BLOCK = 4;
+/** Blocks shorter than this many characters must repeat more before counting */
+const MIN_BLOCK_CHARS = 40;
+/** Within a single unbroken line, a unit of up to this length repeated this often is a loop */
+const MAX_INLINE_UNIT = 50;
+const INLINE_REPEATS = 16;
+
+function requiredRepeats(periodLines: number): number {
+  if (periodLines === 1) {
+    return REPEATS_FOR_SINGLE_LINE;
+  }
+  return periodLines <= 3 ? REPEATS_FOR_SHORT_BLOCK : REPEATS_FOR_LONG_BLOCK;
+}
+
+export class RunawayDetector {
+  private lines: string[] = [];
+  private partial = '';
+
+  /**
+   * Feed the next streamed delta. Returns a description of the loop once one is detected.
+   */
+  push(delta: string): string | null {
+    const pieces = (this.partial + delta).split('\n');
+    this.partial = pieces.pop() ?? '';
+
+    for (const line of pieces) {
+      const trimmed = line.trim();
+      // Blank lines vary freely between repeated blocks
+      if (!trimmed) {
+        continue;
+      }
+      this.lines.push(trimmed);
+      const loop = this.findRepeatedBlock();
+      if (loop) {
+        return loop;
+      }
+    }
+
+    return this.findInlineRepeat();
+  }
+
+  /**
+   * Whether the most recent lines are one block of lines repeated back to back
+   */
+  private findRepeatedBlock(): string | null {
+    const lines = this.lines;
+    for (let period = 1; period <= MAX_PERIOD_LINES; period++) {
+      // A block made of a smaller repeating unit is that unit's case, with its own threshold
+      if (hasSmallerPeriod(lines.slice(-period))) {
+        continue;
+      }
+      const blockChars = lines.slice(-period).reduce((sum, line) => sum + line.length, 0);
+      let repeats = requiredRepeats(period);
+      if (blockChars < MIN_BLOCK_CHARS) {
+        repeats *= 2;
+      }
+      if (lines.length < period * repeats) {
+        continue;
+      }
+      const start = lines.length - period * repeats;
+      let repeating = true;
+      for (let i = start + period; i < lines.length && repeating; i++) {
+        repeating = lines[i] === lines[i - period];
+      }
+      if (repeating) {
+        return period === 1
+          ? `the line "${truncate(lines[lines.length - 1])}" repeated ${repeats} times`
+          : `a ${period}-line block repeated ${repeats} times (starting "${truncate(lines[lines.length - period])}")`;
+      }
+    }
+    // Only the recent window can still complete a loop
+    if (lines.length > MAX_PERIOD_LINES * REPEATS_FOR_SINGLE_LINE * 2) {
+      this.lines = lines.slice(-MAX_PERIOD_LINES * REPEATS_FOR_SINGLE_LINE * 2);
+    }
+    return null;
+  }
+
+  /**
+   * Whether the current unfinished line ends in a short unit repeated many times (e.g. "0, 0, 0, ...")
+   */
+  private findInlineRepeat(): string | null {
+    if (this.partial.length < MAX_INLINE_UNIT * 4) {
+      return null;
+    }
+    const tail = this.partial.slice(-MAX_INLINE_UNIT * INLINE_REPEATS);
+    for (let unit = 1; unit <= MAX_INLINE_UNIT; unit++) {
+      const repeats = Math.max(INLINE_REPEATS, Math.ceil(MIN_BLOCK_CHARS * 4 / unit));
+      if (tail.length < unit * repeats) {
+        continue;
+      }
+      const pattern = tail.slice(-unit);
+      if (tail.slice(-unit * repeats) === pattern.repeat(repeats)) {
+        return `"${truncate(pattern)}" repeated ${repeats} times within one line`;
+      }
+    }
+    return null;
+  }
+}
+
+function hasSmallerPeriod(block: string[]): boolean {
+  for (let unit = 1; unit < block.length; unit++) {
+    if (block.length % unit === 0 && block.every((line, i) => i < unit || line === block[i - unit])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function truncate(text: string, max = 60): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { countReportedTests, countTestCalls, parseStructuredTestOutput, supportsStructuredOutput } from './structured-output.js';
+
+describe('structured-output', () => {
+  const output = {
+    testCode: "describe('add', () => {\n  it('adds two numbers', () => {});\n  it('handles negatives', () => {});\n});",
+    testCases: [
+      { name: 'adds two numbers', intent: 'sums positive inputs' },
+      { name: 'handles negatives', intent: 'sums negative inputs' },
+    ],
+    assumptions: [],
+    suspectedBugs: ['returns NaN for strings'],
+  };
+
+  it('should parse a structured response, also when fenced', () => {
+    expect(parseStructuredTestOutput(JSON.stringify(output))).toEqual(output);
+    expect(parseStructuredTestOutput('```json\n' + JSON.stringify(output) + '\n```')).toEqual(output);
+  });
+
+  it('should default missing lists and reject other content', () => {
+    expect(parseStructuredTestOutput('{"testCode": "it(\'x\')"}')).toEqual({
+      testCode: "it('x')", testCases: [], assumptions: [], suspectedBugs: [],
+    });
+    expect(parseStructuredTestOutput("```typescript\nit('x', () => {});\n```")).toBeNull();
+    expect(parseStructuredTestOutput('{"testCode": "it(\'x\')", "testCases": [')).toBeNull();
+    expect(parseStructuredTestOutput('{"code": "it(\'x\')"}')).toBeNull();
+  });
+
+  it('should only count reported tests that are whole test titles in the code', () => {
+    expect(countReportedTests(output)).toBe(2);
+    expect(countReportedTests({ ...output, testCode: "it('adds two numbers', () => {});" })).toBe(1);
+    expect(countReportedTests({ ...output, testCode: "it('adds two numbers twice', () => {}); // handles negatives" })).toBe(0);
+    expect(countReportedTests({ ...output, testCode: 'test.skip(`handles negatives`, () => {});' })).toBe(1);
+  });
+
+  it('should count it() and test() calls with their modifiers', () => {
+    expect(countTestCalls(output.testCode)).toBe(2);
+    expect(countTestCalls("test('a', () => {});\ntest.each([1])('b', () => {});\nit.skip('c', () => {});")).toBe(3);
+    expect(countTestCalls("describe('suite', () => { expect(split('a')).toEqual(['a']); });")).toBe(0);
+  });
+
+  it('should know which providers enforce a schema', () => {
+    expect(supportsStructuredOutput('anthropic')).toBe(true);
+    expect(supportsStructuredOutput('openai-compatible')).toBe(false);
+    expect(supportsStructuredOutput('bedrock')).toBe(false);
+  });
+});
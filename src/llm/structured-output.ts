@@ -0,0 +1,111 @@
+/**
+ * Structured (JSON) test output, requested from providers that can enforce a response schema
+ */
+
+import { z } from 'zod';
+import type { LLMProvider } from '../types/config.js';
+import type { ResponseSchema } from '../types/llm.js';
+
+/** Providers whose API enforces a response schema; the others answer in markdown */
+export const STRUCTURED_OUTPUT_PROVIDERS: readonly LLMProvider[] = ['openai', 'azure-openai', 'anthropic', 'google'];
+
+/**
+ * Schema of a test generation or fix response. Every property is required and no others are
+ * allowed, as OpenAI's strict mode demands; the descriptions tell the model what to put where.
+ */
+export const TEST_OUTPUT_SCHEMA: ResponseSchema = {
+  name: 'submit_tests',
+  description: 'Submit the complete test file together with a description of the tests it contains',
+  schema: {
+    type: 'object',
+    properties: {
+      testCode: {
+        type: 'string',
+        description: 'The complete, runnable test file: imports, describe blocks and every test. No markdown fences.',
+      },
+      testCases: {
+        type: 'array',
+        description: 'Every it()/test() in testCode, in file order',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'The exact test name as written in testCode' },
+            intent: { type: 'string', description: 'The behaviour the test checks, in one sentence' },
+          },
+          required: ['name', 'intent'],
+          additionalProperties: false,
+        },
+      },
+      assumptions: {
+        type: 'array',
+        description: 'Assumptions made about the code under test that the source does not settle',
+        items: { type: 'string' },
+      },
+      suspectedBugs: {
+        type: 'array',
+        description: 'Behaviour of the code under test that looks like a bug; tests still assert what the code actually does',
+        items: { type: 'string' },
+      },
+    },
+    required: ['testCode', 'testCases', 'assumptions', 'suspectedBugs'],
+    additionalProperties: false,
+  },
+};
+
+const StructuredTestOutputSchema = z.object({
+  testCode: z.string().min(1),
+  testCases: z.array(z.object({ name: z.string(), intent: z.string() })).default([]),
+  assumptions: z.array(z.string()).default([]),
+  suspectedBugs: z.array(z.string()).default([]),
+});
+
+export type StructuredTestOutput = z.infer<typeof StructuredTestOutputSchema>;
+
+/**
+ * Whether `provider` can be asked for TEST_OUTPUT_SCHEMA
+ */
+export function supportsStructuredOutput(provider: LLMProvider): boolean {
+  return STRUCTURED_OUTPUT_PROVIDERS.includes(provider);
+}
+
+/**
+ * Read a structured test response. Returns null when the content is not a JSON object of the
+ * expected shape (e.g. a markdown answer from a provider without structured output), so callers
+ * can fall back to parseTestCode.
+ */
+export function parseStructuredTestOutput(content: string): StructuredTestOutput | null {
+  // Some models wrap the JSON in a fence even when asked for JSON
+  const json = content.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/, '$1');
+  if (!json.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = StructuredTestOutputSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Number of reported test cases that appear in the test code as the whole title of an it() or test()
+ * call, so a model cannot claim tests it dropped
+ */
+export function countReportedTests(output: Pick<StructuredTestOutput, 'testCode' | 'testCases'>): number {
+  return output.testCases.filter(testCase => testCase.name && hasTestTitle(output.testCode, testCase.name)).length;
+}
+
+/**
+ * Number of it() and test() calls in test code, including .each/.only/.skip variants
+ */
+export function countTestCalls(code: string): number {
+  return (code.match(/\b(?:it|test)(?:\.\w+)?\s*\(/g) || []).length;
+}
+
+/**
+ * Whether `code` has an it() or test() call (including .only/.skip variants) titled exactly `name`
+ */
+function hasTestTitle(code: string, name: string): boolean {
+  const title = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b(?:it|test)(?:\\.\\w+)?\\s*\\(\\s*(['"\`])${title}\\1`).test(code);
+}
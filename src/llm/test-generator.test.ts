@@ -1,6 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { TestGenerator } from './test-generator.js';
 import { createLLMProvider } from './factory.js';
+import { ResponseCache } from './cache.js';
+import { BudgetExceededError, CassetteMismatchError, NonRetryableError, QuotaError } from '../types/errors.js';
+import { UsageLedger } from './usage-ledger.js';
+import { TEST_OUTPUT_SCHEMA } from './structured-output.js';
+import type { LLMGenerateOptions, LLMMessage } from '../types/llm.js';
+import { clearLiveStatus, liveStatus, warn } from '../utils/logger.js';
 
 vi.mock('./factory.js');
 vi.mock('./parser.js');
@@ -32,6 +41,8 @@ vi.mock('../utils/logger.js', () => ({
   warn: vi.fn(),
   error: vi.fn(),
   debug: vi.fn(),
+  liveStatus: vi.fn(),
+  clearLiveStatus: vi.fn(),
 }));
 
 describe('TestGenerator', () => {
@@ -119,6 +130,30 @@ describe('TestGenerator', () => {
     expect(call?.temperature).toBe(0.05);
   });
 
+  it('should size fix requests by the fix model registry entry and the models config', async () => {
+    generator = new TestGenerator({
+      apiKey: 'test-key',
+      provider: 'openai',
+      model: 'gpt-5',
+      fixModel: 'my-fixer',
+      maxFixAttempts: 3,
+      models: { 'my-fixer': { contextWindow: 32000, maxOutputTokens: 6000 } },
+    });
+
+    await generator.fixTest({
+      testCode: 'x'.repeat(60000),
+      errorMessage: 'Error',
+      testOutput: undefined,
+      originalCode: 'export function add() {}',
+      framework: 'jest',
+      attempt: 1,
+      maxAttempts: 3,
+    });
+
+    expect(mockProvider.generate.mock.calls[0][1]?.maxTokens).toBe(6000);
+    expect(generator['limits']).toMatchObject({ fixContextLimit: 32000, contextLimit: 400000 });
+  });
+
   it('should generate coverage summary', async () => {
     generator = new TestGenerator({
       apiKey: 'test-key',
@@ -248,10 +283,29 @@ describe('TestGenerator', () => {
     expect(createLLMProvider).toHaveBeenCalledTimes(2);
     // Verify fix provider was created with fixModel
     expect(createLLMProvider).toHaveBeenCalledWith(
-      expect.objectContaining({ model: 'gpt-4' })
+      expect.objectContaining({ model: 'gpt-4' }),
+      undefined
     );
   });
 
+  it('should share one response cache between generation and fix providers when cache is on', () => {
+    vi.mocked(createLLMProvider).mockReturnValue(mockProvider as never);
+
+    generator = new TestGenerator({
+      apiKey: 'test-key',
+      provider: 'openai',
+      model: 'gpt-3.5-turbo',
+      fixModel: 'gpt-4',
+      maxFixAttempts: 3,
+      cache: true,
+    });
+
+    const [[, generationCache], [, fixCache]] = vi.mocked(createLLMProvider).mock.calls;
+    expect(generationCache).toBeInstanceOf(ResponseCache);
+    expect(fixCache).toBe(generationCache);
+    expect(generator.getCacheStats()).toEqual({ hits: 0, misses: 0, stored: 0, skipped: 0 });
+  });
+
   it('should use same provider when fixModel is not provided', async () => {
     vi.mocked(createLLMProvider).mockReturnValue(mockProvider as never);
 
@@ -275,5 +329,387 @@ describe('TestGenerator', () => {
     expect(mockProvider.generate).toHaveBeenCalled();
     expect(createLLMProvider).toHaveBeenCalledTimes(1);
   });
-});
 
+  describe('cassettes', () => {
+    const target = {
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function' as const,
+      code: 'export function add() {}',
+      context: '',
+    };
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'kakarot-generator-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should replay a recorded run without creating an LLM provider', async () => {
+      const path = join(dir, 'run.json');
+      const recording = new TestGenerator({
+        apiKey: 'test-key',
+        provider: 'openai',
+        maxFixAttempts: 3,
+        stream: false,
+        cassette: { mode: 'record', path, match: 'order' },
+      });
+      await recording.generateTest({ target, framework: 'jest' });
+      vi.mocked(createLLMProvider).mockClear();
+
+      const replaying = new TestGenerator({
+        apiKey: '',
+        provider: 'openai',
+        maxFixAttempts: 3,
+        stream: false,
+        cassette: { mode: 'replay', path, match: 'order' },
+      });
+      const result = await replaying.generateTest({ target, framework: 'jest' });
+
+      expect(createLLMProvider).not.toHaveBeenCalled();
+      expect(mockProvider.generate).toHaveBeenCalledTimes(1);
+      expect(result.testCode).toBe('test code');
+      await expect(replaying.generateTest({ target, framework: 'jest' })).rejects.toThrow(CassetteMismatchError);
+    });
+
+    it('should not swallow a replay mismatch during review', async () => {
+      const path = join(dir, 'empty.json');
+      writeFileSync(path, JSON.stringify({ version: 1, recordedAt: '2025-01-01T00:00:00.000Z', interactions: [] }));
+      const replaying = new TestGenerator({
+        apiKey: '',
+        maxFixAttempts: 3,
+        cassette: { mode: 'replay', path, match: 'order' },
+      });
+
+      await expect(replaying.reviewTestCode({
+        testCode: "it('works', () => {});",
+        sourceCode: 'export function add() {}',
+        sourceFilePath: 'src/utils.ts',
+        framework: 'vitest',
+      })).rejects.toThrow(CassetteMismatchError);
+    });
+  });
+
+  describe('usage', () => {
+    const target = {
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function' as const,
+      code: 'export function add() {}',
+      context: '',
+    };
+
+    it('should record each call under its phase and target', async () => {
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', model: 'gpt-5', maxFixAttempts: 3, stream: false });
+
+      await generator.generateTest({ target, framework: 'jest' });
+      await generator.fixTest({
+        testCode: 'test code',
+        errorMessage: 'failed',
+        testOutput: '',
+        originalCode: 'export function add() {}',
+        framework: 'jest',
+        attempt: 1,
+        maxAttempts: 3,
+        testFilePath: 'src/utils.test.ts',
+      });
+
+      const usage = generator.getUsage();
+      expect(usage.total).toMatchObject({ calls: 2, promptTokens: 20, completionTokens: 10 });
+      expect(usage.byPhase.generate).toMatchObject({ calls: 1, totalTokens: 15 });
+      expect(usage.byPhase.fix).toMatchObject({ calls: 1, totalTokens: 15 });
+      expect(Object.keys(usage.byTarget)).toEqual(['src/utils.ts:add', 'src/utils.test.ts']);
+    });
+
+    it('should stop calling the LLM once a shared budget is spent', async () => {
+      const ledger = new UsageLedger({ maxTotalTokens: 20 });
+      const config = { apiKey: 'test-key', provider: 'openai' as const, maxFixAttempts: 3, stream: false };
+      const first = new TestGenerator(config, ledger);
+      const second = new TestGenerator(config, ledger);
+
+      await first.generateTest({ target, framework: 'jest' });
+      await second.generateTest({ target, framework: 'jest' });
+
+      expect(first.budgetExceeded()).toBe('maxTotalTokens reached (30 of 20)');
+      await expect(first.generateTest({ target, framework: 'jest' })).rejects.toThrow(BudgetExceededError);
+      expect(mockProvider.generate).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('fallbacks', () => {
+    const target = {
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function' as const,
+      code: 'export function add() {}',
+      context: '',
+    };
+    const config = {
+      apiKey: 'sk-ant-test',
+      provider: 'anthropic' as const,
+      model: 'claude-opus-4-6',
+      maxFixAttempts: 3,
+      stream: false,
+      fallbacks: [
+        { provider: 'openai' as const, model: 'gpt-5', apiKey: 'sk-test' },
+        { provider: 'google' as const, model: 'gemini-2.5-pro', apiKey: 'AIza-test' },
+      ],
+    };
+    let providers: Record<string, { generate: ReturnType<typeof vi.fn> }>;
+
+    beforeEach(() => {
+      const ok = () => ({ generate: vi.fn().mockResolvedValue({ content: 'test code', usage: { promptTokens: 10, completionTokens: 5 } }) });
+      providers = { anthropic: ok(), openai: ok(), google: ok() };
+      vi.mocked(createLLMProvider).mockImplementation(providerConfig => providers[providerConfig.provider ?? 'openai'] as never);
+    });
+
+    it('should switch to the next provider for the rest of the run when out of quota', async () => {
+      providers.anthropic.generate.mockRejectedValue(new QuotaError('Anthropic API error: 429 Too Many Requests\n\nQuota exceeded.'));
+      generator = new TestGenerator(config);
+
+      await generator.generateTest({ target, framework: 'jest' });
+      await generator.generateTest({ target: { ...target, functionName: 'sub' }, framework: 'jest' });
+
+      expect(providers.anthropic.generate).toHaveBeenCalledTimes(1);
+      expect(providers.openai.generate).toHaveBeenCalledTimes(2);
+      expect(providers.google.generate).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(
+        'anthropic/claude-opus-4-6 is unavailable (Anthropic API error: 429 Too Many Requests). Switching to openai/gpt-5 for the rest of the run.'
+      );
+      expect(generator.getUsage().modelsByTarget).toEqual({ 'src/utils.ts:add': ['gpt-5'], 'src/utils.ts:sub': ['gpt-5'] });
+    });
+
+    it('should move concurrent calls that fail on the same provider to the same fallback', async () => {
+      let rejectQuota!: () => void;
+      const quota = new Promise<never>((_, reject) => {
+        rejectQuota = () => reject(new QuotaError('Quota exceeded'));
+      });
+      providers.anthropic.generate.mockReturnValue(quota);
+      generator = new TestGenerator(config);
+
+      const results = Promise.all([
+        generator.generateTest({ target, framework: 'jest' }),
+        generator.generateTest({ target: { ...target, functionName: 'sub' }, framework: 'jest' }),
+      ]);
+      await vi.waitFor(() => expect(providers.anthropic.generate).toHaveBeenCalledTimes(2));
+      rejectQuota();
+      await results;
+
+      expect(providers.openai.generate).toHaveBeenCalledTimes(2);
+      expect(providers.google.generate).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move down the chain on repeated server errors and unavailable models', async () => {
+      providers.anthropic.generate.mockRejectedValue(new Error('Anthropic API error: 529 Overloaded'));
+      providers.openai.generate.mockRejectedValue(new NonRetryableError('OpenAI API error: 404 Not Found - model gpt-5 does not exist'));
+      generator = new TestGenerator(config);
+
+      const result = await generator.generateTest({ target, framework: 'jest' });
+
+      expect(result.testCode).toBe('test code');
+      expect(providers.google.generate).toHaveBeenCalledTimes(1);
+      expect(generator.getUsage().byModel).toEqual({ 'gemini-2.5-pro': expect.objectContaining({ calls: 1 }) });
+    });
+
+    it('should take context and output limits from the fallback model after switching', async () => {
+      providers.anthropic.generate.mockRejectedValue(new QuotaError('Quota exceeded'));
+      generator = new TestGenerator({ ...config, fallbacks: [{ provider: 'openai', model: 'gpt-4', apiKey: 'sk-test' }] });
+
+      await generator.generateTest({ target, framework: 'jest' });
+
+      expect(generator['limits']).toEqual({
+        contextLimit: 8192,
+        fixContextLimit: 8192,
+        fixModelInfo: expect.objectContaining({ maxOutputTokens: 8192 }),
+      });
+    });
+
+    it('should not switch on errors a different provider would not fix', async () => {
+      providers.anthropic.generate.mockRejectedValue(new NonRetryableError('Anthropic API error: 400 Bad Request - prompt is too long'));
+      generator = new TestGenerator(config);
+
+      await expect(generator.generateTest({ target, framework: 'jest' })).rejects.toThrow('400 Bad Request');
+      expect(providers.openai.generate).not.toHaveBeenCalled();
+    });
+
+    it('should send fixes to the fallback instead of the fix model after switching', async () => {
+      providers.anthropic.generate.mockRejectedValue(new QuotaError('Quota exceeded'));
+      generator = new TestGenerator({ ...config, fixModel: 'claude-sonnet-4-5' });
+
+      await generator.fixTest({
+        testCode: 'test code',
+        errorMessage: 'failed',
+        testOutput: '',
+        originalCode: 'export function add() {}',
+        framework: 'jest',
+        attempt: 1,
+        maxAttempts: 3,
+        testFilePath: 'src/utils.test.ts',
+      });
+      await generator.generateTest({ target, framework: 'jest' });
+
+      expect(providers.anthropic.generate).toHaveBeenCalledTimes(1);
+      expect(providers.openai.generate).toHaveBeenCalledTimes(2);
+      expect(generator.getUsage().modelsByTarget['src/utils.test.ts']).toEqual(['gpt-5']);
+    });
+  });
+
+  describe('structured output', () => {
+    const target = {
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function' as const,
+      code: 'export function add() {}',
+      context: '',
+    };
+    const structured = JSON.stringify({
+      testCode: "it('adds', () => {});",
+      testCases: [{ name: 'adds', intent: 'sums two numbers' }],
+      assumptions: ['inputs are finite'],
+      suspectedBugs: ['add ignores its arguments'],
+    });
+
+    it('should request the test output schema and return what the model reported', async () => {
+      mockProvider.generate.mockResolvedValue({ content: structured });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3, stream: false });
+
+      const result = await generator.generateTest({ target, framework: 'jest' });
+
+      expect(mockProvider.generate.mock.calls[0][1]).toMatchObject({ responseSchema: TEST_OUTPUT_SCHEMA });
+      expect(result).toMatchObject({
+        testCode: "it('adds', () => {});",
+        testCases: [{ name: 'adds', intent: 'sums two numbers' }],
+        suspectedBugs: ['add ignores its arguments'],
+      });
+      expect(warn).toHaveBeenCalledWith('Possible bug in src/utils.ts:add: add ignores its arguments');
+    });
+
+    it('should fall back to markdown for the rest of the run when the model rejects the schema', async () => {
+      mockProvider.generate
+        .mockRejectedValueOnce(new Error('OpenAI API error: 400 Bad Request - response_format json_schema is not supported with this model'))
+        .mockResolvedValue({ content: 'test code' });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3, stream: false });
+
+      const result = await generator.generateTest({ target, framework: 'jest' });
+      await generator.generateTest({ target, framework: 'jest' });
+
+      expect(result.testCode).toBe('test code');
+      expect(result.testCases).toBeUndefined();
+      expect(mockProvider.generate.mock.calls.map(([, options]) => options?.responseSchema)).toEqual([TEST_OUTPUT_SCHEMA, undefined, undefined]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('openai/default rejected structured output'));
+    });
+
+    it('should not request a schema from providers without structured output or when disabled', async () => {
+      await new TestGenerator({ apiKey: '', provider: 'bedrock', model: 'anthropic.claude', maxFixAttempts: 3, stream: false })
+        .generateTest({ target, framework: 'jest' });
+      await new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3, stream: false, structuredOutput: false })
+        .generateTest({ target, framework: 'jest' });
+
+      expect(mockProvider.generate.mock.calls.map(([, options]) => options?.responseSchema)).toEqual([undefined, undefined]);
+    });
+
+    it('should still catch looping code inside streamed JSON', async () => {
+      mockProvider.generate.mockImplementation(async (_messages: LLMMessage[], options?: LLMGenerateOptions) => {
+        options?.onToken?.('{"testCode": "');
+        for (let i = 0; i < 100 && !options?.signal?.aborted; i++) {
+          options?.onToken?.('    expect(add(1, 400)).toBe(401);\\');
+          options?.onToken?.('n');
+        }
+        throw Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+      });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'anthropic', maxFixAttempts: 3 });
+
+      await expect(generator.generateTest({ target, framework: 'jest' })).rejects.toThrow('the model started repeating itself');
+    });
+  });
+
+  describe('streaming', () => {
+    const target = {
+      filePath: 'src/utils.ts',
+      functionName: 'add',
+      functionType: 'function' as const,
+      code: 'export function add() {}',
+      context: '',
+      startLine: 1,
+      endLine: 1,
+      changedRanges: [],
+    };
+
+    it('should stream with live progress by default', async () => {
+      mockProvider.generate.mockImplementation(async (_messages: LLMMessage[], options?: LLMGenerateOptions) => {
+        options?.onToken?.('it(');
+        options?.onToken?.("'adds')");
+        return { content: "it('adds')" };
+      });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3, maxTokens: 4000 });
+
+      const result = await generator.generateTest({ target, framework: 'jest' });
+
+      expect(result.testCode).toBe("it('adds')");
+      expect(liveStatus).toHaveBeenLastCalledWith('add: ~3/4000 tokens');
+    });
+
+    it('should stream without the live line when targets run concurrently', async () => {
+      mockProvider.generate.mockImplementation(async (_messages: LLMMessage[], options?: LLMGenerateOptions) => {
+        options?.onToken?.("it('adds')");
+        return { content: "it('adds')" };
+      });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3, concurrency: 2 });
+
+      const result = await generator.generateTest({ target, framework: 'jest' });
+
+      expect(result.testCode).toBe("it('adds')");
+      expect(mockProvider.generate.mock.calls[0][1]).toHaveProperty('onToken');
+      expect(liveStatus).not.toHaveBeenCalled();
+      expect(clearLiveStatus).not.toHaveBeenCalled();
+    });
+
+    it('should abort when the output starts looping', async () => {
+      mockProvider.generate.mockImplementation(async (_messages: LLMMessage[], options?: LLMGenerateOptions) => {
+        for (let i = 0; i < 100 && !options?.signal?.aborted; i++) {
+          options?.onToken?.('    expect(add(1, 400)).toBe(401);\n');
+        }
+        // fetch rejects once its signal is aborted
+        throw Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+      });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3 });
+
+      const err = (await generator.generateTest({ target, framework: 'jest' }).catch((e: unknown) => e)) as Error;
+
+      expect(err.message).toBe('Generation stopped early for add: the model started repeating itself');
+      // Numbers stay out of the message so it is not mistaken for an HTTP 400
+      expect(err.message).not.toMatch(/\d/);
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Stopped add after ~\d+ tokens: the line .* repeated 24 times/));
+    });
+
+    it('should not stream when stream is false', async () => {
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3, stream: false });
+
+      await generator.generateTest({ target, framework: 'jest' });
+
+      expect(mockProvider.generate.mock.calls[0][1]).not.toHaveProperty('onToken');
+    });
+  });
+
+  describe('review', () => {
+    it('should count test() calls when checking that review kept every test', async () => {
+      const testCode = "test('adds', () => {});\ntest('subtracts', () => {});";
+      mockProvider.generate.mockResolvedValue({ content: "test('adds', () => {});" });
+      generator = new TestGenerator({ apiKey: 'test-key', provider: 'openai', maxFixAttempts: 3 });
+
+      const reviewed = await generator.reviewTestCode({
+        testCode,
+        sourceCode: 'export function add() {}',
+        sourceFilePath: 'src/utils.ts',
+        framework: 'vitest',
+      });
+
+      expect(reviewed).toBe(testCode);
+      expect(warn).toHaveBeenCalledWith('Review removed tests (2 → 1) for src/utils.ts — returning original');
+    });
+  });
+});
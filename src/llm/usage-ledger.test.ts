@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UsageLedger, formatUsageTotals } from './usage-ledger.js';
+import { BudgetExceededError } from '../types/errors.js';
+import { warn } from '../utils/logger.js';
+
+vi.mock('../utils/logger.js', () => ({
+  warn: vi.fn(),
+}));
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+});
+
+describe('UsageLedger', () => {
+  it('should aggregate tokens and cost per phase, target and model', () => {
+    const ledger = new UsageLedger();
+
+    ledger.record({ phase: 'generate', model: 'gpt-5', target: 'src/math.ts:add', response: usage(2000, 1000) });
+    ledger.record({ phase: 'fix', model: 'gpt-5-mini', target: 'src/math.test.ts', response: usage(1000, 500) });
+    ledger.record({ phase: 'generate', model: 'gpt-5', target: 'src/math.ts:sub', response: usage(2000, 1000) });
+
+    const summary = ledger.getSummary();
+    expect(summary.total).toMatchObject({ calls: 3, promptTokens: 5000, completionTokens: 2500, totalTokens: 7500 });
+    expect(summary.total.costUSD).toBeCloseTo(0.0125 * 2 + 0.00125);
+    expect(summary.byPhase.generate).toMatchObject({ calls: 2, totalTokens: 6000 });
+    expect(summary.byPhase.fix).toMatchObject({ calls: 1, totalTokens: 1500 });
+    expect(summary.byPhase.review).toBeUndefined();
+    expect(Object.keys(summary.byTarget)).toEqual(['src/math.ts:add', 'src/math.test.ts', 'src/math.ts:sub']);
+    expect(summary.byModel['gpt-5-mini'].costUSD).toBeCloseTo(0.00125);
+    expect(summary.modelsByTarget).toEqual({
+      'src/math.ts:add': ['gpt-5'],
+      'src/math.test.ts': ['gpt-5-mini'],
+      'src/math.ts:sub': ['gpt-5'],
+    });
+  });
+
+  it('should count cached calls without their tokens or cost', () => {
+    const ledger = new UsageLedger();
+
+    ledger.record({ phase: 'review', model: 'gpt-5', response: { ...usage(2000, 1000), cached: true } });
+
+    expect(ledger.getSummary().total).toEqual({
+      calls: 1, cachedCalls: 1, promptTokens: 0, completionTokens: 0, totalTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUSD: 0,
+    });
+  });
+
+  it('should track prompt cache tokens and price them at the cache rates', () => {
+    const ledger = new UsageLedger();
+
+    ledger.record({
+      phase: 'fix',
+      model: 'claude-sonnet-4',
+      response: { usage: { promptTokens: 10_000, completionTokens: 0, cacheReadTokens: 8000, cacheWriteTokens: 1000 } },
+    });
+
+    const { total } = ledger.getSummary();
+    expect(total).toMatchObject({ promptTokens: 10_000, cacheReadTokens: 8000, cacheWriteTokens: 1000 });
+    // 1,000 uncached at $3/M + 8,000 read at $0.30/M + 1,000 written at $3.75/M
+    expect(total.costUSD).toBeCloseTo(0.003 + 0.0024 + 0.00375);
+  });
+
+  it('should use configured prices and report unpriced models', () => {
+    const ledger = new UsageLedger({ prices: { 'llama-3': { input: 1, output: 1 } }, maxCostUSD: 5 });
+
+    ledger.record({ phase: 'generate', model: 'llama-3-70b', response: usage(1_000_000, 0) });
+    ledger.record({ phase: 'generate', model: 'mistral-large', response: usage(1000, 1000) });
+    ledger.record({ phase: 'fix', model: 'mistral-large', response: usage(1000, 1000) });
+
+    const summary = ledger.getSummary();
+    expect(summary.total.costUSD).toBeCloseTo(1);
+    expect(summary.total.totalTokens).toBe(1_004_000);
+    expect(summary.unpricedModels).toEqual(['mistral-large']);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse further calls once maxCostUSD is reached', () => {
+    const ledger = new UsageLedger({ maxCostUSD: 0.02 });
+
+    ledger.record({ phase: 'generate', model: 'gpt-5', response: usage(2000, 1000) });
+    expect(ledger.budgetExceeded()).toBeNull();
+    expect(() => ledger.assertWithinBudget()).not.toThrow();
+
+    ledger.record({ phase: 'generate', model: 'gpt-5', response: usage(2000, 1000) });
+    expect(ledger.budgetExceeded()).toBe('maxCostUSD reached ($0.0250 of $0.02)');
+    expect(() => ledger.assertWithinBudget()).toThrow(BudgetExceededError);
+    expect(ledger.getSummary().budgetExceeded).toBe('maxCostUSD reached ($0.0250 of $0.02)');
+  });
+
+  it('should refuse further calls once maxTotalTokens is reached', () => {
+    const ledger = new UsageLedger({ maxTotalTokens: 3000 });
+
+    ledger.record({ phase: 'generate', model: 'unknown-model', response: usage(2000, 1000) });
+
+    expect(() => ledger.assertWithinBudget()).toThrow('LLM budget exhausted: maxTotalTokens reached (3000 of 3000)');
+  });
+});
+
+describe('formatUsageTotals', () => {
+  it('should describe tokens, cost, unpriced models, prompt cache hits and cached calls', () => {
+    const totals = {
+      calls: 4, cachedCalls: 1, promptTokens: 10000, completionTokens: 2345, totalTokens: 12345,
+      cacheReadTokens: 8000, cacheWriteTokens: 0, costUSD: 0.0712,
+    };
+
+    expect(formatUsageTotals(totals, ['mistral-large'])).toBe(
+      '12,345 tokens (10,000 in / 2,345 out), $0.0712 excluding unpriced mistral-large, 8,000 from prompt cache, 1 cached call(s)'
+    );
+  });
+});
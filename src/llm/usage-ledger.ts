@@ -0,0 +1,196 @@
+/**
+ * Token and cost accounting for a run's LLM calls, with an optional hard budget
+ */
+
+import type { KakarotConfig } from '../types/config.js';
+import type { LLMResponse } from '../types/llm.js';
+import { BudgetExceededError } from '../types/errors.js';
+import { estimateCost, type ModelPrice } from './pricing.js';
+import { configuredPrices } from './models.js';
+import { warn } from '../utils/logger.js';
+
+/** What an LLM call was for; scaffolds count as generate */
+export const USAGE_PHASES = ['generate', 'fix', 'review', 'coverage-summary'] as const;
+export type UsagePhase = typeof USAGE_PHASES[number];
+
+export interface UsageTotals {
+  calls: number;
+  /** Calls answered from the response cache; their tokens are not counted */
+  cachedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Prompt tokens served from the provider's prompt cache (included in promptTokens) */
+  cacheReadTokens: number;
+  /** Prompt tokens written to the provider's prompt cache (included in promptTokens) */
+  cacheWriteTokens: number;
+  /** Estimated USD cost of the calls whose model has a known price */
+  costUSD: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byPhase: Partial<Record<UsagePhase, UsageTotals>>;
+  byTarget: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Models that served each target, in the order they were first used (more than one after a fallback) */
+  modelsByTarget: Record<string, string[]>;
+  /** Models without a price; their tokens are counted but not included in costUSD */
+  unpricedModels: string[];
+  /** Why the run stopped making LLM calls, when a budget was reached */
+  budgetExceeded?: string;
+}
+
+export interface UsageEntry {
+  phase: UsagePhase;
+  model: string;
+  /** Function (`file:name`), test file or source file the call was for */
+  target?: string;
+  response: Pick<LLMResponse, 'usage' | 'cached'>;
+}
+
+export interface UsageLedgerOptions {
+  prices?: Record<string, ModelPrice>;
+  maxCostUSD?: number;
+  maxTotalTokens?: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cachedCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUSD: 0 };
+}
+
+function totalsFor<K extends string>(totals: Partial<Record<K, UsageTotals>>, key: K): UsageTotals {
+  let entry = totals[key];
+  if (!entry) {
+    entry = emptyTotals();
+    totals[key] = entry;
+  }
+  return entry;
+}
+
+function addTo(totals: UsageTotals, cached: boolean, call: Omit<UsageTotals, 'calls' | 'cachedCalls' | 'totalTokens'>): void {
+  totals.calls++;
+  if (cached) {
+    totals.cachedCalls++;
+    return;
+  }
+  totals.promptTokens += call.promptTokens;
+  totals.completionTokens += call.completionTokens;
+  totals.totalTokens += call.promptTokens + call.completionTokens;
+  totals.cacheReadTokens += call.cacheReadTokens;
+  totals.cacheWriteTokens += call.cacheWriteTokens;
+  totals.costUSD += call.costUSD;
+}
+
+export class UsageLedger {
+  private total = emptyTotals();
+  private byPhase: Partial<Record<UsagePhase, UsageTotals>> = {};
+  private byTarget: Record<string, UsageTotals> = {};
+  private byModel: Record<string, UsageTotals> = {};
+  private modelsByTarget: Record<string, string[]> = {};
+  private unpricedModels = new Set<string>();
+
+  constructor(private options: UsageLedgerOptions = {}) {}
+
+  /**
+   * Add a completed call to the totals
+   */
+  record(entry: UsageEntry): void {
+    const cached = entry.response.cached === true;
+    const usage = entry.response.usage ?? {};
+    const promptTokens = usage.promptTokens ?? 0;
+    const completionTokens = usage.completionTokens ?? Math.max(0, (usage.totalTokens ?? 0) - promptTokens);
+    const cacheReadTokens = usage.cacheReadTokens ?? 0;
+    const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+
+    let costUSD = 0;
+    if (!cached) {
+      const cost = estimateCost(entry.model, promptTokens, completionTokens, this.options.prices, {
+        readTokens: cacheReadTokens,
+        writeTokens: cacheWriteTokens,
+      });
+      if (cost === null) {
+        if (!this.unpricedModels.has(entry.model) && this.options.maxCostUSD !== undefined) {
+          warn(`No price known for model ${entry.model}: its calls do not count toward maxCostUSD (add it to prices)`);
+        }
+        this.unpricedModels.add(entry.model);
+      } else {
+        costUSD = cost;
+      }
+    }
+
+    const buckets = [this.total, totalsFor(this.byPhase, entry.phase), totalsFor(this.byModel, entry.model)];
+    if (entry.target) {
+      buckets.push(totalsFor(this.byTarget, entry.target));
+      const models = this.modelsByTarget[entry.target] ?? [];
+      if (!models.includes(entry.model)) {
+        this.modelsByTarget[entry.target] = [...models, entry.model];
+      }
+    }
+    for (const totals of buckets) {
+      addTo(totals, cached, { promptTokens, completionTokens, cacheReadTokens, cacheWriteTokens, costUSD });
+    }
+  }
+
+  /**
+   * The budget that has been reached, or null while the run may keep calling the LLM
+   */
+  budgetExceeded(): string | null {
+    const { maxCostUSD, maxTotalTokens } = this.options;
+    if (maxCostUSD !== undefined && this.total.costUSD >= maxCostUSD) {
+      return `maxCostUSD reached ($${this.total.costUSD.toFixed(4)} of $${maxCostUSD})`;
+    }
+    if (maxTotalTokens !== undefined && this.total.totalTokens >= maxTotalTokens) {
+      return `maxTotalTokens reached (${this.total.totalTokens} of ${maxTotalTokens})`;
+    }
+    return null;
+  }
+
+  /**
+   * Throw BudgetExceededError if the budget has been reached; called before each LLM call
+   */
+  assertWithinBudget(): void {
+    const exceeded = this.budgetExceeded();
+    if (exceeded) {
+      throw new BudgetExceededError(`LLM budget exhausted: ${exceeded}`);
+    }
+  }
+
+  getSummary(): UsageSummary {
+    const clone = (totals: Record<string, UsageTotals>) =>
+      Object.fromEntries(Object.entries(totals).map(([key, value]) => [key, { ...value }]));
+    return {
+      total: { ...this.total },
+      byPhase: clone(this.byPhase),
+      byTarget: clone(this.byTarget),
+      byModel: clone(this.byModel),
+      modelsByTarget: Object.fromEntries(Object.entries(this.modelsByTarget).map(([key, models]) => [key, [...models]])),
+      unpricedModels: [...this.unpricedModels],
+      budgetExceeded: this.budgetExceeded() ?? undefined,
+    };
+  }
+}
+
+/**
+ * Create the ledger for a run from the prices and budget in config
+ */
+export function createUsageLedger(config: Partial<Pick<KakarotConfig, 'prices' | 'models' | 'maxCostUSD' | 'maxTotalTokens'>>): UsageLedger {
+  return new UsageLedger({
+    prices: configuredPrices(config),
+    maxCostUSD: config.maxCostUSD,
+    maxTotalTokens: config.maxTotalTokens,
+  });
+}
+
+/**
+ * One-line description of usage totals, e.g. "12,345 tokens (10,000 in / 2,345 out), $0.0712".
+ * Prompt cache hits are appended when there were any, e.g. ", 8,000 from prompt cache".
+ */
+export function formatUsageTotals(totals: UsageTotals, unpricedModels: string[] = []): string {
+  const tokens = `${totals.totalTokens.toLocaleString('en-US')} tokens ` +
+    `(${totals.promptTokens.toLocaleString('en-US')} in / ${totals.completionTokens.toLocaleString('en-US')} out)`;
+  const unpriced = unpricedModels.length > 0 ? ` excluding unpriced ${unpricedModels.join(', ')}` : '';
+  const promptCache = totals.cacheReadTokens > 0 ? `, ${totals.cacheReadTokens.toLocaleString('en-US')} from prompt cache` : '';
+  const cached = totals.cachedCalls > 0 ? `, ${totals.cachedCalls} cached call(s)` : '';
+  return `${tokens}, $${totals.costUSD.toFixed(4)}${unpriced}${promptCache}${cached}`;
+}
@@ -4,8 +4,8 @@ import { z } from 'zod';
 // Const Type Definitions
 // ============================================================================
 
-/** Supported LLM providers */
-export const LLM_PROVIDERS = ['openai', 'anthropic', 'google'] as const;
+/** Supported LLM providers; openai-compatible covers self-hosted servers (vLLM, Ollama, LM Studio) */
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'google', 'openai-compatible', 'azure-openai', 'bedrock'] as const;
 export type LLMProvider = (typeof LLM_PROVIDERS)[number];
 
 /** Supported test frameworks */
@@ -13,7 +13,7 @@ export const TEST_FRAMEWORKS = ['jest', 'vitest'] as const;
 export type TestFramework = (typeof TEST_FRAMEWORKS)[number];
 
 /** Test generation modes */
-export const TEST_MODES = ['scaffold', 'full', 'pr'] as const;
+export const TEST_MODES = ['scaffold', 'full', 'pr', 'backfill'] as const;
 export type TestMode = (typeof TEST_MODES)[number];
 
 /** Test file location strategies */
@@ -41,10 +41,36 @@ export type TestFilePattern = (typeof TEST_FILE_PATTERNS)[number];
 export const COMMIT_STRATEGIES = ['direct', 'branch-pr'] as const;
 export type CommitStrategy = (typeof COMMIT_STRATEGIES)[number];
 
+/**
+ * Run outcomes that can fail CI, most severe first. Config errors and unexpected crashes
+ * always fail; `failOn` chooses which of these do.
+ */
+export const FAILURE_CLASSES = ['quota', 'llm-error', 'commit-conflict', 'tests-failing', 'partial'] as const;
+export type FailureClass = (typeof FAILURE_CLASSES)[number];
+
+/** Cassette modes: record every LLM call of a run, or replay a recording without calling the LLM */
+export const CASSETTE_MODES = ['record', 'replay'] as const;
+export type CassetteMode = (typeof CASSETTE_MODES)[number];
+
+/** How replay pairs requests with recorded interactions: strictly in recorded order, or by request hash */
+export const CASSETTE_MATCHING = ['order', 'hash'] as const;
+export type CassetteMatching = (typeof CASSETTE_MATCHING)[number];
+
+/** Most targets generated in parallel; more mostly trades rate limit waits for memory */
+export const MAX_CONCURRENCY = 16;
+
 // ============================================================================
 // Config Schema
 // ============================================================================
 
+/** USD per million tokens */
+const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+});
+
 export const KakarotConfigSchema = z.object({
   // Authentication (user-provided, must remain flexible)
   apiKey: z.string(),
@@ -56,11 +82,40 @@ export const KakarotConfigSchema = z.object({
   provider: z.enum(LLM_PROVIDERS).optional(),
   model: z.string().optional(), // Models change frequently, keep as string
   fixModel: z.string().optional(), // Optional separate model for fixing (stronger model recommended)
+  baseUrl: z.string().url().optional(), // OpenAI-compatible API root, e.g. http://localhost:11434/v1 (openai/openai-compatible), or a Bedrock endpoint override
+  headers: z.record(z.string()).optional(), // Extra HTTP headers sent with every LLM request (all providers except anthropic/google)
+  azureEndpoint: z.string().url().optional(), // Azure OpenAI resource endpoint, e.g. https://my-resource.openai.azure.com
+  azureDeployment: z.string().min(1).optional(), // Azure OpenAI deployment name (requests are routed by deployment, not model)
+  azureApiVersion: z.string().min(1).optional(), // Azure OpenAI api-version query parameter (default: 2024-10-21)
+  awsRegion: z.string().min(1).optional(), // Bedrock region (default: AWS_REGION, AWS_DEFAULT_REGION or the AWS profile's region)
   maxTokens: z.number().int().min(1).max(100000).optional(),
-  contextLimit: z.number().int().min(1000).max(2000000).optional(),
+  contextLimit: z.number().int().min(1000).max(2000000).optional(), // Overrides the model's context window from the registry
+  models: z.record(z.object({
+    contextWindow: z.number().int().min(1000).optional(),
+    maxOutputTokens: z.number().int().min(1).optional(),
+    price: ModelPriceSchema.optional(),
+    supportsTemperature: z.boolean().optional(),
+    tokenParam: z.enum(['max_tokens', 'max_completion_tokens']).optional(),
+  })).optional(), // Model registry entries by model name prefix: add models or correct the built-in ones
   temperature: z.number().min(0).max(2).optional(),
   fixTemperature: z.number().min(0).max(2).optional(),
   maxFixAttempts: z.number().int().min(-1).default(8), // -1 means infinite attempts
+  stream: z.boolean().default(true), // Stream responses for live progress and to abort repeating output early
+  structuredOutput: z.boolean().default(true), // Ask OpenAI, Azure OpenAI, Anthropic and Google for JSON test output instead of parsing markdown
+  cache: z.boolean().default(false), // Reuse responses to identical LLM requests from .kakarot/cache
+  cacheTtlHours: z.number().positive().default(168), // Cached responses older than this are discarded (default: 7 days)
+  cacheMaxSizeMB: z.number().positive().default(100), // Oldest cached responses are evicted beyond this size
+  cassette: z.object({
+    mode: z.enum(CASSETTE_MODES),
+    path: z.string().min(1),
+    match: z.enum(CASSETTE_MATCHING).default('order'),
+  }).optional(), // Record all LLM calls to a cassette file, or replay one offline
+  fallbacks: z.array(z.object({
+    provider: z.enum(LLM_PROVIDERS),
+    model: z.string().optional(), // Defaults to the provider's default model
+    apiKey: z.string().optional(), // Defaults to apiKey when the provider is the same
+    baseUrl: z.string().url().optional(),
+  })).optional(), // Providers to switch to, in order, when the current one runs out of quota or is unavailable
 
   // Test Framework Settings
   framework: z.enum(TEST_FRAMEWORKS),
@@ -77,8 +132,14 @@ export const KakarotConfigSchema = z.object({
   // -1 means unlimited (process all targets)
   maxTestsPerPR: z.number().int().min(-1).default(-1),
   requestDelay: z.number().int().min(0).max(60000).default(0).optional(), // Delay between requests in ms
+  concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).default(1).optional(), // Targets generated in parallel; all share the provider's rate limiter
   maxRetries: z.number().int().min(0).max(10).default(5).optional(), // Max retries for rate limits
 
+  // Usage Budget
+  prices: z.record(ModelPriceSchema).optional(), // USD per million tokens by model name prefix; adds to or overrides the built-in list prices
+  maxCostUSD: z.number().positive().optional(), // Stop making LLM calls once the estimated spend reaches this
+  maxTotalTokens: z.number().int().positive().optional(), // Stop making LLM calls once this many tokens are used
+
   // Git Integration
   enableAutoCommit: z.boolean().default(true),
   commitStrategy: z.enum(COMMIT_STRATEGIES).default('direct'),
@@ -86,6 +147,9 @@ export const KakarotConfigSchema = z.object({
   skipCommitOnFailure: z.boolean().default(false),
   enablePRComments: z.boolean().default(true),
 
+  // CI failure policy (default: every failure class fails the run)
+  failOn: z.array(z.enum(FAILURE_CLASSES)).default([...FAILURE_CLASSES]),
+
   // Coverage
   enableCoverage: z.boolean().default(false),
 
@@ -113,3 +177,5 @@ export type KakarotConfig = z.infer<typeof KakarotConfigSchema>;
 
 export type PartialKakarotConfig = Partial<KakarotConfig>;
 
+export type FallbackProviderConfig = NonNullable<KakarotConfig['fallbacks']>[number];
+
@@ -25,9 +25,18 @@ export interface CoverageMetrics {
   };
 }
 
+export interface UncoveredLines {
+  /** Start line of each statement that never executed */
+  statements: number[];
+  /** Start line of each branch path that never executed */
+  branches: number[];
+}
+
 export interface FileCoverage {
   path: string;
   metrics: CoverageMetrics;
+  /** Present when the report includes statementMap/branchMap locations */
+  uncovered?: UncoveredLines;
 }
 
 export interface CoverageReport {
@@ -48,3 +48,47 @@ export class NonRetryableError extends KakarotError {
     this.name = 'NonRetryableError';
   }
 }
+
+/**
+ * Invalid or missing configuration, including settings the LLM API rejects (bad key, unsupported parameter)
+ */
+export class ConfigError extends KakarotError {
+  readonly isNonRetryable = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * The PR branch moved ahead while tests were being generated, so the commit was rejected
+ */
+export class CommitConflictError extends KakarotError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommitConflictError';
+  }
+}
+
+/**
+ * A replayed run sent a request the cassette did not record, so its responses cannot be trusted
+ */
+export class CassetteMismatchError extends NonRetryableError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * The run reached maxCostUSD or maxTotalTokens, so no further LLM calls are made
+ */
+export class BudgetExceededError extends KakarotError {
+  readonly isNonRetryable = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
@@ -5,6 +5,12 @@
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
+  /**
+   * Marks the end of a stable prompt prefix that repeats across calls (instructions, shared
+   * source context). Anthropic caches the prefix up to this message; OpenAI caches matching
+   * prefixes automatically, so prompt builders keep the stable messages first.
+   */
+  cache?: boolean;
 }
 
 export interface LLMResponse {
@@ -13,10 +19,17 @@ export interface LLMResponse {
   finishReason?: 'stop' | 'length' | 'max_tokens' | 'safety' | 'error' | string;
   /** True if response was truncated due to token limits */
   truncated?: boolean;
+  /** True if the response was served from the on-disk cache instead of the provider */
+  cached?: boolean;
   usage?: {
+    /** All input tokens, including those read from or written to the prompt cache */
     promptTokens?: number;
     completionTokens?: number;
     totalTokens?: number;
+    /** Input tokens served from the provider's prompt cache */
+    cacheReadTokens?: number;
+    /** Input tokens written to the provider's prompt cache */
+    cacheWriteTokens?: number;
   };
 }
 
@@ -31,6 +44,29 @@ export interface LLMGenerateOptions {
   temperature?: number;
   maxTokens?: number;
   stopSequences?: string[];
+  /**
+   * Called with each text delta as it arrives. Providers that support streaming
+   * (OpenAI, Azure OpenAI, OpenAI-compatible, Anthropic, Google) stream when it is set;
+   * others call it once with the full response.
+   */
+  onToken?: (delta: string) => void;
+  /** Aborts the request, including a response that is still streaming */
+  signal?: AbortSignal;
+  /**
+   * Ask for a JSON response following this schema instead of free text. OpenAI and Azure OpenAI
+   * use a json_schema response format, Anthropic a forced tool call and Google responseSchema;
+   * content is then the JSON text. Bedrock ignores it.
+   */
+  responseSchema?: ResponseSchema;
+}
+
+/** Shape of a structured (JSON) response */
+export interface ResponseSchema {
+  /** Identifier of the schema; Anthropic uses it as the tool name */
+  name: string;
+  description: string;
+  /** JSON Schema of the response object (the subset all providers accept: no $ref, no oneOf) */
+  schema: Record<string, unknown>;
 }
 
 export interface TestGenerationContext {
@@ -57,11 +93,13 @@ export interface TestGenerationContext {
 export interface TestGenerationResult {
   testCode: string;
   explanation?: string;
-  usage?: {
-    promptTokens?: number;
-    completionTokens?: number;
-    totalTokens?: number;
-  };
+  usage?: LLMResponse['usage'];
+  /** Test cases the model reports writing; only set when the response was structured */
+  testCases?: Array<{ name: string; intent: string }>;
+  /** Assumptions the model made about the code under test (structured responses only) */
+  assumptions?: string[];
+  /** Behaviour the model thinks is a bug in the code under test (structured responses only) */
+  suspectedBugs?: string[];
 }
 
 export interface TestFixContext {
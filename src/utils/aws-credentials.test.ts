@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, readFileSync } from 'fs';
+import { parseIni, resolveAwsCredentials, resolveAwsRegion } from './aws-credentials.js';
+import { ConfigError } from '../types/errors.js';
+
+vi.mock('fs');
+vi.mock('os', () => ({
+  homedir: () => '/home/dev',
+}));
+
+const AWS_ENV = [
+  'AWS_ACCESS_KEY_ID',
+  'AWS_SECRET_ACCESS_KEY',
+  'AWS_SESSION_TOKEN',
+  'AWS_PROFILE',
+  'AWS_REGION',
+  'AWS_DEFAULT_REGION',
+  'AWS_SHARED_CREDENTIALS_FILE',
+  'AWS_CONFIG_FILE',
+  'AWS_CONTAINER_CREDENTIALS_RELATIVE_URI',
+  'AWS_CONTAINER_CREDENTIALS_FULL_URI',
+  'AWS_CONTAINER_AUTHORIZATION_TOKEN',
+];
+
+describe('aws-credentials', () => {
+  let files: Record<string, string>;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const name of AWS_ENV) {
+      delete process.env[name];
+    }
+    files = {};
+    vi.mocked(existsSync).mockImplementation(path => String(path) in files);
+    vi.mocked(readFileSync).mockImplementation(path => files[String(path)]);
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    vi.unstubAllGlobals();
+  });
+
+  describe('parseIni', () => {
+    it('should parse sections and skip comments', () => {
+      const sections = parseIni('# comment\n[default]\naws_access_key_id = AKID\n\n[profile ci]\nregion=eu-west-1\n');
+
+      expect(sections.get('default')).toEqual({ aws_access_key_id: 'AKID' });
+      expect(sections.get('profile ci')).toEqual({ region: 'eu-west-1' });
+    });
+  });
+
+  describe('resolveAwsCredentials', () => {
+    it('should prefer environment variables', async () => {
+      process.env.AWS_ACCESS_KEY_ID = 'AKIDENV';
+      process.env.AWS_SECRET_ACCESS_KEY = 'secret';
+      process.env.AWS_SESSION_TOKEN = 'token';
+      files['/home/dev/.aws/credentials'] = '[default]\naws_access_key_id=AKIDFILE\naws_secret_access_key=file';
+
+      await expect(resolveAwsCredentials()).resolves.toEqual({
+        accessKeyId: 'AKIDENV',
+        secretAccessKey: 'secret',
+        sessionToken: 'token',
+      });
+    });
+
+    it('should read the AWS_PROFILE section of the shared credentials file', async () => {
+      process.env.AWS_PROFILE = 'ci';
+      files['/home/dev/.aws/credentials'] = [
+        '[default]',
+        'aws_access_key_id=AKIDDEFAULT',
+        'aws_secret_access_key=default',
+        '[ci]',
+        'aws_access_key_id=AKIDCI',
+        'aws_secret_access_key=ci-secret',
+      ].join('\n');
+
+      await expect(resolveAwsCredentials()).resolves.toEqual({
+        accessKeyId: 'AKIDCI',
+        secretAccessKey: 'ci-secret',
+        sessionToken: undefined,
+      });
+    });
+
+    it('should load container credentials when no static credentials exist', async () => {
+      process.env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI = '/v2/credentials/abc';
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ AccessKeyId: 'ASIA', SecretAccessKey: 'container', Token: 'tok', Expiration: '2026-10-19T21:00:00Z' }))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(resolveAwsCredentials()).resolves.toEqual({
+        accessKeyId: 'ASIA',
+        secretAccessKey: 'container',
+        sessionToken: 'tok',
+        expiration: new Date('2026-10-19T21:00:00Z'),
+      });
+      expect(fetchMock).toHaveBeenCalledWith('http://169.254.170.2/v2/credentials/abc', { headers: {} });
+    });
+
+    it('should throw a ConfigError when nothing is configured', async () => {
+      await expect(resolveAwsCredentials()).rejects.toThrow(ConfigError);
+    });
+  });
+
+  describe('resolveAwsRegion', () => {
+    it('should prefer the explicit region, then the environment, then the profile', () => {
+      files['/home/dev/.aws/config'] = '[default]\nregion = ap-southeast-2\n';
+
+      expect(resolveAwsRegion()).toBe('ap-southeast-2');
+      process.env.AWS_DEFAULT_REGION = 'eu-central-1';
+      expect(resolveAwsRegion()).toBe('eu-central-1');
+      process.env.AWS_REGION = 'us-west-2';
+      expect(resolveAwsRegion()).toBe('us-west-2');
+      expect(resolveAwsRegion('us-east-1')).toBe('us-east-1');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * AWS credential and region resolution following the standard SDK chain (a subset of it):
+ * environment variables, then the shared credentials/config files, then the ECS/CodeBuild
+ * container credentials endpoint. SSO, web identity and EC2 instance metadata are not supported;
+ * export credentials into the environment for those (e.g. aws-actions/configure-aws-credentials).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ConfigError } from '../types/errors.js';
+import type { AwsCredentials } from './aws-sigv4.js';
+
+const CONTAINER_CREDENTIALS_HOST = 'http://169.254.170.2';
+
+type IniSections = Map<string, Record<string, string>>;
+
+/**
+ * Parse an AWS shared config/credentials file into sections of key/value pairs
+ */
+export function parseIni(content: string): IniSections {
+  const sections: IniSections = new Map();
+  let current: Record<string, string> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      current = {};
+      sections.set(section[1].trim(), current);
+      continue;
+    }
+    const separator = line.indexOf('=');
+    if (current && separator > 0) {
+      current[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return sections;
+}
+
+function readIni(path: string): IniSections {
+  return existsSync(path) ? parseIni(readFileSync(path, 'utf-8')) : new Map();
+}
+
+function profileName(): string {
+  return process.env.AWS_PROFILE || 'default';
+}
+
+function credentialsFilePath(): string {
+  return process.env.AWS_SHARED_CREDENTIALS_FILE || join(homedir(), '.aws', 'credentials');
+}
+
+function configFilePath(): string {
+  return process.env.AWS_CONFIG_FILE || join(homedir(), '.aws', 'config');
+}
+
+/**
+ * Profile section of ~/.aws/config, where profiles other than default are named `profile <name>`
+ */
+function configProfile(profile: string): Record<string, string> | undefined {
+  const sections = readIni(configFilePath());
+  return profile === 'default'
+    ? sections.get('default') ?? sections.get('profile default')
+    : sections.get(`profile ${profile}`);
+}
+
+function fromEnvironment(): AwsCredentials | null {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    return null;
+  }
+  return { accessKeyId, secretAccessKey, sessionToken: process.env.AWS_SESSION_TOKEN || undefined };
+}
+
+function fromSharedFiles(profile: string): AwsCredentials | null {
+  const section = readIni(credentialsFilePath()).get(profile) ?? configProfile(profile);
+  if (!section?.aws_access_key_id || !section.aws_secret_access_key) {
+    return null;
+  }
+  return {
+    accessKeyId: section.aws_access_key_id,
+    secretAccessKey: section.aws_secret_access_key,
+    sessionToken: section.aws_session_token || undefined,
+  };
+}
+
+async function fromContainer(): Promise<AwsCredentials | null> {
+  const relativeUri = process.env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI;
+  const url = relativeUri ? `${CONTAINER_CREDENTIALS_HOST}${relativeUri}` : process.env.AWS_CONTAINER_CREDENTIALS_FULL_URI;
+  if (!url) {
+    return null;
+  }
+
+  const token = process.env.AWS_CONTAINER_AUTHORIZATION_TOKEN;
+  const response = await fetch(url, { headers: token ? { Authorization: token } : {} });
+  if (!response.ok) {
+    throw new ConfigError(`Could not load AWS container credentials from ${url}: ${response.status} ${response.statusText}`);
+  }
+  const data = (await response.json()) as { AccessKeyId?: string; SecretAccessKey?: string; Token?: string; Expiration?: string };
+  if (!data.AccessKeyId || !data.SecretAccessKey) {
+    throw new ConfigError(`AWS container credentials endpoint ${url} returned no credentials`);
+  }
+  const expiration = data.Expiration ? new Date(data.Expiration) : undefined;
+  return {
+    accessKeyId: data.AccessKeyId,
+    secretAccessKey: data.SecretAccessKey,
+    sessionToken: data.Token,
+    expiration: expiration && !Number.isNaN(expiration.getTime()) ? expiration : undefined,
+  };
+}
+
+/**
+ * Resolve AWS credentials from the environment, shared files or container endpoint
+ */
+export async function resolveAwsCredentials(): Promise<AwsCredentials> {
+  const profile = profileName();
+  const credentials = fromEnvironment() ?? fromSharedFiles(profile) ?? await fromContainer();
+  if (!credentials) {
+    throw new ConfigError(
+      'No AWS credentials found. Set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY, ' +
+      `or add profile "${profile}" to ${credentialsFilePath()}`
+    );
+  }
+  return credentials;
+}
+
+/**
+ * Resolve the AWS region: explicit value, then AWS_REGION/AWS_DEFAULT_REGION, then the profile's region
+ */
+export function resolveAwsRegion(explicit?: string): string | undefined {
+  return explicit
+    || process.env.AWS_REGION
+    || process.env.AWS_DEFAULT_REGION
+    || configProfile(profileName())?.region
+    || undefined;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { signRequest, toAmzDate } from './aws-sigv4.js';
+
+// Credentials and timestamp from the AWS SigV4 test suite
+const scope = {
+  credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+  region: 'us-east-1',
+  service: 'service',
+};
+const now = new Date('2015-08-30T12:36:00Z');
+
+describe('toAmzDate', () => {
+  it('should format basic ISO 8601 timestamps', () => {
+    expect(toAmzDate(now)).toBe('20150830T123600Z');
+  });
+});
+
+describe('signRequest', () => {
+  it('should match the get-vanilla test suite signature', () => {
+    const headers = signRequest({ method: 'GET', url: 'https://example.amazonaws.com/', headers: {}, body: '' }, scope, now);
+
+    expect(headers).toEqual({
+      host: 'example.amazonaws.com',
+      'x-amz-date': '20150830T123600Z',
+      authorization:
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    });
+  });
+
+  it('should sign the session token and every given header', () => {
+    const headers = signRequest(
+      {
+        method: 'POST',
+        url: 'https://bedrock-runtime.us-east-1.amazonaws.com/model/anthropic.claude-v2%3A1/invoke',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+      },
+      { ...scope, credentials: { ...scope.credentials, sessionToken: 'session' } },
+      now
+    );
+
+    expect(headers['x-amz-security-token']).toBe('session');
+    expect(headers.authorization).toContain('SignedHeaders=content-type;host;x-amz-date;x-amz-security-token,');
+  });
+
+  it('should double-encode path segments so the signature differs from the raw path', () => {
+    const sign = (url: string) =>
+      signRequest({ method: 'POST', url, headers: {}, body: '' }, scope, now).authorization;
+
+    expect(sign('https://example.amazonaws.com/model/a%3A1/invoke'))
+      .not.toBe(sign('https://example.amazonaws.com/model/a:1/invoke'));
+  });
+});
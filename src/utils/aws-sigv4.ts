@@ -0,0 +1,114 @@
+/**
+ * AWS Signature Version 4 request signing
+ * https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv-create-signed-request.html
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /** When temporary credentials stop working; absent for long-lived keys */
+  expiration?: Date;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SigningScope {
+  credentials: AwsCredentials;
+  region: string;
+  service: string;
+}
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value, 'utf8').digest();
+}
+
+/**
+ * RFC 3986 encoding as SigV4 requires (encodeURIComponent leaves !'()* unescaped)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Every service except S3 encodes each path segment a second time,
+ * so `%3A` in a Bedrock model ID is signed as `%253A`
+ */
+function canonicalUri(pathname: string): string {
+  return pathname.split('/').map(encodeRfc3986).join('/') || '/';
+}
+
+function canonicalQuery(searchParams: URLSearchParams): string {
+  return [...searchParams.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Format a date as SigV4's basic ISO 8601 timestamp, e.g. 20150830T123600Z
+ */
+export function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Sign a request, returning its headers plus `host`, `x-amz-date`, `x-amz-security-token`
+ * (for temporary credentials) and `authorization`. All given headers are signed.
+ */
+export function signRequest(request: SignableRequest, scope: SigningScope, now = new Date()): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = toAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: url.host,
+    'x-amz-date': amzDate,
+    ...(scope.credentials.sessionToken ? { 'x-amz-security-token': scope.credentials.sessionToken } : {}),
+  };
+
+  const normalized = new Map<string, string>();
+  for (const [name, value] of Object.entries(headers)) {
+    normalized.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const headerNames = [...normalized.keys()].sort();
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri(url.pathname),
+    canonicalQuery(url.searchParams),
+    headerNames.map(name => `${name}:${normalized.get(name)}\n`).join(''),
+    signedHeaders,
+    sha256Hex(request.body),
+  ].join('\n');
+
+  const credentialScope = `${dateStamp}/${scope.region}/${scope.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope, sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = hmac(`AWS4${scope.credentials.secretAccessKey}`, dateStamp);
+  const regionKey = hmac(dateKey, scope.region);
+  const serviceKey = hmac(regionKey, scope.service);
+  const signingKey = hmac(serviceKey, 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${scope.credentials.accessKeyId}/${credentialScope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
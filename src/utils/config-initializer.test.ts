@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  inferTestLayout,
+  detectInitConfig,
+  detectModuleFormat,
+  findExistingConfigFile,
+  renderConfigFile,
+  type InitDetection,
+} from './config-initializer.js';
+import { existsSync, readFileSync } from 'fs';
+import { detectTestFramework } from './config-loader.js';
+import { detectCodeStyle } from './code-standards.js';
+import { listProjectFiles } from './project-files.js';
+
+vi.mock('fs', () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+}));
+
+vi.mock('./config-loader.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./config-loader.js')>();
+  return {
+    ...actual,
+    detectTestFramework: vi.fn(),
+  };
+});
+
+vi.mock('./code-standards.js', () => ({
+  detectCodeStyle: vi.fn(),
+}));
+
+vi.mock('./package-manager-detector.js', () => ({
+  detectPackageManager: vi.fn().mockReturnValue('pnpm'),
+}));
+
+vi.mock('./project-files.js', () => ({
+  listProjectFiles: vi.fn(),
+}));
+
+const baseDetection: Pick<InitDetection, 'values' | 'notes'> = {
+  values: {
+    provider: 'anthropic',
+    model: 'claude-opus-4-6',
+    framework: 'vitest',
+    testLocation: 'separate',
+    testDirectory: '__tests__',
+    testFilePattern: '*.test.ts',
+    formatGeneratedCode: true,
+    lintGeneratedCode: false,
+  },
+  notes: {
+    provider: 'detected from API key prefix',
+    framework: 'detected from package.json',
+    layout: 'inferred from 3 existing test file(s)',
+    codeStyle: 'detected Prettier',
+  },
+};
+
+describe('config-initializer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(false);
+  });
+
+  describe('inferTestLayout', () => {
+    it('should use defaults when there are no test files', () => {
+      const layout = inferTestLayout(['src/index.ts']);
+
+      expect(layout).toEqual({
+        testLocation: 'separate',
+        testDirectory: '__tests__',
+        testFilePattern: '*.test.ts',
+        testFileCount: 0,
+      });
+    });
+
+    it('should default to a js pattern for JavaScript projects', () => {
+      const layout = inferTestLayout(['src/index.js']);
+
+      expect(layout.testFilePattern).toBe('*.test.js');
+    });
+
+    it('should detect co-located tests', () => {
+      const layout = inferTestLayout([
+        'src/a.ts',
+        'src/a.test.ts',
+        'src/utils/b.ts',
+        'src/utils/b.test.ts',
+      ]);
+
+      expect(layout.testLocation).toBe('co-located');
+      expect(layout.testFilePattern).toBe('*.test.ts');
+      expect(layout.testFileCount).toBe(2);
+    });
+
+    it('should detect a separate test directory and spec pattern', () => {
+      const layout = inferTestLayout([
+        'src/a.ts',
+        'src/b.ts',
+        'tests/a.spec.ts',
+        'tests/b.spec.ts',
+      ]);
+
+      expect(layout.testLocation).toBe('separate');
+      expect(layout.testDirectory).toBe('tests');
+      expect(layout.testFilePattern).toBe('*.spec.ts');
+    });
+
+    it('should prefer the most specific matching test directory', () => {
+      const layout = inferTestLayout(['src/a.ts', 'src/__tests__/a.test.ts']);
+
+      expect(layout.testDirectory).toBe('src/__tests__');
+    });
+
+    it('should map nested __tests__ directories to __tests__', () => {
+      const layout = inferTestLayout(['packages/x/a.ts', 'packages/x/__tests__/a.test.tsx']);
+
+      expect(layout.testDirectory).toBe('__tests__');
+      expect(layout.testFilePattern).toBe('*.test.tsx');
+    });
+  });
+
+  describe('detectInitConfig', () => {
+    it('should combine the project detectors', async () => {
+      vi.mocked(detectTestFramework).mockResolvedValue('vitest');
+      vi.mocked(detectCodeStyle).mockResolvedValue({
+        prettier: { enabled: true },
+        eslint: { enabled: true },
+      });
+      vi.mocked(listProjectFiles).mockReturnValue(['src/a.ts', 'src/a.test.ts']);
+
+      const detection = await detectInitConfig('/project', 'sk-ant-123');
+
+      expect(detection.values).toMatchObject({
+        provider: 'anthropic',
+        framework: 'vitest',
+        testLocation: 'co-located',
+        formatGeneratedCode: true,
+        lintGeneratedCode: true,
+      });
+      expect(detection.packageManager).toBe('pnpm');
+      expect(detection.notes.codeStyle).toContain('Prettier');
+    });
+
+    it('should fall back to jest and leave provider unset when nothing is detected', async () => {
+      vi.mocked(detectTestFramework).mockResolvedValue(null);
+      vi.mocked(detectCodeStyle).mockResolvedValue({});
+      vi.mocked(listProjectFiles).mockReturnValue([]);
+
+      const detection = await detectInitConfig('/project');
+
+      expect(detection.values.framework).toBe('jest');
+      expect(detection.values.provider).toBeUndefined();
+      expect(detection.values.formatGeneratedCode).toBe(false);
+    });
+  });
+
+  describe('detectModuleFormat', () => {
+    it('should return esm for type module packages', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ type: 'module' }));
+
+      expect(detectModuleFormat('/project')).toBe('esm');
+    });
+
+    it('should return cjs otherwise', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ name: 'x' }));
+
+      expect(detectModuleFormat('/project')).toBe('cjs');
+    });
+  });
+
+  describe('findExistingConfigFile', () => {
+    it('should find a config file', () => {
+      vi.mocked(existsSync).mockImplementation((path) => String(path).endsWith('.kakarot-ci.config.json'));
+
+      expect(findExistingConfigFile('/project')).toBe('/project/.kakarot-ci.config.json');
+    });
+
+    it('should ignore package.json without a kakarot field', () => {
+      vi.mocked(existsSync).mockImplementation((path) => String(path).endsWith('package.json'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ name: 'x' }));
+
+      expect(findExistingConfigFile('/project')).toBeNull();
+    });
+
+    it('should detect a kakarotCi field in package.json', () => {
+      vi.mocked(existsSync).mockImplementation((path) => String(path).endsWith('package.json'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ kakarotCi: { framework: 'jest' } }));
+
+      expect(findExistingConfigFile('/project')).toBe('/project/package.json');
+    });
+  });
+
+  describe('renderConfigFile', () => {
+    it('should render an ESM config with comments', () => {
+      const content = renderConfigFile(baseDetection, 'esm');
+
+      expect(content).toContain('export default {');
+      expect(content).toContain('apiKey: process.env.KAKAROT_API_KEY,');
+      expect(content).toContain("provider: 'anthropic',");
+      expect(content).toContain("framework: 'vitest',");
+      expect(content).toContain('// Test framework (detected from package.json)');
+      expect(content).toContain('formatGeneratedCode: true,');
+    });
+
+    it('should render a CommonJS config', () => {
+      const content = renderConfigFile(baseDetection, 'cjs');
+
+      expect(content).toContain('module.exports = {');
+    });
+
+    it('should comment out provider when not detected', () => {
+      const content = renderConfigFile(
+        { ...baseDetection, values: { ...baseDetection.values, provider: undefined, model: undefined } },
+        'esm'
+      );
+
+      expect(content).toContain("// provider: 'anthropic'");
+      expect(content).not.toMatch(/^ {2}provider:/m);
+    });
+
+    it('should never include a literal API key', () => {
+      const content = renderConfigFile(baseDetection, 'esm');
+
+      expect(content).not.toContain('placeholder');
+    });
+
+    it('should reject values that fail schema validation', () => {
+      expect(() => renderConfigFile(
+        { ...baseDetection, values: { ...baseDetection.values, framework: 'mocha' as never } },
+        'esm'
+      )).toThrow();
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Detect project settings and render a starter kakarot.config.js
+ * Used by the `kakarot-ci init` command
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  KakarotConfigSchema,
+  TEST_DIRECTORIES,
+  TEST_FILE_PATTERNS,
+  type LLMProvider,
+  type TestDirectory,
+  type TestFilePattern,
+  type TestFramework,
+  type TestLocation,
+} from '../types/config.js';
+import { CONFIG_SEARCH_PLACES, detectProviderFromApiKey, detectTestFramework } from './config-loader.js';
+import { detectCodeStyle } from './code-standards.js';
+import { detectPackageManager, type PackageManager } from './package-manager-detector.js';
+import { listProjectFiles } from './project-files.js';
+
+/** File name written by `kakarot-ci init` */
+export const INIT_CONFIG_FILENAME = 'kakarot.config.js';
+
+const TEST_FILE_REGEX = /\.(test|spec)\.(ts|tsx|js|jsx)$/;
+const SOURCE_EXTENSIONS = ['ts', 'tsx', 'js', 'jsx'];
+
+export interface TestLayout {
+  testLocation: TestLocation;
+  testDirectory: TestDirectory;
+  testFilePattern: TestFilePattern;
+  /** Number of existing test files the layout was inferred from */
+  testFileCount: number;
+}
+
+export interface InitConfigValues {
+  provider?: LLMProvider;
+  model?: string;
+  framework: TestFramework;
+  testLocation: TestLocation;
+  testDirectory: TestDirectory;
+  testFilePattern: TestFilePattern;
+  formatGeneratedCode: boolean;
+  lintGeneratedCode: boolean;
+}
+
+export interface InitDetection {
+  values: InitConfigValues;
+  /** Where each detected value came from, rendered as comments in the config file */
+  notes: {
+    provider: string;
+    framework: string;
+    layout: string;
+    codeStyle: string;
+  };
+  packageManager: PackageManager;
+}
+
+/**
+ * Return the most frequent key in a count map, or undefined if empty
+ */
+function mostCommon<T extends string>(counts: Map<T, number>): T | undefined {
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const [key, count] of counts) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Infer testLocation, testDirectory and testFilePattern from existing test files.
+ * A test file counts as co-located when its source file sits in the same directory.
+ */
+export function inferTestLayout(files: string[]): TestLayout {
+  const fileSet = new Set(files);
+  const testFiles = files.filter(f => TEST_FILE_REGEX.test(f));
+  const hasTypeScript = files.some(f => /\.tsx?$/.test(f) && !f.endsWith('.d.ts'));
+
+  if (testFiles.length === 0) {
+    return {
+      testLocation: 'separate',
+      testDirectory: '__tests__',
+      testFilePattern: hasTypeScript ? '*.test.ts' : '*.test.js',
+      testFileCount: 0,
+    };
+  }
+
+  const patternCounts = new Map<TestFilePattern, number>();
+  const directoryCounts = new Map<TestDirectory, number>();
+  // Check the most specific directories first (src/__tests__ before __tests__)
+  const directories = [...TEST_DIRECTORIES].sort((a, b) => b.length - a.length);
+  let coLocatedCount = 0;
+
+  for (const testFile of testFiles) {
+    const match = testFile.match(TEST_FILE_REGEX)!;
+    const pattern = `*.${match[1]}.${match[2]}` as TestFilePattern;
+    if ((TEST_FILE_PATTERNS as readonly string[]).includes(pattern)) {
+      patternCounts.set(pattern, (patternCounts.get(pattern) ?? 0) + 1);
+    }
+
+    const sourceBase = testFile.slice(0, testFile.length - match[0].length);
+    const isCoLocated = SOURCE_EXTENSIONS.some(ext => fileSet.has(`${sourceBase}.${ext}`));
+    if (isCoLocated) {
+      coLocatedCount++;
+      continue;
+    }
+
+    const directory = directories.find(d => testFile.startsWith(`${d}/`))
+      ?? (testFile.includes('/__tests__/') ? '__tests__' : undefined);
+    if (directory) {
+      directoryCounts.set(directory, (directoryCounts.get(directory) ?? 0) + 1);
+    }
+  }
+
+  return {
+    testLocation: coLocatedCount > testFiles.length / 2 ? 'co-located' : 'separate',
+    testDirectory: mostCommon(directoryCounts) ?? '__tests__',
+    testFilePattern: mostCommon(patternCounts) ?? (hasTypeScript ? '*.test.ts' : '*.test.js'),
+    testFileCount: testFiles.length,
+  };
+}
+
+/**
+ * Detect config values for a project using the same detectors the runtime uses
+ */
+export async function detectInitConfig(projectRoot: string, apiKey?: string): Promise<InitDetection> {
+  const detectedProvider = apiKey ? detectProviderFromApiKey(apiKey) : null;
+  const framework = await detectTestFramework(projectRoot);
+  const codeStyle = await detectCodeStyle(projectRoot);
+  const packageManager = detectPackageManager(projectRoot);
+  const layout = inferTestLayout(listProjectFiles(projectRoot));
+
+  const formatters = [codeStyle.prettier?.enabled && 'Prettier', codeStyle.biome?.enabled && 'Biome'].filter(Boolean);
+  const linters = [codeStyle.eslint?.enabled && 'ESLint', codeStyle.biome?.enabled && 'Biome'].filter(Boolean);
+  const tools = [...new Set([...formatters, ...linters])];
+
+  return {
+    values: {
+      provider: detectedProvider?.provider,
+      model: detectedProvider?.model,
+      framework: framework ?? 'jest',
+      testLocation: layout.testLocation,
+      testDirectory: layout.testDirectory,
+      testFilePattern: layout.testFilePattern,
+      formatGeneratedCode: formatters.length > 0,
+      lintGeneratedCode: linters.length > 0,
+    },
+    notes: {
+      provider: detectedProvider
+        ? 'detected from API key prefix'
+        : 'not detected, auto-detected from the API key at runtime when omitted',
+      framework: framework ? 'detected from package.json' : 'not detected, defaulting to jest',
+      layout: layout.testFileCount > 0
+        ? `inferred from ${layout.testFileCount} existing test file(s)`
+        : 'no existing test files found, using defaults',
+      codeStyle: tools.length > 0 ? `detected ${tools.join(', ')}` : 'no formatter or linter detected',
+    },
+    packageManager,
+  };
+}
+
+/**
+ * Determine whether a .js config in the project root is loaded as ESM or CommonJS
+ */
+export function detectModuleFormat(projectRoot: string): 'esm' | 'cjs' {
+  const packageJsonPath = join(projectRoot, 'package.json');
+  if (existsSync(packageJsonPath)) {
+    try {
+      const pkg = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+      return pkg.type === 'module' ? 'esm' : 'cjs';
+    } catch {
+      // Ignore parse errors
+    }
+  }
+  return 'cjs';
+}
+
+/**
+ * Find a config file that loadConfig() would pick up, if one exists
+ */
+export function findExistingConfigFile(projectRoot: string): string | null {
+  for (const place of CONFIG_SEARCH_PLACES) {
+    const path = join(projectRoot, place);
+    if (!existsSync(path)) {
+      continue;
+    }
+    if (place === 'package.json') {
+      try {
+        const pkg = JSON.parse(readFileSync(path, 'utf-8'));
+        if (pkg.kakarot || pkg.kakarotCi) {
+          return path;
+        }
+      } catch {
+        // Ignore parse errors
+      }
+      continue;
+    }
+    return path;
+  }
+  return null;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Render a commented kakarot.config.js. Values are validated against
+ * KakarotConfigSchema first so init never writes a config that fails to load.
+ */
+export function renderConfigFile(detection: Pick<InitDetection, 'values' | 'notes'>, format: 'esm' | 'cjs'): string {
+  const { values, notes } = detection;
+
+  KakarotConfigSchema.parse({
+    apiKey: 'placeholder',
+    provider: values.provider,
+    model: values.model,
+    framework: values.framework,
+    testLocation: values.testLocation,
+    testDirectory: values.testDirectory,
+    testFilePattern: values.testFilePattern,
+    codeStyle: {
+      formatGeneratedCode: values.formatGeneratedCode,
+      lintGeneratedCode: values.lintGeneratedCode,
+    },
+  });
+
+  const lines: string[] = [
+    '// Kakarot CI configuration, generated by `kakarot-ci init`',
+    '// Any field you omit is auto-detected or uses its default.',
+    '',
+    "/** @type {import('@kakarot-ci/core').KakarotConfig} */",
+    format === 'esm' ? 'export default {' : 'module.exports = {',
+    '  // LLM API key. Read from the environment so it never ends up in version control.',
+    '  apiKey: process.env.KAKAROT_API_KEY,',
+    '',
+    `  // LLM provider and model (${notes.provider})`,
+  ];
+
+  if (values.provider) {
+    lines.push(`  provider: ${quote(values.provider)},`);
+    if (values.model) {
+      lines.push(`  model: ${quote(values.model)},`);
+    } else if (values.provider === 'openai-compatible') {
+      lines.push("  // model: 'qwen2.5-coder:32b', // required: the model name your server serves");
+    } else if (values.provider === 'bedrock') {
+      lines.push("  // model: 'us.anthropic.claude-sonnet-4-20250514-v1:0', // required: Bedrock model ID or inference profile");
+    }
+    if (values.provider === 'openai-compatible') {
+      lines.push("  baseUrl: 'http://localhost:11434/v1', // your server's OpenAI-compatible API root");
+    }
+    if (values.provider === 'azure-openai') {
+      lines.push("  azureEndpoint: 'https://my-resource.openai.azure.com', // your Azure OpenAI resource endpoint");
+      lines.push("  azureDeployment: 'gpt-4o', // the deployment name; also used as the model when model is unset");
+    }
+    if (values.provider === 'bedrock') {
+      lines.push("  awsRegion: 'us-east-1', // credentials come from the standard AWS environment/profile");
+    }
+  } else {
+    lines.push("  // provider: 'anthropic', // openai | anthropic | google | openai-compatible | azure-openai | bedrock");
+    lines.push("  // model: 'claude-opus-4-6',");
+  }
+
+  lines.push(
+    '',
+    `  // Test framework (${notes.framework})`,
+    `  framework: ${quote(values.framework)},`,
+    '',
+    `  // Where generated tests are written (${notes.layout})`,
+    `  testLocation: ${quote(values.testLocation)}, // separate | co-located`,
+    `  testDirectory: ${quote(values.testDirectory)}, // used when testLocation is 'separate'`,
+    `  testFilePattern: ${quote(values.testFilePattern)},`,
+    '',
+    `  // Format and lint generated tests with the project's tools (${notes.codeStyle})`,
+    '  codeStyle: {',
+    `    formatGeneratedCode: ${values.formatGeneratedCode},`,
+    `    lintGeneratedCode: ${values.lintGeneratedCode},`,
+    '  },',
+    '};',
+    ''
+  );
+
+  return lines.join('\n');
+}
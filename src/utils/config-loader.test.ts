@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { loadConfig, findProjectRoot } from './config-loader.js';
+import { loadConfig, findProjectRoot, detectProviderFromApiKey } from './config-loader.js';
 import { cosmiconfig } from 'cosmiconfig';
 import { findUp } from 'find-up';
 
@@ -14,6 +14,12 @@ describe('config-loader', () => {
     vi.clearAllMocks();
     delete process.env.KAKAROT_API_KEY;
     delete process.env.GITHUB_TOKEN;
+    delete process.env.KAKAROT_BASE_URL;
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    delete process.env.AZURE_OPENAI_DEPLOYMENT;
+    delete process.env.KAKAROT_CACHE;
+    delete process.env.KAKAROT_CONCURRENCY;
+    delete process.env.KAKAROT_REPLAY;
   });
 
   describe('findProjectRoot', () => {
@@ -92,6 +98,94 @@ describe('config-loader', () => {
       expect(config.apiKey).toBe('env-key');
     });
 
+    it('should let KAKAROT_CACHE override the cache setting', async () => {
+      process.env.KAKAROT_CACHE = 'false';
+
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: { apiKey: 'key', framework: 'jest', cache: true },
+          filepath: '/project/kakarot.config.js',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      const config = await loadConfig();
+
+      expect(config.cache).toBe(false);
+      expect(config.cacheTtlHours).toBe(168);
+    });
+
+    it('should let KAKAROT_CONCURRENCY override the concurrency setting', async () => {
+      process.env.KAKAROT_CONCURRENCY = '4';
+
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: { apiKey: 'key', framework: 'jest', concurrency: 2 },
+          filepath: '/project/kakarot.config.js',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      const config = await loadConfig();
+
+      expect(config.concurrency).toBe(4);
+    });
+
+    it('should replay a cassette from KAKAROT_REPLAY without an apiKey', async () => {
+      process.env.KAKAROT_REPLAY = 'fixtures/run.json';
+
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: { framework: 'jest' },
+          filepath: '/project/kakarot.config.js',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      const config = await loadConfig();
+
+      expect(config.apiKey).toBe('');
+      expect(config.cassette).toEqual({ mode: 'replay', path: 'fixtures/run.json', match: 'order' });
+    });
+
+    it('should fill fallback keys and models from the primary provider and defaults', async () => {
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: {
+            apiKey: 'sk-ant-test',
+            framework: 'jest',
+            fallbacks: [
+              { provider: 'anthropic', model: 'claude-sonnet-4-5' },
+              { provider: 'openai', apiKey: 'sk-test' },
+              { provider: 'openai-compatible', model: 'llama3', baseUrl: 'http://localhost:11434/v1' },
+            ],
+          },
+          filepath: '/project/kakarot.config.js',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      const config = await loadConfig();
+
+      expect(config.fallbacks).toEqual([
+        { provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'sk-ant-test' },
+        { provider: 'openai', model: 'gpt-5', apiKey: 'sk-test' },
+        { provider: 'openai-compatible', model: 'llama3', apiKey: '', baseUrl: 'http://localhost:11434/v1' },
+      ]);
+    });
+
+    it('should reject a fallback to another provider without an apiKey', async () => {
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: { apiKey: 'sk-ant-test', framework: 'jest', fallbacks: [{ provider: 'google' }] },
+          filepath: '/project/kakarot.config.js',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      await expect(loadConfig()).rejects.toThrow('fallbacks[0] (google) needs its own API key');
+    });
+
     it('should use GITHUB_TOKEN from environment', async () => {
       process.env.GITHUB_TOKEN = 'github-token';
 
@@ -120,6 +214,43 @@ describe('config-loader', () => {
       await expect(loadConfig()).rejects.toThrow();
     });
 
+    it('should not require an apiKey for openai-compatible servers', async () => {
+      process.env.KAKAROT_BASE_URL = 'http://localhost:11434/v1';
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: { provider: 'openai-compatible', model: 'llama3.1', framework: 'jest' },
+          filepath: '/project/kakarot.config.ts',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      const config = await loadConfig();
+
+      expect(config.apiKey).toBe('');
+      expect(config.baseUrl).toBe('http://localhost:11434/v1');
+      expect(config.model).toBe('llama3.1');
+    });
+
+    it('should select azure-openai from the Azure environment variables', async () => {
+      process.env.AZURE_OPENAI_ENDPOINT = 'https://contoso.openai.azure.com';
+      process.env.AZURE_OPENAI_DEPLOYMENT = 'gpt-4o-prod';
+      const mockExplorer = {
+        search: vi.fn().mockResolvedValue({
+          config: { apiKey: 'not-a-recognisable-key', framework: 'jest' },
+          filepath: '/project/kakarot.config.ts',
+        }),
+      };
+      vi.mocked(cosmiconfig).mockReturnValue(mockExplorer as never);
+
+      const config = await loadConfig();
+
+      expect(config.provider).toBe('azure-openai');
+      expect(config.azureEndpoint).toBe('https://contoso.openai.azure.com');
+      expect(config.azureDeployment).toBe('gpt-4o-prod');
+      // The model falls back to the deployment name in the factory
+      expect(config.model).toBeUndefined();
+    });
+
     it('should handle missing config file', async () => {
       const mockExplorer = {
         search: vi.fn().mockResolvedValue(null),
@@ -131,3 +262,12 @@ describe('config-loader', () => {
   });
 });
 
+describe('detectProviderFromApiKey', () => {
+  it('should detect providers from key formats', () => {
+    expect(detectProviderFromApiKey('sk-ant-api03-abc')).toEqual({ provider: 'anthropic', model: 'claude-opus-4-6' });
+    expect(detectProviderFromApiKey('sk-proj-abc')).toEqual({ provider: 'openai', model: 'gpt-5' });
+    expect(detectProviderFromApiKey('AIzaSyAbc')).toEqual({ provider: 'google', model: 'gemini-3.1-pro-preview' });
+    // Azure keys look like keys from many other services, so they select no provider
+    expect(detectProviderFromApiKey('0123456789abcdef0123456789ABCDEF')).toBeNull();
+  });
+});
@@ -2,6 +2,8 @@ import { readFileSync } from 'fs';
 import { cosmiconfig } from 'cosmiconfig';
 import { findUp } from 'find-up';
 import { KakarotConfigSchema, type KakarotConfig, type PartialKakarotConfig, type LLMProvider, type TestFramework } from '../types/config.js';
+import { ConfigError } from '../types/errors.js';
+import { DEFAULT_MODELS } from '../llm/models.js';
 import { error, info } from './logger.js';
 
 /**
@@ -20,15 +22,18 @@ export async function findProjectRoot(startPath?: string): Promise<string> {
   return startPath ?? process.cwd();
 }
 
-/** Default model per provider — used when the user doesn't specify one */
-export const DEFAULT_MODELS: Record<LLMProvider, string> = {
-  openai: 'gpt-5',
-  anthropic: 'claude-opus-4-6',
-  google: 'gemini-3.1-pro-preview',
-};
+/** Config files searched (in order) when loading configuration */
+export const CONFIG_SEARCH_PLACES = [
+  'kakarot.config.js',
+  '.kakarot-ci.config.js',
+  '.kakarot-ci.config.json',
+  'package.json',
+];
 
 /**
  * Infer LLM provider and a sensible default model from the API key prefix.
+ * Azure OpenAI keys have no prefix (other services issue keys of the same shape), so Azure is
+ * only selected by azureEndpoint or an explicit provider.
  * Returns null if the key format is unrecognised.
  */
 export function detectProviderFromApiKey(apiKey: string): { provider: LLMProvider; model: string } | null {
@@ -71,12 +76,7 @@ export async function detectTestFramework(startPath?: string): Promise<TestFrame
  */
 export async function loadConfig(): Promise<KakarotConfig> {
   const explorer = cosmiconfig('kakarot', {
-    searchPlaces: [
-      'kakarot.config.js',
-      '.kakarot-ci.config.js',
-      '.kakarot-ci.config.json',
-      'package.json',
-    ],
+    searchPlaces: CONFIG_SEARCH_PLACES,
   });
 
   try {
@@ -115,15 +115,62 @@ export async function loadConfig(): Promise<KakarotConfig> {
     
     // Merge provider and model from env (allow override from config file)
     if (process.env.PROVIDER) {
-      config.provider = process.env.PROVIDER as 'openai' | 'anthropic' | 'google';
+      config.provider = process.env.PROVIDER as LLMProvider;
+    }
+
+    if (process.env.KAKAROT_BASE_URL) {
+      config.baseUrl = process.env.KAKAROT_BASE_URL;
+    }
+
+    // Standard Azure OpenAI variables, used when the config file does not set them
+    if (!config.azureEndpoint && process.env.AZURE_OPENAI_ENDPOINT) {
+      config.azureEndpoint = process.env.AZURE_OPENAI_ENDPOINT;
+    }
+
+    if (!config.azureDeployment && process.env.AZURE_OPENAI_DEPLOYMENT) {
+      config.azureDeployment = process.env.AZURE_OPENAI_DEPLOYMENT;
+    }
+
+    // Local OpenAI-compatible servers usually need no key; Bedrock signs with AWS credentials instead
+    if ((config.provider === 'openai-compatible' || config.provider === 'bedrock') && config.apiKey === undefined) {
+      config.apiKey = '';
     }
     
     if (process.env.MODEL) {
       config.model = process.env.MODEL;
     }
 
+    if (process.env.KAKAROT_STREAM === 'false') {
+      config.stream = false;
+    }
+
+    if (process.env.KAKAROT_CACHE === 'true' || process.env.KAKAROT_CACHE === 'false') {
+      config.cache = process.env.KAKAROT_CACHE === 'true';
+    }
+
+    if (process.env.KAKAROT_CONCURRENCY) {
+      config.concurrency = Number(process.env.KAKAROT_CONCURRENCY);
+    }
+
+    if (process.env.KAKAROT_RECORD) {
+      config.cassette = { mode: 'record', path: process.env.KAKAROT_RECORD, match: config.cassette?.match ?? 'order' };
+    } else if (process.env.KAKAROT_REPLAY) {
+      config.cassette = { mode: 'replay', path: process.env.KAKAROT_REPLAY, match: config.cassette?.match ?? 'order' };
+    }
+
+    // Replay serves every response from the cassette, so no key is needed
+    if (config.cassette?.mode === 'replay' && config.apiKey === undefined) {
+      config.apiKey = '';
+    }
+
     // --- Zero-config auto-detection ---
 
+    // An Azure endpoint selects Azure OpenAI (newer Azure keys have no recognisable format)
+    if (!config.provider && config.azureEndpoint) {
+      config.provider = 'azure-openai';
+      info('Auto-detected provider: azure-openai (from azureEndpoint)');
+    }
+
     // Auto-detect provider + default model from API key prefix
     if (config.apiKey && !config.provider) {
       const detected = detectProviderFromApiKey(config.apiKey);
@@ -137,11 +184,24 @@ export async function loadConfig(): Promise<KakarotConfig> {
     }
 
     // Fill default model when provider is known but model is not
-    if (config.provider && !config.model) {
+    if (config.provider && !config.model && DEFAULT_MODELS[config.provider]) {
       config.model = DEFAULT_MODELS[config.provider];
       info(`Using default model for ${config.provider}: ${config.model}`);
     }
 
+    // Fallbacks on the same provider reuse its key; self-hosted and Bedrock fallbacks need none
+    if (config.fallbacks) {
+      config.fallbacks = config.fallbacks.map((fallback, i) => {
+        const apiKey = fallback.apiKey
+          ?? (fallback.provider === config.provider ? config.apiKey : undefined)
+          ?? (fallback.provider === 'openai-compatible' || fallback.provider === 'bedrock' ? '' : undefined);
+        if (apiKey === undefined) {
+          throw new ConfigError(`fallbacks[${i}] (${fallback.provider}) needs its own API key`);
+        }
+        return { ...fallback, apiKey, model: fallback.model ?? DEFAULT_MODELS[fallback.provider] };
+      });
+    }
+
     // Default maxTokens to 64k if not explicitly set
     if (!config.maxTokens) {
       config.maxTokens = 64000;
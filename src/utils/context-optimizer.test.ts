@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractKeyErrorMessage, extractRelevantCode, extractFailingTests, optimizeFixContext } from './context-optimizer.js';
+import { estimateTokens, extractKeyErrorMessage, extractRelevantCode, extractFailingTests, optimizeFixContext } from './context-optimizer.js';
 
 describe('extractKeyErrorMessage', () => {
   it('strips stack traces', () => {
@@ -115,3 +115,11 @@ describe('optimizeFixContext', () => {
     expect(result.testOutput).toBeUndefined();
   });
 });
+
+describe('estimateTokens', () => {
+  it('should estimate roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
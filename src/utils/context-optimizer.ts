@@ -3,6 +3,13 @@
  * Truncates and optimizes content to fit within token limits
  */
 
+/**
+ * Rough token estimate for a piece of text (1 token ≈ 4 characters)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
 /**
  * Extract key error message from full error output
  */
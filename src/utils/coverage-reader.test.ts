@@ -121,5 +121,40 @@ describe('coverage-reader', () => {
 
     expect(existsSync).toHaveBeenCalledWith(join('/project', 'coverage', 'coverage-final.json'));
   });
-});
 
+  it('should locate uncovered statements and branch paths by line', () => {
+    const coverageData = {
+      '/project/src/utils.ts': {
+        s: { '0': 1, '1': 0, '2': 0 },
+        b: { '0': [1, 0], '1': [0] },
+        f: {},
+        statementMap: {
+          '0': { start: { line: 2 }, end: { line: 2 } },
+          '1': { start: { line: 5 }, end: { line: 5 } },
+          '2': { start: { line: 9 }, end: { line: 9 } },
+        },
+        fnMap: {},
+        branchMap: {
+          '0': { loc: { start: { line: 4 } }, locations: [{ start: { line: 4 } }, { start: { line: 7 } }] },
+          '1': { loc: { start: { line: 11 } }, locations: [{}] },
+        },
+      },
+    };
+
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(readFileSync).mockReturnValue(JSON.stringify(coverageData));
+
+    const report = readCoverageReport('/project', 'vitest');
+
+    expect(report?.files[0].uncovered).toEqual({ statements: [5, 9], branches: [7, 11] });
+  });
+
+  it('should omit uncovered lines when the report has no location maps', () => {
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ 'src/a.ts': { s: { '0': 0 } } }));
+
+    const report = readCoverageReport('/project', 'jest');
+
+    expect(report?.files[0].uncovered).toBeUndefined();
+  });
+});
@@ -1,6 +1,6 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import type { CoverageReport, FileCoverage } from '../types/coverage.js';
+import type { CoverageReport, FileCoverage, UncoveredLines } from '../types/coverage.js';
 import { debug, warn } from './logger.js';
 
 /**
@@ -19,9 +19,20 @@ interface IstanbulCoverageEntry {
   branches?: { [key: string]: number | number[] };
   functions?: { [key: string]: number };
   lines?: { [key: string]: number };
-  statementMap?: Record<string, unknown>;
+  statementMap?: Record<string, IstanbulLocation>;
   fnMap?: Record<string, unknown>;
-  branchMap?: Record<string, unknown>;
+  branchMap?: Record<string, IstanbulBranch>;
+}
+
+interface IstanbulLocation {
+  start?: { line?: number };
+  end?: { line?: number };
+}
+
+interface IstanbulBranch {
+  loc?: IstanbulLocation;
+  line?: number;
+  locations?: IstanbulLocation[];
 }
 
 type CoverageData = { [filePath: string]: IstanbulCoverageEntry };
@@ -42,6 +53,45 @@ function flattenBranchCounts(branches: { [key: string]: number | number[] }): nu
   return counts;
 }
 
+/**
+ * Locate uncovered statements and branch paths by start line.
+ * Returns undefined when the entry has no location maps to resolve against.
+ */
+function findUncoveredLines(
+  statementsObj: { [key: string]: number },
+  branchesObj: { [key: string]: number | number[] },
+  coverage: IstanbulCoverageEntry
+): UncoveredLines | undefined {
+  const statementMap = coverage.statementMap || {};
+  const branchMap = coverage.branchMap || {};
+  if (Object.keys(statementMap).length === 0 && Object.keys(branchMap).length === 0) {
+    return undefined;
+  }
+
+  const statements: number[] = [];
+  for (const [id, count] of Object.entries(statementsObj)) {
+    const line = statementMap[id]?.start?.line;
+    if (count === 0 && line !== undefined) {
+      statements.push(line);
+    }
+  }
+
+  const branches: number[] = [];
+  for (const [id, counts] of Object.entries(branchesObj)) {
+    const branch = branchMap[id];
+    const pathCounts = Array.isArray(counts) ? counts : [counts];
+    pathCounts.forEach((count, i) => {
+      // Implicit else paths have no location of their own; fall back to the branch's line
+      const line = branch?.locations?.[i]?.start?.line ?? branch?.loc?.start?.line ?? branch?.line;
+      if (count === 0 && line !== undefined) {
+        branches.push(line);
+      }
+    });
+  }
+
+  return { statements, branches };
+}
+
 /**
  * Read and parse coverage report (handles both short and long-form Istanbul keys)
  */
@@ -108,6 +158,7 @@ function parseCoverage(data: CoverageData): CoverageReport {
         functions: fileFunctions,
         lines: fileLines,
       },
+      uncovered: findUncoveredLines(statementsObj, branchesObj, coverage),
     });
 
     // Accumulate totals
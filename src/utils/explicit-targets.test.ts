@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseTargetSpec, extractExplicitTestTargets } from './explicit-targets.js';
+import { readFileSync, existsSync, statSync } from 'fs';
+import { findProjectRoot } from './config-loader.js';
+import { analyzeFile } from './ast-analyzer.js';
+import { KakarotError } from '../types/errors.js';
+import type { TestTarget } from '../types/diff.js';
+
+vi.mock('fs');
+vi.mock('./config-loader.js');
+vi.mock('./ast-analyzer.js');
+vi.mock('./logger.js', () => ({
+  info: vi.fn(),
+}));
+
+function target(functionName: string, className?: string): TestTarget {
+  return {
+    filePath: 'src/foo.ts',
+    functionName,
+    functionType: className ? 'class-method' : 'function',
+    startLine: 1,
+    endLine: 3,
+    code: '',
+    context: '',
+    changedRanges: [],
+    className,
+  };
+}
+
+describe('parseTargetSpec', () => {
+  it('should parse a bare file path', () => {
+    expect(parseTargetSpec('src/foo.ts')).toEqual({ filePath: 'src/foo.ts', names: [] });
+  });
+
+  it('should parse function and Class.method names', () => {
+    expect(parseTargetSpec('src/foo.ts#parseThing, Foo.method')).toEqual({
+      filePath: 'src/foo.ts',
+      names: ['parseThing', 'Foo.method'],
+    });
+  });
+
+  it('should reject an empty name list', () => {
+    expect(() => parseTargetSpec('src/foo.ts#')).toThrow(KakarotError);
+  });
+
+  it('should reject a missing file path', () => {
+    expect(() => parseTargetSpec('#parseThing')).toThrow('missing file path');
+  });
+
+  it('should reject malformed names', () => {
+    expect(() => parseTargetSpec('src/foo.ts#Foo.bar.baz')).toThrow('is not a function');
+  });
+});
+
+describe('extractExplicitTestTargets', () => {
+  const config = { testDirectory: '__tests__' as const };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findProjectRoot).mockResolvedValue('/project');
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(statSync).mockReturnValue({ isFile: () => true } as never);
+    vi.mocked(readFileSync).mockReturnValue('line1\nline2\nline3');
+    vi.mocked(analyzeFile).mockResolvedValue([
+      target('parseThing'),
+      target('helper'),
+      target('method', 'Foo'),
+      target('other', 'Foo'),
+    ]);
+  });
+
+  it('should analyze the whole file as changed and return every export', async () => {
+    const targets = await extractExplicitTestTargets(['src/foo.ts'], config);
+
+    expect(targets).toHaveLength(4);
+    expect(analyzeFile).toHaveBeenCalledWith(
+      'src/foo.ts',
+      'line1\nline2\nline3',
+      [{ start: 1, end: 3, type: 'addition' }],
+      'HEAD',
+      expect.anything(),
+      '__tests__',
+      true
+    );
+  });
+
+  it('should filter to named functions and class methods', async () => {
+    const targets = await extractExplicitTestTargets(['src/foo.ts#parseThing,Foo.method'], config);
+
+    expect(targets.map(t => t.className ? `${t.className}.${t.functionName}` : t.functionName))
+      .toEqual(['parseThing', 'Foo.method']);
+  });
+
+  it('should select every method when given a class name', async () => {
+    const targets = await extractExplicitTestTargets(['src/foo.ts#Foo'], config);
+
+    expect(targets.map(t => t.functionName)).toEqual(['method', 'other']);
+  });
+
+  it('should accept absolute paths inside the project', async () => {
+    await extractExplicitTestTargets(['/project/src/foo.ts'], config);
+
+    expect(analyzeFile).toHaveBeenCalledWith('src/foo.ts', expect.anything(), expect.anything(), 'HEAD', expect.anything(), '__tests__', true);
+  });
+
+  it('should not duplicate targets named by overlapping specs', async () => {
+    const targets = await extractExplicitTestTargets(['src/foo.ts#Foo', 'src/foo.ts#Foo.method'], config);
+
+    expect(targets).toHaveLength(2);
+  });
+
+  it('should list available names when a name does not resolve', async () => {
+    await expect(extractExplicitTestTargets(['src/foo.ts#parseThng,Bar'], config)).rejects.toThrow(
+      'Could not find "parseThng", "Bar" in src/foo.ts. Available: parseThing, helper, Foo.method, Foo.other'
+    );
+  });
+
+  it('should fail when the file does not exist', async () => {
+    vi.mocked(existsSync).mockReturnValue(false);
+
+    await expect(extractExplicitTestTargets(['src/missing.ts'], config)).rejects.toThrow(
+      'Target file not found: src/missing.ts'
+    );
+  });
+
+  it('should fail for files outside the project', async () => {
+    await expect(extractExplicitTestTargets(['../elsewhere/foo.ts'], config)).rejects.toThrow(
+      'outside the project'
+    );
+  });
+
+  it('should fail when the file has no exports', async () => {
+    vi.mocked(analyzeFile).mockResolvedValue([]);
+
+    await expect(extractExplicitTestTargets(['src/foo.ts'], config)).rejects.toThrow(
+      'No exported functions or classes found in src/foo.ts'
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Resolve explicit --target specs to test targets
+ * Bypasses git diff: the whole file is treated as changed, then filtered to the named symbols
+ */
+
+import { readFileSync, existsSync, statSync } from 'fs';
+import { isAbsolute, relative, resolve } from 'path';
+import type { KakarotConfig } from '../types/config.js';
+import type { ChangedRange, TestTarget } from '../types/diff.js';
+import { KakarotError } from '../types/errors.js';
+import { analyzeFile } from './ast-analyzer.js';
+import { findProjectRoot } from './config-loader.js';
+import { info } from './logger.js';
+
+export interface TargetSpec {
+  /** File path relative to the project root */
+  filePath: string;
+  /** Requested symbols: `fn`, `Class` or `Class.method`. Empty means every export. */
+  names: string[];
+}
+
+/**
+ * Parse a target spec such as `src/foo.ts` or `src/foo.ts#parseThing,Foo.method`
+ */
+export function parseTargetSpec(spec: string): TargetSpec {
+  const hashIndex = spec.lastIndexOf('#');
+  const filePart = (hashIndex === -1 ? spec : spec.slice(0, hashIndex)).trim();
+  const namePart = hashIndex === -1 ? '' : spec.slice(hashIndex + 1);
+
+  if (!filePart) {
+    throw new KakarotError(`Invalid target "${spec}": missing file path`);
+  }
+
+  const names = namePart.split(',').map(n => n.trim()).filter(Boolean);
+  if (hashIndex !== -1 && names.length === 0) {
+    throw new KakarotError(`Invalid target "${spec}": expected function or class names after "#"`);
+  }
+  for (const name of names) {
+    if (!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)?$/.test(name)) {
+      throw new KakarotError(`Invalid target "${spec}": "${name}" is not a function, Class or Class.method name`);
+    }
+  }
+
+  return { filePath: filePart, names };
+}
+
+function describeTarget(target: TestTarget): string {
+  return target.className ? `${target.className}.${target.functionName}` : target.functionName;
+}
+
+function matchesName(target: TestTarget, name: string): boolean {
+  const dotIndex = name.indexOf('.');
+  if (dotIndex !== -1) {
+    return target.className === name.slice(0, dotIndex) && target.functionName === name.slice(dotIndex + 1);
+  }
+  // A bare name matches a top-level function or every method of a class
+  return target.className ? target.className === name : target.functionName === name;
+}
+
+/**
+ * Extract test targets for explicit file/function specs
+ */
+export async function extractExplicitTestTargets(
+  specs: string[],
+  config: Pick<KakarotConfig, 'testDirectory'>
+): Promise<TestTarget[]> {
+  const projectRoot = await findProjectRoot();
+  const parsedSpecs = specs.map(parseTargetSpec);
+
+  const localFileChecker = {
+    fileExists: async (_ref: string, path: string): Promise<boolean> => existsSync(`${projectRoot}/${path}`),
+  };
+
+  const targets: TestTarget[] = [];
+  const seen = new Set<string>();
+
+  for (const spec of parsedSpecs) {
+    const fullPath = isAbsolute(spec.filePath) ? spec.filePath : resolve(projectRoot, spec.filePath);
+    const filePath = relative(projectRoot, fullPath).split('\\').join('/');
+
+    if (filePath.startsWith('..')) {
+      throw new KakarotError(`Target file is outside the project: ${spec.filePath}`);
+    }
+    if (!existsSync(fullPath) || !statSync(fullPath).isFile()) {
+      throw new KakarotError(`Target file not found: ${spec.filePath}`);
+    }
+
+    const fileContent = readFileSync(fullPath, 'utf-8');
+    const ranges: ChangedRange[] = [{ start: 1, end: fileContent.split('\n').length, type: 'addition' }];
+
+    const fileTargets = await analyzeFile(
+      filePath,
+      fileContent,
+      ranges,
+      'HEAD',
+      localFileChecker,
+      config.testDirectory,
+      true
+    );
+
+    if (fileTargets.length === 0) {
+      throw new KakarotError(`No exported functions or classes found in ${filePath}`);
+    }
+
+    let selected = fileTargets;
+    if (spec.names.length > 0) {
+      const unresolved = spec.names.filter(name => !fileTargets.some(t => matchesName(t, name)));
+      if (unresolved.length > 0) {
+        const available = fileTargets.map(describeTarget).join(', ');
+        throw new KakarotError(
+          `Could not find ${unresolved.map(n => `"${n}"`).join(', ')} in ${filePath}. Available: ${available}`
+        );
+      }
+      selected = fileTargets.filter(t => spec.names.some(name => matchesName(t, name)));
+    }
+
+    for (const target of selected) {
+      const key = `${filePath}#${describeTarget(target)}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        targets.push(target);
+      }
+    }
+
+    info(`Selected ${selected.length} test target(s) in ${filePath}`);
+  }
+
+  info(`Extracted ${targets.length} total test target(s) from --target`);
+  return targets;
+}
@@ -5,6 +5,7 @@ import { readFileSync, existsSync } from 'fs';
 import { findProjectRoot } from './config-loader.js';
 import { parsePullRequestFiles, getChangedRanges } from './diff-parser.js';
 import { analyzeFile } from './ast-analyzer.js';
+import { KakarotError } from '../types/errors.js';
 
 vi.mock('simple-git');
 vi.mock('fs');
@@ -27,6 +28,15 @@ describe('local-file-analyzer', () => {
   const mockGit = {
     diffSummary: vi.fn(),
     diff: vi.fn(),
+    raw: vi.fn(),
+    show: vi.fn(),
+  };
+
+  const config = {
+    testDirectory: '__tests__' as const,
+    testFilePattern: '*.test.ts' as const,
+    includePatterns: ['**/*.ts'],
+    excludePatterns: ['**/*.test.ts'],
   };
 
   beforeEach(() => {
@@ -97,5 +107,114 @@ describe('local-file-analyzer', () => {
 
     expect(targets).toEqual([]);
   });
-});
 
+  it('should diff the working tree against HEAD by default', async () => {
+    await extractLocalTestTargets(config);
+
+    expect(mockGit.diffSummary).toHaveBeenCalledWith(['HEAD', '--name-status', '-M']);
+  });
+
+  it('should report git rename and delete status', async () => {
+    vi.mocked(mockGit.diffSummary).mockResolvedValue({
+      files: [
+        { file: 'src/new-name.ts', from: 'src/old-name.ts', status: 'R', similarity: 90 },
+        { file: 'src/deleted.ts', status: 'D', similarity: 0 },
+      ],
+    } as never);
+    vi.mocked(mockGit.diff).mockResolvedValue('diff content');
+    vi.mocked(parsePullRequestFiles).mockReturnValue([]);
+
+    await extractLocalTestTargets(config);
+
+    expect(mockGit.diff).toHaveBeenCalledTimes(1);
+    expect(mockGit.diff).toHaveBeenCalledWith(['HEAD', '-M', '--', 'src/old-name.ts', 'src/new-name.ts']);
+    expect(parsePullRequestFiles).toHaveBeenCalledWith([
+      expect.objectContaining({ filename: 'src/new-name.ts', status: 'renamed', previous_filename: 'src/old-name.ts' }),
+      expect.objectContaining({ filename: 'src/deleted.ts', status: 'removed' }),
+    ]);
+  });
+
+  it('should only consider staged changes and read contents from the index', async () => {
+    vi.mocked(mockGit.diffSummary).mockResolvedValue({
+      files: [{ file: 'src/utils.ts', status: 'M', similarity: 0 }],
+    } as never);
+    vi.mocked(mockGit.diff).mockResolvedValue('diff content');
+    vi.mocked(mockGit.show).mockResolvedValue('export function staged() {}');
+    vi.mocked(parsePullRequestFiles).mockReturnValue([{
+      filename: 'src/utils.ts',
+      status: 'modified',
+      hunks: [],
+      additions: 1,
+      deletions: 0,
+    }]);
+    vi.mocked(getChangedRanges).mockReturnValue([{ start: 1, end: 1, type: 'addition' }]);
+    vi.mocked(analyzeFile).mockResolvedValue([]);
+
+    await extractLocalTestTargets(config, { staged: true });
+
+    expect(mockGit.diffSummary).toHaveBeenCalledWith(['--cached', '--name-status', '-M']);
+    expect(mockGit.show).toHaveBeenCalledWith([':src/utils.ts']);
+    expect(analyzeFile).toHaveBeenCalledWith(
+      'src/utils.ts', 'export function staged() {}', expect.anything(), 'HEAD', expect.anything(), '__tests__', true
+    );
+  });
+
+  it('should diff against the merge base and only test changed functions', async () => {
+    vi.mocked(mockGit.raw).mockImplementation(async (args: string[]) => (args[0] === 'merge-base' ? 'abc1234def\n' : 'sha'));
+    vi.mocked(mockGit.diffSummary).mockResolvedValue({
+      files: [{ file: 'src/utils.ts', status: 'M', similarity: 0 }],
+    } as never);
+    vi.mocked(mockGit.diff).mockResolvedValue('diff content');
+    vi.mocked(parsePullRequestFiles).mockReturnValue([{
+      filename: 'src/utils.ts',
+      status: 'modified',
+      hunks: [],
+      additions: 1,
+      deletions: 0,
+    }]);
+    vi.mocked(getChangedRanges).mockReturnValue([{ start: 1, end: 1, type: 'addition' }]);
+    vi.mocked(analyzeFile).mockResolvedValue([]);
+
+    await extractLocalTestTargets(config, { base: 'origin/main' });
+
+    expect(mockGit.raw).toHaveBeenCalledWith(['merge-base', 'origin/main', 'HEAD']);
+    expect(mockGit.diffSummary).toHaveBeenCalledWith(['abc1234def', '--name-status', '-M']);
+    expect(analyzeFile).toHaveBeenCalledWith(
+      'src/utils.ts', expect.anything(), expect.anything(), 'HEAD', expect.anything(), '__tests__', false
+    );
+  });
+
+  it('should read contents from the end of a commit range', async () => {
+    vi.mocked(mockGit.raw).mockResolvedValue('sha');
+    vi.mocked(mockGit.diffSummary).mockResolvedValue({
+      files: [{ file: 'src/utils.ts', status: 'A', similarity: 0 }],
+    } as never);
+    vi.mocked(mockGit.diff).mockResolvedValue('diff content');
+    vi.mocked(mockGit.show).mockResolvedValue('export function committed() {}');
+    vi.mocked(parsePullRequestFiles).mockReturnValue([{
+      filename: 'src/utils.ts',
+      status: 'added',
+      hunks: [],
+      additions: 1,
+      deletions: 0,
+    }]);
+    vi.mocked(getChangedRanges).mockReturnValue([{ start: 1, end: 1, type: 'addition' }]);
+    vi.mocked(analyzeFile).mockResolvedValue([]);
+
+    await extractLocalTestTargets(config, { base: 'HEAD~3..feature' });
+
+    expect(mockGit.diffSummary).toHaveBeenCalledWith(['HEAD~3..feature', '--name-status', '-M']);
+    expect(mockGit.show).toHaveBeenCalledWith(['feature:src/utils.ts']);
+    expect(parsePullRequestFiles).toHaveBeenCalledWith([expect.objectContaining({ status: 'added' })]);
+  });
+
+  it('should reject unknown refs', async () => {
+    vi.mocked(mockGit.raw).mockRejectedValue(new Error('fatal: Needed a single revision'));
+
+    await expect(extractLocalTestTargets(config, { base: 'nope' })).rejects.toThrow('Unknown git ref: nope');
+  });
+
+  it('should reject --staged with a commit range', async () => {
+    await expect(extractLocalTestTargets(config, { base: 'a..b', staged: true })).rejects.toThrow(KakarotError);
+  });
+});
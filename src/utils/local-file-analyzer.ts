@@ -4,9 +4,10 @@
  */
 
 import { readFileSync, existsSync } from 'fs';
-import { simpleGit } from 'simple-git';
+import { simpleGit, DiffNameStatus, type SimpleGit } from 'simple-git';
 import { minimatch } from 'minimatch';
 import type { KakarotConfig } from '../types/config.js';
+import { KakarotError } from '../types/errors.js';
 import type { ChangedRange } from '../types/diff.js';
 import { getChangedRanges } from './diff-parser.js';
 import { analyzeFile } from './ast-analyzer.js';
@@ -16,21 +17,117 @@ import { findProjectRoot } from './config-loader.js';
 import { parsePullRequestFiles } from './diff-parser.js';
 import type { PullRequestFile } from '../types/github.js';
 
+export interface LocalDiffOptions {
+  /** Ref to diff against (merge base with HEAD is used), or a commit range such as HEAD~3..HEAD */
+  base?: string;
+  /** Only consider staged changes */
+  staged?: boolean;
+}
+
+interface DiffSpec {
+  /** Arguments passed to git diff */
+  args: string[];
+  /** Where file contents come from: a commit ref, the index (''), or the working tree (null) */
+  contentRef: string | null;
+  /** Human-readable description for logs */
+  description: string;
+}
+
+/**
+ * Map git's --name-status letter to the PR file status used by diff-parser
+ */
+function toFileStatus(status: DiffNameStatus | undefined): PullRequestFile['status'] | undefined {
+  switch (status) {
+    case DiffNameStatus.ADDED:
+    case DiffNameStatus.COPIED:
+      return 'added';
+    case DiffNameStatus.DELETED:
+      return 'removed';
+    case DiffNameStatus.RENAMED:
+      return 'renamed';
+    case DiffNameStatus.MODIFIED:
+    case DiffNameStatus.CHANGED:
+      return 'modified';
+    default:
+      return undefined;
+  }
+}
+
+async function resolveDiffSpec(git: SimpleGit, options: LocalDiffOptions): Promise<DiffSpec> {
+  const base = options.base?.trim();
+
+  if (!base) {
+    return options.staged
+      ? { args: ['--cached'], contentRef: '', description: 'staged changes' }
+      : { args: ['HEAD'], contentRef: null, description: 'HEAD' };
+  }
+
+  if (base.startsWith('-')) {
+    throw new KakarotError(`Invalid base ref: ${base}`);
+  }
+
+  // Commit range: diff exactly what git would, reading contents from the range's end
+  const rangeMatch = base.match(/^(.*?)(\.\.\.?)(.*)$/);
+  if (rangeMatch) {
+    if (options.staged) {
+      throw new KakarotError('--staged cannot be combined with a commit range');
+    }
+    const endRef = rangeMatch[3] || 'HEAD';
+    await verifyRef(git, rangeMatch[1] || 'HEAD');
+    await verifyRef(git, endRef);
+    return { args: [base], contentRef: endRef, description: base };
+  }
+
+  await verifyRef(git, base);
+  // Like a PR, only count changes made since the branch diverged from base
+  const mergeBase = (await git.raw(['merge-base', base, 'HEAD'])).trim();
+  const description = `${base} (merge base ${mergeBase.slice(0, 7)})`;
+  return options.staged
+    ? { args: ['--cached', mergeBase], contentRef: '', description: `staged changes against ${description}` }
+    : { args: [mergeBase], contentRef: null, description };
+}
+
+async function verifyRef(git: SimpleGit, ref: string): Promise<void> {
+  try {
+    await git.raw(['rev-parse', '--verify', `${ref}^{commit}`]);
+  } catch {
+    throw new KakarotError(`Unknown git ref: ${ref}`);
+  }
+}
+
+/**
+ * Read a file as of the diff's content source
+ */
+async function readDiffContent(git: SimpleGit, projectRoot: string, spec: DiffSpec, file: string): Promise<string | null> {
+  if (spec.contentRef === null) {
+    const fullPath = `${projectRoot}/${file}`;
+    return existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null;
+  }
+  try {
+    return await git.show([`${spec.contentRef}:${file}`]);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Extract test targets from local git changes
+ *
+ * By default diffs the working tree (staged and unstaged) against HEAD.
+ * Use options.base to compare against another ref or a commit range, and
+ * options.staged to only consider the index.
  */
 export async function extractLocalTestTargets(
-  config: Pick<KakarotConfig, 'testDirectory' | 'testFilePattern' | 'includePatterns' | 'excludePatterns'>
+  config: Pick<KakarotConfig, 'testDirectory' | 'testFilePattern' | 'includePatterns' | 'excludePatterns'>,
+  options: LocalDiffOptions = {}
 ): Promise<TestTarget[]> {
   const projectRoot = await findProjectRoot();
   const git = simpleGit(projectRoot);
-  
-  // Get all changed files (staged and unstaged) by comparing working directory to HEAD
-  // This is more flexible than requiring files to be staged
-  const diffSummary = await git.diffSummary(['HEAD']);
-  const changedFiles = [
-    ...diffSummary.files.map(f => f.file),
-  ].filter(file => {
+  const spec = await resolveDiffSpec(git, options);
+
+  const diffSummary = await git.diffSummary([...spec.args, '--name-status', '-M']);
+  const changedFiles = diffSummary.files.filter(f => {
+    const file = f.file;
     // Filter by include/exclude patterns
     // Check exclude patterns first
     for (const pattern of config.excludePatterns) {
@@ -50,25 +147,33 @@ export async function extractLocalTestTargets(
   });
 
   if (changedFiles.length === 0) {
-    info('No changed files found (compared to HEAD)');
+    info(`No changed files found (compared to ${spec.description})`);
     return [];
   }
 
-  info(`Found ${changedFiles.length} changed file(s) in working directory (staged and unstaged)`);
+  info(`Found ${changedFiles.length} changed file(s) compared to ${spec.description}`);
 
   // Get diff for each file and convert to PullRequestFile format
   const prFiles: PullRequestFile[] = [];
   
-  for (const file of changedFiles) {
+  for (const changed of changedFiles) {
+    const file = changed.file;
+    const from = 'from' in changed ? changed.from : undefined;
+    const gitStatus = toFileStatus('status' in changed ? changed.status : undefined);
+
+    if (gitStatus === 'removed') {
+      prFiles.push({ filename: file, status: 'removed', additions: 0, deletions: 0, changes: 0 });
+      continue;
+    }
+
     try {
-      // Get file diff
-      const diff = await git.diff(['HEAD', '--', file]);
+      // Get file diff (include the old path so renames diff against their source)
+      const paths = from && from !== file ? [from, file] : [file];
+      const diff = await git.diff([...spec.args, '-M', '--', ...paths]);
       
       if (!diff) {
         // New file - no diff available
-        const fileContent = existsSync(`${projectRoot}/${file}`) 
-          ? readFileSync(`${projectRoot}/${file}`, 'utf-8')
-          : '';
+        const fileContent = (await readDiffContent(git, projectRoot, spec, file)) ?? '';
         
         prFiles.push({
           filename: file,
@@ -96,11 +201,12 @@ export async function extractLocalTestTargets(
 
       prFiles.push({
         filename: file,
-        status: 'modified',
+        status: gitStatus ?? 'modified',
         additions,
         deletions,
         changes: additions + deletions,
         patch: diff,
+        previous_filename: gitStatus === 'renamed' ? from : undefined,
       });
     } catch (err) {
       debug(`Failed to get diff for ${file}: ${err instanceof Error ? err.message : String(err)}`);
@@ -119,14 +225,13 @@ export async function extractLocalTestTargets(
 
     try {
       const filePath = diff.filename;
-      const fullPath = `${projectRoot}/${filePath}`;
+      const fileContent = await readDiffContent(git, projectRoot, spec, filePath);
       
-      if (!existsSync(fullPath)) {
+      if (fileContent === null) {
         debug(`File ${filePath} does not exist, skipping`);
         continue;
       }
 
-      const fileContent = readFileSync(fullPath, 'utf-8');
       const changedRanges = getChangedRanges(diff, fileContent);
 
       if (changedRanges.length === 0) {
@@ -147,8 +252,9 @@ export async function extractLocalTestTargets(
         },
       };
 
-      // For local mode, test all exported functions/classes in changed files
-      // This ensures comprehensive coverage when working on a file
+      // For working-tree changes, test all exported functions/classes in changed files
+      // This ensures comprehensive coverage when working on a file.
+      // Against a base ref, only test changed functions - the same selection PR mode makes
       const fileTargets = await analyzeFile(
         filePath,
         fileContent,
@@ -156,7 +262,7 @@ export async function extractLocalTestTargets(
         'HEAD',
         localFileChecker,
         config.testDirectory,
-        true // testAllExports = true for local mode
+        !options.base
       );
 
       targets.push(...fileTargets);
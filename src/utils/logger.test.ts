@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { initLogger, info, debug, warn, error, success, progress } from './logger.js';
+import { initLogger, info, debug, warn, error, success, progress, logToStderr } from './logger.js';
 
 describe('logger', () => {
   const originalEnv = process.env;
@@ -103,5 +103,23 @@ describe('logger', () => {
       spy.mockRestore();
     });
   });
-});
 
+  describe('logToStderr', () => {
+    afterEach(() => {
+      logToStderr(false);
+    });
+
+    it('should route info, success and progress to stderr', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      logToStderr();
+      info('a');
+      success('b');
+      progress(1, 2, 'c');
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledTimes(3);
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -2,23 +2,64 @@ import type { KakarotConfig } from '../types/config.js';
 
 let debugMode = false;
 let jsonMode = false;
+let stderrOnly = false;
+let liveStatusShown = false;
 
 export function initLogger(config: Pick<KakarotConfig, 'debug'>): void {
   debugMode = config.debug ?? process.env.KAKAROT_DEBUG === 'true';
   jsonMode = process.env.KAKAROT_OUTPUT === 'json';
 }
 
+/**
+ * Route info/success/progress output to stderr so stdout carries only
+ * machine-readable output (e.g. a JSON dry-run plan)
+ */
+export function logToStderr(enabled = true): void {
+  stderrOnly = enabled;
+}
+
+/**
+ * Show a single, continuously rewritten status line (e.g. streaming progress) on an
+ * interactive terminal. No-op when stderr is not a TTY or in JSON mode, so CI logs stay clean.
+ */
+export function liveStatus(message: string): void {
+  if (jsonMode || !process.stderr.isTTY) {
+    return;
+  }
+  process.stderr.write(`\r\x1b[K[kakarot-ci] ${message}`);
+  liveStatusShown = true;
+}
+
+/**
+ * Erase the live status line, if one is shown
+ */
+export function clearLiveStatus(): void {
+  if (liveStatusShown) {
+    process.stderr.write('\r\x1b[K');
+    liveStatusShown = false;
+  }
+}
+
+function out(...args: unknown[]): void {
+  clearLiveStatus();
+  if (stderrOnly) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
 
 export function info(message: string, ...args: unknown[]): void {
   if (jsonMode) {
-    console.log(JSON.stringify({ level: 'info', message, ...args }));
+    out(JSON.stringify({ level: 'info', message, ...args }));
   } else {
-    console.log(`[kakarot-ci] ${message}`, ...args);
+    out(`[kakarot-ci] ${message}`, ...args);
   }
 }
 
 export function debug(message: string, ...args: unknown[]): void {
   if (debugMode) {
+    clearLiveStatus();
     if (jsonMode) {
       console.debug(JSON.stringify({ level: 'debug', message, ...args }));
     } else {
@@ -28,6 +69,7 @@ export function debug(message: string, ...args: unknown[]): void {
 }
 
 export function warn(message: string, ...args: unknown[]): void {
+  clearLiveStatus();
   if (jsonMode) {
     console.warn(JSON.stringify({ level: 'warn', message, ...args }));
   } else {
@@ -36,6 +78,7 @@ export function warn(message: string, ...args: unknown[]): void {
 }
 
 export function error(message: string, ...args: unknown[]): void {
+  clearLiveStatus();
   if (jsonMode) {
     console.error(JSON.stringify({ level: 'error', message, ...args }));
   } else {
@@ -45,16 +88,16 @@ export function error(message: string, ...args: unknown[]): void {
 
 export function success(message: string, ...args: unknown[]): void {
   if (jsonMode) {
-    console.log(JSON.stringify({ level: 'success', message, ...args }));
+    out(JSON.stringify({ level: 'success', message, ...args }));
   } else {
-    console.log(`[kakarot-ci] ✓ ${message}`, ...args);
+    out(`[kakarot-ci] ✓ ${message}`, ...args);
   }
 }
 
 export function progress(step: number, total: number, message: string, ...args: unknown[]): void {
   if (jsonMode) {
-    console.log(JSON.stringify({ level: 'info', step, total, message, ...args }));
+    out(JSON.stringify({ level: 'info', step, total, message, ...args }));
   } else {
-    console.log(`[kakarot-ci] Step ${step}/${total}: ${message}`, ...args);
+    out(`[kakarot-ci] Step ${step}/${total}: ${message}`, ...args);
   }
 }
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listProjectFiles, matchesFilePatterns, selectTestFiles } from './project-files.js';
+import { readdirSync } from 'fs';
+
+vi.mock('fs', () => ({
+  readdirSync: vi.fn(),
+}));
+
+vi.mock('./logger.js', () => ({
+  debug: vi.fn(),
+}));
+
+function entry(name: string, isDir: boolean) {
+  return { name, isDirectory: () => isDir, isFile: () => !isDir };
+}
+
+describe('listProjectFiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list files recursively as relative paths', () => {
+    vi.mocked(readdirSync).mockImplementation(((path: string) => {
+      if (path === '/project') return [entry('src', true), entry('package.json', false)];
+      if (path === '/project/src') return [entry('index.ts', false), entry('utils', true)];
+      if (path === '/project/src/utils') return [entry('a.ts', false)];
+      return [];
+    }) as never);
+
+    expect(listProjectFiles('/project')).toEqual(['package.json', 'src/index.ts', 'src/utils/a.ts']);
+  });
+
+  it('should skip ignored and hidden directories', () => {
+    vi.mocked(readdirSync).mockImplementation(((path: string) => {
+      if (path === '/project') {
+        return [entry('node_modules', true), entry('dist', true), entry('.github', true), entry('a.ts', false)];
+      }
+      return [entry('nested.ts', false)];
+    }) as never);
+
+    expect(listProjectFiles('/project')).toEqual(['a.ts']);
+  });
+
+  it('should tolerate unreadable directories', () => {
+    vi.mocked(readdirSync).mockImplementation(() => {
+      throw new Error('EACCES');
+    });
+
+    expect(listProjectFiles('/project')).toEqual([]);
+  });
+});
+
+describe('matchesFilePatterns', () => {
+  const config = { includePatterns: ['src/**/*.ts'], excludePatterns: ['**/*.test.ts'] };
+
+  it('should match included files', () => {
+    expect(matchesFilePatterns('src/utils/a.ts', config)).toBe(true);
+    expect(matchesFilePatterns('scripts/a.ts', config)).toBe(false);
+  });
+
+  it('should let exclude patterns win', () => {
+    expect(matchesFilePatterns('src/a.test.ts', config)).toBe(false);
+  });
+});
+
+describe('selectTestFiles', () => {
+  const files = ['src/a.ts', 'src/a.test.ts', 'src/b.spec.tsx', '__tests__/c.test.js'];
+
+  it('should select every test file when no patterns are given', () => {
+    expect(selectTestFiles(undefined, files, '/project')).toEqual(['src/a.test.ts', 'src/b.spec.tsx', '__tests__/c.test.js']);
+  });
+
+  it('should match paths, ./-relative paths, absolute paths and globs', () => {
+    expect(selectTestFiles(['./src/a.test.ts', '/project/__tests__/c.test.js'], files, '/project'))
+      .toEqual(['__tests__/c.test.js', 'src/a.test.ts']);
+    expect(selectTestFiles(['src/**'], files, '/project')).toEqual(['src/a.test.ts', 'src/b.spec.tsx']);
+  });
+
+  it('should reject patterns that match no test file', () => {
+    expect(() => selectTestFiles(['src/a.ts'], files, '/project')).toThrow('No test files match "src/a.ts"');
+  });
+});
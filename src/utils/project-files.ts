@@ -0,0 +1,90 @@
+import { readdirSync } from 'fs';
+import { isAbsolute, join, relative } from 'path';
+import { minimatch } from 'minimatch';
+import type { KakarotConfig } from '../types/config.js';
+import { KakarotError } from '../types/errors.js';
+import { TEST_FILE_REGEX } from './test-file-path.js';
+import { debug } from './logger.js';
+
+/** Directories that never contain source or test files worth scanning */
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'coverage',
+  '.git',
+  '.kakarot',
+  '.next',
+  '.turbo',
+]);
+
+/**
+ * List all files under the project root as project-relative POSIX paths.
+ * Skips dependency, build output and hidden directories.
+ */
+export function listProjectFiles(projectRoot: string): string[] {
+  const files: string[] = [];
+
+  const walk = (relativeDir: string) => {
+    let entries;
+    try {
+      entries = readdirSync(join(projectRoot, relativeDir), { withFileTypes: true });
+    } catch (err) {
+      debug(`Failed to read directory ${relativeDir || '.'}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (IGNORED_DIRECTORIES.has(entry.name) || entry.name.startsWith('.')) {
+          continue;
+        }
+        walk(relativePath);
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  walk('');
+  return files.sort();
+}
+
+/**
+ * Check a project-relative path against includePatterns/excludePatterns.
+ * Exclude patterns win.
+ */
+export function matchesFilePatterns(
+  file: string,
+  config: Pick<KakarotConfig, 'includePatterns' | 'excludePatterns'>
+): boolean {
+  if (config.excludePatterns.some(pattern => minimatch(file, pattern))) {
+    return false;
+  }
+  return config.includePatterns.some(pattern => minimatch(file, pattern));
+}
+
+/**
+ * Select test files from explicit paths/globs, or every test file in the project when none are given.
+ * Throws when a pattern matches nothing.
+ */
+export function selectTestFiles(patterns: string[] | undefined, projectFiles: string[], projectRoot: string): string[] {
+  const testFiles = projectFiles.filter(file => TEST_FILE_REGEX.test(file));
+  if (!patterns || patterns.length === 0) {
+    return testFiles;
+  }
+
+  const selected = new Set<string>();
+  for (const pattern of patterns) {
+    const normalized = (isAbsolute(pattern) ? relative(projectRoot, pattern) : pattern)
+      .split('\\').join('/')
+      .replace(/^\.\//, '');
+    const matches = testFiles.filter(file => file === normalized || minimatch(file, normalized));
+    if (matches.length === 0) {
+      throw new KakarotError(`No test files match "${pattern}"`);
+    }
+    matches.forEach(file => selected.add(file));
+  }
+  return [...selected].sort();
+}
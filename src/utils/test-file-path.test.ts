@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getTestFilePath } from './test-file-path.js';
+import { getTestFilePath, findSourceFileForTest } from './test-file-path.js';
 import type { TestTarget } from '../types/diff.js';
 
 describe('getTestFilePath', () => {
@@ -102,3 +102,40 @@ describe('getTestFilePath', () => {
   });
 });
 
+
+describe('findSourceFileForTest', () => {
+  const projectFiles = [
+    'src/utils/helper.ts',
+    'src/utils/logger.ts',
+    'src/widgets/index.tsx',
+    'src/widgets/widgets.test.tsx',
+    '__tests__/helper.test.ts',
+  ];
+
+  it('should resolve an ESM .js import to the .ts source', () => {
+    const content = "import { log } from '../src/utils/logger.js';\nimport { helper } from '../src/utils/helper.js';";
+
+    expect(findSourceFileForTest('__tests__/helper.test.ts', content, projectFiles)).toBe('src/utils/helper.ts');
+  });
+
+  it('should fall back to the first resolvable relative import', () => {
+    const content = "import { log } from '../src/utils/logger';\nimport { x } from 'vitest';";
+
+    expect(findSourceFileForTest('__tests__/helper-extra.test.ts', content, projectFiles)).toBe('src/utils/logger.ts');
+  });
+
+  it('should resolve directory imports to index files', () => {
+    const content = "import { Widget } from './';";
+
+    expect(findSourceFileForTest('src/widgets/widgets.test.tsx', content, projectFiles)).toBe('src/widgets/index.tsx');
+  });
+
+  it('should fall back to a project file with the same base name', () => {
+    expect(findSourceFileForTest('__tests__/helper.test.ts', "import { helper } from '@/utils/helper';", projectFiles))
+      .toBe('src/utils/helper.ts');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(findSourceFileForTest('__tests__/unknown.spec.ts', '', projectFiles)).toBeNull();
+  });
+});
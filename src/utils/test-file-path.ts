@@ -1,3 +1,4 @@
+import { posix } from 'path';
 import type { KakarotConfig } from '../types/config.js';
 import type { TestTarget } from '../types/diff.js';
 
@@ -34,3 +35,55 @@ export function getTestFilePath(
   }
 }
 
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/** Matches test/spec file names, e.g. foo.test.ts or foo.spec.jsx */
+export const TEST_FILE_REGEX = /\.(test|spec)\.[cm]?[jt]sx?$/;
+
+/**
+ * Resolve a relative import specifier to a project file, trying the
+ * extensions and index files a bundler or TypeScript would
+ */
+function resolveImport(fromDir: string, specifier: string, projectFiles: Set<string>): string | null {
+  const base = posix.normalize(posix.join(fromDir, specifier));
+  // ESM TypeScript imports use .js for .ts sources
+  const stripped = base.replace(/\.[cm]?[jt]sx?$/, '');
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map(ext => `${stripped}${ext}`),
+    ...SOURCE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+  return candidates.find(candidate => projectFiles.has(candidate) && !TEST_FILE_REGEX.test(candidate)) ?? null;
+}
+
+/**
+ * Map an existing test file back to the source file it tests (the reverse of getTestFilePath).
+ * Prefers a relative import whose name matches the test file, then any relative import,
+ * then a project file with the same base name.
+ */
+export function findSourceFileForTest(testFile: string, testContent: string, projectFiles: string[]): string | null {
+  const files = new Set(projectFiles);
+  const testDir = posix.dirname(testFile);
+  const baseName = posix.basename(testFile).replace(TEST_FILE_REGEX, '');
+  const sameName = (file: string) => {
+    const stem = posix.basename(file).replace(/\.[jt]sx?$/, '');
+    return stem === baseName || (stem === 'index' && posix.basename(posix.dirname(file)) === baseName);
+  };
+
+  const importPattern = /(?:from\s+|import\s*\(\s*|require\s*\(\s*)['"](\.{1,2}\/[^'"]+)['"]/g;
+  const imported: string[] = [];
+  for (const match of testContent.matchAll(importPattern)) {
+    const resolved = resolveImport(testDir, match[1], files);
+    if (resolved && !imported.includes(resolved)) {
+      imported.push(resolved);
+    }
+  }
+
+  const match = imported.find(sameName) ?? imported[0];
+  if (match) {
+    return match;
+  }
+
+  return projectFiles.find(file => SOURCE_EXTENSIONS.some(ext => file.endsWith(ext)) && !TEST_FILE_REGEX.test(file) && sameName(file)) ?? null;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, colorizeUnifiedDiff } from './text-diff.js';
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string for identical content', () => {
+    expect(createUnifiedDiff('a\nb', 'a\nb', 'x.ts')).toBe('');
+  });
+
+  it('should show a changed line with surrounding context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const after = ['1', '2', '3', '4', 'five', '6', '7', '8'].join('\n');
+
+    expect(createUnifiedDiff(before, after, 'x.ts')).toBe([
+      '--- a/x.ts',
+      '+++ b/x.ts',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8',
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = 'changed 2';
+    changed[17] = 'changed 18';
+
+    const hunks = createUnifiedDiff(lines.join('\n'), changed.join('\n'), 'x.ts').split('\n').filter(l => l.startsWith('@@'));
+
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('should keep unchanged lines between insertions and deletions', () => {
+    const diff = createUnifiedDiff('a\nb\nc', 'a\nx\nc\nd', 'x.ts');
+
+    expect(diff.split('\n').slice(2)).toEqual(['@@ -1,3 +1,4 @@', ' a', '-b', '+x', ' c', '+d']);
+  });
+
+  it('should number pure insertions after the preceding line', () => {
+    const diff = createUnifiedDiff('a', 'a\nb', 'x.ts', 0);
+
+    expect(diff.split('\n').slice(2)).toEqual(['@@ -1,0 +2,1 @@', '+b']);
+  });
+});
+
+describe('createUnifiedDiff for new files', () => {
+  it('should diff against /dev/null', () => {
+    expect(createUnifiedDiff(null, 'a\nb\n', 'x.test.ts')).toBe([
+      '--- /dev/null',
+      '+++ b/x.test.ts',
+      '@@ -0,0 +1,2 @@',
+      '+a',
+      '+b',
+    ].join('\n'));
+  });
+});
+
+describe('colorizeUnifiedDiff', () => {
+  it('should color headers, hunk markers, removals and additions', () => {
+    const diff = ['--- a/x.ts', '+++ b/x.ts', '@@ -1,2 +1,2 @@', ' same', '-old', '+new'].join('\n');
+
+    expect(colorizeUnifiedDiff(diff).split('\n')).toEqual([
+      '\x1b[1m--- a/x.ts\x1b[0m',
+      '\x1b[1m+++ b/x.ts\x1b[0m',
+      '\x1b[36m@@ -1,2 +1,2 @@\x1b[0m',
+      ' same',
+      '\x1b[31m-old\x1b[0m',
+      '\x1b[32m+new\x1b[0m',
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Line-based unified diff for showing proposed test file changes
+ */
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+  /** 0-based index in the old text before this op */
+  oldIndex: number;
+  /** 0-based index in the new text before this op */
+  newIndex: number;
+}
+
+/** Above this many LCS cells, the changed middle is shown as one replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff the lines between the common prefix and suffix using a longest-common-subsequence table
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  const middle: Array<{ type: DiffOp['type']; line: string }> = [];
+  if (n * m > MAX_LCS_CELLS) {
+    oldMiddle.forEach(line => middle.push({ type: '-', line }));
+    newMiddle.forEach(line => middle.push({ type: '+', line }));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: ' ', line: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        // Deletions before insertions, as git prints them
+        middle.push({ type: '-', line: oldMiddle[i] });
+        i++;
+      } else {
+        middle.push({ type: '+', line: newMiddle[j] });
+        j++;
+      }
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const push = (type: DiffOp['type'], line: string) => {
+    ops.push({ type, line, oldIndex, newIndex });
+    if (type !== '+') oldIndex++;
+    if (type !== '-') newIndex++;
+  };
+  a.slice(0, prefix).forEach(line => push(' ', line));
+  middle.forEach(op => push(op.type, op.line));
+  a.slice(a.length - suffix).forEach(line => push(' ', line));
+  return ops;
+}
+
+/**
+ * Create a unified diff (as printed by `git diff`) between two versions of a file.
+ * Pass `null` as the old text for a file that did not exist.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(oldText: string | null, newText: string, fileName: string, contextLines = 3): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  if (oldText === null) {
+    const lines = newText.endsWith('\n') ? newText.slice(0, -1).split('\n') : newText.split('\n');
+    return [
+      '--- /dev/null',
+      `+++ b/${fileName}`,
+      `@@ -0,0 +1,${lines.length} @@`,
+      ...lines.map(line => `+${line}`),
+    ].join('\n');
+  }
+
+  const ops = diffLines(oldText.split('\n'), newText.split('\n'));
+
+  // Group changes into hunks, merging those whose context overlaps
+  const hunks: Array<{ start: number; end: number }> = [];
+  ops.forEach((op, index) => {
+    if (op.type === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(ops.length - 1, index + contextLines);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  for (const { start, end } of hunks) {
+    const hunkOps = ops.slice(start, end + 1);
+    const oldCount = hunkOps.filter(op => op.type !== '+').length;
+    const newCount = hunkOps.filter(op => op.type !== '-').length;
+    const oldStart = oldCount === 0 ? hunkOps[0].oldIndex : hunkOps[0].oldIndex + 1;
+    const newStart = newCount === 0 ? hunkOps[0].newIndex : hunkOps[0].newIndex + 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunkOps.forEach(op => output.push(`${op.type}${op.line}`));
+  }
+
+  return output.join('\n');
+}
+
+const ANSI = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  cyan: '\x1b[36m',
+  bold: '\x1b[1m',
+  reset: '\x1b[0m',
+};
+
+/**
+ * Color a unified diff for terminal output: headers bold, hunk markers cyan,
+ * removed lines red and added lines green
+ */
+export function colorizeUnifiedDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+        return `${ANSI.bold}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('@@')) {
+        return `${ANSI.cyan}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('-')) {
+        return `${ANSI.red}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('+')) {
+        return `${ANSI.green}${line}${ANSI.reset}`;
+      }
+      return line;
+    })
+    .join('\n');
+}
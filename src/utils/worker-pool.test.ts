@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { runPool, createKeyedQueue } from './worker-pool.js';
+
+/** A promise with its resolver exposed, so tests decide when work finishes */
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runPool', () => {
+  it('should start items in order and keep at most concurrency in flight', async () => {
+    const started: number[] = [];
+    let running = 0;
+    let peak = 0;
+
+    await runPool([0, 1, 2, 3, 4, 5], 2, async (item, index) => {
+      expect(index).toBe(item);
+      started.push(item);
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    });
+
+    expect(started).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('should tell each task which worker runs it', async () => {
+    const running = new Set<number>();
+    const workers: number[] = [];
+
+    await runPool([0, 1, 2, 3], 2, async (_item, _index, worker) => {
+      expect(running.has(worker)).toBe(false);
+      running.add(worker);
+      workers.push(worker);
+      await tick();
+      running.delete(worker);
+    });
+
+    expect(workers.slice(0, 2)).toEqual([0, 1]);
+    expect(new Set(workers)).toEqual(new Set([0, 1]));
+  });
+
+  it('should not start further items once a task returns stop', async () => {
+    const started: number[] = [];
+
+    await runPool([0, 1, 2, 3, 4], 1, async (item) => {
+      started.push(item);
+      return item === 1 ? 'stop' : undefined;
+    });
+
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('should rethrow the first error after running tasks settle', async () => {
+    const slow = deferred();
+    const finished: number[] = [];
+
+    const run = runPool([0, 1, 2, 3], 2, async (item) => {
+      if (item === 0) {
+        await slow.promise;
+        finished.push(item);
+        return;
+      }
+      throw new Error(`failed ${item}`);
+    });
+
+    await tick();
+    slow.resolve();
+
+    await expect(run).rejects.toThrow('failed 1');
+    expect(finished).toEqual([0]);
+  });
+
+  it('should handle an empty list', async () => {
+    await expect(runPool([], 4, async () => undefined)).resolves.toBeUndefined();
+  });
+});
+
+describe('createKeyedQueue', () => {
+  it('should run calls with the same key one after another in call order', async () => {
+    const withKey = createKeyedQueue();
+    const first = deferred();
+    const events: string[] = [];
+
+    const a = withKey('file.test.ts', async () => {
+      events.push('a start');
+      await first.promise;
+      events.push('a end');
+    });
+    const b = withKey('file.test.ts', async () => {
+      events.push('b');
+    });
+
+    await tick();
+    expect(events).toEqual(['a start']);
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(events).toEqual(['a start', 'a end', 'b']);
+  });
+
+  it('should run calls with different keys in parallel', async () => {
+    const withKey = createKeyedQueue();
+    const first = deferred();
+    const events: string[] = [];
+
+    const a = withKey('a.test.ts', async () => {
+      await first.promise;
+      events.push('a');
+    });
+    const b = withKey('b.test.ts', async () => {
+      events.push('b');
+    });
+
+    await b;
+    expect(events).toEqual(['b']);
+
+    first.resolve();
+    await a;
+    expect(events).toEqual(['b', 'a']);
+  });
+
+  it('should return results and keep going after a failed call', async () => {
+    const withKey = createKeyedQueue();
+
+    const failed = withKey('file.test.ts', async () => {
+      throw new Error('merge failed');
+    });
+    const next = withKey('file.test.ts', async () => 'merged');
+
+    await expect(failed).rejects.toThrow('merge failed');
+    await expect(next).resolves.toBe('merged');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Bounded concurrency helpers for running LLM-bound work in parallel
+ */
+
+/**
+ * Run `task` for every item, at most `concurrency` at a time, starting items in order.
+ * Each call gets the number of the worker running it, for state kept per worker.
+ * A task returning 'stop' keeps further items from starting. The first error does the same,
+ * and is rethrown once the tasks already running have settled.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number, worker: number) => Promise<void | 'stop'>
+): Promise<void> {
+  let next = 0;
+  let stopped = false;
+  const errors: unknown[] = [];
+
+  const work = async (_: unknown, worker: number): Promise<void> => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      try {
+        if (await task(items[index], index, worker) === 'stop') {
+          stopped = true;
+        }
+      } catch (err) {
+        stopped = true;
+        errors.push(err);
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, work);
+  await Promise.all(workers);
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+}
+
+/**
+ * Serialize work per key: calls with the same key run one after another, in call order,
+ * while calls with different keys run freely
+ */
+export function createKeyedQueue(): <R>(key: string, fn: () => Promise<R>) => Promise<R> {
+  const tails = new Map<string, Promise<unknown>>();
+  return <R>(key: string, fn: () => Promise<R>): Promise<R> => {
+    const previous = tails.get(key) ?? Promise.resolve();
+    const run = previous.then(fn);
+    const tail = run.catch(() => undefined);
+    tails.set(key, tail);
+    // Drop settled keys so a long run does not keep one promise per test file
+    void tail.then(() => {
+      if (tails.get(key) === tail) {
+        tails.delete(key);
+      }
+    });
+    return run;
+  };
+}